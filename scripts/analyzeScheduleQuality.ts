@@ -26,7 +26,7 @@ import type { Round, Schedule, Evaluation } from "../src/types/schedule";
 
 // ─── 定数 ────────────────────────────────────────────────────
 
-const WEIGHTS = { w1: 1.0, w2: 0.5, w3: 2.0 };
+const WEIGHTS = { w1: 1.0, w2: 0.5, w3: 2.0, w4: 1.0 };
 const RUNS = 10;
 
 // ─── 型定義 ──────────────────────────────────────────────────
@@ -1,21 +1,80 @@
 import { useState, useCallback, useEffect, useRef } from "react";
-import { AppBar, Toolbar, Container, Typography, Box, LinearProgress } from "@mui/material";
+import { AppBar, Toolbar, Container, Typography, Box, LinearProgress, Button, Alert } from "@mui/material";
+import ShareIcon from "@mui/icons-material/Share";
 import { useScheduleGenerator } from "./hooks/useScheduleGenerator";
+import { useSessionPersistence } from "./hooks/useSessionPersistence";
+import { loadSession, clearSession } from "./utils/persistence";
+import { DEFAULT_SCORING_FORMAT_ID, getScoringFormat, filterResultsByRounds } from "./utils/scoring";
+import { hasRatings } from "./utils/rating";
+import { hasSinglesMatches } from "./utils/singles";
+import { DEFAULT_TIMER_SETTINGS } from "./utils/timer";
+import { readSharedSchedule, SHARE_HASH_PREFIX } from "./utils/share";
+import { DEFAULT_STRATEGY_ID } from "./strategies/registry";
 import { ScheduleForm } from "./components/ScheduleForm";
 import { ScheduleTable } from "./components/ScheduleTable";
 import { EvaluationDisplay } from "./components/EvaluationDisplay";
 import { PlayerStatsTable } from "./components/PlayerStatsTable";
-import type { ScheduleParams, RegenerationParams, FixedPair, Round } from "./types/schedule";
+import { StandingsTable } from "./components/StandingsTable";
+import { ExportMenu } from "./components/ExportMenu";
+import { ShareDialog } from "./components/ShareDialog";
+import { StrategyComparisonDialog } from "./components/StrategyComparisonDialog";
+import { CandidateSelectionDialog, type CandidateRequest } from "./components/CandidateSelectionDialog";
+import { UpdatePrompt } from "./components/UpdatePrompt";
+import type { ImportedSchedule } from "./utils/import";
+import type { CandidateGenerationOptions } from "./hooks/useCandidateGeneration";
+import type { StrategyId } from "./strategies/types";
+import type { Schedule, ScheduleParams, RegenerationParams, FixedPair, PairConstraint, Round, RoundTiming, Participant, MatchResult, MatchResults, ScoringFormatId, TimerSettings, TimePlan } from "./types/schedule";
 
 function App() {
-  const { schedule, isGenerating, progress, error, generate, regenerate, partialSchedule, cancel, reset } = useScheduleGenerator();
+  // 共有リンクから開いた場合は閲覧専用モード（設定フォームを隠し、セッションの復元・保存もしない）
+  const [shared] = useState(() => readSharedSchedule(window.location.hash));
+  const isReadOnly = shared !== null;
+  // 起動時に保存済みセッションを復元（初回レンダー時のみ読み込む）
+  const [restored] = useState(() => (isReadOnly ? null : loadSession()));
+  const [strategyId, setStrategyId] = useState<StrategyId>(restored?.strategyId ?? DEFAULT_STRATEGY_ID);
+  const { schedule, isGenerating, progress, error, generate, regenerate, partialSchedule, updateSchedule, cancel, reset, load } = useScheduleGenerator(
+    strategyId,
+    shared?.isValid ? shared.schedule : (restored?.schedule ?? null),
+  );
   const displaySchedule = schedule ?? partialSchedule;
-  const [completedMatches, setCompletedMatches] = useState<Set<string>>(new Set());
-  const [openedAt, setOpenedAt] = useState<Record<string, Date>>({});
-  const [lastParams, setLastParams] = useState<ScheduleParams | null>(null);
-  const [fixedPairs, setFixedPairs] = useState<FixedPair[]>([]);
-  const [speechPitch, setSpeechPitch] = useState(1.0);
-  const [speechRate, setSpeechRate] = useState(1.0);
+  const [completedMatches, setCompletedMatches] = useState<Set<string>>(restored?.completedMatches ?? new Set());
+  const [openedAt, setOpenedAt] = useState<Record<string, Date>>(restored?.openedAt ?? {});
+  const [lastParams, setLastParams] = useState<ScheduleParams | null>(restored?.lastParams ?? null);
+  const [fixedPairs, setFixedPairs] = useState<FixedPair[]>(restored?.fixedPairs ?? []);
+  const [forbiddenPairs, setForbiddenPairs] = useState<PairConstraint[]>(restored?.forbiddenPairs ?? []);
+  const [forbiddenOpponents, setForbiddenOpponents] = useState<PairConstraint[]>(restored?.forbiddenOpponents ?? []);
+  const [roster, setRoster] = useState<Participant[]>(restored?.roster ?? []);
+  const [matchResults, setMatchResults] = useState<MatchResults>(restored?.matchResults ?? {});
+  const [scoringFormatId, setScoringFormatId] = useState<ScoringFormatId>(restored?.scoringFormatId ?? DEFAULT_SCORING_FORMAT_ID);
+  const [speechPitch, setSpeechPitch] = useState(restored?.speechPitch ?? 1.0);
+  const [speechRate, setSpeechRate] = useState(restored?.speechRate ?? 1.0);
+  const [timerSettings, setTimerSettings] = useState<TimerSettings>(restored?.timerSettings ?? DEFAULT_TIMER_SETTINGS);
+  const [shareOpen, setShareOpen] = useState(false);
+  // アルゴリズム比較に使う設定（null の間は比較ダイアログを閉じる）
+  const [compareParams, setCompareParams] = useState<ScheduleParams | null>(null);
+  const [candidateRequest, setCandidateRequest] = useState<CandidateRequest | null>(null);
+
+  // セッション全体を変更のたびに保存（生成中は途中状態で上書きしない）
+  useSessionPersistence(
+    { schedule, completedMatches, openedAt, lastParams, fixedPairs, forbiddenPairs, forbiddenOpponents, roster, matchResults, scoringFormatId, strategyId, speechPitch, speechRate, timerSettings },
+    isGenerating || isReadOnly,
+  );
+
+  // 開いたまま別の共有リンクに移動した場合は読み込み直す
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (isReadOnly || window.location.hash.startsWith(SHARE_HASH_PREFIX)) {
+        window.location.reload();
+      }
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [isReadOnly]);
+
+  // 閲覧専用モードを終了して通常の画面に戻る
+  const handleExitReadOnly = useCallback(() => {
+    window.location.hash = "";
+  }, []);
 
   // 新規生成か再生成かを区別するためのフラグ
   const isRegenerating = useRef(false);
@@ -28,6 +87,17 @@ function App() {
     });
   }, []);
 
+  // 試合タイマーの計測記録は再生成せずにラウンドへ保存（消化済みラウンドとして再生成後も保持される）
+  const handleTimingChange = useCallback(
+    (roundNumber: number, timing: RoundTiming | undefined) => {
+      updateSchedule((prev) => ({
+        ...prev,
+        rounds: prev.rounds.map((round) => (round.roundNumber === roundNumber ? { ...round, timing } : round)),
+      }));
+    },
+    [updateSchedule],
+  );
+
   // トグルハンドラー
   const handleToggleComplete = useCallback((matchId: string) => {
     setCompletedMatches((prev) => {
@@ -41,6 +111,19 @@ function App() {
     });
   }, []);
 
+  // 試合結果の記録・削除（null で削除）
+  const handleMatchResultChange = useCallback((key: string, result: MatchResult | null) => {
+    setMatchResults((prev) => {
+      const next = { ...prev };
+      if (result) {
+        next[key] = result;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  }, []);
+
   // schedule変更時にfixedPairsを同期
   useEffect(() => {
     if (schedule) {
@@ -48,24 +131,123 @@ function App() {
     }
   }, [schedule]);
 
+  // schedule変更時にペア禁止・対戦禁止を同期
+  useEffect(() => {
+    if (schedule) {
+      setForbiddenPairs(schedule.forbiddenPairs);
+      setForbiddenOpponents(schedule.forbiddenOpponents);
+    }
+  }, [schedule]);
+
+  // schedule変更時にrosterを同期
+  useEffect(() => {
+    if (schedule) {
+      setRoster(schedule.roster);
+    }
+  }, [schedule]);
+
+  // 名簿編集は再生成せずに生成済みスケジュールへ反映
+  const handleRosterChange = useCallback(
+    (newRoster: Participant[]) => {
+      setRoster(newRoster);
+      updateSchedule((prev) => ({ ...prev, roster: newRoster }));
+    },
+    [updateSchedule],
+  );
+
+  // コート名の編集も再生成せずに生成済みスケジュールへ反映
+  const handleCourtNamesChange = useCallback(
+    (courtNames: string[]) => {
+      updateSchedule((prev) => ({ ...prev, courtNames }));
+    },
+    [updateSchedule],
+  );
+
+  // 開始時刻などの変更（開始が遅れた場合など）も再生成せずに予定時刻へ反映
+  const handleTimePlanChange = useCallback(
+    (timePlan: TimePlan | undefined) => {
+      updateSchedule((prev) => ({ ...prev, timePlan }));
+    },
+    [updateSchedule],
+  );
+
   // 新規生成時のみ消化済み状態をリセット（再生成時は保持）
   useEffect(() => {
     if (isGenerating && !isRegenerating.current) {
       setCompletedMatches(new Set());
       setOpenedAt({});
+      setMatchResults({});
     }
   }, [isGenerating]);
 
   const handleClear = useCallback(() => {
     reset();
+    clearSession();
     setCompletedMatches(new Set());
     setOpenedAt({});
     setLastParams(null);
     setFixedPairs([]);
+    setForbiddenPairs([]);
+    setForbiddenOpponents([]);
+    setRoster([]);
+    setMatchResults({});
+    setScoringFormatId(DEFAULT_SCORING_FORMAT_ID);
+    setStrategyId(DEFAULT_STRATEGY_ID);
     setSpeechRate(1.0);
     setSpeechPitch(1.0);
+    setTimerSettings(DEFAULT_TIMER_SETTINGS);
   }, [reset]);
 
+  // インポート → 読み込んだ対戦表と試合結果でセッションを置き換える（以降はラウンド追加・再生成が可能）
+  const handleImport = useCallback(
+    (data: ImportedSchedule, params: ScheduleParams) => {
+      load(data.schedule);
+      setLastParams(params);
+      setCompletedMatches(new Set());
+      setOpenedAt({});
+      setMatchResults(data.matchResults);
+      setScoringFormatId(data.scoringFormatId);
+    },
+    [load],
+  );
+
+  // 比較結果を採用 → そのアルゴリズムで新規生成したものとして扱う
+  const handleSelectComparison = useCallback(
+    (selectedId: StrategyId, selected: Schedule) => {
+      if (!compareParams) return;
+      setStrategyId(selectedId);
+      load(selected);
+      setLastParams(compareParams);
+      setCompletedMatches(new Set());
+      setOpenedAt({});
+      setMatchResults({});
+      setCompareParams(null);
+    },
+    [compareParams, load],
+  );
+
+  // 複数候補を生成して比較する（採用までは現在の表示を変えない）
+  const handleGenerateCandidates = useCallback(
+    (params: ScheduleParams, options: CandidateGenerationOptions) => {
+      setCandidateRequest({ params, strategyId, options });
+    },
+    [strategyId],
+  );
+
+  // 候補を採用 → 新規生成したものとして扱う
+  const handleSelectCandidate = useCallback(
+    (selected: Schedule) => {
+      if (!candidateRequest) return;
+      load(selected);
+      setLastParams(candidateRequest.params);
+      setCompletedMatches(new Set());
+      setOpenedAt({});
+      setMatchResults({});
+      setCandidateRequest(null);
+    },
+    [candidateRequest, load],
+  );
+
   const handleGenerate = useCallback(
     (params: ScheduleParams) => {
       setLastParams(params);
@@ -78,6 +260,8 @@ function App() {
   const handleRegenerate = useCallback(
     (params: RegenerationParams) => {
       isRegenerating.current = true;
+      // 再生成されるラウンドの結果は組み合わせが変わるため破棄
+      setMatchResults((prev) => filterResultsByRounds(prev, new Set(params.completedRounds.map((r) => r.roundNumber))));
       regenerate(params);
     },
     [regenerate],
@@ -93,6 +277,17 @@ function App() {
       remainingRoundsCount: 1,
       weights: lastParams.weights,
       fixedPairs: schedule.fixedPairs,
+      forbiddenPairs: schedule.forbiddenPairs,
+      forbiddenOpponents: schedule.forbiddenOpponents,
+      roster: schedule.roster,
+      mixedDoubles: schedule.mixedDoubles,
+      courtChanges: schedule.courtChanges,
+      courtNames: schedule.courtNames,
+      balanceCourts: schedule.balanceCourts,
+      singlesCourts: schedule.singlesCourts,
+      timePlan: schedule.timePlan,
+      availability: schedule.availability,
+      breaks: schedule.breaks,
     });
   }, [schedule, lastParams, regenerate]);
 
@@ -106,6 +301,8 @@ function App() {
         editedRound,
       ];
       const remainingRoundsCount = schedule.rounds.length - roundIndex - 1;
+      // 編集したラウンド以降の結果は組み合わせが変わるため破棄
+      setMatchResults((prev) => filterResultsByRounds(prev, new Set(schedule.rounds.slice(0, roundIndex).map((r) => r.roundNumber))));
       regenerate({
         courtsCount: schedule.courts,
         completedRounds,
@@ -113,6 +310,17 @@ function App() {
         remainingRoundsCount,
         weights: lastParams.weights,
         fixedPairs: schedule.fixedPairs,
+        forbiddenPairs: schedule.forbiddenPairs,
+        forbiddenOpponents: schedule.forbiddenOpponents,
+        roster: schedule.roster,
+        mixedDoubles: schedule.mixedDoubles,
+        courtChanges: schedule.courtChanges,
+        courtNames: schedule.courtNames,
+        balanceCourts: schedule.balanceCourts,
+        singlesCourts: schedule.singlesCourts,
+        timePlan: schedule.timePlan,
+        availability: schedule.availability,
+        breaks: schedule.breaks,
       });
     },
     [schedule, lastParams, regenerate],
@@ -130,22 +338,57 @@ function App() {
       </AppBar>
 
       <Container maxWidth="lg" sx={{ py: { xs: 2, sm: 4 }, px: { xs: 1, sm: 3 } }}>
+        {/* 閲覧専用モードの案内 */}
+        {isReadOnly && (
+          <Alert
+            severity={shared.isValid ? "info" : "error"}
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={handleExitReadOnly}>
+                自分で作成
+              </Button>
+            }
+          >
+            {shared.isValid ? "共有された対戦表（閲覧専用）" : `共有リンクを開けませんでした: ${shared.errorMessages.join(" / ")}`}
+          </Alert>
+        )}
+
         {/* 入力フォーム */}
-        <ScheduleForm
-          onGenerate={handleGenerate}
-          onRegenerate={handleRegenerate}
-          onCancel={cancel}
-          onClear={handleClear}
-          isGenerating={isGenerating}
-          schedule={!isGenerating ? schedule : null}
-          completedMatches={completedMatches}
-          fixedPairs={fixedPairs}
-          onFixedPairsChange={setFixedPairs}
-          speechPitch={speechPitch}
-          onSpeechPitchChange={setSpeechPitch}
-          speechRate={speechRate}
-          onSpeechRateChange={setSpeechRate}
-        />
+        {!isReadOnly && (
+          <ScheduleForm
+            onGenerate={handleGenerate}
+            onRegenerate={handleRegenerate}
+            onCancel={cancel}
+            onClear={handleClear}
+            onImport={handleImport}
+            onCompare={setCompareParams}
+            onGenerateCandidates={handleGenerateCandidates}
+            initialParams={restored?.lastParams ?? null}
+            isGenerating={isGenerating}
+            schedule={!isGenerating ? schedule : null}
+            completedMatches={completedMatches}
+            fixedPairs={fixedPairs}
+            onFixedPairsChange={setFixedPairs}
+            forbiddenPairs={forbiddenPairs}
+            onForbiddenPairsChange={setForbiddenPairs}
+            forbiddenOpponents={forbiddenOpponents}
+            onForbiddenOpponentsChange={setForbiddenOpponents}
+            roster={roster}
+            onRosterChange={handleRosterChange}
+            onCourtNamesChange={handleCourtNamesChange}
+            onTimePlanChange={handleTimePlanChange}
+            scoringFormatId={scoringFormatId}
+            onScoringFormatChange={setScoringFormatId}
+            strategyId={strategyId}
+            onStrategyChange={setStrategyId}
+            speechPitch={speechPitch}
+            onSpeechPitchChange={setSpeechPitch}
+            speechRate={speechRate}
+            onSpeechRateChange={setSpeechRate}
+            timerSettings={timerSettings}
+            onTimerSettingsChange={setTimerSettings}
+          />
+        )}
 
         {/* 進捗付きローディング状態 */}
         <Box sx={{ my: 4, visibility: isGenerating ? "visible" : "hidden" }}>
@@ -167,6 +410,15 @@ function App() {
         {/* 結果 */}
         {displaySchedule && (
           <>
+            {schedule && !isGenerating && !isReadOnly && (
+              <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1, mb: 1 }}>
+                <Button variant="outlined" size="small" startIcon={<ShareIcon />} onClick={() => setShareOpen(true)}>
+                  共有
+                </Button>
+                <ExportMenu schedule={schedule} matchResults={matchResults} scoringFormatId={scoringFormatId} />
+                <ShareDialog open={shareOpen} schedule={schedule} onClose={() => setShareOpen(false)} />
+              </Box>
+            )}
             <ScheduleTable
               schedule={displaySchedule}
               completedMatches={completedMatches}
@@ -177,10 +429,15 @@ function App() {
               speechPitch={speechPitch}
               speechRate={speechRate}
               onEditRound={!isGenerating && schedule && lastParams ? handleEditRound : undefined}
+              matchResults={matchResults}
+              scoringFormat={getScoringFormat(scoringFormatId)}
+              onMatchResultChange={!isGenerating && schedule && !isReadOnly ? handleMatchResultChange : undefined}
+              timerSettings={timerSettings}
+              onTimingChange={!isGenerating && schedule && !isReadOnly ? handleTimingChange : undefined}
             />
-            {schedule && (
+            {schedule && !isReadOnly && (
               <Box sx={{ visibility: isGenerating ? "hidden" : "visible" }}>
-                <EvaluationDisplay evaluation={schedule.evaluation} />
+                <EvaluationDisplay evaluation={schedule.evaluation} hasRatings={hasRatings(schedule.roster)} hasSingles={hasSinglesMatches(schedule.rounds)} />
               </Box>
             )}
             {schedule && (
@@ -188,9 +445,32 @@ function App() {
                 <PlayerStatsTable schedule={schedule} />
               </Box>
             )}
+            {schedule && Object.keys(matchResults).length > 0 && (
+              <Box sx={{ visibility: isGenerating ? "hidden" : "visible" }}>
+                <StandingsTable schedule={schedule} matchResults={matchResults} />
+              </Box>
+            )}
           </>
         )}
       </Container>
+
+      {/* アルゴリズム比較 */}
+      <StrategyComparisonDialog
+        open={compareParams !== null}
+        params={compareParams}
+        onClose={() => setCompareParams(null)}
+        onSelect={handleSelectComparison}
+      />
+
+      {/* 複数候補の比較 */}
+      <CandidateSelectionDialog
+        request={candidateRequest}
+        onClose={() => setCandidateRequest(null)}
+        onSelect={handleSelectCandidate}
+      />
+
+      {/* PWA の更新通知 */}
+      <UpdatePrompt />
     </>
   );
 }
@@ -6,6 +6,7 @@ import type { Round } from '../../types/schedule';
 import { arrangementToRoundWithRest } from '../../utils/normalization';
 import { createInitialArrangement, nextPermutation } from '../../utils/permutation';
 import { isNormalized } from '../../utils/normalization';
+import { createRandom } from '../../utils/random';
 
 /**
  * テスト用のラウンドデータを生成
@@ -19,6 +20,7 @@ export function createTestRounds(
   const playingCount = courtsCount * 4;
   const restCount = playersCount - playingCount;
   const rounds: Round[] = [];
+  const random = createRandom(BENCHMARK_SEED);
 
   // 初期配列を作成
   const allPlayers = createInitialArrangement(playersCount);
@@ -36,7 +38,7 @@ export function createTestRounds(
     let attempts = 0;
     do {
       if (isNormalized(arrangement, courtsCount)) {
-        rounds.push(arrangementToRoundWithRest(arrangement.slice(), courtsCount, r, restingPlayers));
+        rounds.push(arrangementToRoundWithRest(arrangement.slice(), courtsCount, r, restingPlayers, random));
         found = true;
         break;
       }
@@ -46,7 +48,7 @@ export function createTestRounds(
     // 見つからない場合は初期配列を使用
     if (!found) {
       const defaultArrangement = createInitialArrangement(playingCount);
-      rounds.push(arrangementToRoundWithRest(defaultArrangement, courtsCount, r, restingPlayers));
+      rounds.push(arrangementToRoundWithRest(defaultArrangement, courtsCount, r, restingPlayers, random));
     }
   }
 
@@ -93,4 +95,10 @@ export const DEFAULT_WEIGHTS = {
   w1: 1.0,
   w2: 0.5,
   w3: 2.0,
+  w4: 1.0,
 } as const;
+
+/**
+ * ベンチマーク用の乱数シード（実行ごとの探索経路のばらつきを除く）
+ */
+export const BENCHMARK_SEED = 12345;
@@ -5,7 +5,7 @@
 import { bench, describe } from "vitest";
 import { generateSchedule } from "../../hooks/useScheduleGenerator";
 import type { ScheduleParams } from "../../types/schedule";
-import { DEFAULT_WEIGHTS, BENCHMARK_SCENARIOS } from "../helpers/fixtures";
+import { DEFAULT_WEIGHTS, BENCHMARK_SCENARIOS, BENCHMARK_SEED } from "../helpers/fixtures";
 
 describe("generateSchedule - 基準シナリオ", () => {
   bench("1コート 4人 5ラウンド（最小構成）", () => {
@@ -14,6 +14,7 @@ describe("generateSchedule - 基準シナリオ", () => {
       playersCount: BENCHMARK_SCENARIOS.small.players,
       roundsCount: BENCHMARK_SCENARIOS.small.rounds,
       weights: DEFAULT_WEIGHTS,
+      seed: BENCHMARK_SEED,
       fixedPairs: [],
     };
     generateSchedule(params);
@@ -27,6 +28,7 @@ describe("generateSchedule - 基準シナリオ", () => {
         playersCount: BENCHMARK_SCENARIOS.medium.players,
         roundsCount: BENCHMARK_SCENARIOS.medium.rounds,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -44,6 +46,7 @@ describe("generateSchedule - 休憩あり", () => {
         playersCount: 9,
         roundsCount: 7,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -59,6 +62,7 @@ describe("generateSchedule - 休憩あり", () => {
         playersCount: BENCHMARK_SCENARIOS.mediumWithRest.players,
         roundsCount: BENCHMARK_SCENARIOS.mediumWithRest.rounds,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -74,6 +78,7 @@ describe("generateSchedule - 休憩あり", () => {
         playersCount: 6,
         roundsCount: 5,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -91,6 +96,7 @@ describe("generateSchedule - 大規模", () => {
         playersCount: BENCHMARK_SCENARIOS.large.players,
         roundsCount: BENCHMARK_SCENARIOS.large.rounds,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -106,6 +112,7 @@ describe("generateSchedule - 大規模", () => {
         playersCount: 8,
         roundsCount: 10,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [],
       };
       generateSchedule(params);
@@ -123,6 +130,7 @@ describe("generateSchedule - 固定ペアあり", () => {
         playersCount: 8,
         roundsCount: 7,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [{ player1: 1, player2: 2 }],
       };
       generateSchedule(params);
@@ -138,6 +146,7 @@ describe("generateSchedule - 固定ペアあり", () => {
         playersCount: 8,
         roundsCount: 7,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [
           { player1: 1, player2: 2 },
           { player1: 3, player2: 4 },
@@ -156,6 +165,7 @@ describe("generateSchedule - 固定ペアあり", () => {
         playersCount: 10,
         roundsCount: 7,
         weights: DEFAULT_WEIGHTS,
+        seed: BENCHMARK_SEED,
         fixedPairs: [{ player1: 1, player2: 2 }],
       };
       generateSchedule(params);
@@ -170,6 +180,7 @@ describe("generateSchedule - 重み調整", () => {
     playersCount: 8,
     roundsCount: 7,
     fixedPairs: [],
+    seed: BENCHMARK_SEED,
   };
 
   bench(
@@ -177,7 +188,7 @@ describe("generateSchedule - 重み調整", () => {
     () => {
       generateSchedule({
         ...baseParams,
-        weights: { w1: 1.0, w2: 0.5, w3: 2.0 },
+        weights: { w1: 1.0, w2: 0.5, w3: 2.0, w4: 1.0 },
       });
     },
     { iterations: 10 },
@@ -188,7 +199,7 @@ describe("generateSchedule - 重み調整", () => {
     () => {
       generateSchedule({
         ...baseParams,
-        weights: { w1: 2.0, w2: 0.5, w3: 1.0 },
+        weights: { w1: 2.0, w2: 0.5, w3: 1.0, w4: 1.0 },
       });
     },
     { iterations: 10 },
@@ -199,7 +210,7 @@ describe("generateSchedule - 重み調整", () => {
     () => {
       generateSchedule({
         ...baseParams,
-        weights: { w1: 0.5, w2: 0.5, w3: 3.0 },
+        weights: { w1: 0.5, w2: 0.5, w3: 3.0, w4: 1.0 },
       });
     },
     { iterations: 10 },
@@ -210,7 +221,7 @@ describe("generateSchedule - 重み調整", () => {
     () => {
       generateSchedule({
         ...baseParams,
-        weights: { w1: 0.5, w2: 2.0, w3: 1.0 },
+        weights: { w1: 0.5, w2: 2.0, w3: 1.0, w4: 1.0 },
       });
     },
     { iterations: 10 },
@@ -224,6 +235,7 @@ describe("generateSchedule - ラウンド数の影響", () => {
       playersCount: 8,
       roundsCount: 3,
       weights: DEFAULT_WEIGHTS,
+      seed: BENCHMARK_SEED,
       fixedPairs: [],
     });
   });
@@ -234,6 +246,7 @@ describe("generateSchedule - ラウンド数の影響", () => {
       playersCount: 8,
       roundsCount: 5,
       weights: DEFAULT_WEIGHTS,
+      seed: BENCHMARK_SEED,
       fixedPairs: [],
     });
   });
@@ -244,6 +257,7 @@ describe("generateSchedule - ラウンド数の影響", () => {
       playersCount: 8,
       roundsCount: 7,
       weights: DEFAULT_WEIGHTS,
+      seed: BENCHMARK_SEED,
       fixedPairs: [],
     });
   });
@@ -11,7 +11,10 @@ import {
   updateRestCounts,
 } from '../../utils/evaluation';
 import { arrangementToRoundWithRest } from '../../utils/normalization';
-import { createTestRounds, DEFAULT_WEIGHTS } from '../helpers/fixtures';
+import { createRandom } from '../../utils/random';
+import { BENCHMARK_SEED, createTestRounds, DEFAULT_WEIGHTS } from '../helpers/fixtures';
+
+const random = createRandom(BENCHMARK_SEED);
 
 describe('initializeCountMatrix', () => {
   bench('8人行列初期化 (8x8)', () => {
@@ -46,8 +49,8 @@ describe('initializeRestCounts', () => {
 });
 
 describe('updateCountMatrices', () => {
-  const round2Courts = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, []);
-  const round3Courts = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, []);
+  const round2Courts = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [], random);
+  const round3Courts = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, [], random);
 
   bench('2コート1ラウンド更新', () => {
     const pairCounts = initializeCountMatrix(8);
@@ -63,7 +66,7 @@ describe('updateCountMatrices', () => {
 });
 
 describe('updateRestCounts', () => {
-  const roundWithRest = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [9, 10]);
+  const roundWithRest = arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [9, 10], random);
 
   bench('2人休憩の更新', () => {
     const restCounts = initializeRestCounts(10);
@@ -4,6 +4,10 @@
 
 import { bench, describe } from 'vitest';
 import { isNormalized, arrangementToRoundWithRest } from '../../utils/normalization';
+import { createRandom } from '../../utils/random';
+import { BENCHMARK_SEED } from '../helpers/fixtures';
+
+const random = createRandom(BENCHMARK_SEED);
 
 describe('isNormalized', () => {
   describe('2コート', () => {
@@ -57,22 +61,22 @@ describe('isNormalized', () => {
 
 describe('arrangementToRoundWithRest', () => {
   bench('2コート 休憩なし', () => {
-    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, []);
+    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [], random);
   });
 
   bench('2コート 2人休憩', () => {
-    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [9, 10]);
+    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8], 2, 1, [9, 10], random);
   });
 
   bench('3コート 休憩なし', () => {
-    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, []);
+    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, [], random);
   });
 
   bench('3コート 2人休憩', () => {
-    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, [13, 14]);
+    arrangementToRoundWithRest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 3, 1, [13, 14], random);
   });
 
   bench('1コート 2人休憩', () => {
-    arrangementToRoundWithRest([1, 2, 3, 4], 1, 1, [5, 6]);
+    arrangementToRoundWithRest([1, 2, 3, 4], 1, 1, [5, 6], random);
   });
 });
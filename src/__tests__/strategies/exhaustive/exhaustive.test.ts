@@ -0,0 +1,98 @@
+/**
+ * 全探索法の1ラウンド探索と対応規模の検証のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ExhaustiveStrategy } from '../../../strategies/exhaustive';
+import { countRoundCandidates, searchBestRound } from '../../../strategies/exhaustive/exhaustiveUtils';
+import { SequentialDecisionStrategy } from '../../../strategies/sequential-decision';
+import { commitRoundToState, createCumulativeState, evaluateCandidate } from '../../../utils/evaluation';
+import { getNormalizedArrangements } from '../../../utils/normalizedArrangements';
+import { createInitialArrangement, generateCombinations } from '../../../utils/permutation';
+import { getMatchPlayers } from '../../../utils/singles';
+import { createRandom } from '../../../utils/random';
+import type { CumulativeState, Round, ScheduleParams } from '../../../types/schedule';
+
+const weights = { w1: 1, w2: 0.5, w3: 2, w4: 1 };
+
+function params(overrides: Partial<ScheduleParams>): ScheduleParams {
+  return { courtsCount: 2, playersCount: 9, roundsCount: 4, weights, fixedPairs: [], seed: 1, ...overrides };
+}
+
+/** ダブルスのみのラウンドを累積状態に対して evaluateCandidate で評価する */
+function scoreRound(state: CumulativeState, round: Round): number {
+  const playerMap = round.matches.flatMap((match) => {
+    const [a1, a2, b1, b2] = getMatchPlayers(match);
+    return [Math.min(a1, a2), Math.max(a1, a2), Math.min(b1, b2), Math.max(b1, b2)];
+  });
+  const template = playerMap.map((_, i) => i);
+  return evaluateCandidate(state, template, round.matches.length, playerMap, round.restingPlayers, weights);
+}
+
+describe('searchBestRound', () => {
+  it.each([
+    [1, 5],
+    [1, 6],
+    [2, 9],
+    [2, 10],
+  ])('%i面・%i人で、各ラウンドのスコアが逐次決定法の同じラウンド以下になる', (courtsCount, playersCount) => {
+    const sequential = new SequentialDecisionStrategy().generateSchedule(
+      params({ courtsCount, playersCount, roundsCount: 5, seed: 7 })
+    );
+    const activePlayers = createInitialArrangement(playersCount);
+    const state = createCumulativeState(playersCount);
+
+    for (const round of sequential.rounds) {
+      const best = searchBestRound(state, activePlayers, courtsCount, round.roundNumber, weights, [], null, createRandom(1));
+
+      expect(scoreRound(state, best)).toBeLessThanOrEqual(scoreRound(state, round) + 1e-9);
+      // 逐次決定法の累積状態で次のラウンドを比べる
+      commitRoundToState(state, round);
+    }
+  });
+});
+
+describe('countRoundCandidates', () => {
+  it.each([
+    [1, 4],
+    [1, 5],
+    [1, 7],
+    [2, 8],
+    [2, 9],
+    [2, 10],
+  ])('%i面・%i人の候補数は実際に列挙する候補数と一致する', (courtsCount, playersCount) => {
+    const players = createInitialArrangement(playersCount);
+    const arrangements = [...getNormalizedArrangements(courtsCount, courtsCount * 4)].length;
+    const restCombinations = [...generateCombinations(players, playersCount - courtsCount * 4)].length;
+
+    expect(countRoundCandidates(playersCount, courtsCount)).toBe(restCombinations * arrangements);
+  });
+});
+
+describe('ExhaustiveStrategy の対応規模', () => {
+  const strategy = new ExhaustiveStrategy();
+  const limitMessage = '全探索法は 2 面・10 人以下でのみ使用できます';
+  const singlesMessage = '全探索法はシングルスのコートを含む設定では使用できません';
+
+  it.each([
+    ['3面', params({ courtsCount: 3, playersCount: 10 }), limitMessage],
+    ['11人', params({ playersCount: 11 }), limitMessage],
+    ['途中から3面', params({ playersCount: 10, courtChanges: [{ fromRound: 3, courts: 3 }] }), limitMessage],
+    ['シングルスのコートが必要', params({ playersCount: 7, singlesCourts: [1] }), singlesMessage],
+    [
+      '参加者が減ったラウンドでシングルスのコートが必要',
+      params({ playersCount: 8, singlesCourts: [1], availability: [{ player: 8, fromRound: 1, untilRound: 2 }] }),
+      singlesMessage,
+    ],
+  ])('%s の設定は生成できない', async (_, invalidParams, message) => {
+    expect(() => strategy.generateSchedule(invalidParams)).toThrow(message);
+    await expect(strategy.generateScheduleAsync(invalidParams, { onProgress: () => {} })).rejects.toThrow(message);
+  });
+
+  it('上限ちょうど（2面・10人）とシングルスにならない singlesCourts は生成できる', () => {
+    const schedule = strategy.generateSchedule(params({ playersCount: 10, roundsCount: 1, singlesCourts: [1] }));
+
+    expect(schedule.rounds[0].matches).toHaveLength(2);
+    expect(schedule.rounds[0].restingPlayers).toHaveLength(2);
+  });
+});
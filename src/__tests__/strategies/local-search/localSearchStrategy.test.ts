@@ -0,0 +1,56 @@
+/**
+ * 局所探索法ストラテジーの探索予算のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LocalSearchStrategy } from '../../../strategies/local-search';
+import { SequentialDecisionStrategy } from '../../../strategies/sequential-decision';
+import type { GenerationProgress, ScheduleParams } from '../../../types/schedule';
+
+const params: ScheduleParams = {
+  courtsCount: 2,
+  playersCount: 10,
+  roundsCount: 4,
+  weights: { w1: 1, w2: 0.5, w3: 2, w4: 1 },
+  fixedPairs: [],
+  seed: 42,
+};
+
+describe('LocalSearchStrategy の探索予算', () => {
+  it('params.localSearch の反復回数はコンストラクタの既定値より優先される', () => {
+    const fromParams = new LocalSearchStrategy().generateSchedule({ ...params, localSearch: { iterationsPerRound: 50 } });
+    const fromConstructor = new LocalSearchStrategy({ iterationsPerRound: 50 }).generateSchedule(params);
+    const overridden = new LocalSearchStrategy({ iterationsPerRound: 3000 }).generateSchedule({
+      ...params,
+      localSearch: { iterationsPerRound: 50 },
+    });
+
+    expect(fromParams.rounds).toEqual(fromConstructor.rounds);
+    expect(overridden.rounds).toEqual(fromConstructor.rounds);
+  });
+
+  it('非同期版の進捗は params.localSearch の反復回数で総評価回数を計算する', async () => {
+    const progress: GenerationProgress[] = [];
+    const baseEvaluations = new SequentialDecisionStrategy().estimateTotalEvaluations(10, 2, 4);
+
+    await new LocalSearchStrategy().generateScheduleAsync(
+      { ...params, localSearch: { iterationsPerRound: 500 } },
+      { onProgress: (p) => progress.push(p) },
+    );
+
+    const last = progress[progress.length - 1];
+    expect(last.totalEvaluations).toBe(baseEvaluations + 4 * 500);
+    expect(last.currentEvaluations).toBe(last.totalEvaluations);
+  });
+
+  it('時間制限を超えた場合は探索を打ち切り、初期解以上の品質の結果を返す', () => {
+    const initial = new SequentialDecisionStrategy().generateSchedule(params);
+
+    const schedule = new LocalSearchStrategy().generateSchedule({
+      ...params,
+      localSearch: { iterationsPerRound: 1_000_000, timeLimitMs: 50 },
+    });
+
+    expect(schedule.evaluation.totalScore).toBeLessThanOrEqual(initial.evaluation.totalScore + 1e-9);
+  });
+});
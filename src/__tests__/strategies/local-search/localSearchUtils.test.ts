@@ -0,0 +1,91 @@
+/**
+ * 局所探索の近傍操作のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSearchContext, runSearchIterations, toRound } from '../../../strategies/local-search/localSearchUtils';
+import { createCumulativeState, evaluate } from '../../../utils/evaluation';
+import { createRandom } from '../../../utils/random';
+import type { PlayerCategories, Round } from '../../../types/schedule';
+
+const weights = { w1: 1, w2: 0.5, w3: 2, w4: 0 };
+
+function round(roundNumber: number, [p1, p2, p3, p4]: [number, number, number, number], restingPlayers: number[]): Round {
+  return {
+    roundNumber,
+    matches: [{ pairA: { player1: p1, player2: p2 }, pairB: { player1: p3, player2: p4 } }],
+    restingPlayers,
+  };
+}
+
+// 6人・1コートで全員が2回ずつ休憩する初期解。
+// 1ラウンド内の近傍操作（プレイヤー交換・休憩交換）では、同点の操作をたどってもどれも改善しない。
+// ラウンド1で休憩し2で出場する 3 と、1で出場し2で休憩する 1 の休憩するラウンドを入れ替えると、ペア回数の偏りが減る。
+const initialRounds: Round[] = [
+  round(1, [4, 1, 6, 2], [3, 5]),
+  round(2, [4, 6, 3, 5], [1, 2]),
+  round(3, [1, 3, 4, 5], [2, 6]),
+  round(4, [1, 6, 2, 3], [4, 5]),
+  round(5, [4, 2, 5, 6], [1, 3]),
+  round(6, [2, 1, 5, 3], [4, 6]),
+];
+
+describe('runSearchIterations', () => {
+  it('ラウンド間の休憩交換で、休憩回数を保ったままペア回数の偏りを改善する', () => {
+    const random = createRandom(1);
+    const ctx = createSearchContext(createCumulativeState(6), initialRounds, weights, null, []);
+    const initialScore = ctx.score;
+
+    runSearchIterations(ctx, 0, 2000, 2000, { initial: 1e-6, final: 1e-8 }, random);
+
+    const rounds = ctx.bestRounds.map((r) => toRound(r, random));
+    const before = evaluate(initialRounds, 6, weights);
+    const after = evaluate(rounds, 6, weights);
+    expect(after.pairStdDev).toBeLessThan(before.pairStdDev);
+    expect(after.totalScore).toBeCloseTo(ctx.bestScore, 9);
+    expect(ctx.bestScore).toBeLessThan(initialScore);
+    expect(rounds.flatMap((r) => r.restingPlayers).sort()).toEqual([1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6]);
+  });
+
+  it('探索後の累積状態は現在のラウンドをまとめて評価した結果と一致する', () => {
+    const random = createRandom(2);
+    const ctx = createSearchContext(createCumulativeState(6), initialRounds, weights, null, []);
+
+    runSearchIterations(ctx, 0, 500, 500, { initial: 1, final: 0.01 }, random);
+
+    const current = evaluate(ctx.rounds.map((r) => toRound(r, random)), 6, weights);
+    expect(current.totalScore).toBeCloseTo(ctx.score, 9);
+  });
+});
+
+describe('runSearchIterations（ミックスダブルス）', () => {
+  // 1〜5 が男性、6〜10 が女性。すべてのペアが男性1人・女性1人
+  const categories: PlayerCategories = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((p) => (p <= 5 ? 'male' : 'female'));
+  const mixedRound = (roundNumber: number, courts: [number, number, number, number][], restingPlayers: number[]): Round => ({
+    roundNumber,
+    matches: courts.map(([p1, p2, p3, p4]) => ({ pairA: { player1: p1, player2: p2 }, pairB: { player1: p3, player2: p4 } })),
+    restingPlayers,
+  });
+  const mixedRounds: Round[] = [
+    mixedRound(1, [[1, 6, 2, 7], [3, 8, 4, 9]], [5, 10]),
+    mixedRound(2, [[1, 7, 5, 6], [2, 10, 3, 9]], [4, 8]),
+    mixedRound(3, [[4, 6, 5, 8], [2, 9, 1, 10]], [3, 7]),
+  ];
+
+  it('区分の異なるプレイヤー同士を入れ替えず、すべてのペアが男女の組み合わせのまま探索する', () => {
+    const random = createRandom(3);
+    // ペア禁止のペナルティなしでも区分が保たれることを確認するため、制約は渡さない
+    const ctx = createSearchContext(createCumulativeState(10), mixedRounds, weights, null, [], undefined, categories);
+
+    for (let done = 0; done < 3000; done += 100) {
+      runSearchIterations(ctx, done, done + 100, 3000, { initial: 10, final: 1 }, random);
+      for (const round of ctx.rounds) {
+        for (const [p1, p2, p3, p4] of round.courts) {
+          expect(categories[p1 - 1]).not.toBe(categories[p2 - 1]);
+          expect(categories[p3 - 1]).not.toBe(categories[p4 - 1]);
+        }
+        expect(round.resting.map((p) => categories[p - 1]).sort()).toEqual(['female', 'male']);
+      }
+    }
+  });
+});
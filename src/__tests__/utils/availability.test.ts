@@ -0,0 +1,96 @@
+/**
+ * 参加できるラウンドの範囲のバリデーションテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateAvailability } from '../../utils/availability';
+import { buildPlayerCategories } from '../../utils/mixedDoubles';
+import { SequentialDecisionStrategy } from '../../strategies/sequential-decision';
+import { LocalSearchStrategy } from '../../strategies/local-search';
+import { ExhaustiveStrategy } from '../../strategies/exhaustive';
+import type { ScheduleStrategy } from '../../strategies/types';
+import type { Participant, PlayerAvailability, ScheduleParams } from '../../types/schedule';
+
+const players = Array.from({ length: 10 }, (_, i) => i + 1);
+
+// 男性 1〜5、女性 6〜10
+const roster: Participant[] = players.map(id => ({ id, name: '', category: id <= 5 ? 'male' : 'female' }));
+
+// 女性2人がラウンド3で帰る（ラウンド4以降は女性3人）
+const availability: PlayerAvailability[] = [
+  { player: 9, untilRound: 3 },
+  { player: 10, untilRound: 3 },
+];
+
+describe('validateAvailability', () => {
+  it('各ラウンドで参加できる人数がコート数に必要な人数に足りない場合はエラー', () => {
+    const result = validateAvailability(availability, players, 6, 2);
+
+    expect(result).toEqual({ isValid: true });
+    expect(validateAvailability([...availability, { player: 1, untilRound: 3 }], players, 6, 2)).toMatchObject({
+      isValid: false,
+      errorMessage: 'ラウンド 4 に参加できるのは 7 人です（8 人以上必要です）',
+    });
+  });
+
+  it('ミックスダブルスでは各ラウンドで参加できる男性・女性の人数をそれぞれ確認する', () => {
+    const categories = buildPlayerCategories(roster, players.length);
+
+    expect(validateAvailability(availability, players, 6, 2, [], [], categories)).toEqual({
+      isValid: false,
+      errorMessage: 'ラウンド 4 に参加できるのは男性 5 人・女性 3 人です（それぞれ 4 人以上必要です）',
+    });
+    expect(validateAvailability(availability, players, 3, 2, [], [], categories)).toEqual({ isValid: true });
+    // ラウンド4からコート1面なら女性3人で足りる
+    expect(validateAvailability(availability, players, 6, 2, [{ fromRound: 4, courts: 1 }], [], categories)).toEqual({ isValid: true });
+  });
+});
+
+describe('ミックスダブルスの生成', () => {
+  it('男性・女性の人数がそろわないラウンドは同性のペアを作らずエラーにする', () => {
+    expect(() => new SequentialDecisionStrategy().generateSchedule({
+      courtsCount: 2,
+      playersCount: 10,
+      roundsCount: 6,
+      weights: { w1: 1, w2: 0.5, w3: 2, w4: 0 },
+      fixedPairs: [],
+      roster,
+      seed: 1,
+      mixedDoubles: true,
+      availability,
+    })).toThrow('男性・女性の人数がそろわないため');
+  });
+});
+
+describe('参加できるラウンドの範囲で人数が足りない場合の生成', () => {
+  // 9人・2コートで 8・9 がラウンド2で帰る（ラウンド3は7人）
+  const params: ScheduleParams = {
+    courtsCount: 2,
+    playersCount: 9,
+    roundsCount: 4,
+    weights: { w1: 1, w2: 0.5, w3: 2, w4: 0 },
+    fixedPairs: [],
+    seed: 1,
+    availability: [{ player: 8, untilRound: 2 }, { player: 9, untilRound: 2 }],
+  };
+  const error = 'ラウンド3の参加者数（7人）がコート数（2面）に必要な8人を下回っています';
+
+  const strategies: [string, ScheduleStrategy][] = [
+    ['逐次決定法', new SequentialDecisionStrategy()],
+    ['局所探索法', new LocalSearchStrategy({ iterationsPerRound: 10 })],
+    ['全探索法', new ExhaustiveStrategy()],
+  ];
+
+  it.each(strategies)('%s は人数の足りないラウンドを作らずエラーにする', async (_, strategy) => {
+    expect(() => strategy.generateSchedule(params)).toThrow(error);
+    await expect(strategy.generateScheduleAsync(params, { onProgress: () => {} })).rejects.toThrow(error);
+  });
+
+  // 全探索法はシングルスに対応しないため除く
+  it.each(strategies.slice(0, 2))('%s はシングルスにできるコートがあれば2人で数える', (_, strategy) => {
+    const schedule = strategy.generateSchedule({ ...params, singlesCourts: [1] });
+
+    expect(schedule.rounds[2].matches).toHaveLength(2);
+    expect(schedule.rounds[2].restingPlayers).toHaveLength(1);
+  });
+});
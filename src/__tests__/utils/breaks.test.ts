@@ -0,0 +1,51 @@
+/**
+ * 休憩中のプレイヤーのバリデーションテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateBreaks } from '../../utils/breaks';
+import { buildPlayerCategories } from '../../utils/mixedDoubles';
+import type { Participant, PlayerBreak } from '../../types/schedule';
+
+const players = Array.from({ length: 10 }, (_, i) => i + 1);
+
+// 男性 1〜5、女性 6〜10
+const roster: Participant[] = players.map(id => ({ id, name: '', category: id <= 5 ? 'male' : 'female' }));
+const categories = buildPlayerCategories(roster, players.length);
+
+// 女性2人がラウンド4〜5を休憩する（その間の女性は3人）
+const breaks: PlayerBreak[] = [
+  { player: 9, fromRound: 4, untilRound: 5 },
+  { player: 10, fromRound: 4, untilRound: 5 },
+];
+
+describe('validateBreaks', () => {
+  it('休憩中のプレイヤーを除いた人数がコート数に必要な人数に足りない場合はエラー', () => {
+    expect(validateBreaks(breaks, players, 6, 2)).toEqual({ isValid: true });
+    expect(validateBreaks([...breaks, { player: 1, fromRound: 5 }], players, 6, 2)).toEqual({
+      isValid: false,
+      errorMessage: '休憩中のプレイヤーを除くと、ラウンド 5 に出場できるのは 7 人です（8 人以上必要です）',
+    });
+  });
+
+  it('ミックスダブルスでは各ラウンドで出場できる男性・女性の人数をそれぞれ確認する', () => {
+    expect(validateBreaks(breaks, players, 6, 2, [], [], undefined, categories)).toEqual({
+      isValid: false,
+      errorMessage: '休憩中のプレイヤーを除くと、ラウンド 4 に出場できるのは男性 5 人・女性 3 人です（それぞれ 4 人以上必要です）',
+    });
+    // 休憩が終わったあとのラウンドからは確認しない
+    expect(validateBreaks(breaks, players, 6, 2, [], [], undefined, categories, 6)).toEqual({ isValid: true });
+    // 休憩中のラウンドのコートが1面なら女性3人で足りる
+    const courtChanges = [{ fromRound: 4, courts: 1 }, { fromRound: 6, courts: 2 }];
+    expect(validateBreaks(breaks, players, 6, 2, courtChanges, [], undefined, categories)).toEqual({ isValid: true });
+  });
+
+  it('ミックスダブルスの男女の人数は参加できるラウンドの範囲も合わせて確認する', () => {
+    const availability = [{ player: 8, untilRound: 3 }];
+
+    expect(validateBreaks([{ player: 9, fromRound: 6 }], players, 6, 2, [], [], availability, categories)).toEqual({
+      isValid: false,
+      errorMessage: '休憩中のプレイヤーを除くと、ラウンド 6 に出場できるのは男性 5 人・女性 3 人です（それぞれ 4 人以上必要です）',
+    });
+  });
+});
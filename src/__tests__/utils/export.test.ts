@@ -0,0 +1,161 @@
+/**
+ * スケジュールのエクスポート（CSV のエスケープと JSON の形式）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SCHEDULE_EXPORT_FORMAT,
+  SCHEDULE_EXPORT_VERSION,
+  buildExportFileName,
+  exportScheduleToCsv,
+  exportScheduleToJson,
+} from '../../utils/export';
+import { parseScheduleImport } from '../../utils/import';
+import { evaluate } from '../../utils/evaluation';
+import type { MatchResults, Round, Schedule } from '../../types/schedule';
+
+const weights = { w1: 1, w2: 0.5, w3: 2, w4: 1 };
+
+function match(a1: number, a2: number, b1: number, b2: number) {
+  return { pairA: { player1: a1, player2: a2 }, pairB: { player1: b1, player2: b2 } };
+}
+
+/** 7人・2コート（コート2はシングルス）・2ラウンド。名前にカンマ・ダブルクォート・改行を含む */
+function scheduleWithSpecialNames(): Schedule {
+  const rounds: Round[] = [
+    { roundNumber: 1, matches: [match(1, 2, 3, 4), { type: 'singles', playerA: 5, playerB: 6 }], restingPlayers: [7] },
+    { roundNumber: 2, matches: [match(1, 3, 5, 7), { type: 'singles', playerA: 2, playerB: 4 }], restingPlayers: [6] },
+  ];
+  return {
+    courts: 2,
+    players: 7,
+    rounds,
+    evaluation: evaluate(rounds, 7, weights),
+    fixedPairs: [],
+    forbiddenPairs: [{ player1: 1, player2: 7 }],
+    forbiddenOpponents: [],
+    activePlayers: [1, 2, 3, 4, 5, 6, 7],
+    roster: [
+      { id: 1, name: 'Smith, John' },
+      { id: 2, name: '"Ace" 佐藤' },
+      { id: 3, name: '鈴木\n花子' },
+      { id: 7, name: 'Lee\r\nKim' },
+    ],
+    singlesCourts: [1],
+  };
+}
+
+/** RFC 4180 形式の CSV を行・フィールドに分解する（テスト用の最小実装） */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\r' && text[i + 1] === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += c;
+    }
+  }
+  return rows;
+}
+
+describe('exportScheduleToCsv', () => {
+  const results: MatchResults = { '1-0': { gamesA: 6, gamesB: 4 }, '2-1': { gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: 5 } } };
+
+  it('カンマ・ダブルクォート・改行を含む名前はダブルクォートで囲み、" を "" にする', () => {
+    const csv = exportScheduleToCsv(scheduleWithSpecialNames(), results);
+
+    expect(csv).toContain('1,1,"Smith, John・""Ace"" 佐藤","鈴木\n花子・4",6-4,"Lee\r\nKim"\r\n');
+    expect(csv).toContain('\r\n1,2,5,6,,\r\n');
+  });
+
+  it('CSV として読み戻すと元の名前・スコア・休憩者になる', () => {
+    const rows = parseCsv(exportScheduleToCsv(scheduleWithSpecialNames(), results));
+
+    expect(rows.slice(0, 5)).toEqual([
+      ['ラウンド', 'コート', 'ペアA', 'ペアB', 'スコア', '休憩'],
+      ['1', '1', 'Smith, John・"Ace" 佐藤', '鈴木\n花子・4', '6-4', 'Lee\r\nKim'],
+      ['1', '2', '5', '6', '', ''],
+      ['2', '1', 'Smith, John・鈴木\n花子', '5・Lee\r\nKim', '', '6'],
+      ['2', '2', '"Ace" 佐藤', '4', '7-6(5)', ''],
+    ]);
+    expect(rows[5]).toEqual(['']);
+    expect(rows[6]).toEqual(['ペア禁止']);
+    expect(rows[7]).toEqual(['Smith, John', 'Lee\r\nKim']);
+  });
+
+  it('特殊文字を含まないフィールドは囲まず、改行は CRLF で末尾にも付ける', () => {
+    const schedule = { ...scheduleWithSpecialNames(), roster: [], forbiddenPairs: [] };
+
+    const csv = exportScheduleToCsv(schedule, {});
+
+    expect(csv.startsWith('ラウンド,コート,ペアA,ペアB,スコア,休憩\r\n1,1,1・2,3・4,,7\r\n')).toBe(true);
+    expect(csv.endsWith(`総合スコア,${schedule.evaluation.totalScore.toFixed(3)}\r\n`)).toBe(true);
+    expect(csv).not.toContain('"');
+  });
+
+  it('コート名が設定されている場合はコート欄にコート名を出力する', () => {
+    const schedule = { ...scheduleWithSpecialNames(), courtNames: ['センター, 1番', ''] };
+
+    const rows = parseCsv(exportScheduleToCsv(schedule, {}));
+
+    expect(rows[1][1]).toBe('センター, 1番');
+    expect(rows[2][1]).toBe('コート 2');
+  });
+});
+
+describe('exportScheduleToJson', () => {
+  it('import.ts が読み込む形式（format・version・exportedAt・schedule・matchResults・scoringFormatId）で出力する', () => {
+    const schedule = scheduleWithSpecialNames();
+    const matchResults: MatchResults = { '1-0': { gamesA: 6, gamesB: 4 } };
+
+    const data = JSON.parse(exportScheduleToJson(schedule, matchResults, 'six-game-set', new Date('2025-01-01T09:00:00.000Z')));
+
+    expect(Object.keys(data).sort()).toEqual(['exportedAt', 'format', 'matchResults', 'schedule', 'scoringFormatId', 'version']);
+    expect(data.format).toBe(SCHEDULE_EXPORT_FORMAT);
+    expect(data.version).toBe(SCHEDULE_EXPORT_VERSION);
+    expect(data.exportedAt).toBe('2025-01-01T09:00:00.000Z');
+    expect(data.schedule).toEqual(JSON.parse(JSON.stringify(schedule)));
+    expect(data.matchResults).toEqual(matchResults);
+    expect(data.scoringFormatId).toBe('six-game-set');
+  });
+
+  it('出力した JSON はそのままインポートでき、特殊文字を含む名前も保たれる', () => {
+    const schedule = scheduleWithSpecialNames();
+
+    const result = parseScheduleImport(exportScheduleToJson(schedule, {}, 'six-game-set'), weights);
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    expect(result.data.schedule.roster).toEqual(schedule.roster);
+    expect(result.data.schedule.rounds).toEqual(schedule.rounds);
+    expect(result.data.schedule.singlesCourts).toEqual([1]);
+  });
+});
+
+describe('buildExportFileName', () => {
+  it('ローカル時刻の日時を付ける', () => {
+    expect(buildExportFileName('csv', new Date(2025, 0, 2, 9, 5))).toBe('schedule-20250102-0905.csv');
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * スケジュールのインポート（不変条件の検証）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseScheduleImport } from '../../utils/import';
+import { exportScheduleToJson } from '../../utils/export';
+import { evaluate } from '../../utils/evaluation';
+import type { MatchResults, Round, Schedule } from '../../types/schedule';
+
+const weights = { w1: 1, w2: 0.5, w3: 2, w4: 1 };
+
+function match(a1: number, a2: number, b1: number, b2: number) {
+  return { pairA: { player1: a1, player2: a2 }, pairB: { player1: b1, player2: b2 } };
+}
+
+/** 10人・2コート・2ラウンドの有効なスケジュール */
+function validSchedule(): Schedule {
+  const rounds: Round[] = [
+    { roundNumber: 1, matches: [match(1, 2, 3, 4), match(5, 6, 7, 8)], restingPlayers: [9, 10] },
+    { roundNumber: 2, matches: [match(1, 3, 2, 9), match(4, 10, 5, 7)], restingPlayers: [6, 8] },
+  ];
+  return {
+    courts: 2,
+    players: 10,
+    rounds,
+    evaluation: evaluate(rounds, 10, weights),
+    fixedPairs: [],
+    forbiddenPairs: [],
+    forbiddenOpponents: [],
+    activePlayers: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    roster: [{ id: 1, name: '佐藤', rating: 3, category: 'male' }],
+    seed: 12345,
+  };
+}
+
+/** 書き換え用のエクスポートデータ（不正な値を入れるため型を付けない） */
+type ExportData = any;
+
+/** 有効なエクスポートデータを書き換えて読み込み、エラーメッセージを返す */
+function importErrors(mutate: (data: ExportData) => void): string[] {
+  const data = JSON.parse(exportScheduleToJson(validSchedule(), {}, 'six-game-set'));
+  mutate(data);
+  const result = parseScheduleImport(JSON.stringify(data), weights);
+  return result.isValid ? [] : result.errorMessages;
+}
+
+describe('parseScheduleImport', () => {
+  it('エクスポートした JSON を読み込むと同じスケジュール・試合結果・スコア形式に戻る', () => {
+    const schedule: Schedule = {
+      ...validSchedule(),
+      fixedPairs: [{ player1: 1, player2: 2 }],
+      forbiddenPairs: [{ player1: 3, player2: 4 }],
+      courtChanges: [{ fromRound: 2, courts: 2 }],
+      courtNames: ['センター', ''],
+      availability: [{ player: 10, fromRound: 1, untilRound: 2 }],
+      breaks: [{ player: 6, fromRound: 2 }],
+    };
+    const matchResults: MatchResults = { '1-0': { gamesA: 8, gamesB: 6 }, '2-1': { gamesA: 3, gamesB: 8 } };
+
+    const result = parseScheduleImport(exportScheduleToJson(schedule, matchResults, 'eight-game-pro-set'), weights);
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    const { evaluation, ...rest } = result.data.schedule;
+    const { evaluation: expected, ...expectedRest } = schedule;
+    expect(rest).toEqual(expectedRest);
+    expect(evaluation.totalScore).toBeCloseTo(expected.totalScore, 9);
+    expect(result.data.matchResults).toEqual(matchResults);
+    expect(result.data.scoringFormatId).toBe('eight-game-pro-set');
+  });
+
+  it('Schedule 単体の JSON は試合結果なし・既定のスコア形式で読み込む', () => {
+    const result = parseScheduleImport(JSON.stringify(validSchedule()), weights);
+
+    expect(result).toMatchObject({ isValid: true, data: { matchResults: {}, scoringFormatId: 'six-game-set' } });
+  });
+
+  it('JSON として読み込めない場合はエラー', () => {
+    const result = parseScheduleImport('{', weights);
+
+    expect(result.isValid).toBe(false);
+    expect(!result.isValid && result.errorMessages[0]).toMatch(/^JSON として読み込めません: /);
+  });
+
+  it('トップレベルがオブジェクトでない場合はエラー', () => {
+    expect(parseScheduleImport('[]', weights)).toEqual({
+      isValid: false,
+      errorMessages: ['JSON のトップレベルがオブジェクトではありません'],
+    });
+  });
+
+  it.each([
+    {
+      name: 'format が異なる',
+      mutate: (d: ExportData) => { d.format = 'other'; },
+      error: 'format が "doubles-schedule" ではありません（"other"）',
+    },
+    {
+      name: '未来のバージョン',
+      mutate: (d: ExportData) => { d.version = 99; },
+      error: '未対応のバージョンです（99、対応: 1 以下）',
+    },
+    {
+      name: '不明なスコア形式',
+      mutate: (d: ExportData) => { d.scoringFormatId = 'unknown'; },
+      error: 'scoringFormatId が不明なスコア形式です（"unknown"）',
+    },
+    {
+      name: 'コート数が1以上の整数でない',
+      mutate: (d: ExportData) => { d.schedule.courts = 0; },
+      error: 'courts（コート数）が1以上の整数ではありません',
+    },
+    {
+      name: 'ラウンドが空',
+      mutate: (d: ExportData) => { d.schedule.rounds = []; },
+      error: 'rounds が空、または配列ではありません',
+    },
+    {
+      name: 'コート数の変更が昇順でない',
+      mutate: (d: ExportData) => { d.schedule.courtChanges = [{ fromRound: 1, courts: 2 }]; },
+      error: 'courtChanges[0]: fromRound は2以上で、昇順（重複なし）に並べてください',
+    },
+    {
+      name: '試合数がコート数と一致しない',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].matches.pop(); d.schedule.rounds[0].restingPlayers = [5, 6, 7, 8, 9, 10]; },
+      error: 'ラウンド 1: 試合数（1）がコート数（2）と一致しません',
+    },
+    {
+      name: 'プレイヤー番号が範囲外',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].restingPlayers = [9, 11]; },
+      error: 'ラウンド 1 の restingPlayers: プレイヤー 11 は players（10）を超えています',
+    },
+    {
+      name: 'プレイヤー番号が整数でない',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].matches[0].pairA.player1 = 0; },
+      error: 'ラウンド 1 コート 1 ペアA: プレイヤー番号が1以上の整数ではありません（0）',
+    },
+    {
+      name: 'ペアが正規化されていない',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].matches[0].pairA = { player1: 2, player2: 1 }; },
+      error: 'ラウンド 1 コート 1 ペアA: player1 < player2 になっていません（2, 1）',
+    },
+    {
+      name: '試合のペアの順序が正規化されていない',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].matches[0] = match(3, 4, 1, 2); },
+      error: 'ラウンド 1 コート 1: min(ペアA) < min(ペアB) になっていません（3 と 1）',
+    },
+    {
+      name: '同じプレイヤーが出場と休憩の両方に含まれる',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].restingPlayers = [8, 10]; },
+      error: 'ラウンド 1: プレイヤー 8 が同じラウンドの複数箇所に含まれています',
+    },
+    {
+      name: '休憩者が昇順でない',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].restingPlayers = [10, 9]; },
+      error: 'ラウンド 1 の restingPlayers が昇順（重複なし）になっていません（10, 9）',
+    },
+    {
+      name: 'ラウンドが昇順でない',
+      mutate: (d: ExportData) => { d.schedule.rounds[1].roundNumber = 1; },
+      error: 'ラウンド 1: rounds が roundNumber の昇順（重複なし）になっていません',
+    },
+    {
+      name: 'シングルスの試合がシングルスコートにない',
+      mutate: (d: ExportData) => {
+        d.schedule.rounds[0].matches[1] = { type: 'singles', playerA: 5, playerB: 6 };
+        d.schedule.rounds[0].restingPlayers = [7, 8, 9, 10];
+        d.schedule.singlesCourts = [0];
+      },
+      error: 'コート 2 のシングルスの試合が singlesCourts に含まれていません',
+    },
+    {
+      name: 'タイマーの終了時刻が開始時刻より前',
+      mutate: (d: ExportData) => { d.schedule.rounds[0].timing = { startedAt: 2000, pausedMs: 0, endedAt: 1000 }; },
+      error: 'ラウンド 1: timing.endedAt が開始時刻より前です',
+    },
+    {
+      name: '参加人数がコート数に必要な人数に足りない',
+      mutate: (d: ExportData) => { d.schedule.activePlayers = [1, 2, 3, 4, 5, 6, 7]; },
+      error: 'activePlayers の人数（7人）がコート数に必要な8人を下回っています',
+    },
+    {
+      name: '固定ペアが重複する',
+      mutate: (d: ExportData) => { d.schedule.fixedPairs = [{ player1: 1, player2: 2 }, { player1: 2, player2: 3 }]; },
+      error: 'fixedPairs: プレイヤー 2 は既に別の固定ペアに含まれています',
+    },
+    {
+      name: '名簿のプレイヤーが重複する',
+      mutate: (d: ExportData) => { d.schedule.roster.push({ id: 1, name: '鈴木' }); },
+      error: 'roster[1]: プレイヤー 1 が名簿に重複しています',
+    },
+    {
+      name: '名簿のレベルが範囲外',
+      mutate: (d: ExportData) => { d.schedule.roster[0].rating = 9; },
+      error: 'roster[0]: rating は1〜5の整数で指定してください',
+    },
+    {
+      name: '名簿の区分が不正',
+      mutate: (d: ExportData) => { d.schedule.roster[0].category = 'other'; },
+      error: 'roster[0]: category は male または female で指定してください',
+    },
+    {
+      name: '参加できるラウンドの範囲が逆転している',
+      mutate: (d: ExportData) => { d.schedule.availability = [{ player: 3, fromRound: 2, untilRound: 1 }]; },
+      error: 'availability[0]: fromRound（2）が untilRound（1）より後になっています',
+    },
+    {
+      name: '参加できるラウンドの範囲が player の昇順でない',
+      mutate: (d: ExportData) => { d.schedule.availability = [{ player: 5, fromRound: 2 }, { player: 3, untilRound: 1 }]; },
+      error: 'availability[1]: availability が player の昇順（重複なし）になっていません',
+    },
+    {
+      name: '休憩の範囲が逆転している',
+      mutate: (d: ExportData) => { d.schedule.breaks = [{ player: 6, fromRound: 2, untilRound: 1 }]; },
+      error: 'breaks[0]: fromRound（2）が untilRound（1）より後になっています',
+    },
+    {
+      name: '休憩が player の昇順でない',
+      mutate: (d: ExportData) => { d.schedule.breaks = [{ player: 8, fromRound: 2 }, { player: 6, fromRound: 2 }]; },
+      error: 'breaks[1]: breaks が player の昇順（重複なし）になっていません',
+    },
+    {
+      name: 'シードが範囲外',
+      mutate: (d: ExportData) => { d.schedule.seed = -1; },
+      error: 'seed は0〜4294967295の整数で指定してください',
+    },
+    {
+      name: 'ミックスダブルスの指定が真偽値でない',
+      mutate: (d: ExportData) => { d.schedule.mixedDoubles = 'yes'; },
+      error: 'mixedDoubles が真偽値ではありません',
+    },
+    {
+      name: 'コート名が文字列の配列でない',
+      mutate: (d: ExportData) => { d.schedule.courtNames = [1]; },
+      error: 'courtNames が文字列の配列ではありません',
+    },
+    {
+      name: '時間から決めたラウンド数の設定が不完全',
+      mutate: (d: ExportData) => { d.schedule.timePlan = { startTime: '09:00' }; },
+      error: 'timePlan に startTime・endTime・matchMinutes・changeoverMinutes がありません',
+    },
+    {
+      name: '試合結果のキーに対応する試合がない',
+      mutate: (d: ExportData) => { d.matchResults = { '1-2': { gamesA: 6, gamesB: 4 } }; },
+      error: 'matchResults["1-2"]: 対応する試合がありません（キーは「ラウンド番号-コート番号(0始まり)」）',
+    },
+    {
+      name: '試合結果の形式が不正',
+      mutate: (d: ExportData) => { d.matchResults = { '1-0': { gamesA: '6' } }; },
+      error: 'matchResults["1-0"]: 試合結果の形式が不正です',
+    },
+  ])('$name 場合はエラー', ({ mutate, error }) => {
+    expect(importErrors(mutate)).toContain(error);
+  });
+
+  it('試合結果がスコア形式の規則に合わない場合はエラー', () => {
+    const errors = importErrors((d) => { d.matchResults = { '1-0': { gamesA: 6, gamesB: 6 } }; });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^matchResults\["1-0"\]: /);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * ペア禁止・対戦禁止のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPairConstraints,
+  canOppose,
+  canPair,
+  countConstraintViolations,
+  countCourtViolations,
+  validatePairConstraints,
+} from '../../utils/pairConstraints';
+import type { PlayerCategories } from '../../types/schedule';
+
+describe('buildPairConstraints', () => {
+  it('禁止も区分もない場合は null', () => {
+    expect(buildPairConstraints(8, [], [])).toBeNull();
+  });
+
+  it('ペア禁止・対戦禁止を対称な行列にし、範囲外のプレイヤー番号は無視する', () => {
+    const constraints = buildPairConstraints(4, [{ player1: 1, player2: 2 }, { player1: 3, player2: 5 }], [{ player1: 2, player2: 4 }]);
+
+    expect(canPair(constraints, 1, 2)).toBe(false);
+    expect(canPair(constraints, 2, 1)).toBe(false);
+    expect(canPair(constraints, 1, 3)).toBe(true);
+    expect(canOppose(constraints, 4, 2)).toBe(false);
+    expect(canOppose(constraints, 1, 2)).toBe(true);
+    expect(constraints!.forbiddenPairs.flat().filter(Boolean)).toHaveLength(2);
+  });
+
+  it('区分配列を渡すと同じ区分の2人をペア禁止にする（区分未設定は除く）', () => {
+    const categories: PlayerCategories = ['male', 'male', 'female', 'female', null, null];
+    const constraints = buildPairConstraints(6, [], [], categories);
+
+    expect(canPair(constraints, 1, 2)).toBe(false);
+    expect(canPair(constraints, 3, 4)).toBe(false);
+    expect(canPair(constraints, 1, 3)).toBe(true);
+    expect(canPair(constraints, 5, 6)).toBe(true);
+    expect(canOppose(constraints, 1, 2)).toBe(true);
+  });
+});
+
+describe('countCourtViolations', () => {
+  const constraints = buildPairConstraints(
+    8,
+    [{ player1: 1, player2: 2 }, { player1: 5, player2: 6 }],
+    [{ player1: 1, player2: 3 }, { player1: 2, player2: 4 }, { player1: 3, player2: 4 }]
+  );
+
+  it('ペア (p1,p2)・(p3,p4) のペア禁止を数える', () => {
+    expect(countCourtViolations(constraints, [1, 2, 7, 8])).toBe(1);
+    expect(countCourtViolations(constraints, [7, 8, 5, 6])).toBe(1);
+  });
+
+  it('対戦する4組（p1・p2 と p3・p4）の対戦禁止を数え、同じペアの2人は対戦として数えない', () => {
+    expect(countCourtViolations(constraints, [1, 7, 3, 8])).toBe(1);
+    expect(countCourtViolations(constraints, [1, 2, 3, 4])).toBe(3);
+    expect(countCourtViolations(constraints, [3, 4, 7, 8])).toBe(0);
+  });
+
+  it('constraints が null の場合は常に0', () => {
+    expect(countCourtViolations(null, [1, 2, 3, 4])).toBe(0);
+  });
+});
+
+describe('countConstraintViolations', () => {
+  it('ラウンドの全コートの違反数を合計する', () => {
+    const constraints = buildPairConstraints(8, [{ player1: 1, player2: 2 }], [{ player1: 5, player2: 7 }]);
+
+    expect(countConstraintViolations(constraints, [[1, 2, 3, 4], [5, 6, 7, 8]])).toBe(2);
+    expect(countConstraintViolations(constraints, [[1, 3, 2, 4], [5, 7, 6, 8]])).toBe(0);
+    expect(countConstraintViolations(null, [[1, 2, 3, 4]])).toBe(0);
+  });
+});
+
+describe('validatePairConstraints', () => {
+  const players = [1, 2, 3, 4, 5];
+
+  it('参加者に含まれないプレイヤーの指定はエラー', () => {
+    expect(validatePairConstraints([], [{ player1: 1, player2: 6 }], [], players)).toEqual({
+      isValid: false,
+      errorMessage: 'プレイヤー 6 は参加者に含まれていません',
+    });
+  });
+
+  it('固定ペアとペア禁止の両方に指定した2人はエラー', () => {
+    expect(validatePairConstraints([{ player1: 1, player2: 2 }], [], [{ player1: 1, player2: 2 }], players)).toEqual({
+      isValid: false,
+      errorMessage: 'プレイヤー 1 と 2 は固定ペアとペア禁止の両方に指定されています',
+    });
+  });
+
+  it('全員とペア禁止のプレイヤーがいる場合はエラー', () => {
+    const forbiddenPairs = [2, 3, 4, 5].map(p => ({ player1: 1, player2: p }));
+
+    expect(validatePairConstraints(forbiddenPairs, [], [], players)).toEqual({
+      isValid: false,
+      errorMessage: 'プレイヤー 1 は全員とペア禁止のためペアを組めません',
+    });
+    expect(validatePairConstraints(forbiddenPairs.slice(1), [], [], players)).toEqual({ isValid: true });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * セッション永続化（スキーマ移行）のテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SESSION_SCHEMA_VERSION, loadSession, saveSession, type SessionState } from '../../utils/persistence';
+import { DEFAULT_SCORING_FORMAT_ID } from '../../utils/scoring';
+import { DEFAULT_TIMER_SETTINGS } from '../../utils/timer';
+import { DEFAULT_STRATEGY_ID } from '../../strategies/registry';
+
+const STORAGE_KEY = 'tennis-scheduler-session';
+
+/** テスト用の localStorage（node 環境には存在しないため） */
+function createMemoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+}
+
+/** v1 のセッションデータ（試合結果・W4・ペア禁止・アルゴリズム・タイマーの追加前） */
+function v1Data(): Record<string, unknown> {
+  return {
+    schedule: {
+      courts: 1,
+      players: 5,
+      rounds: [
+        {
+          roundNumber: 1,
+          matches: [{ pairA: { player1: 1, player2: 2 }, pairB: { player1: 3, player2: 4 } }],
+          restingPlayers: [5],
+        },
+      ],
+      evaluation: { pairStdDev: 0, oppoStdDev: 0, restStdDev: 0, totalScore: 0 },
+      fixedPairs: [],
+      activePlayers: [1, 2, 3, 4, 5],
+      roster: [],
+    },
+    completedMatches: ['1-0'],
+    openedAt: { '1': 1700000000000 },
+    lastParams: {
+      courtsCount: 1,
+      playersCount: 5,
+      roundsCount: 1,
+      weights: { w1: 1, w2: 0.5, w3: 2 },
+      fixedPairs: [],
+    },
+    fixedPairs: [],
+    roster: [{ id: 1, name: '佐藤' }],
+    speechPitch: 1,
+    speechRate: 1,
+  };
+}
+
+/** v1 のデータに、バージョン version までに追加されたフィールドを足す */
+function dataAtVersion(version: number): Record<string, unknown> {
+  const data = v1Data();
+  if (version >= 2) {
+    Object.assign(data, { matchResults: { '1-0': { gamesA: 6, gamesB: 4 } }, scoringFormatId: 'eight-game-pro-set' });
+  }
+  if (version >= 3) {
+    const schedule = data.schedule as Record<string, any>;
+    const lastParams = data.lastParams as Record<string, any>;
+    Object.assign(schedule.evaluation, { balanceAvg: 0.5, balanceMax: 1 });
+    lastParams.weights.w4 = 2;
+  }
+  if (version >= 4) {
+    const schedule = data.schedule as Record<string, any>;
+    Object.assign(schedule, { forbiddenPairs: [{ player1: 1, player2: 5 }], forbiddenOpponents: [] });
+    Object.assign(data, { forbiddenPairs: [{ player1: 1, player2: 5 }], forbiddenOpponents: [] });
+  }
+  if (version >= 5) {
+    data.strategyId = 'local-search';
+  }
+  if (version >= 6) {
+    data.timerSettings = { ...DEFAULT_TIMER_SETTINGS, matchMinutes: 20 };
+  }
+  return data;
+}
+
+function store(version: number, data: unknown): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version, savedAt: 0, data }));
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('loadSession のスキーマ移行', () => {
+  it('v1 のデータを現行の形式に移行する', () => {
+    store(1, v1Data());
+
+    const session = loadSession();
+
+    expect(session).not.toBeNull();
+    if (!session) return;
+    expect(session.matchResults).toEqual({});
+    expect(session.scoringFormatId).toBe(DEFAULT_SCORING_FORMAT_ID);
+    expect(session.lastParams?.weights).toEqual({ w1: 1, w2: 0.5, w3: 2, w4: 1 });
+    expect(session.schedule?.evaluation).toMatchObject({ balanceAvg: 0, balanceMax: 0 });
+    expect(session.schedule?.forbiddenPairs).toEqual([]);
+    expect(session.schedule?.forbiddenOpponents).toEqual([]);
+    expect(session.forbiddenPairs).toEqual([]);
+    expect(session.forbiddenOpponents).toEqual([]);
+    expect(session.strategyId).toBe(DEFAULT_STRATEGY_ID);
+    expect(session.timerSettings).toEqual(DEFAULT_TIMER_SETTINGS);
+    expect(session.completedMatches).toEqual(new Set(['1-0']));
+    expect(session.openedAt).toEqual({ '1': new Date(1700000000000) });
+    expect(session.roster).toEqual([{ id: 1, name: '佐藤' }]);
+  });
+
+  it.each([2, 3, 4, 5])('v%i のデータは保存済みのフィールドを保ったまま移行する', (version) => {
+    store(version, dataAtVersion(version));
+
+    const session = loadSession();
+
+    expect(session).not.toBeNull();
+    if (!session) return;
+    expect(session.matchResults).toEqual({ '1-0': { gamesA: 6, gamesB: 4 } });
+    expect(session.scoringFormatId).toBe('eight-game-pro-set');
+    expect(session.lastParams?.weights.w4).toBe(version >= 3 ? 2 : 1);
+    expect(session.schedule?.evaluation.balanceAvg).toBe(version >= 3 ? 0.5 : 0);
+    expect(session.forbiddenPairs).toEqual(version >= 4 ? [{ player1: 1, player2: 5 }] : []);
+    expect(session.schedule?.forbiddenPairs).toEqual(version >= 4 ? [{ player1: 1, player2: 5 }] : []);
+    expect(session.strategyId).toBe(version >= 5 ? 'local-search' : DEFAULT_STRATEGY_ID);
+    expect(session.timerSettings).toEqual(DEFAULT_TIMER_SETTINGS);
+  });
+
+  it('各バージョンから移行した結果は現行バージョンで保存したデータと同じ形になる', () => {
+    store(SESSION_SCHEMA_VERSION, dataAtVersion(SESSION_SCHEMA_VERSION));
+    const current = loadSession();
+
+    for (let version = 1; version < SESSION_SCHEMA_VERSION; version++) {
+      store(version, dataAtVersion(version));
+      const migrated = loadSession();
+
+      expect(Object.keys(migrated ?? {}).sort()).toEqual(Object.keys(current ?? {}).sort());
+      expect(Object.keys(migrated?.schedule ?? {}).sort()).toEqual(Object.keys(current?.schedule ?? {}).sort());
+    }
+  });
+
+  it('保存したセッションはそのまま読み込める', () => {
+    store(SESSION_SCHEMA_VERSION, dataAtVersion(SESSION_SCHEMA_VERSION));
+    const session = loadSession() as SessionState;
+
+    saveSession(session);
+
+    expect(loadSession()).toEqual(session);
+  });
+
+  it('未来のバージョン・移行関数のないバージョンは破棄する', () => {
+    for (const version of [SESSION_SCHEMA_VERSION + 1, 0]) {
+      store(version, dataAtVersion(SESSION_SCHEMA_VERSION));
+
+      expect(loadSession()).toBeNull();
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    }
+  });
+
+  it('移行後の構造が壊れている場合は破棄する', () => {
+    const data = v1Data();
+    delete data.completedMatches;
+    store(1, data);
+
+    expect(loadSession()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('保存データがない場合は null', () => {
+    expect(loadSession()).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * 候補の順位付け（総合スコア → 品質違反件数 → 生成順）と候補シードの再現性のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareCandidates,
+  compareScheduleQuality,
+  countQualityViolations,
+  type QualityTotals,
+  type ScheduleCandidate,
+} from '../../utils/quality';
+import { deriveSeed } from '../../utils/random';
+import { SequentialDecisionStrategy } from '../../strategies/sequential-decision';
+import type { Schedule, ScheduleParams } from '../../types/schedule';
+
+/** 比較に使うフィールドだけを持つ候補 */
+function candidate(index: number, totalScore: number, quality: Partial<QualityTotals> = {}): ScheduleCandidate {
+  return {
+    index,
+    schedule: { evaluation: { totalScore } } as Schedule,
+    quality: { c1: 0, c2: 0, c3: 0, c4: 0, c5: 0, hasRest: true, ...quality },
+  };
+}
+
+describe('compareScheduleQuality', () => {
+  it('総合スコアが小さい方を先にする（品質違反件数より優先）', () => {
+    const better = candidate(0, 1.0, { c1: 5 });
+    const worse = candidate(1, 1.1);
+
+    expect(compareScheduleQuality(better, worse)).toBeLessThan(0);
+    expect(compareScheduleQuality(worse, better)).toBeGreaterThan(0);
+  });
+
+  it.each(['c1', 'c2', 'c3', 'c4', 'c5'] as const)('総合スコアが同点なら %s までの違反件数を辞書式に比較する', (key) => {
+    const keys = ['c1', 'c2', 'c3', 'c4', 'c5'] as const;
+    // key より前の観点は同じ件数、key で差がつき、後ろの観点は逆の差をつける
+    const later = Object.fromEntries(keys.slice(keys.indexOf(key) + 1).map((k) => [k, 9]));
+    const better = candidate(0, 2.0, { [key]: 1, ...later });
+    const worse = candidate(1, 2.0, { [key]: 2 });
+
+    expect(compareScheduleQuality(better, worse)).toBeLessThan(0);
+    expect(compareScheduleQuality(worse, better)).toBeGreaterThan(0);
+  });
+
+  it('1e-9 以内のスコア差は同点として扱う', () => {
+    const a = candidate(0, 2.0 + 1e-12, { c1: 1 });
+    const b = candidate(1, 2.0, { c1: 2 });
+
+    expect(compareScheduleQuality(a, b)).toBeLessThan(0);
+  });
+
+  it('総合スコアと品質違反件数がすべて同じなら 0', () => {
+    expect(compareScheduleQuality(candidate(0, 2.0, { c3: 1 }), candidate(1, 2.0, { c3: 1 }))).toBe(0);
+  });
+});
+
+describe('compareCandidates', () => {
+  it('完全に同点の候補は生成順に並べる', () => {
+    const sorted = [candidate(3, 1.0), candidate(1, 1.0), candidate(2, 1.0), candidate(0, 1.0)].sort(compareCandidates);
+
+    expect(sorted.map((c) => c.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('総合スコア → 品質違反件数 → 生成順の順に比較する', () => {
+    const sorted = [
+      candidate(0, 1.5),
+      candidate(1, 1.0, { c2: 1 }),
+      candidate(2, 1.0, { c1: 1 }),
+      candidate(3, 1.0, { c2: 1 }),
+      candidate(4, 1.0),
+    ].sort(compareCandidates);
+
+    expect(sorted.map((c) => c.index)).toEqual([4, 1, 3, 2, 0]);
+  });
+
+  it('完了順に関わらず同じ順位になる', () => {
+    const candidates = [candidate(0, 1.0), candidate(1, 0.5), candidate(2, 1.0, { c5: 1 }), candidate(3, 1.0)];
+    const completed: ScheduleCandidate[][] = [[...candidates], [...candidates].reverse(), [2, 0, 3, 1].map((i) => candidates[i])];
+
+    const orders = completed.map((list) => list.reduce<ScheduleCandidate[]>((acc, c) => [...acc, c].sort(compareCandidates), []));
+
+    for (const order of orders) {
+      expect(order.map((c) => c.index)).toEqual([1, 0, 3, 2]);
+    }
+  });
+});
+
+describe('複数候補のシード', () => {
+  const params: ScheduleParams = {
+    courtsCount: 2,
+    playersCount: 11,
+    roundsCount: 6,
+    weights: { w1: 1, w2: 0.5, w3: 2, w4: 1 },
+    fixedPairs: [],
+  };
+  const strategy = new SequentialDecisionStrategy();
+
+  it('採用した候補は記録されたシードだけで単独に再現できる', () => {
+    const baseSeed = 777;
+    const candidates = Array.from({ length: 5 }, (_, index): ScheduleCandidate => {
+      const schedule = strategy.generateSchedule({ ...params, seed: deriveSeed(baseSeed, index) });
+      return { index, schedule, quality: countQualityViolations(schedule) };
+    }).sort(compareCandidates);
+    const chosen = candidates[0];
+
+    expect(chosen.schedule.seed).toBe(deriveSeed(baseSeed, chosen.index));
+    const reproduced = strategy.generateSchedule({ ...params, seed: chosen.schedule.seed });
+    expect(reproduced.rounds).toEqual(chosen.schedule.rounds);
+    expect(reproduced.evaluation).toEqual(chosen.schedule.evaluation);
+  });
+
+  it('最初の候補は基準シードでの通常の生成と同じ', () => {
+    const first = strategy.generateSchedule({ ...params, seed: deriveSeed(777, 0) });
+
+    expect(first.rounds).toEqual(strategy.generateSchedule({ ...params, seed: 777 }).rounds);
+  });
+});
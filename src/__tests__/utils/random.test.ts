@@ -0,0 +1,117 @@
+/**
+ * 乱数ユーティリティと生成の再現性のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRandom, deriveSeed, isValidSeed, MAX_SEED, shuffle } from '../../utils/random';
+import { arrangementToRoundWithRest } from '../../utils/normalization';
+import { getMatchPlayers } from '../../utils/singles';
+import { SequentialDecisionStrategy } from '../../strategies/sequential-decision';
+import type { ScheduleParams } from '../../types/schedule';
+
+describe('createRandom', () => {
+  it('同じシードからは常に同じ乱数列を返す', () => {
+    const random = createRandom(12345);
+
+    expect([random(), random(), random()]).toEqual([0.9797282677609473, 0.3067522644996643, 0.484205421525985]);
+  });
+
+  it('別々に作った同じシードの乱数列は一致し、シードが違えば異なる', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const seqA = Array.from({ length: 100 }, () => a());
+
+    expect(Array.from({ length: 100 }, () => b())).toEqual(seqA);
+    expect(Array.from({ length: 100 }, () => c())).not.toEqual(seqA);
+  });
+
+  it('[0, 1) の値を返す', () => {
+    const random = createRandom(0);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('同じシードの乱数でシャッフルすると同じ並びになる', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i + 1);
+
+    expect(shuffle([...items], createRandom(7))).toEqual(shuffle([...items], createRandom(7)));
+  });
+});
+
+describe('deriveSeed', () => {
+  it('index = 0 は元のシードのまま、それ以外は 32bit に収まる別のシード', () => {
+    expect(deriveSeed(12345, 0)).toBe(12345);
+    expect(deriveSeed(12345, 1)).toBe(2654448114);
+    expect(deriveSeed(12345, 2)).toBe(1013916587);
+    expect(deriveSeed(MAX_SEED, 1)).toBe(2654435768);
+  });
+});
+
+describe('isValidSeed', () => {
+  it('0〜MAX_SEED の整数のみ有効', () => {
+    expect(isValidSeed(0)).toBe(true);
+    expect(isValidSeed(MAX_SEED)).toBe(true);
+    expect(isValidSeed(MAX_SEED + 1)).toBe(false);
+    expect(isValidSeed(-1)).toBe(false);
+    expect(isValidSeed(1.5)).toBe(false);
+    expect(isValidSeed(NaN)).toBe(false);
+  });
+});
+
+describe('arrangementToRoundWithRest', () => {
+  const arrangement = Array.from({ length: 16 }, (_, i) => i + 1);
+
+  it('同じシードの乱数からは同じコート順になる', () => {
+    const a = arrangementToRoundWithRest(arrangement, 4, 2, [], createRandom(99));
+    const b = arrangementToRoundWithRest(arrangement, 4, 2, [], createRandom(99));
+
+    expect(b).toEqual(a);
+  });
+
+  it('ラウンド1はコート順をランダム化せず、乱数を消費しない', () => {
+    const random = createRandom(99);
+    const round = arrangementToRoundWithRest(arrangement, 4, 1, [18, 17], random);
+
+    expect(round.matches.map((m) => getMatchPlayers(m)[0])).toEqual([1, 5, 9, 13]);
+    expect(round.restingPlayers).toEqual([17, 18]);
+    expect(random()).toBe(createRandom(99)());
+  });
+});
+
+describe('シード付きの生成', () => {
+  const params: ScheduleParams = {
+    courtsCount: 2,
+    playersCount: 11,
+    roundsCount: 8,
+    weights: { w1: 1, w2: 0.5, w3: 2, w4: 0 },
+    fixedPairs: [],
+    seed: 2024,
+  };
+
+  it('同じ入力とシードからは同じ対戦表を生成し、シードを記録する', () => {
+    const first = new SequentialDecisionStrategy().generateSchedule(params);
+    const second = new SequentialDecisionStrategy().generateSchedule(params);
+
+    expect(second.rounds).toEqual(first.rounds);
+    expect(second.evaluation).toEqual(first.evaluation);
+    expect(first.seed).toBe(2024);
+  });
+
+  it('シードを省略した場合は生成に使ったシードを記録し、そのシードで同じ対戦表を再現できる', () => {
+    const first = new SequentialDecisionStrategy().generateSchedule({ ...params, seed: undefined });
+
+    expect(isValidSeed(first.seed!)).toBe(true);
+    expect(new SequentialDecisionStrategy().generateSchedule({ ...params, seed: first.seed }).rounds).toEqual(first.rounds);
+  });
+
+  it('シードが違えば異なる対戦表になる', () => {
+    const first = new SequentialDecisionStrategy().generateSchedule(params);
+    const other = new SequentialDecisionStrategy().generateSchedule({ ...params, seed: 2025 });
+
+    expect(other.rounds).not.toEqual(first.rounds);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * 試合結果（スコア）の検証テスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterResultsByRounds,
+  formatMatchResult,
+  getMatchWinner,
+  getScoringFormat,
+  requiresTiebreak,
+  validateMatchResult,
+} from '../../utils/scoring';
+import type { MatchResult, ScoringFormatId } from '../../types/schedule';
+
+function validate(id: ScoringFormatId, result: MatchResult) {
+  return validateMatchResult(result, getScoringFormat(id));
+}
+
+describe('validateMatchResult', () => {
+  it.each<[ScoringFormatId, number, number]>([
+    ['six-game-set', 6, 0],
+    ['six-game-set', 6, 4],
+    ['six-game-set', 4, 6],
+    ['six-game-set', 7, 5],
+    ['six-game-set', 5, 7],
+    ['eight-game-pro-set', 8, 0],
+    ['eight-game-pro-set', 8, 6],
+    ['eight-game-pro-set', 9, 7],
+    ['four-game-no-ad', 4, 0],
+    ['four-game-no-ad', 4, 3],
+    ['four-game-no-ad', 3, 4],
+  ])('%s: %i-%i は有効', (id, gamesA, gamesB) => {
+    expect(validate(id, { gamesA, gamesB })).toEqual({ isValid: true });
+  });
+
+  it.each<[ScoringFormatId, number, number, string]>([
+    ['six-game-set', 6, 5, '6-5 は「6ゲーム先取（6-6タイブレーク）」のスコアとして無効です'],
+    ['six-game-set', 7, 4, '7-4 は「6ゲーム先取（6-6タイブレーク）」のスコアとして無効です'],
+    ['six-game-set', 8, 6, '8-6 は「6ゲーム先取（6-6タイブレーク）」のスコアとして無効です'],
+    ['six-game-set', 5, 3, '5-3 は「6ゲーム先取（6-6タイブレーク）」のスコアとして無効です'],
+    ['eight-game-pro-set', 8, 7, '8-7 は「8ゲームプロセット（8-8タイブレーク）」のスコアとして無効です'],
+    ['eight-game-pro-set', 10, 8, '10-8 は「8ゲームプロセット（8-8タイブレーク）」のスコアとして無効です'],
+    ['eight-game-pro-set', 6, 4, '6-4 は「8ゲームプロセット（8-8タイブレーク）」のスコアとして無効です'],
+    ['four-game-no-ad', 5, 3, '5-3 は「4ゲーム先取（ノーアド）」のスコアとして無効です'],
+    ['four-game-no-ad', 3, 2, '3-2 は「4ゲーム先取（ノーアド）」のスコアとして無効です'],
+    ['four-game-no-ad', 5, 4, '5-4 は「4ゲーム先取（ノーアド）」のスコアとして無効です'],
+  ])('%s: %i-%i は無効', (id, gamesA, gamesB, errorMessage) => {
+    expect(validate(id, { gamesA, gamesB })).toEqual({ isValid: false, errorMessage });
+  });
+
+  it('引き分けと、0以上の整数でないゲーム数は無効', () => {
+    expect(validate('six-game-set', { gamesA: 6, gamesB: 6 })).toEqual({ isValid: false, errorMessage: '引き分けのスコアは入力できません' });
+    expect(validate('six-game-set', { gamesA: -1, gamesB: 6 })).toEqual({ isValid: false, errorMessage: 'ゲーム数は0以上の整数で入力してください' });
+    expect(validate('six-game-set', { gamesA: 6, gamesB: 1.5 })).toEqual({ isValid: false, errorMessage: 'ゲーム数は0以上の整数で入力してください' });
+  });
+
+  it('不戦勝はゲーム数を検証しない', () => {
+    expect(validate('six-game-set', { gamesA: 0, gamesB: 0, walkover: 'A' })).toEqual({ isValid: true });
+  });
+
+  describe('タイブレーク', () => {
+    it('タイブレークで決着するスコアはポイントが必須', () => {
+      expect(validate('six-game-set', { gamesA: 7, gamesB: 6 })).toEqual({ isValid: false, errorMessage: 'タイブレークのポイントを入力してください' });
+      expect(validate('eight-game-pro-set', { gamesA: 8, gamesB: 9 })).toEqual({ isValid: false, errorMessage: 'タイブレークのポイントを入力してください' });
+    });
+
+    it.each([
+      [7, 0],
+      [7, 5],
+      [8, 6],
+      [12, 10],
+    ])('%i-%i（7ポイント先取・2ポイント差）は有効', (pointsA, pointsB) => {
+      expect(validate('six-game-set', { gamesA: 7, gamesB: 6, tiebreak: { pointsA, pointsB } })).toEqual({ isValid: true });
+    });
+
+    it.each([
+      [7, 6],
+      [6, 4],
+      [9, 6],
+    ])('%i-%i は決着していないため無効', (pointsA, pointsB) => {
+      expect(validate('six-game-set', { gamesA: 7, gamesB: 6, tiebreak: { pointsA, pointsB } })).toEqual({
+        isValid: false,
+        errorMessage: 'タイブレークは7ポイント先取・2ポイント差で入力してください',
+      });
+    });
+
+    it('タイブレークの勝者がゲーム数の勝者と異なる場合は無効', () => {
+      expect(validate('six-game-set', { gamesA: 7, gamesB: 6, tiebreak: { pointsA: 3, pointsB: 7 } })).toEqual({
+        isValid: false,
+        errorMessage: 'タイブレークの勝者とゲーム数の勝者が一致しません',
+      });
+    });
+
+    it('タイブレークのポイントが0以上の整数でない場合は無効', () => {
+      expect(validate('six-game-set', { gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: -1 } })).toEqual({
+        isValid: false,
+        errorMessage: 'タイブレークのポイントは0以上の整数で入力してください',
+      });
+    });
+
+    it('タイブレークにならないスコアにポイントを入力した場合は無効', () => {
+      expect(validate('six-game-set', { gamesA: 6, gamesB: 4, tiebreak: { pointsA: 7, pointsB: 5 } })).toEqual({
+        isValid: false,
+        errorMessage: 'このスコアではタイブレークは入力できません',
+      });
+      expect(validate('four-game-no-ad', { gamesA: 4, gamesB: 3, tiebreak: { pointsA: 7, pointsB: 5 } })).toEqual({
+        isValid: false,
+        errorMessage: 'このスコアではタイブレークは入力できません',
+      });
+    });
+  });
+});
+
+describe('requiresTiebreak', () => {
+  it('タイブレークのゲーム数から1ゲーム差で決着したスコアのみ true', () => {
+    const six = getScoringFormat('six-game-set');
+    expect(requiresTiebreak(7, 6, six)).toBe(true);
+    expect(requiresTiebreak(6, 7, six)).toBe(true);
+    expect(requiresTiebreak(7, 5, six)).toBe(false);
+    expect(requiresTiebreak(9, 8, getScoringFormat('eight-game-pro-set'))).toBe(true);
+    expect(requiresTiebreak(7, 6, getScoringFormat('eight-game-pro-set'))).toBe(false);
+  });
+
+  it('タイブレークのない形式は常に false', () => {
+    expect(requiresTiebreak(4, 3, getScoringFormat('four-game-no-ad'))).toBe(false);
+  });
+});
+
+describe('getMatchWinner', () => {
+  it('ゲーム数の多い側が勝者', () => {
+    expect(getMatchWinner({ gamesA: 6, gamesB: 4 })).toBe('A');
+    expect(getMatchWinner({ gamesA: 6, gamesB: 7, tiebreak: { pointsA: 5, pointsB: 7 } })).toBe('B');
+  });
+
+  it('不戦勝はゲーム数によらず不戦勝の側が勝者', () => {
+    expect(getMatchWinner({ gamesA: 3, gamesB: 0, walkover: 'B' })).toBe('B');
+  });
+});
+
+describe('formatMatchResult', () => {
+  it('タイブレークは敗者側のポイントのみ表示する', () => {
+    expect(formatMatchResult({ gamesA: 6, gamesB: 4 })).toBe('6-4');
+    expect(formatMatchResult({ gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: 4 } })).toBe('7-6(4)');
+    expect(formatMatchResult({ gamesA: 0, gamesB: 0, walkover: 'B' })).toBe('不戦勝(B)');
+  });
+});
+
+describe('getScoringFormat', () => {
+  it('未知の識別子はデフォルト形式', () => {
+    expect(getScoringFormat('unknown' as ScoringFormatId).id).toBe('six-game-set');
+  });
+});
+
+describe('filterResultsByRounds', () => {
+  it('指定したラウンドの結果のみを残し、元のオブジェクトは変更しない', () => {
+    const results = { '1-0': { gamesA: 6, gamesB: 1 }, '2-0': { gamesA: 6, gamesB: 2 }, '12-1': { gamesA: 6, gamesB: 3 } };
+
+    expect(filterResultsByRounds(results, new Set([1, 12]))).toEqual({ '1-0': results['1-0'], '12-1': results['12-1'] });
+    expect(Object.keys(results)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * 対戦表の共有（URL フラグメント）のエンコード・デコードのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SHARE_FORMAT_VERSION,
+  SHARE_HASH_PREFIX,
+  decodeSharedSchedule,
+  encodeScheduleForShare,
+  readSharedSchedule,
+} from '../../utils/share';
+import { evaluate } from '../../utils/evaluation';
+import type { Round, Schedule } from '../../types/schedule';
+
+const weights = { w1: 1, w2: 0.5, w3: 2, w4: 1 };
+
+function match(a1: number, a2: number, b1: number, b2: number) {
+  return { pairA: { player1: a1, player2: a2 }, pairB: { player1: b1, player2: b2 } };
+}
+
+function schedule(rounds: Round[], overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    courts: 2,
+    players: 10,
+    rounds,
+    evaluation: evaluate(rounds, 10, weights),
+    fixedPairs: [],
+    forbiddenPairs: [],
+    forbiddenOpponents: [],
+    activePlayers: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    roster: [],
+    ...overrides,
+  };
+}
+
+/** 10人・2コート・2ラウンド（すべてダブルス） */
+const doublesRounds: Round[] = [
+  { roundNumber: 1, matches: [match(1, 2, 3, 4), match(5, 6, 7, 8)], restingPlayers: [9, 10] },
+  { roundNumber: 2, matches: [match(1, 3, 2, 9), match(4, 10, 5, 7)], restingPlayers: [6, 8] },
+];
+
+/** 旧バージョンのリンクを組み立てるための書き込み（share.ts の形式と同じく MSB から詰める） */
+function packBits(write: (bits: (value: number, width: number) => void, varUint: (value: number) => void) => void) {
+  const bitList: number[] = [];
+  const bits = (value: number, width: number) => {
+    for (let i = width - 1; i >= 0; i--) bitList.push((value >> i) & 1);
+  };
+  const varUint = (value: number) => {
+    let rest = value;
+    while (rest >= 0x80) {
+      bits((rest & 0x7f) | 0x80, 8);
+      rest >>>= 7;
+    }
+    bits(rest, 8);
+  };
+  write(bits, varUint);
+
+  const bytes = Array.from({ length: Math.ceil(bitList.length / 8) }, (_, i) =>
+    bitList.slice(i * 8, i * 8 + 8).reduce((byte, bit, j) => byte | (bit << (7 - j)), 0)
+  );
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** doublesRounds を旧バージョンの形式で書き込む（名前なし） */
+function encodeLegacy(version: 1 | 2, courtChanges: { fromRound: number; courts: number }[] = []): string {
+  return packBits((bits, varUint) => {
+    bits(version, 8);
+    bits(0, 1);
+    varUint(2);
+    varUint(10);
+    varUint(doublesRounds.length);
+    if (version === 2) {
+      varUint(courtChanges.length);
+      for (const change of courtChanges) {
+        varUint(change.fromRound);
+        varUint(change.courts);
+      }
+    }
+    for (let p = 1; p <= 10; p++) bits(1, 1);
+    for (const round of doublesRounds) {
+      varUint(round.roundNumber);
+      for (const m of round.matches) {
+        if ('pairA' in m) {
+          for (const p of [m.pairA.player1, m.pairA.player2, m.pairB.player1, m.pairB.player2]) bits(p, 4);
+        }
+      }
+      varUint(round.restingPlayers.length);
+      for (const p of round.restingPlayers) bits(p, 4);
+    }
+  });
+}
+
+describe('encodeScheduleForShare / decodeSharedSchedule', () => {
+  it('ダブルスのみのスケジュールを往復すると同じラウンド・評価に戻る', () => {
+    const original = schedule(doublesRounds);
+
+    const result = decodeSharedSchedule(encodeScheduleForShare(original, false));
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    expect(result.schedule.rounds).toEqual(original.rounds);
+    expect(result.schedule.courts).toBe(2);
+    expect(result.schedule.players).toBe(10);
+    expect(result.schedule.activePlayers).toEqual(original.activePlayers);
+    expect(result.schedule.evaluation.totalScore).toBeCloseTo(original.evaluation.totalScore, 9);
+  });
+
+  it('シングルス・コート数の変更・欠席者・名前を往復できる', () => {
+    const rounds: Round[] = [
+      { roundNumber: 1, matches: [match(1, 2, 3, 4), { type: 'singles', playerA: 5, playerB: 6 }], restingPlayers: [7, 8, 9] },
+      { roundNumber: 2, matches: [match(1, 5, 7, 9)], restingPlayers: [2, 3, 4, 6, 8] },
+    ];
+    const original = schedule(rounds, {
+      courtChanges: [{ fromRound: 2, courts: 1 }],
+      activePlayers: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+      roster: [
+        { id: 1, name: '佐藤' },
+        { id: 10, name: 'Ann, "A"' },
+        { id: 3, name: '' },
+      ],
+    });
+
+    const result = decodeSharedSchedule(encodeScheduleForShare(original, true));
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    expect(result.schedule.rounds).toEqual(rounds);
+    expect(result.schedule.courtChanges).toEqual([{ fromRound: 2, courts: 1 }]);
+    expect(result.schedule.activePlayers).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(result.schedule.roster.map(({ id, name }) => ({ id, name }))).toEqual([
+      { id: 1, name: '佐藤' },
+      { id: 10, name: 'Ann, "A"' },
+    ]);
+  });
+
+  it('名前を含めない場合は名簿が空になる', () => {
+    const original = schedule(doublesRounds, { roster: [{ id: 1, name: '佐藤' }] });
+
+    const result = decodeSharedSchedule(encodeScheduleForShare(original, false));
+
+    expect(result).toMatchObject({ isValid: true, schedule: { roster: [] } });
+  });
+
+  it('同じスケジュールからは同じ文字列になる', () => {
+    expect(encodeScheduleForShare(schedule(doublesRounds), true)).toBe(
+      encodeScheduleForShare(schedule(doublesRounds), true)
+    );
+  });
+
+  it('バージョン 2（試合の種類なし）のリンクをダブルスとして読み込む', () => {
+    const result = decodeSharedSchedule(encodeLegacy(2, [{ fromRound: 2, courts: 2 }]));
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    expect(result.schedule.rounds).toEqual(doublesRounds);
+    expect(result.schedule.courtChanges).toEqual([{ fromRound: 2, courts: 2 }]);
+  });
+
+  it('バージョン 1（コート数の変更なし）のリンクを読み込む', () => {
+    const result = decodeSharedSchedule(encodeLegacy(1));
+
+    expect(result.isValid).toBe(true);
+    if (!result.isValid) return;
+    expect(result.schedule.rounds).toEqual(doublesRounds);
+    expect(result.schedule.courtChanges ?? []).toEqual([]);
+  });
+
+  it('未対応のバージョンはエラー', () => {
+    const encoded = packBits((bits) => bits(SHARE_FORMAT_VERSION + 1, 8));
+
+    expect(decodeSharedSchedule(encoded)).toEqual({
+      isValid: false,
+      errorMessages: [`未対応の共有リンクのバージョンです（${SHARE_FORMAT_VERSION + 1}）`],
+    });
+  });
+
+  it('途中で切れたデータは例外を投げずにエラーを返す', () => {
+    const encoded = encodeScheduleForShare(schedule(doublesRounds), false);
+
+    for (const length of [1, 4, Math.floor(encoded.length / 2), encoded.length - 4]) {
+      const truncated = encoded.slice(0, length);
+      expect(() => decodeSharedSchedule(truncated)).not.toThrow();
+      expect(decodeSharedSchedule(truncated).isValid).toBe(false);
+    }
+    expect(decodeSharedSchedule(encoded.slice(0, 4))).toEqual({
+      isValid: false,
+      errorMessages: ['共有リンクが壊れています: データが途中で終わっています'],
+    });
+  });
+
+  it('base64url 以外の文字を含む場合はエラー', () => {
+    const encoded = encodeScheduleForShare(schedule(doublesRounds), false);
+
+    for (const text of [`${encoded}+`, `${encoded}=`, `${encoded.slice(0, 3)}!${encoded.slice(4)}`, 'あ']) {
+      expect(decodeSharedSchedule(text)).toEqual({
+        isValid: false,
+        errorMessages: ['共有リンクが壊れています: 使用できない文字が含まれています'],
+      });
+    }
+  });
+});
+
+describe('readSharedSchedule', () => {
+  it('共有リンクでないフラグメントは null', () => {
+    expect(readSharedSchedule('')).toBeNull();
+    expect(readSharedSchedule('#other')).toBeNull();
+  });
+
+  it('接頭辞の後ろをデコードする', () => {
+    const original = schedule(doublesRounds);
+
+    const result = readSharedSchedule(`${SHARE_HASH_PREFIX}${encodeScheduleForShare(original, false)}`);
+
+    expect(result).toMatchObject({ isValid: true, schedule: { rounds: original.rounds } });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * シングルスの試合とシングルスコートのユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countPlayingPlayers,
+  createSinglesMatch,
+  getMatchPlayers,
+  getMatchSides,
+  getRequiredPlayers,
+  getSinglesCourtsForRound,
+  mergeCourtMatches,
+  selectSinglesPlayers,
+  validateSinglesCourts,
+} from '../../utils/singles';
+import { createRandom } from '../../utils/random';
+import type { Match } from '../../types/schedule';
+
+const doubles: Match = { pairA: { player1: 1, player2: 2 }, pairB: { player1: 3, player2: 4 } };
+
+describe('getSinglesCourtsForRound', () => {
+  it.each([
+    // [singlesCourts, courts, players, expected]
+    [[2], 3, 12, []], // 全コートダブルスにできる
+    [[2], 3, 13, []], // 人数に余りがあっても休憩で調整する
+    [[2], 3, 11, [2]], // 1人不足でもシングルス1面（2人分）を使う
+    [[2], 3, 10, [2]], // ちょうどダブルス2面 + シングルス1面
+    [[1, 2], 3, 8, [1, 2]], // 4人不足でシングルス2面
+    [[1, 2], 3, 10, [1]], // 必要な分だけ指定順に使う
+    [[2, 0], 3, 10, [2]], // 指定順（昇順でない指定もその順に使う）
+    [[2], 2, 6, []], // そのラウンドに存在しないコートは使わない
+    [[1, 2], 2, 6, [1]],
+    [[], 2, 6, []],
+  ])('シングルスにできるコート %j・%i面・%i人ではシングルスにするコートは %j', (singlesCourts, courts, players, expected) => {
+    expect(getSinglesCourtsForRound(singlesCourts, courts, players)).toEqual(expected);
+  });
+
+  it('singlesCourts を省略した場合はシングルスにしない', () => {
+    expect(getSinglesCourtsForRound(undefined, 2, 6)).toEqual([]);
+  });
+});
+
+describe('countPlayingPlayers / getRequiredPlayers', () => {
+  it('ダブルス1面4人、シングルス1面2人で数える', () => {
+    expect(countPlayingPlayers(3, 0)).toBe(12);
+    expect(countPlayingPlayers(3, 1)).toBe(10);
+    expect(countPlayingPlayers(3, 3)).toBe(6);
+  });
+
+  it('必要な最少人数はシングルスにできるコートをすべてシングルスにした場合', () => {
+    expect(getRequiredPlayers(3, [2])).toBe(10);
+    expect(getRequiredPlayers(3, [0, 1, 2])).toBe(6);
+    expect(getRequiredPlayers(2, [2])).toBe(8); // 存在しないコートは数えない
+    expect(getRequiredPlayers(2, undefined)).toBe(8);
+  });
+
+  it('必要な最少人数ではシングルスのコートがすべて使われ、全員が出場する', () => {
+    const singles = getSinglesCourtsForRound([0, 2], 3, getRequiredPlayers(3, [0, 2]));
+
+    expect(singles).toEqual([0, 2]);
+    expect(countPlayingPlayers(3, singles.length)).toBe(getRequiredPlayers(3, [0, 2]));
+  });
+});
+
+describe('validateSinglesCourts', () => {
+  it('指定なしは有効', () => {
+    expect(validateSinglesCourts([], 2, true)).toEqual({ isValid: true });
+  });
+
+  it('範囲内のコートは有効（境界: 最初と最後のコート）', () => {
+    expect(validateSinglesCourts([0, 2], 3, false)).toEqual({ isValid: true });
+  });
+
+  it.each([
+    [[3], 3, 'シングルスコート（コート 4）は 1〜3 の範囲で指定してください'],
+    [[-1], 3, 'シングルスコート（コート 0）は 1〜3 の範囲で指定してください'],
+    [[0.5], 3, 'シングルスコート（コート 1.5）は 1〜3 の範囲で指定してください'],
+  ])('%j は %i 面の範囲外', (singlesCourts, maxCourts, message) => {
+    expect(validateSinglesCourts(singlesCourts, maxCourts, false)).toEqual({ isValid: false, errorMessage: message });
+  });
+
+  it('ミックスダブルスとは同時に使えない', () => {
+    expect(validateSinglesCourts([0], 2, true)).toEqual({
+      isValid: false,
+      errorMessage: 'ミックスダブルスではシングルスコートを使用できません',
+    });
+  });
+});
+
+describe('試合の出場者', () => {
+  it('ダブルスとシングルスを同じ形で扱う', () => {
+    const singles = createSinglesMatch(6, 5);
+
+    expect(singles).toEqual({ type: 'singles', playerA: 5, playerB: 6 });
+    expect(getMatchSides(doubles)).toEqual([[1, 2], [3, 4]]);
+    expect(getMatchSides(singles)).toEqual([[5], [6]]);
+    expect(getMatchPlayers(singles)).toEqual([5, 6]);
+  });
+});
+
+describe('mergeCourtMatches', () => {
+  it('シングルスを指定したコートに置き、残りのコートにダブルスを順に置く', () => {
+    const doubles2: Match = { pairA: { player1: 5, player2: 6 }, pairB: { player1: 7, player2: 8 } };
+    const singles = createSinglesMatch(9, 10);
+
+    expect(mergeCourtMatches([doubles, doubles2], [singles], [1])).toEqual([doubles, singles, doubles2]);
+    expect(mergeCourtMatches([doubles, doubles2], [singles], [2])).toEqual([doubles, doubles2, singles]);
+  });
+});
+
+describe('selectSinglesPlayers', () => {
+  it('シングルス出場回数の少ないプレイヤーを優先し、固定ペアのメンバーは後回しにする', () => {
+    const singlesCounts = [0, 0, 1, 1, 2, 2];
+
+    const selected = selectSinglesPlayers([1, 2, 3, 4, 5, 6], 2, singlesCounts, createRandom(1), [{ player1: 1, player2: 2 }]);
+
+    expect(selected.sort()).toEqual([3, 4]);
+  });
+
+  it('0人の場合は空', () => {
+    expect(selectSinglesPlayers([1, 2, 3, 4], 0, [0, 0, 0, 0], createRandom(1))).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * 個人順位表の集計テスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateStandings, getMetricValue } from '../../utils/standings';
+import type { StandingsMetric } from '../../utils/standings';
+import type { Round, MatchResults } from '../../types/schedule';
+
+function round(roundNumber: number, matches: [number, number, number, number][], restingPlayers: number[] = []): Round {
+  return {
+    roundNumber,
+    matches: matches.map(([a1, a2, b1, b2]) => ({
+      pairA: { player1: a1, player2: a2 },
+      pairB: { player1: b1, player2: b2 },
+    })),
+    restingPlayers,
+  };
+}
+
+function byPlayer(standings: ReturnType<typeof calculateStandings>) {
+  return new Map(standings.map(s => [s.player, s]));
+}
+
+describe('calculateStandings', () => {
+  it('ペアの両プレイヤーに勝敗とゲーム数を加算する', () => {
+    const rounds = [round(1, [[1, 2, 3, 4]])];
+    const results: MatchResults = { '1-0': { gamesA: 6, gamesB: 3 } };
+
+    const s = byPlayer(calculateStandings(rounds, [1, 2, 3, 4], results));
+
+    for (const p of [1, 2]) {
+      expect(s.get(p)).toMatchObject({ wins: 1, losses: 0, gamesWon: 6, gamesLost: 3, gameDiff: 3, winRate: 1 });
+    }
+    for (const p of [3, 4]) {
+      expect(s.get(p)).toMatchObject({ wins: 0, losses: 1, gamesWon: 3, gamesLost: 6, gameDiff: -3, winRate: 0 });
+    }
+  });
+
+  it('シングルスの試合は出場した1人ずつに勝敗とゲーム数を加算する', () => {
+    const rounds: Round[] = [{
+      roundNumber: 1,
+      matches: [
+        { pairA: { player1: 1, player2: 2 }, pairB: { player1: 3, player2: 4 } },
+        { type: 'singles', playerA: 5, playerB: 6 },
+      ],
+      restingPlayers: [],
+    }];
+    const results: MatchResults = { '1-0': { gamesA: 6, gamesB: 4 }, '1-1': { gamesA: 2, gamesB: 6 } };
+
+    const s = byPlayer(calculateStandings(rounds, [1, 2, 3, 4, 5, 6], results));
+
+    expect(s.get(5)).toMatchObject({ wins: 0, losses: 1, matchesPlayed: 1, gamesWon: 2, gamesLost: 6 });
+    expect(s.get(6)).toMatchObject({ wins: 1, losses: 0, matchesPlayed: 1, gamesWon: 6, gamesLost: 2 });
+    expect(s.get(1)).toMatchObject({ wins: 1, gamesWon: 6, gamesLost: 4 });
+  });
+
+  it('不戦勝は勝敗のみ数え、ゲーム数は数えない', () => {
+    const rounds = [round(1, [[1, 2, 3, 4]])];
+    const results: MatchResults = { '1-0': { gamesA: 0, gamesB: 0, walkover: 'B' } };
+
+    const s = byPlayer(calculateStandings(rounds, [1, 2, 3, 4], results));
+
+    expect(s.get(3)).toMatchObject({ wins: 1, matchesPlayed: 1, scoredMatches: 0, gamesWon: 0 });
+    expect(s.get(1)).toMatchObject({ losses: 1, matchesPlayed: 1, scoredMatches: 0 });
+  });
+
+  it('tiebreakOrder の先頭の指標から順に比較する', () => {
+    // P3: 2勝 ゲーム差+2 / P1,P2: 1勝1敗 ゲーム差+5
+    const rounds = [
+      round(1, [[1, 2, 4, 5]], [3, 6]),
+      round(2, [[3, 4, 1, 5]], [2, 6]),
+      round(3, [[3, 5, 2, 6]], [1, 4]),
+    ];
+    const results: MatchResults = {
+      '1-0': { gamesA: 6, gamesB: 0 },
+      '2-0': { gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: 3 } },
+      '3-0': { gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: 5 } },
+    };
+    const players = [1, 2, 3, 4, 5, 6];
+
+    const byWins = calculateStandings(rounds, players, results, { tiebreakOrder: ['wins', 'gameDiff'], normalization: 'total' });
+    expect(byWins.map(s => s.player).slice(0, 3)).toEqual([3, 1, 2]);
+
+    const byGameDiff = calculateStandings(rounds, players, results, { tiebreakOrder: ['gameDiff', 'wins'], normalization: 'total' });
+    expect(byGameDiff.map(s => s.player).slice(0, 3)).toEqual([1, 2, 3]);
+  });
+
+  it('同成績のプレイヤーは同順位になり、次の順位は人数分飛ぶ', () => {
+    const rounds = [round(1, [[1, 2, 3, 4]])];
+    const results: MatchResults = { '1-0': { gamesA: 6, gamesB: 2 } };
+
+    const standings = calculateStandings(rounds, [1, 2, 3, 4], results);
+
+    expect(standings.map(s => [s.player, s.rank])).toEqual([[1, 1], [2, 1], [3, 3], [4, 3]]);
+  });
+
+  it('perMatch では出場試合数の少ないプレイヤーを平均値で公平に比較する', () => {
+    // P5 は第3ラウンドから途中参加（1勝0敗）、P1 は3試合（2勝1敗）
+    const rounds = [
+      round(1, [[1, 2, 3, 4]]),
+      round(2, [[1, 3, 2, 4]]),
+      round(3, [[1, 4, 5, 2]], [3]),
+    ];
+    const results: MatchResults = {
+      '1-0': { gamesA: 6, gamesB: 1 },
+      '2-0': { gamesA: 6, gamesB: 2 },
+      '3-0': { gamesA: 3, gamesB: 6 },
+    };
+    const players = [1, 2, 3, 4, 5];
+    const tiebreakOrder: StandingsMetric[] = ['wins', 'gameDiff'];
+
+    const total = calculateStandings(rounds, players, results, { tiebreakOrder, normalization: 'total' });
+    const perMatch = calculateStandings(rounds, players, results, { tiebreakOrder, normalization: 'perMatch' });
+
+    // 合計: 試合数の多い P1 (2勝) が首位、P5 (1勝) は3位
+    expect(total[0].player).toBe(1);
+    expect(byPlayer(total).get(5)!.rank).toBe(3);
+    // 平均: 全勝の P5 が1試合あたり勝利数 1.0 で首位
+    expect(perMatch[0]).toMatchObject({ player: 5, rank: 1, absentCount: 2 });
+    expect(getMetricValue(perMatch[0], 'wins', 'perMatch')).toBe(1);
+  });
+
+  it('結果入力済みラウンドの休憩回数と不在回数を数える', () => {
+    const rounds = [
+      round(1, [[1, 2, 3, 4]], [5]),
+      round(2, [[1, 5, 3, 6]], [2, 4]),
+      round(3, [[1, 2, 3, 4]], [5, 6]),
+    ];
+    const results: MatchResults = {
+      '1-0': { gamesA: 6, gamesB: 4 },
+      '2-0': { gamesA: 6, gamesB: 4 },
+    };
+
+    const s = byPlayer(calculateStandings(rounds, [1, 2, 3, 4, 5, 6], results));
+
+    expect(s.get(5)).toMatchObject({ restCount: 1, absentCount: 0, matchesPlayed: 1 });
+    expect(s.get(6)).toMatchObject({ restCount: 0, absentCount: 1, matchesPlayed: 1 });
+  });
+
+  it('結果のある試合に未出場のプレイヤーは順位なしで末尾に並ぶ', () => {
+    const rounds = [round(1, [[1, 2, 3, 4]], [5])];
+    const results: MatchResults = { '1-0': { gamesA: 3, gamesB: 6 } };
+
+    const standings = calculateStandings(rounds, [1, 2, 3, 4, 5], results);
+
+    expect(standings[standings.length - 1]).toMatchObject({ player: 5, rank: null, matchesPlayed: 0 });
+  });
+
+  it('結果がない場合は全員が順位なしになる', () => {
+    const standings = calculateStandings([round(1, [[1, 2, 3, 4]])], [1, 2, 3, 4], {});
+
+    expect(standings.every(s => s.rank === null)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * 時間から決めるラウンド数（開始・終了時刻からのラウンド数と予定時刻）のテスト
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TIME_PLAN,
+  calculatePlannedRounds,
+  estimateRoundsPlayed,
+  formatClockTime,
+  getRoundStartMinutes,
+  isRoundWithinPlan,
+  parseClockTime,
+  validateTimePlan,
+} from '../../utils/timePlan';
+import type { TimePlan } from '../../types/schedule';
+
+function plan(overrides: Partial<TimePlan>): TimePlan {
+  return { ...DEFAULT_TIME_PLAN, ...overrides };
+}
+
+describe('parseClockTime / formatClockTime', () => {
+  it.each([
+    ['00:00', 0],
+    ['9:05', 545],
+    ['09:30', 570],
+    ['23:59', 1439],
+  ])('%s は %i 分', (time, minutes) => {
+    expect(parseClockTime(time)).toBe(minutes);
+  });
+
+  it.each(['24:00', '12:60', '9:5', '0930', '', 'ab:cd'])('%j は不正な形式', (time) => {
+    expect(parseClockTime(time)).toBeNull();
+  });
+
+  it('経過分を HH:MM に戻し、24時以降は翌日の時刻にする', () => {
+    expect(formatClockTime(570)).toBe('09:30');
+    expect(formatClockTime(1440 + 65)).toBe('01:05');
+    expect(formatClockTime(-10)).toBe('23:50');
+  });
+});
+
+describe('calculatePlannedRounds', () => {
+  it.each([
+    // [開始, 終了, 1試合, 入れ替え, ラウンド数]
+    ['09:00', '12:00', 15, 2, 10], // (180 + 2) / 17 = 10.7 → 切り捨て
+    ['09:00', '09:49', 15, 2, 3], // ちょうど3ラウンド（15 + 2 + 15 + 2 + 15 = 49分）
+    ['09:00', '09:48', 15, 2, 2], // 3ラウンド目の終了に1分足りない
+    ['09:00', '09:51', 15, 2, 3], // 余った時間は切り捨てる
+    ['09:00', '09:47', 15, 1, 3],
+    ['09:00', '09:15', 15, 5, 1], // 最後のラウンドの後の入れ替え時間は不要
+    ['09:00', '09:14', 15, 0, 0], // 1試合も入らない
+    ['09:00', '12:00', 20, 0, 9],
+  ])('%s〜%s・1試合%i分・入れ替え%i分は %i ラウンド', (startTime, endTime, matchMinutes, changeoverMinutes, rounds) => {
+    expect(calculatePlannedRounds({ startTime, endTime, matchMinutes, changeoverMinutes })).toBe(rounds);
+  });
+
+  it('計算したラウンド数の最後のラウンドは終了時刻までに終わり、次のラウンドは終わらない', () => {
+    for (const overrides of [{}, { endTime: '11:40' }, { matchMinutes: 12, changeoverMinutes: 3 }, { changeoverMinutes: 0 }]) {
+      const p = plan(overrides);
+      const rounds = calculatePlannedRounds(p);
+
+      expect(isRoundWithinPlan(p, rounds)).toBe(true);
+      expect(isRoundWithinPlan(p, rounds + 1)).toBe(false);
+    }
+  });
+
+  it.each([
+    ['終了時刻が開始時刻と同じ', plan({ endTime: '09:00' })],
+    ['終了時刻が開始時刻より前', plan({ startTime: '12:00', endTime: '09:00' })],
+    ['時刻の形式が不正', plan({ startTime: '' })],
+    ['1試合の時間が0分', plan({ matchMinutes: 0 })],
+  ])('%s場合は 0', (_, p) => {
+    expect(calculatePlannedRounds(p)).toBe(0);
+  });
+});
+
+describe('getRoundStartMinutes', () => {
+  it('開始時刻から (1試合 + 入れ替え) ごとに開始する', () => {
+    const p = plan({});
+
+    expect(getRoundStartMinutes(p, 1)).toBe(540);
+    expect(getRoundStartMinutes(p, 2)).toBe(557);
+    expect(formatClockTime(getRoundStartMinutes(p, 10)!)).toBe('11:33');
+    // 計画したラウンド数を超えるラウンドも同じ間隔
+    expect(formatClockTime(getRoundStartMinutes(p, 11)!)).toBe('11:50');
+  });
+
+  it('開始時刻が不正な場合は null', () => {
+    expect(getRoundStartMinutes(plan({ startTime: 'x' }), 1)).toBeNull();
+    expect(isRoundWithinPlan(plan({ startTime: 'x' }), 1)).toBe(false);
+  });
+});
+
+describe('validateTimePlan', () => {
+  it('初期設定は有効', () => {
+    expect(validateTimePlan(DEFAULT_TIME_PLAN)).toEqual({ isValid: true });
+  });
+
+  it('入れ替え時間0分と、ちょうど1ラウンド入る時間は有効', () => {
+    expect(validateTimePlan(plan({ changeoverMinutes: 0 }))).toEqual({ isValid: true });
+    expect(validateTimePlan(plan({ endTime: '09:15' }))).toEqual({ isValid: true });
+  });
+
+  it.each([
+    [plan({ startTime: '' }), '開始時刻と終了時刻を入力してください'],
+    [plan({ endTime: '25:00' }), '開始時刻と終了時刻を入力してください'],
+    [plan({ endTime: '09:00' }), '終了時刻は開始時刻より後にしてください'],
+    [plan({ startTime: '13:00' }), '終了時刻は開始時刻より後にしてください'],
+    [plan({ matchMinutes: 0 }), '1試合の時間は1分以上にしてください'],
+    [plan({ matchMinutes: 1.5 }), '1試合の時間は1分以上にしてください'],
+    [plan({ changeoverMinutes: -1 }), '入れ替え時間は0分以上にしてください'],
+    [plan({ changeoverMinutes: 0.5 }), '入れ替え時間は0分以上にしてください'],
+    [plan({ endTime: '09:14' }), '時間内に1ラウンドも入りません'],
+  ])('%j はエラー: %s', (p, errorMessage) => {
+    expect(validateTimePlan(p)).toEqual({ isValid: false, errorMessage });
+  });
+});
+
+describe('estimateRoundsPlayed', () => {
+  it('出場枠を全員で均等に分けた最少・最多を返す', () => {
+    expect(estimateRoundsPlayed(10, 10, 2)).toEqual({ min: 8, max: 8 });
+    expect(estimateRoundsPlayed(11, 10, 2)).toEqual({ min: 7, max: 8 }); // 80 / 11 = 7.3
+  });
+
+  it('コート数の変更とシングルスのコートを反映する', () => {
+    // ラウンド1〜2は2面（8枠）、ラウンド3〜4は3面でコート3をシングルス（10枠）
+    expect(estimateRoundsPlayed(10, 4, 2, [{ fromRound: 3, courts: 3 }], [2])).toEqual({ min: 3, max: 4 }); // 36 / 10
+  });
+
+  it('人数がコートの枠より少ない場合は全員が毎ラウンド出場する', () => {
+    expect(estimateRoundsPlayed(6, 5, 2, undefined, [1])).toEqual({ min: 5, max: 5 });
+    expect(estimateRoundsPlayed(0, 5, 2)).toEqual({ min: 0, max: 0 });
+  });
+});
@@ -0,0 +1,137 @@
+import { useEffect } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import type { Schedule, ScheduleParams } from "../types/schedule";
+import type { StrategyId } from "../strategies/types";
+import { useCandidateGeneration, type CandidateGenerationOptions } from "../hooks/useCandidateGeneration";
+import { QUALITY_LABELS } from "../utils/quality";
+import { getCourtsRange } from "../utils/courtChanges";
+
+const TOP_CANDIDATES = 5; // 一覧に表示する上位候補数
+
+/**
+ * 複数候補生成の依頼内容
+ */
+export interface CandidateRequest {
+  params: ScheduleParams;
+  strategyId: StrategyId;
+  options: CandidateGenerationOptions;
+}
+
+interface CandidateSelectionDialogProps {
+  request: CandidateRequest | null;
+  onClose: () => void;
+  onSelect: (schedule: Schedule) => void;
+}
+
+/**
+ * 複数候補の生成・選択ダイアログ
+ *
+ * 同じ設定で候補を N 件生成し、総合スコアと品質違反件数の順に上位を表示する。
+ * 採用した候補は通常の生成結果と同じように扱われる。
+ */
+export function CandidateSelectionDialog({ request, onClose, onSelect }: CandidateSelectionDialogProps) {
+  const { candidates, completedCount, totalCount, percentage, isRunning, error, run, cancel, reset } = useCandidateGeneration();
+
+  // 依頼を受けたら生成を開始し、ダイアログを閉じたら中断して候補を破棄する
+  useEffect(() => {
+    if (!request) return;
+    run(request.params, request.strategyId, request.options);
+    return reset;
+  }, [request, run, reset]);
+
+  const hasRest = request !== null
+    && request.params.playersCount > getCourtsRange(request.params.courtsCount, request.params.courtChanges, request.params.roundsCount).min * 4;
+  const qualityKeys = hasRest ? (["c1", "c2", "c3", "c4", "c5"] as const) : (["c1", "c2", "c4", "c5"] as const);
+  const topCandidates = candidates.slice(0, TOP_CANDIDATES);
+
+  return (
+    <Dialog open={request !== null} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>候補の比較</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          同じ設定でシードを変えて {totalCount} 件の候補を生成し、総合スコアが小さい順（同点は品質違反件数の少ない順）に上位 {TOP_CANDIDATES} 件を表示します。
+        </Typography>
+
+        {isRunning && (
+          <Box sx={{ mb: 2 }}>
+            <LinearProgress variant="determinate" value={percentage} />
+            <Typography variant="caption" color="text.secondary">
+              {completedCount} / {totalCount} 件生成済み
+            </Typography>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {topCandidates.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell align="center"><strong>順位</strong></TableCell>
+                  <TableCell align="center"><strong>総合スコア</strong></TableCell>
+                  {qualityKeys.map((key) => (
+                    <TableCell key={key} align="center"><strong>{QUALITY_LABELS[key]}</strong></TableCell>
+                  ))}
+                  <TableCell align="center"><strong>シード</strong></TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {topCandidates.map((candidate, rank) => (
+                  <TableRow key={candidate.index} selected={rank === 0}>
+                    <TableCell align="center">{rank + 1}</TableCell>
+                    <TableCell align="center">{candidate.schedule.evaluation.totalScore.toFixed(4)}</TableCell>
+                    {qualityKeys.map((key) => (
+                      <TableCell key={key} align="center">{candidate.quality[key]}</TableCell>
+                    ))}
+                    <TableCell align="center">{candidate.schedule.seed ?? "-"}</TableCell>
+                    <TableCell align="center">
+                      <Button size="small" variant={rank === 0 ? "contained" : "outlined"} onClick={() => onSelect(candidate.schedule)}>
+                        この候補を使用
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            生成中でも、その時点の上位候補を採用できます。シードを控えておけば同じ対戦表を再生成できます。
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {isRunning && (
+          <Button color="error" onClick={cancel}>
+            中断
+          </Button>
+        )}
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
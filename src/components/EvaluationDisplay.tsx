@@ -8,14 +8,17 @@ import type { Evaluation } from '../types/schedule';
 
 interface EvaluationDisplayProps {
   evaluation: Evaluation;
+  hasRatings?: boolean; // 名簿にレベルが設定されている場合、チーム力差を表示
+  hasSingles?: boolean; // シングルスの試合がある場合、シングルス回数の標準偏差を表示
 }
 
-export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
+export function EvaluationDisplay({ evaluation, hasRatings = false, hasSingles = false }: EvaluationDisplayProps) {
   const theme = useTheme();
   const [expanded, setExpanded] = useState(false);
 
   const isIdeal = evaluation.pairStdDev === 0 && evaluation.oppoStdDev === 0 && evaluation.restStdDev === 0;
   const hasRestingPlayers = evaluation.restStdDev > 0;
+  const showSingles = hasSingles && evaluation.singlesStdDev !== undefined;
 
   const getQualityColor = (score: number): string => {
     if (score < 0.5) return theme.palette.success.main;
@@ -70,7 +73,7 @@ export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
       <Collapse in={expanded}>
         <Box sx={{
           display: 'grid',
-          gridTemplateColumns: { xs: '1fr 1fr', sm: hasRestingPlayers ? 'repeat(4, 1fr)' : 'repeat(3, 1fr)' },
+          gridTemplateColumns: { xs: '1fr 1fr', sm: `repeat(${3 + (hasRestingPlayers ? 1 : 0) + (showSingles ? 1 : 0) + (hasRatings ? 2 : 0)}, 1fr)` },
           gap: 2,
           mt: 2,
           pt: 2,
@@ -98,7 +101,7 @@ export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
           {hasRestingPlayers && (
             <Box>
               <Typography variant="body2" color="text.secondary">
-                休憩回数の標準偏差
+                休憩回数の偏り
               </Typography>
               <Typography variant="h6" sx={{ mt: 1 }}>
                 {evaluation.restStdDev.toFixed(4)}
@@ -106,6 +109,38 @@ export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
             </Box>
           )}
 
+          {showSingles && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                シングルス回数の標準偏差
+              </Typography>
+              <Typography variant="h6" sx={{ mt: 1 }}>
+                {(evaluation.singlesStdDev ?? 0).toFixed(4)}
+              </Typography>
+            </Box>
+          )}
+
+          {hasRatings && (
+            <>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  レベル差の平均
+                </Typography>
+                <Typography variant="h6" sx={{ mt: 1 }}>
+                  {evaluation.balanceAvg.toFixed(4)}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  レベル差の最大
+                </Typography>
+                <Typography variant="h6" sx={{ mt: 1 }}>
+                  {evaluation.balanceMax}
+                </Typography>
+              </Box>
+            </>
+          )}
+
           <Box>
             <Typography variant="body2" color="text.secondary">
               総合評価スコア
@@ -122,6 +157,7 @@ export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
         <Box sx={{ mt: 2, pt: 2, borderTop: 1, borderColor: 'divider' }}>
           <Typography variant="caption" color="text.secondary">
             値が小さいほど公平な組み合わせです。理想解は両方の標準偏差が 0 になります。
+            {hasRatings && ' レベル差は各試合のペアのレベル合計の差です。'}
           </Typography>
         </Box>
       </Collapse>
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Button, Menu, MenuItem, ListItemText, Snackbar } from "@mui/material";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import type { Schedule, MatchResults, ScoringFormatId } from "../types/schedule";
+import {
+  buildExportFileName,
+  exportScheduleToCsv,
+  exportScheduleToJson,
+  buildPrintableHtml,
+  downloadTextFile,
+  openPrintWindow,
+} from "../utils/export";
+
+interface ExportMenuProps {
+  schedule: Schedule;
+  matchResults: MatchResults;
+  scoringFormatId: ScoringFormatId;
+}
+
+/**
+ * 対戦表のエクスポートメニュー（CSV / JSON / 印刷）
+ */
+export function ExportMenu({ schedule, matchResults, scoringFormatId }: ExportMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCsv = () => {
+    setAnchorEl(null);
+    // Excel で文字化けしないよう BOM を付ける
+    downloadTextFile(buildExportFileName("csv"), "\uFEFF" + exportScheduleToCsv(schedule, matchResults), "text/csv;charset=utf-8");
+  };
+
+  const handleJson = () => {
+    setAnchorEl(null);
+    downloadTextFile(buildExportFileName("json"), exportScheduleToJson(schedule, matchResults, scoringFormatId), "application/json");
+  };
+
+  const handlePrint = () => {
+    setAnchorEl(null);
+    if (!openPrintWindow(buildPrintableHtml(schedule, matchResults))) {
+      setMessage("印刷用ウィンドウを開けませんでした。ポップアップを許可してください");
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<FileDownloadIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        aria-controls={anchorEl ? "export-menu" : undefined}
+        aria-haspopup="true"
+      >
+        エクスポート
+      </Button>
+      <Menu id="export-menu" anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={handleCsv}>
+          <ListItemText primary="CSV" secondary="表計算ソフト用" />
+        </MenuItem>
+        <MenuItem onClick={handleJson}>
+          <ListItemText primary="JSON" secondary="データの保存・読み込み用" />
+        </MenuItem>
+        <MenuItem onClick={handlePrint}>
+          <ListItemText primary="印刷" secondary="A4 横向き" />
+        </MenuItem>
+      </Menu>
+      <Snackbar open={message !== null} autoHideDuration={4000} onClose={() => setMessage(null)} message={message} />
+    </>
+  );
+}
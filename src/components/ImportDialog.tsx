@@ -0,0 +1,104 @@
+import { useState, ChangeEvent } from "react";
+import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField, Typography } from "@mui/material";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import { parseScheduleImport, type ImportedSchedule } from "../utils/import";
+
+// 表示するエラーメッセージの上限（残りは件数のみ表示）
+const MAX_VISIBLE_ERRORS = 20;
+
+interface ImportDialogProps {
+  open: boolean;
+  weights: { w1: number; w2: number; w3: number; w4: number };
+  hasSchedule: boolean;
+  onClose: () => void;
+  onImport: (data: ImportedSchedule) => void;
+}
+
+/**
+ * エクスポートした JSON を読み込むダイアログ
+ *
+ * ファイル選択またはテキストの貼り付けで読み込み、不変条件に違反している箇所を一覧表示する。
+ */
+export function ImportDialog({ open, weights, hasSchedule, onClose, onImport }: ImportDialogProps) {
+  const [text, setText] = useState("");
+  const [errorMessages, setErrorMessages] = useState<string[]>([]);
+
+  const handleClose = () => {
+    setText("");
+    setErrorMessages([]);
+    onClose();
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 同じファイルを再選択できるようにする
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setErrorMessages([]);
+    } catch {
+      setErrorMessages([`ファイルを読み込めませんでした: ${file.name}`]);
+    }
+  };
+
+  const handleImport = () => {
+    const result = parseScheduleImport(text, weights);
+    if (!result.isValid) {
+      setErrorMessages(result.errorMessages);
+      return;
+    }
+    onImport(result.data);
+    handleClose();
+  };
+
+  const hiddenCount = errorMessages.length - MAX_VISIBLE_ERRORS;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>対戦表のインポート</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          エクスポートした JSON ファイルを選択するか、内容を貼り付けてください。
+          {hasSchedule && "現在の対戦表と試合結果は読み込んだ内容で置き換えられます。"}
+        </Typography>
+        <Button component="label" variant="outlined" size="small" startIcon={<FileUploadIcon />} sx={{ mb: 2 }}>
+          ファイルを選択
+          <input type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+        </Button>
+        <TextField
+          multiline
+          minRows={6}
+          maxRows={12}
+          fullWidth
+          placeholder='{ "format": "doubles-schedule", ... }'
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setErrorMessages([]);
+          }}
+          inputProps={{ spellCheck: false, style: { fontFamily: "monospace", fontSize: "0.8rem" } }}
+        />
+        {errorMessages.length > 0 && (
+          <Box component="ul" sx={{ mt: 2, mb: 0, pl: 2.5 }}>
+            {errorMessages.slice(0, MAX_VISIBLE_ERRORS).map((message, i) => (
+              <Typography key={i} component="li" variant="caption" color="error" sx={{ display: "list-item" }}>
+                {message}
+              </Typography>
+            ))}
+            {hiddenCount > 0 && (
+              <Typography component="li" variant="caption" color="error" sx={{ display: "list-item" }}>
+                他 {hiddenCount} 件
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>キャンセル</Button>
+        <Button variant="contained" onClick={handleImport} disabled={text.trim() === ""}>
+          インポート
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Box, Button, TextField, ToggleButton, ToggleButtonGroup, Typography } from "@mui/material";
+import type { MatchResult, ScoringFormat } from "../types/schedule";
+import { validateMatchResult, requiresTiebreak, formatMatchResult } from "../utils/scoring";
+
+interface MatchResultEditorProps {
+  result: MatchResult | undefined;
+  format: ScoringFormat;
+  onChange: (result: MatchResult | null) => void;
+}
+
+/** 数値入力欄の文字列を整数に変換（空欄・不正値は NaN） */
+function parseCount(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+/**
+ * 1試合のスコア入力欄（ラウンド詳細ダイアログ用）
+ *
+ * 入力中の値はローカルに保持し、「保存」時にスコア形式で検証してから確定する。
+ */
+export function MatchResultEditor({ result, format, onChange }: MatchResultEditorProps) {
+  const [gamesA, setGamesA] = useState(result && !result.walkover ? String(result.gamesA) : "");
+  const [gamesB, setGamesB] = useState(result && !result.walkover ? String(result.gamesB) : "");
+  const [pointsA, setPointsA] = useState(result?.tiebreak ? String(result.tiebreak.pointsA) : "");
+  const [pointsB, setPointsB] = useState(result?.tiebreak ? String(result.tiebreak.pointsB) : "");
+  const [walkover, setWalkover] = useState<"A" | "B" | null>(result?.walkover ?? null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const showTiebreak = walkover === null && requiresTiebreak(parseCount(gamesA), parseCount(gamesB), format);
+
+  const handleSave = () => {
+    const draft: MatchResult = walkover
+      ? { gamesA: 0, gamesB: 0, walkover }
+      : {
+          gamesA: parseCount(gamesA),
+          gamesB: parseCount(gamesB),
+          ...(showTiebreak && { tiebreak: { pointsA: parseCount(pointsA), pointsB: parseCount(pointsB) } }),
+        };
+    const validation = validateMatchResult(draft, format);
+    if (!validation.isValid) {
+      setErrorMessage(validation.errorMessage ?? "スコアが不正です");
+      return;
+    }
+    setErrorMessage(null);
+    onChange(draft);
+  };
+
+  const handleClear = () => {
+    setGamesA("");
+    setGamesB("");
+    setPointsA("");
+    setPointsB("");
+    setWalkover(null);
+    setErrorMessage(null);
+    onChange(null);
+  };
+
+  const countFieldProps = {
+    type: "number",
+    size: "small" as const,
+    slotProps: { htmlInput: { min: 0, inputMode: "numeric" as const, style: { textAlign: "center" as const } } },
+    sx: { width: 64 },
+    disabled: walkover !== null,
+  };
+
+  return (
+    <Box sx={{ mt: 0.5 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, flexWrap: "wrap" }}>
+        <TextField {...countFieldProps} aria-label="ペアAのゲーム数" value={gamesA} onChange={(e) => setGamesA(e.target.value)} />
+        <Typography color="text.secondary">-</Typography>
+        <TextField {...countFieldProps} aria-label="ペアBのゲーム数" value={gamesB} onChange={(e) => setGamesB(e.target.value)} />
+        {showTiebreak && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+              TB
+            </Typography>
+            <TextField {...countFieldProps} aria-label="ペアAのタイブレークポイント" value={pointsA} onChange={(e) => setPointsA(e.target.value)} />
+            <Typography color="text.secondary">-</Typography>
+            <TextField {...countFieldProps} aria-label="ペアBのタイブレークポイント" value={pointsB} onChange={(e) => setPointsB(e.target.value)} />
+          </>
+        )}
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={walkover}
+          onChange={(_, value: "A" | "B" | null) => setWalkover(value)}
+          aria-label="不戦勝"
+        >
+          <ToggleButton value="A">A不戦勝</ToggleButton>
+          <ToggleButton value="B">B不戦勝</ToggleButton>
+        </ToggleButtonGroup>
+        <Button size="small" variant="contained" onClick={handleSave}>
+          保存
+        </Button>
+        {result && (
+          <Button size="small" color="inherit" onClick={handleClear}>
+            削除
+          </Button>
+        )}
+      </Box>
+      {errorMessage ? (
+        <Typography variant="caption" color="error">
+          {errorMessage}
+        </Typography>
+      ) : (
+        result && (
+          <Typography variant="caption" color="text.secondary">
+            記録済み: {formatMatchResult(result)}
+          </Typography>
+        )
+      )}
+    </Box>
+  );
+}
@@ -13,8 +13,21 @@ import {
   Typography,
   Chip,
 } from '@mui/material';
-import type { Schedule, CountMatrix, FixedPair, RestCounts, Round } from '../types/schedule';
-import { initializeCountMatrix, updateCountMatrices, initializeRestCounts, updateRestCounts, extractPreviousOpponents } from '../utils/evaluation';
+import type { Schedule, CountMatrix, CourtCounts, FixedPair, RestCounts, Participant } from '../types/schedule';
+import {
+  initializeCountMatrix,
+  updateCountMatrices,
+  initializeRestCounts,
+  updateRestCounts,
+  updateAttendedCounts,
+  updateSinglesCounts,
+} from '../utils/evaluation';
+import { countQualityViolations, QUALITY_LABELS, type QualityTotals } from '../utils/quality';
+import { getPlayerName } from '../utils/roster';
+import { buildCourtCounts, getCourtName } from '../utils/courtAssignment';
+
+/** 統計情報のタブ（出場・休憩・シングルス・コートは該当する場合のみ表示） */
+type StatsTab = 'pair' | 'opponent' | 'rest' | 'singles' | 'court' | 'quality';
 
 /**
  * 固定ペアによって必ず0になるセルかどうかを判定する
@@ -53,50 +66,30 @@ function isFixedPairZeroCell(
   return false;
 }
 
-function buildPrevPairMap(round: Round): Map<number, number> {
-  const map = new Map<number, number>();
-  for (const match of round.matches) {
-    map.set(match.pairA.player1, match.pairA.player2);
-    map.set(match.pairA.player2, match.pairA.player1);
-    map.set(match.pairB.player1, match.pairB.player2);
-    map.set(match.pairB.player2, match.pairB.player1);
-  }
-  return map;
-}
-
-type QualityTotals = {
-  c1: number;
-  c2: number;
-  c3: number;
-  c4: number;
-  c5: number;
-  hasRest: boolean;
-};
-
 function renderQualityViolations(totals: QualityTotals, rounds: number) {
   const rows: { label: string; count: number | null; description: string }[] = [
     {
-      label: '(1) ペア重複',
+      label: QUALITY_LABELS.c1,
       count: totals.c1,
       description: `全${rounds}R・発生ペア数`,
     },
     {
-      label: '(2) 対戦重複',
+      label: QUALITY_LABELS.c2,
       count: totals.c2,
       description: `全${rounds}R・発生組数`,
     },
     {
-      label: '(3) 不公平休憩',
+      label: QUALITY_LABELS.c3,
       count: totals.hasRest ? totals.c3 : null,
       description: totals.hasRest ? '累計人数' : '休憩なし',
     },
     {
-      label: '(4) 前R対戦→今Rペア',
+      label: QUALITY_LABELS.c4,
       count: totals.c4,
       description: `全${rounds}R`,
     },
     {
-      label: '(5) 前Rペア→今R対戦',
+      label: QUALITY_LABELS.c5,
       count: totals.c5,
       description: `全${rounds}R`,
     },
@@ -165,7 +158,8 @@ function renderMatrix(
   playersCount: number,
   fixedPairs: FixedPair[],
   matrixType: 'pair' | 'opponent',
-  activeSet: Set<number>
+  activeSet: Set<number>,
+  roster: Participant[]
 ) {
   return (
     <>
@@ -190,9 +184,10 @@ function renderMatrix(
                       opacity: isActive ? 1 : 0.3,
                       minWidth: { xs: 28, sm: 36 },
                       fontSize: { xs: '0.75rem', sm: '0.875rem' },
+                      whiteSpace: 'nowrap',
                     }}
                   >
-                    <strong>{i + 1}</strong>
+                    <strong>{getPlayerName(roster, i + 1)}</strong>
                   </TableCell>
                 );
               })}
@@ -204,8 +199,8 @@ function renderMatrix(
               const rowActive = activeSet.has(i + 1);
               return (
                 <TableRow key={i} sx={{ opacity: rowActive ? 1 : 0.3 }}>
-                  <TableCell sx={stickyColumnSx}>
-                    <strong>{i + 1}</strong>
+                  <TableCell sx={{ ...stickyColumnSx, whiteSpace: 'nowrap' }}>
+                    <strong>{getPlayerName(roster, i + 1)}</strong>
                   </TableCell>
                   {row.map((count, j) => {
                     const colActive = activeSet.has(j + 1);
@@ -262,14 +257,25 @@ function renderMatrix(
   );
 }
 
-function renderRestCounts(restCounts: RestCounts, activeSet: Set<number>) {
-  const activeRestCounts = restCounts.filter((_, i) => activeSet.has(i + 1));
-  const maxCount = Math.max(...activeRestCounts, 1);
+/**
+ * プレイヤーごとの参加・出場・休憩ラウンド数と出場率の表
+ *
+ * 出場率 = 出場ラウンド数 / 参加ラウンド数。途中から来た・途中で帰ったプレイヤーも参加したラウンドに対して比べる。
+ * 休憩のセルは参加ラウンド数に対する休憩の割合が高いほど濃い。
+ */
+function renderAttendance(
+  attendedCounts: number[],
+  restCounts: RestCounts,
+  activeSet: Set<number>,
+  roster: Participant[]
+) {
+  const restRates = restCounts.map((rest, i) => (attendedCounts[i] > 0 ? rest / attendedCounts[i] : 0));
+  const maxRate = Math.max(...restRates.filter((_, i) => activeSet.has(i + 1)), 0.01);
 
   return (
     <>
       <Typography variant="subtitle1" sx={{ p: 2, pb: 1 }}>
-        各プレイヤーの休憩回数
+        各プレイヤーの出場・休憩
       </Typography>
 
       <TableContainer>
@@ -280,24 +286,91 @@ function renderRestCounts(restCounts: RestCounts, activeSet: Set<number>) {
                 <strong>プレイヤー</strong>
               </TableCell>
               <TableCell align="center">
-                <strong>休憩回数</strong>
+                <strong>参加</strong>
+              </TableCell>
+              <TableCell align="center">
+                <strong>出場</strong>
+              </TableCell>
+              <TableCell align="center">
+                <strong>休憩</strong>
+              </TableCell>
+              <TableCell align="center">
+                <strong>出場率</strong>
               </TableCell>
             </TableRow>
           </TableHead>
 
           <TableBody>
-            {restCounts.map((count, i) => {
+            {attendedCounts.map((attended, i) => {
               const isActive = activeSet.has(i + 1);
+              const rest = restCounts[i];
               return (
                 <TableRow key={i} sx={{ opacity: isActive ? 1 : 0.3 }}>
                   <TableCell>
-                    <strong>{i + 1}</strong>
+                    <strong>{getPlayerName(roster, i + 1)}</strong>
                   </TableCell>
+                  <TableCell align="center">{attended}</TableCell>
+                  <TableCell align="center">{attended - rest}</TableCell>
                   <TableCell
                     align="center"
                     sx={{
                       bgcolor: isActive
-                        ? `rgba(255, 152, 0, ${Math.min(count / maxCount * 0.6, 0.6)})`
+                        ? `rgba(255, 152, 0, ${Math.min(restRates[i] / maxRate * 0.6, 0.6)})`
+                        : 'grey.100',
+                    }}
+                  >
+                    {rest}
+                  </TableCell>
+                  <TableCell align="center">
+                    {attended > 0 ? `${Math.round((attended - rest) / attended * 100)}%` : '-'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </>
+  );
+}
+
+/** プレイヤーごとの回数（シングルス回数）の表。rgb はセルの色（回数が多いほど濃い） */
+function renderPlayerCounts(counts: RestCounts, label: string, rgb: string, activeSet: Set<number>, roster: Participant[]) {
+  const activeCounts = counts.filter((_, i) => activeSet.has(i + 1));
+  const maxCount = Math.max(...activeCounts, 1);
+
+  return (
+    <>
+      <Typography variant="subtitle1" sx={{ p: 2, pb: 1 }}>
+        各プレイヤーの{label}
+      </Typography>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>
+                <strong>プレイヤー</strong>
+              </TableCell>
+              <TableCell align="center">
+                <strong>{label}</strong>
+              </TableCell>
+            </TableRow>
+          </TableHead>
+
+          <TableBody>
+            {counts.map((count, i) => {
+              const isActive = activeSet.has(i + 1);
+              return (
+                <TableRow key={i} sx={{ opacity: isActive ? 1 : 0.3 }}>
+                  <TableCell>
+                    <strong>{getPlayerName(roster, i + 1)}</strong>
+                  </TableCell>
+                  <TableCell
+                    align="center"
+                    sx={{
+                      bgcolor: isActive
+                        ? `rgba(${rgb}, ${Math.min(count / maxCount * 0.6, 0.6)})`
                         : 'grey.100',
                     }}
                   >
@@ -313,6 +386,62 @@ function renderRestCounts(restCounts: RestCounts, activeSet: Set<number>) {
   );
 }
 
+function renderCourtCounts(courtCounts: CourtCounts, courtNames: string[] | undefined, activeSet: Set<number>, roster: Participant[]) {
+  const courts = courtCounts[0]?.length ?? 0;
+  const maxCount = Math.max(...courtCounts.filter((_, i) => activeSet.has(i + 1)).flat(), 1);
+
+  return (
+    <>
+      <Typography variant="subtitle1" sx={{ p: 2, pb: 1 }}>
+        各プレイヤーのコート別の試合数
+      </Typography>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={stickyColumnSx}>
+                <strong>プレイヤー</strong>
+              </TableCell>
+              {Array.from({ length: courts }, (_, c) => (
+                <TableCell key={c} align="center" sx={{ whiteSpace: 'nowrap' }}>
+                  <strong>{getCourtName(courtNames, c)}</strong>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+
+          <TableBody>
+            {courtCounts.map((row, i) => {
+              const isActive = activeSet.has(i + 1);
+              return (
+                <TableRow key={i} sx={{ opacity: isActive ? 1 : 0.3 }}>
+                  <TableCell sx={{ ...stickyColumnSx, whiteSpace: 'nowrap' }}>
+                    <strong>{getPlayerName(roster, i + 1)}</strong>
+                  </TableCell>
+                  {row.map((count, c) => (
+                    <TableCell
+                      key={c}
+                      align="center"
+                      sx={{
+                        bgcolor: isActive
+                          ? `rgba(46, 125, 50, ${Math.min(count / maxCount * 0.6, 0.6)})`
+                          : 'grey.100',
+                      }}
+                    >
+                      {count}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </>
+  );
+}
+
 export function PlayerStatsTable({ schedule }: PlayerStatsTableProps) {
   const [tabValue, setTabValue] = useState(0);
 
@@ -323,85 +452,40 @@ export function PlayerStatsTable({ schedule }: PlayerStatsTableProps) {
   const pairCounts = initializeCountMatrix(schedule.players);
   const oppoCounts = initializeCountMatrix(schedule.players);
   const restCounts = initializeRestCounts(schedule.players);
+  const attendedCounts = initializeRestCounts(schedule.players);
+  const singlesCounts = initializeRestCounts(schedule.players);
 
   for (const round of schedule.rounds) {
     updateCountMatrices(round, pairCounts, oppoCounts);
     updateRestCounts(round, restCounts);
+    updateAttendedCounts(round, attendedCounts);
+    updateSinglesCounts(round, singlesCounts);
   }
 
   const hasRestingPlayers = schedule.rounds.some(
     (round) => round.restingPlayers && round.restingPlayers.length > 0
   );
 
-  const qualityTotals = useMemo<QualityTotals>(() => {
-    const n = schedule.players;
-    const pc = initializeCountMatrix(n);
-    const oc = initializeCountMatrix(n);
-    const rc = initializeRestCounts(n);
-    const allPlayers = schedule.activePlayers;
-    const totals = { c1: 0, c2: 0, c3: 0, c4: 0, c5: 0 };
-    let hasRest = false;
-    let prevRound: Round | null = null;
-
-    for (const round of schedule.rounds) {
-      // (1) ペア重複
-      for (const match of round.matches) {
-        if (pc[match.pairA.player1 - 1][match.pairA.player2 - 1] > 0) totals.c1++;
-        if (pc[match.pairB.player1 - 1][match.pairB.player2 - 1] > 0) totals.c1++;
-      }
-
-      // (2) 対戦重複
-      for (const match of round.matches) {
-        const { pairA, pairB } = match;
-        for (const [a, b] of [
-          [pairA.player1, pairB.player1],
-          [pairA.player1, pairB.player2],
-          [pairA.player2, pairB.player1],
-          [pairA.player2, pairB.player2],
-        ] as [number, number][]) {
-          if (oc[a - 1][b - 1] > 0) totals.c2++;
-        }
-      }
-
-      // (3) 不公平休憩
-      if (round.restingPlayers.length > 0) {
-        hasRest = true;
-        const minRest = Math.min(...allPlayers.map((p) => rc[p - 1]));
-        for (const p of round.restingPlayers) {
-          if (rc[p - 1] > minRest) totals.c3++;
-        }
-      }
-
-      // (4) 前R対戦→今Rペア
-      if (prevRound !== null) {
-        const prevOppoMap = extractPreviousOpponents(prevRound);
-        for (const match of round.matches) {
-          for (const pair of [match.pairA, match.pairB]) {
-            if (prevOppoMap.get(pair.player1)?.has(pair.player2)) totals.c4++;
-          }
-        }
-      }
+  const hasSingles = singlesCounts.some((count) => count > 0);
 
-      // (5) 前Rペア→今R対戦
-      if (prevRound !== null) {
-        const prevPairMap = buildPrevPairMap(prevRound);
-        for (const match of round.matches) {
-          const { pairA, pairB } = match;
-          for (const a of [pairA.player1, pairA.player2]) {
-            for (const b of [pairB.player1, pairB.player2]) {
-              if (prevPairMap.get(a) === b) totals.c5++;
-            }
-          }
-        }
-      }
+  const courtCounts = useMemo(
+    () => buildCourtCounts(schedule.rounds, schedule.players),
+    [schedule.rounds, schedule.players]
+  );
+  const hasMultipleCourts = (courtCounts[0]?.length ?? 0) > 1;
 
-      updateCountMatrices(round, pc, oc);
-      updateRestCounts(round, rc);
-      prevRound = round;
-    }
+  const qualityTotals = useMemo(() => countQualityViolations(schedule), [schedule]);
 
-    return { ...totals, hasRest };
-  }, [schedule]);
+  const tabs: { key: StatsTab; label: string }[] = [
+    { key: 'pair', label: 'ペア回数' },
+    { key: 'opponent', label: '対戦回数' },
+    ...(hasRestingPlayers ? [{ key: 'rest' as const, label: '出場・休憩' }] : []),
+    ...(hasSingles ? [{ key: 'singles' as const, label: 'シングルス' }] : []),
+    ...(hasMultipleCourts ? [{ key: 'court' as const, label: 'コート' }] : []),
+    { key: 'quality', label: '品質' },
+  ];
+  // 表示タブが減った場合（休憩者がいなくなった等）は先頭のタブに戻す
+  const currentTab = tabs[tabValue]?.key ?? 'pair';
 
   return (
     <Paper sx={{ mb: 3 }}>
@@ -409,41 +493,58 @@ export function PlayerStatsTable({ schedule }: PlayerStatsTableProps) {
         統計情報
       </Typography>
 
-      <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)} sx={{ px: 2 }} aria-label="統計情報タブ">
-        <Tab label="ペア回数" />
-        <Tab label="対戦回数" />
-        {hasRestingPlayers && <Tab label="休憩回数" />}
-        <Tab label="品質" />
+      <Tabs value={tabs[tabValue] ? tabValue : 0} onChange={(_, v) => setTabValue(v)} sx={{ px: 2 }} aria-label="統計情報タブ">
+        {tabs.map((tab) => (
+          <Tab key={tab.key} label={tab.label} />
+        ))}
       </Tabs>
 
-      {(() => {
-        const qualityTabIndex = hasRestingPlayers ? 3 : 2;
-        return (
-          <Box sx={{ mt: 1 }}>
-            {tabValue === 0 &&
-              renderMatrix(pairCounts, 'プレイヤー間のペア回数', schedule.players, schedule.fixedPairs, 'pair', activeSet)}
-            {tabValue === 1 &&
-              renderMatrix(oppoCounts, 'プレイヤー間の対戦回数', schedule.players, schedule.fixedPairs, 'opponent', activeSet)}
-            {tabValue === 2 && hasRestingPlayers &&
-              renderRestCounts(restCounts, activeSet)}
-            {tabValue === qualityTabIndex &&
-              renderQualityViolations(qualityTotals, schedule.rounds.length)}
-          </Box>
-        );
-      })()}
+      <Box sx={{ mt: 1 }}>
+        {currentTab === 'pair' &&
+          renderMatrix(pairCounts, 'プレイヤー間のペア回数', schedule.players, schedule.fixedPairs, 'pair', activeSet, schedule.roster)}
+        {currentTab === 'opponent' &&
+          renderMatrix(oppoCounts, 'プレイヤー間の対戦回数', schedule.players, schedule.fixedPairs, 'opponent', activeSet, schedule.roster)}
+        {currentTab === 'rest' &&
+          renderAttendance(attendedCounts, restCounts, activeSet, schedule.roster)}
+        {currentTab === 'singles' &&
+          renderPlayerCounts(singlesCounts, 'シングルス回数', '2, 136, 209', activeSet, schedule.roster)}
+        {currentTab === 'court' &&
+          renderCourtCounts(courtCounts, schedule.courtNames, activeSet, schedule.roster)}
+        {currentTab === 'quality' &&
+          renderQualityViolations(qualityTotals, schedule.rounds.length)}
+      </Box>
 
       {/* 凡例 */}
       <Box sx={{ p: 2, pt: 1 }}>
         <Typography variant="caption" color="text.secondary">
           {(() => {
-            const qualityTabIndex = hasRestingPlayers ? 3 : 2;
-            if (tabValue === qualityTabIndex) {
+            if (currentTab === 'quality') {
               return '各観点の違反件数。0件が理想です。色: 緑=0件、橙=1〜2件、赤=3件以上。';
             }
-            if (tabValue === 2 && hasRestingPlayers) {
+            if (currentTab === 'court') {
+              return (
+                <>
+                  色が濃いほどそのコートでの試合が多いです。特定のコートに偏っている場合は「コートの割り当てを均等にする」を使ってください。
+                  {activeSet.size < schedule.players && (
+                    <> 薄い行は離脱したプレイヤーです。</>
+                  )}
+                </>
+              );
+            }
+            if (currentTab === 'singles') {
+              return (
+                <>
+                  色が濃いほどシングルスの試合が多いです。シングルス回数が少ない人から優先してシングルスに入ります。
+                  {activeSet.size < schedule.players && (
+                    <> 薄い行は離脱したプレイヤーです。</>
+                  )}
+                </>
+              );
+            }
+            if (currentTab === 'rest') {
               return (
                 <>
-                  色が濃いほど休憩回数が多いです。理想的には全員が均等に休憩します。
+                  出場率は参加したラウンドのうち試合に出たラウンドの割合です。休憩は参加ラウンド数に対する割合が高いほど色が濃くなります。理想的には全員の出場率がそろいます。
                   {activeSet.size < schedule.players && (
                     <> 薄い行は離脱したプレイヤーです。</>
                   )}
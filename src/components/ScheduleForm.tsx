@@ -15,57 +15,144 @@ import {
 
   Stack,
   Tooltip,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Checkbox,
 } from "@mui/material";
 import TuneIcon from "@mui/icons-material/Tune";
 import HelpOutlineIcon from "@mui/icons-material/HelpOutline";
-import type { ScheduleParams, RegenerationParams, FixedPair, Schedule } from "../types/schedule";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import type { ScheduleParams, RegenerationParams, FixedPair, PairConstraint, Schedule, Participant, PlayerCategory, CourtChange, ScoringFormatId, TimerSettings, TimePlan, PlayerAvailability, PlayerBreak, LocalSearchBudget } from "../types/schedule";
 
 import { normalizeFixedPair, validateFixedPairs } from "../utils/fixedPairs";
+import { normalizePairConstraint, containsPairConstraint, validatePairConstraints, filterPairConstraints } from "../utils/pairConstraints";
+import { getPlayerName, updateParticipant } from "../utils/roster";
+import { hasRatings, MIN_RATING, MAX_RATING } from "../utils/rating";
+import { SCORING_FORMATS } from "../utils/scoring";
+import { buildPlayerCategories, CATEGORY_LABELS, validateMixedDoubles } from "../utils/mixedDoubles";
+import { getCourtsRange, setCourtChange, validateCourtChanges } from "../utils/courtChanges";
+import { countPlayingPlayers, getMatchPlayers, getRequiredPlayers, getSinglesCourtsForRound, validateSinglesCourts } from "../utils/singles";
+import { formatAvailability, setPlayerAvailability, validateAvailability } from "../utils/availability";
+import { formatBreak, setPlayerBreak, validateBreaks } from "../utils/breaks";
+import { calculatePlannedRounds, DEFAULT_TIME_PLAN, estimateRoundsPlayed, formatClockTime, getRoundStartMinutes, validateTimePlan } from "../utils/timePlan";
+import { isValidSeed, MAX_SEED } from "../utils/random";
+import type { ImportedSchedule } from "../utils/import";
+import type { StrategyId } from "../strategies/types";
+import { getAvailableStrategies, supportsSize } from "../strategies/registry";
+import { DEFAULT_ITERATIONS_PER_ROUND } from "../strategies/local-search";
+import { MAX_CANDIDATES, type CandidateGenerationOptions } from "../hooks/useCandidateGeneration";
+import { ImportDialog } from "./ImportDialog";
 
 // 固定ペアの色（単色）
 const PAIR_COLOR = '#1565c0';
+// ペア禁止・対戦禁止チップの色
+const FORBIDDEN_PAIR_COLOR = '#c62828';
+const FORBIDDEN_OPPONENT_COLOR = '#ef6c00';
 
 // 設定の初期値
-const DEFAULTS: { courts: number; players: number; rounds: number; w1: number; w2: number; w3: number } = {
+const DEFAULTS: { courts: number; players: number; rounds: number; w1: number; w2: number; w3: number; w4: number } = {
   courts: 4,
   players: 16,
   rounds: 15,
   w1: 1.0,
   w2: 0.5,
   w3: 2.0,
+  w4: 1.0,
 };
 
+// 選択中の2人組の種類（固定ペア / ペア禁止 / 対戦禁止）
+type PairSelectionKind = 'fixed' | 'forbiddenPair' | 'forbiddenOpponent';
+
 type PairSelectionState =
   | { mode: 'inactive' }
-  | { mode: 'selecting'; firstPlayer: null }
-  | { mode: 'selecting'; firstPlayer: number };
+  | { mode: 'selecting'; kind: PairSelectionKind; firstPlayer: null }
+  | { mode: 'selecting'; kind: PairSelectionKind; firstPlayer: number };
 
 interface ScheduleFormProps {
   onGenerate: (params: ScheduleParams) => void;
   onRegenerate: (params: RegenerationParams) => void;
   onCancel: () => void;
   onClear: () => void;
+  onImport: (data: ImportedSchedule, params: ScheduleParams) => void;
+  onCompare: (params: ScheduleParams) => void;
+  onGenerateCandidates: (params: ScheduleParams, options: CandidateGenerationOptions) => void;
+  initialParams?: ScheduleParams | null;
   isGenerating: boolean;
   schedule: Schedule | null;
   completedMatches: Set<string>;
   fixedPairs: FixedPair[];
   onFixedPairsChange: (pairs: FixedPair[]) => void;
+  forbiddenPairs: PairConstraint[];
+  onForbiddenPairsChange: (pairs: PairConstraint[]) => void;
+  forbiddenOpponents: PairConstraint[];
+  onForbiddenOpponentsChange: (pairs: PairConstraint[]) => void;
+  roster: Participant[];
+  onRosterChange: (roster: Participant[]) => void;
+  onCourtNamesChange: (courtNames: string[]) => void;
+  onTimePlanChange: (timePlan: TimePlan | undefined) => void;
+  scoringFormatId: ScoringFormatId;
+  onScoringFormatChange: (id: ScoringFormatId) => void;
+  strategyId: StrategyId;
+  onStrategyChange: (id: StrategyId) => void;
   speechPitch: number;
   onSpeechPitchChange: (pitch: number) => void;
   speechRate: number;
   onSpeechRateChange: (rate: number) => void;
+  timerSettings: TimerSettings;
+  onTimerSettingsChange: (settings: TimerSettings) => void;
 }
 
-export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGenerating, schedule, completedMatches, fixedPairs, onFixedPairsChange, speechPitch, onSpeechPitchChange, speechRate, onSpeechRateChange }: ScheduleFormProps) {
-  const [courts, setCourts] = useState(DEFAULTS.courts);
-  const [players, setPlayers] = useState(DEFAULTS.players);
-  const [rounds, setRounds] = useState(DEFAULTS.rounds);
-  const [w1, setW1] = useState(DEFAULTS.w1);
-  const [w2, setW2] = useState(DEFAULTS.w2);
-  const [w3, setW3] = useState(DEFAULTS.w3);
-  const [helpTarget, setHelpTarget] = useState<"w1" | "w2" | "w3" | null>(null);
+export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, onImport, onCompare, onGenerateCandidates, initialParams, isGenerating, schedule, completedMatches, fixedPairs, onFixedPairsChange, forbiddenPairs, onForbiddenPairsChange, forbiddenOpponents, onForbiddenOpponentsChange, roster, onRosterChange, onCourtNamesChange, onTimePlanChange, scoringFormatId, onScoringFormatChange, strategyId, onStrategyChange, speechPitch, onSpeechPitchChange, speechRate, onSpeechRateChange, timerSettings, onTimerSettingsChange }: ScheduleFormProps) {
+  // 復元したセッションがあれば前回の設定値から開始する
+  const [courts, setCourts] = useState(initialParams?.courtsCount ?? DEFAULTS.courts);
+  const [players, setPlayers] = useState(initialParams?.playersCount ?? DEFAULTS.players);
+  const [rounds, setRounds] = useState(initialParams?.roundsCount ?? DEFAULTS.rounds);
+  const [w1, setW1] = useState(initialParams?.weights.w1 ?? DEFAULTS.w1);
+  const [w2, setW2] = useState(initialParams?.weights.w2 ?? DEFAULTS.w2);
+  const [w3, setW3] = useState(initialParams?.weights.w3 ?? DEFAULTS.w3);
+  const [w4, setW4] = useState(initialParams?.weights.w4 ?? DEFAULTS.w4);
+  // 乱数シード（空欄ならランダム）
+  const [seedText, setSeedText] = useState(initialParams?.seed !== undefined ? String(initialParams.seed) : "");
+  // 新規生成の候補数（2以上なら候補を比較して選ぶ）
+  // 局所探索法の探索予算（時間制限は秒、空欄で制限なし）
+  const [localSearchIterations, setLocalSearchIterations] = useState(initialParams?.localSearch?.iterationsPerRound ?? DEFAULT_ITERATIONS_PER_ROUND);
+  const [localSearchTimeLimitText, setLocalSearchTimeLimitText] = useState(
+    initialParams?.localSearch?.timeLimitMs !== undefined ? String(initialParams.localSearch.timeLimitMs / 1000) : ""
+  );
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [parallelCandidates, setParallelCandidates] = useState(true);
+  // ミックスダブルス（男性1人・女性1人のペアのみ）
+  const [mixedDoubles, setMixedDoubles] = useState(initialParams?.mixedDoubles ?? false);
+  // ラウンドの途中からのコート数の変更と、追加フォームの入力値
+  const [courtChanges, setCourtChanges] = useState<CourtChange[]>(initialParams?.courtChanges ?? []);
+  const [courtChangeRound, setCourtChangeRound] = useState(2);
+  const [courtChangeCourts, setCourtChangeCourts] = useState(DEFAULTS.courts);
+  // コート名（インデックス = コート番号 - 1）とコート割り当ての均等化
+  const [courtNames, setCourtNames] = useState<string[]>(initialParams?.courtNames ?? []);
+  const [balanceCourts, setBalanceCourts] = useState(initialParams?.balanceCourts ?? false);
+  // 人数が足りないラウンドでシングルスにできるコート（インデックス）
+  const [singlesCourts, setSinglesCourts] = useState<number[]>(initialParams?.singlesCourts ?? []);
+  // 時間から決めるラウンド数（有効な間はラウンド数のスライダーの代わりに使う）
+  const [timePlanEnabled, setTimePlanEnabled] = useState(initialParams?.timePlan !== undefined);
+  const [timePlan, setTimePlan] = useState<TimePlan>(initialParams?.timePlan ?? DEFAULT_TIME_PLAN);
+  // 途中から来る・途中で帰るプレイヤーの参加できるラウンドと、追加フォームの入力値（"" は指定なし）
+  const [availability, setAvailability] = useState<PlayerAvailability[]>(initialParams?.availability ?? []);
+  const [availabilityPlayer, setAvailabilityPlayer] = useState<number | "">("");
+  const [availabilityFrom, setAvailabilityFrom] = useState<number | "">("");
+  const [availabilityUntil, setAvailabilityUntil] = useState<number | "">("");
+  // 一時的に抜けるプレイヤーの休憩（生成後のみ）と、追加フォームの入力値（"" は再開するまで）
+  const [breaks, setBreaks] = useState<PlayerBreak[]>(schedule?.breaks ?? []);
+  const [breakPlayer, setBreakPlayer] = useState<number | "">("");
+  const [breakUntil, setBreakUntil] = useState<number | "">("");
+  const [helpTarget, setHelpTarget] = useState<"w1" | "w2" | "w3" | "w4" | null>(null);
   const [advancedOpen, setAdvancedOpen] = useState(false);
   const [clearConfirmOpen, setClearConfirmOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [rosterOpen, setRosterOpen] = useState(false);
+  const strategies = useMemo(() => getAvailableStrategies(), []);
 
   // 参加者管理state（ParticipantSettingsDialogから移植）
   const [pendingAdds, setPendingAdds] = useState<number[]>([]);
@@ -83,6 +170,19 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     }
   }, [players, schedule, fixedPairs, onFixedPairsChange]);
 
+  // 参加人数変更時に無効なペア禁止・対戦禁止を削除（同上）
+  useEffect(() => {
+    if (schedule) return;
+    const validForbiddenPairs = forbiddenPairs.filter((c) => c.player2 <= players);
+    if (validForbiddenPairs.length !== forbiddenPairs.length) {
+      onForbiddenPairsChange(validForbiddenPairs);
+    }
+    const validForbiddenOpponents = forbiddenOpponents.filter((c) => c.player2 <= players);
+    if (validForbiddenOpponents.length !== forbiddenOpponents.length) {
+      onForbiddenOpponentsChange(validForbiddenOpponents);
+    }
+  }, [players, schedule, forbiddenPairs, forbiddenOpponents, onForbiddenPairsChange, onForbiddenOpponentsChange]);
+
   // スケジュール変更時: activePlayersが変化した場合のみpending stateをリセット
   useEffect(() => {
     if (schedule) {
@@ -101,6 +201,11 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     }
   }, [schedule]);
 
+  // スケジュール変更時（再生成・読み込み・クリア）: 休憩中のプレイヤーをスケジュールの設定に合わせる
+  useEffect(() => {
+    setBreaks(schedule?.breaks ?? []);
+  }, [schedule?.breaks]);
+
   // --- 参加者管理の計算値（ParticipantSettingsDialogから移植） ---
 
   const currentActivePlayers = schedule?.activePlayers ?? [];
@@ -113,10 +218,7 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     for (let p = 1; p <= schedule.players; p++) allKnown.add(p);
     for (const round of schedule.rounds) {
       for (const match of round.matches) {
-        allKnown.add(match.pairA.player1);
-        allKnown.add(match.pairA.player2);
-        allKnown.add(match.pairB.player1);
-        allKnown.add(match.pairB.player2);
+        for (const p of getMatchPlayers(match)) allKnown.add(p);
       }
       for (const p of round.restingPlayers) allKnown.add(p);
     }
@@ -155,28 +257,43 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     return map;
   }, [fixedPairs]);
 
-  // ペア選択可能なプレイヤー（アクティブかつ未ペア）
+  // ペア選択可能なプレイヤー
+  // - 固定ペア: アクティブかつ未ペア
+  // - ペア禁止・対戦禁止: アクティブ（1人目の選択後は、登録済みの組み合わせになる相手を除外）
   const pairSelectablePlayers = useMemo(() => {
+    const activePlayers = schedule
+      ? [...currentActivePlayers.filter(p => !pendingRemoves.includes(p)), ...pendingAdds]
+      : Array.from({ length: players }, (_, i) => i + 1);
+
+    if (pairSelection.mode === 'selecting' && pairSelection.kind !== 'fixed') {
+      const { kind, firstPlayer } = pairSelection;
+      if (firstPlayer === null) return new Set(activePlayers);
+      const list = kind === 'forbiddenPair' ? forbiddenPairs : forbiddenOpponents;
+      return new Set(activePlayers.filter(p =>
+        p === firstPlayer || (
+          !containsPairConstraint(list, firstPlayer, p) &&
+          // 固定ペアの2人はペア禁止にできない
+          !(kind === 'forbiddenPair' && containsPairConstraint(fixedPairs, firstPlayer, p))
+        )
+      ));
+    }
+
     const usedInPairs = new Set<number>();
     fixedPairs.forEach(fp => {
       usedInPairs.add(fp.player1);
       usedInPairs.add(fp.player2);
     });
-
-    const activePlayers = schedule
-      ? [...currentActivePlayers.filter(p => !pendingRemoves.includes(p)), ...pendingAdds]
-      : Array.from({ length: players }, (_, i) => i + 1);
-
     return new Set(activePlayers.filter(p => !usedInPairs.has(p)));
-  }, [fixedPairs, schedule, currentActivePlayers, pendingAdds, pendingRemoves, players]);
+  }, [pairSelection, fixedPairs, forbiddenPairs, forbiddenOpponents, schedule, currentActivePlayers, pendingAdds, pendingRemoves, players]);
 
   // 選択可能プレイヤーが2人未満になったらペア選択モードを自動終了
+  const isChoosingFirstPlayer = pairSelection.mode === 'selecting' && pairSelection.firstPlayer === null;
   useEffect(() => {
-    if (pairSelection.mode === 'selecting' && pairSelectablePlayers.size < 2) {
+    if (isChoosingFirstPlayer && pairSelectablePlayers.size < 2) {
       setPairSelection({ mode: 'inactive' });
       setShowPlayerGrid(false);
     }
-  }, [pairSelection.mode, pairSelectablePlayers.size]);
+  }, [isChoosingFirstPlayer, pairSelectablePlayers.size]);
 
   // 消化済みラウンド
   const completedRoundsList = useMemo(() => {
@@ -190,7 +307,8 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
 
   // バリデーション
   const effectiveCourts = courts;
-  const playersEnough = newActivePlayers.length >= effectiveCourts * 4;
+  const requiredPlayers = getRequiredPlayers(effectiveCourts, singlesCourts);
+  const playersEnough = newActivePlayers.length >= requiredPlayers;
 
   // 次のプレイヤー番号
   const nextPlayerNumber = useMemo(() => {
@@ -206,6 +324,46 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     : Math.max(...gridPlayers, 0);
   const fixedPairsValidation = validateFixedPairs(fixedPairs, effectivePlayersCount);
 
+  // ペア禁止・対戦禁止バリデーション（不参加になるプレイヤーを含む組み合わせは送信時に除外される）
+  const effectiveForbiddenPairs = filterPairConstraints(forbiddenPairs, newActivePlayers);
+  const effectiveForbiddenOpponents = filterPairConstraints(forbiddenOpponents, newActivePlayers);
+  const pairConstraintsValidation = validatePairConstraints(
+    effectiveForbiddenPairs,
+    effectiveForbiddenOpponents,
+    fixedPairs,
+    newActivePlayers
+  );
+
+  // 時間から決めるラウンド数のバリデーション（有効な設定の場合のみラウンド数を置き換える）
+  const timePlanValidation = timePlanEnabled ? validateTimePlan(timePlan) : { isValid: true };
+  const effectiveRounds = timePlanEnabled && timePlanValidation.isValid ? calculatePlannedRounds(timePlan) : rounds;
+
+  // コート数の変更のバリデーション（生成後はスケジュール全体のラウンド数で判定）
+  const plannedRounds = schedule ? totalRounds : effectiveRounds;
+  const courtChangesValidation = validateCourtChanges(courtChanges, plannedRounds, newActivePlayers.length, singlesCourts);
+  const courtsRange = getCourtsRange(courts, courtChanges, plannedRounds);
+
+  // シングルスコートのバリデーション（存在しないコートの指定とミックスダブルスとの併用を除外）
+  const singlesCourtsValidation = validateSinglesCourts(singlesCourts, courtsRange.max, mixedDoubles);
+
+  // ミックスダブルスのバリデーション（名簿の区分と男女の人数、コート数が最大のラウンドで判定）
+  const mixedDoublesValidation = mixedDoubles
+    ? validateMixedDoubles(roster, newActivePlayers, courtsRange.max, fixedPairs)
+    : { isValid: true };
+
+  // ラウンドごとの男女の人数の判定用の区分配列（区分の設定に不備がある場合は上のバリデーションで止める）
+  const mixedCategories = mixedDoubles && mixedDoublesValidation.isValid
+    ? buildPlayerCategories(roster, Math.max(0, ...newActivePlayers))
+    : null;
+
+  // 参加できるラウンドのバリデーション（不参加になるプレイヤーの指定は送信時に除外される）
+  const effectiveAvailability = availability.filter((a) => newActivePlayers.includes(a.player));
+  const availabilityValidation = validateAvailability(effectiveAvailability, newActivePlayers, plannedRounds, courts, courtChanges, singlesCourts, mixedCategories);
+
+  // 休憩中のプレイヤー（参加しないプレイヤーと、消化済みラウンドまでに終わった休憩を除く）
+  const effectiveBreaks = breaks.filter((b) => newActivePlayers.includes(b.player) && (b.untilRound ?? Infinity) > completedCount);
+  const breaksValidation = validateBreaks(effectiveBreaks, newActivePlayers, totalRounds, courts, courtChanges, singlesCourts, effectiveAvailability, mixedCategories, completedCount + 1);
+
   // --- ハンドラー ---
 
   // スライダー変更: 生成前は単純に値を設定、生成後は差分で pendingAdds/pendingRemoves を調整
@@ -290,14 +448,20 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     if (pairSelection.mode !== 'selecting') return;
 
     if (pairSelection.firstPlayer === null) {
-      setPairSelection({ mode: 'selecting', firstPlayer: player });
+      setPairSelection({ mode: 'selecting', kind: pairSelection.kind, firstPlayer: player });
     } else if (pairSelection.firstPlayer === player) {
-      setPairSelection({ mode: 'selecting', firstPlayer: null });
+      setPairSelection({ mode: 'selecting', kind: pairSelection.kind, firstPlayer: null });
     } else {
-      const newPair = normalizeFixedPair(pairSelection.firstPlayer, player);
-      onFixedPairsChange([...fixedPairs, newPair]);
+      const { kind, firstPlayer } = pairSelection;
+      if (kind === 'fixed') {
+        onFixedPairsChange([...fixedPairs, normalizeFixedPair(firstPlayer, player)]);
+      } else if (kind === 'forbiddenPair') {
+        onForbiddenPairsChange([...forbiddenPairs, normalizePairConstraint(firstPlayer, player)]);
+      } else {
+        onForbiddenOpponentsChange([...forbiddenOpponents, normalizePairConstraint(firstPlayer, player)]);
+      }
       // 選択モードを維持し、次のペア選択に備える
-      setPairSelection({ mode: 'selecting', firstPlayer: null });
+      setPairSelection({ mode: 'selecting', kind, firstPlayer: null });
     }
   };
 
@@ -312,6 +476,99 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     onFixedPairsChange(fixedPairs.filter((_, i) => i !== index));
   };
 
+  const handleRemoveForbiddenPair = (index: number) => {
+    onForbiddenPairsChange(forbiddenPairs.filter((_, i) => i !== index));
+  };
+
+  const handleRemoveForbiddenOpponent = (index: number) => {
+    onForbiddenOpponentsChange(forbiddenOpponents.filter((_, i) => i !== index));
+  };
+
+  // コート数の変更を追加（同じラウンドの変更は置き換え）
+  const handleAddCourtChange = () => {
+    setCourtChanges(setCourtChange(courtChanges, Math.min(courtChangeRound, plannedRounds), courtChangeCourts));
+  };
+
+  const handleRemoveCourtChange = (fromRound: number) => {
+    setCourtChanges(courtChanges.filter((c) => c.fromRound !== fromRound));
+  };
+
+  const handleSinglesCourtToggle = (courtIndex: number, checked: boolean) => {
+    setSinglesCourts(
+      checked
+        ? [...singlesCourts, courtIndex].sort((a, b) => a - b)
+        : singlesCourts.filter((c) => c !== courtIndex)
+    );
+  };
+
+  // コート名の編集は再生成せずに生成済みスケジュールへ反映（末尾の未設定分は保存しない）
+  const handleCourtNameChange = (courtIndex: number, name: string) => {
+    const next = Array.from({ length: Math.max(courtNames.length, courtIndex + 1) }, (_, i) =>
+      i === courtIndex ? name : courtNames[i] ?? ""
+    );
+    while (next.length > 0 && next[next.length - 1].trim() === "") next.pop();
+    setCourtNames(next);
+    onCourtNamesChange(next);
+  };
+
+  // 参加できるラウンドを追加（同じプレイヤーの指定は置き換え、「最初から最後まで」は指定の削除）
+  const handleAddAvailability = () => {
+    if (availabilityPlayer === "") return;
+    setAvailability(setPlayerAvailability(availability, {
+      player: availabilityPlayer,
+      ...(availabilityFrom !== "" && { fromRound: availabilityFrom }),
+      ...(availabilityUntil !== "" && { untilRound: availabilityUntil }),
+    }));
+  };
+
+  const handleRemoveAvailability = (player: number) => {
+    setAvailability(availability.filter((a) => a.player !== player));
+  };
+
+  // 休憩にする（消化していない最初のラウンドから。同じプレイヤーの指定は置き換え）
+  const handleAddBreak = () => {
+    if (breakPlayer === "") return;
+    setBreaks(setPlayerBreak(breaks, {
+      player: breakPlayer,
+      fromRound: completedCount + 1,
+      ...(breakUntil !== "" && { untilRound: breakUntil }),
+    }));
+    setBreakPlayer("");
+    setBreakUntil("");
+  };
+
+  // 再開: 休憩の指定を外す（再生成すると消化していない最初のラウンドから組み合わせに戻る）
+  const handleResumeBreak = (player: number) => {
+    setBreaks(breaks.filter((b) => b.player !== player));
+  };
+
+  // 時間の設定の変更も生成済みスケジュールの予定時刻へ反映（ラウンド数は変わらない）
+  const handleTimePlanChange = (patch: Partial<TimePlan>) => {
+    const next = { ...timePlan, ...patch };
+    setTimePlan(next);
+    if (schedule && validateTimePlan(next).isValid) onTimePlanChange(next);
+  };
+
+  const handleTimePlanToggle = (enabled: boolean) => {
+    setTimePlanEnabled(enabled);
+    if (schedule) onTimePlanChange(enabled && validateTimePlan(timePlan).isValid ? timePlan : undefined);
+  };
+
+  // 2人組の選択モードを切り替える（選択中に同じボタンを押すと終了）
+  const togglePairSelection = (kind: PairSelectionKind) => {
+    if (pairSelection.mode === 'selecting') {
+      setPairSelection({ mode: 'inactive' });
+      setShowPlayerGrid(false);
+    } else {
+      setPairSelection({ mode: 'selecting', kind, firstPlayer: null });
+      setShowPlayerGrid(true);
+    }
+  };
+
+  const handleParticipantChange = (player: number, patch: Partial<Omit<Participant, "id">>) => {
+    onRosterChange(updateParticipant(roster, player, patch));
+  };
+
   // --- ボタンスタイル計算 ---
 
   const getButtonSx = (player: number) => {
@@ -379,6 +636,15 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
 
   // --- フォーム送信（生成 or 再生成） ---
 
+  const seed = seedText.trim() === "" ? undefined : Number(seedText);
+  const seedValid = seed === undefined || isValidSeed(seed);
+  const localSearchTimeLimit = localSearchTimeLimitText.trim() === "" ? undefined : Number(localSearchTimeLimitText);
+  const localSearchTimeLimitValid = localSearchTimeLimit === undefined || (Number.isFinite(localSearchTimeLimit) && localSearchTimeLimit > 0);
+  const localSearch: LocalSearchBudget = {
+    iterationsPerRound: localSearchIterations,
+    timeLimitMs: localSearchTimeLimit === undefined ? undefined : Math.round(localSearchTimeLimit * 1000),
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
     if (schedule) {
@@ -387,51 +653,131 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
         fp => newActivePlayers.includes(fp.player1) && newActivePlayers.includes(fp.player2)
       );
       onFixedPairsChange(newFixedPairs);
+      onForbiddenPairsChange(effectiveForbiddenPairs);
+      onForbiddenOpponentsChange(effectiveForbiddenOpponents);
+      setAvailability(effectiveAvailability);
       onRegenerate({
         courtsCount: courts,
         completedRounds: completedRoundsList,
         activePlayers: newActivePlayers,
         remainingRoundsCount: remainingRounds,
-        weights: { w1, w2, w3 },
+        weights: { w1, w2, w3, w4 },
         fixedPairs: newFixedPairs,
+        forbiddenPairs: effectiveForbiddenPairs,
+        forbiddenOpponents: effectiveForbiddenOpponents,
+        roster,
+        seed,
+        mixedDoubles,
+        courtChanges,
+        courtNames,
+        balanceCourts,
+        singlesCourts,
+        timePlan: timePlanEnabled ? timePlan : undefined,
+        availability: effectiveAvailability,
+        breaks: effectiveBreaks,
+        localSearch,
       });
       setPendingAdds([]);
       setPendingRemoves([]);
       setPairSelection({ mode: 'inactive' });
     } else {
       // 新規生成パス
-      const effectiveCount = newActivePlayers.length;
-      const newFixedPairs = fixedPairs.filter(
-        fp => newActivePlayers.includes(fp.player1) && newActivePlayers.includes(fp.player2)
-      );
-      if (newFixedPairs.length !== fixedPairs.length) {
-        onFixedPairsChange(newFixedPairs);
+      if (candidateCount > 1) {
+        onGenerateCandidates(prepareNewScheduleParams(), { count: candidateCount, parallel: parallelCandidates });
+      } else {
+        onGenerate(prepareNewScheduleParams());
       }
-      onGenerate({
-        courtsCount: courts,
-        playersCount: effectiveCount,
-        roundsCount: rounds,
-        weights: { w1, w2, w3 },
-        fixedPairs: newFixedPairs,
-      });
       setPendingAdds([]);
       setPendingRemoves([]);
     }
   };
 
+  // 新規生成のパラメータを作成し、参加しないプレイヤーを含む固定ペア・組み合わせ禁止を除外する
+  const prepareNewScheduleParams = (): ScheduleParams => {
+    const newFixedPairs = fixedPairs.filter(
+      fp => newActivePlayers.includes(fp.player1) && newActivePlayers.includes(fp.player2)
+    );
+    if (newFixedPairs.length !== fixedPairs.length) {
+      onFixedPairsChange(newFixedPairs);
+    }
+    if (effectiveForbiddenPairs.length !== forbiddenPairs.length) {
+      onForbiddenPairsChange(effectiveForbiddenPairs);
+    }
+    if (effectiveForbiddenOpponents.length !== forbiddenOpponents.length) {
+      onForbiddenOpponentsChange(effectiveForbiddenOpponents);
+    }
+    if (effectiveAvailability.length !== availability.length) {
+      setAvailability(effectiveAvailability);
+    }
+    return {
+      courtsCount: courts,
+      playersCount: newActivePlayers.length,
+      roundsCount: effectiveRounds,
+      weights: { w1, w2, w3, w4 },
+      fixedPairs: newFixedPairs,
+      forbiddenPairs: effectiveForbiddenPairs,
+      forbiddenOpponents: effectiveForbiddenOpponents,
+      roster,
+      seed,
+      mixedDoubles,
+      courtChanges,
+      courtNames,
+      balanceCourts,
+      singlesCourts,
+      timePlan: timePlanEnabled ? timePlan : undefined,
+      availability: effectiveAvailability,
+      localSearch,
+    };
+  };
+
+  // 現在の設定で複数アルゴリズムを比較する（生成前のみ）
+  const handleCompare = () => {
+    setAdvancedOpen(false);
+    onCompare(prepareNewScheduleParams());
+  };
+
   // バリデーション
-  const playersValid = newActivePlayers.length >= courts * 4;
-  const isValid = playersValid && fixedPairsValidation.isValid;
-  const errorMessage = !playersValid ? `参加人数は ${courts * 4} 人以上が必要です` : "";
+  const playersValid = newActivePlayers.length >= requiredPlayers;
+  const isValid = playersValid && fixedPairsValidation.isValid && pairConstraintsValidation.isValid && mixedDoublesValidation.isValid && courtChangesValidation.isValid && singlesCourtsValidation.isValid && timePlanValidation.isValid && availabilityValidation.isValid;
+  // 対応規模に上限があるアルゴリズム（全探索法など）の判定
+  const selectedStrategy = strategies.find((s) => s.id === strategyId);
+  const strategySupported = !selectedStrategy || supportsSize(selectedStrategy, courtsRange.max, newActivePlayers.length);
+  const errorMessage = !playersValid
+    ? `参加人数は ${requiredPlayers} 人以上が必要です`
+    : !courtChangesValidation.isValid
+      ? courtChangesValidation.errorMessage
+      : !singlesCourtsValidation.isValid
+        ? singlesCourtsValidation.errorMessage
+        : !timePlanValidation.isValid
+          ? timePlanValidation.errorMessage
+          : !availabilityValidation.isValid
+            ? availabilityValidation.errorMessage
+            : !breaksValidation.isValid
+              ? breaksValidation.errorMessage
+              : !strategySupported && selectedStrategy?.limits
+                ? `${selectedStrategy.name}は ${selectedStrategy.limits.maxCourts} 面・${selectedStrategy.limits.maxPlayers} 人以下で使用できます`
+                : "";
 
   // 送信ボタンの有効/無効判定
   const canSubmit = schedule
-    ? (playersEnough && !isGenerating)
-    : (isValid && !isGenerating);
-
-  // 休憩者数の計算
-  const restingCount = Math.max(0, newActivePlayers.length - courts * 4);
-  const restingMessage = restingCount > 0 ? `毎ラウンド ${restingCount} 人が休憩` : "";
+    ? (playersEnough && strategySupported && pairConstraintsValidation.isValid && mixedDoublesValidation.isValid && courtChangesValidation.isValid && singlesCourtsValidation.isValid && timePlanValidation.isValid && availabilityValidation.isValid && breaksValidation.isValid && seedValid && localSearchTimeLimitValid && !isGenerating)
+    : (isValid && strategySupported && seedValid && localSearchTimeLimitValid && !isGenerating);
+
+  // 休憩者数の計算（コート数の変更がある場合はラウンドにより変動）
+  // （シングルスのコートがある場合は足りない人数に応じてシングルスで出場する）
+  const playingCount = (courtsCount: number) =>
+    countPlayingPlayers(courtsCount, getSinglesCourtsForRound(singlesCourts, courtsCount, newActivePlayers.length).length);
+  const restingCount = Math.max(0, newActivePlayers.length - playingCount(courtsRange.max));
+  const maxRestingCount = Math.max(0, newActivePlayers.length - playingCount(courtsRange.min));
+  const restingMessage = maxRestingCount === 0
+    ? ""
+    : restingCount === maxRestingCount
+      ? `毎ラウンド ${restingCount} 人が休憩`
+      : `ラウンドにより ${restingCount}〜${maxRestingCount} 人が休憩`;
+
+  // 時間から決めたラウンド数での各プレイヤーの出場ラウンド数の見込み
+  const roundsPlayed = estimateRoundsPlayed(newActivePlayers.length, plannedRounds, courts, courtChanges, singlesCourts);
+  const lastRoundStart = getRoundStartMinutes(timePlan, plannedRounds);
 
   // 全設定を初期値にリセット
   const handleClear = () => {
@@ -441,6 +787,18 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     setW1(DEFAULTS.w1);
     setW2(DEFAULTS.w2);
     setW3(DEFAULTS.w3);
+    setW4(DEFAULTS.w4);
+    setSeedText("");
+    setCandidateCount(1);
+    setMixedDoubles(false);
+    setCourtChanges([]);
+    setCourtNames([]);
+    setBalanceCourts(false);
+    setSinglesCourts([]);
+    setTimePlanEnabled(false);
+    setTimePlan(DEFAULT_TIME_PLAN);
+    setAvailability([]);
+    setBreaks([]);
     setPendingAdds([]);
     setPendingRemoves([]);
     setPairSelection({ mode: 'inactive' });
@@ -448,6 +806,43 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
     onClear();
   };
 
+  // インポートしたスケジュールに設定値を合わせる（重みは現在の設定を引き継ぐ）
+  const handleImport = (data: ImportedSchedule) => {
+    const { schedule: imported } = data;
+    setCourts(imported.courts);
+    setRounds(imported.rounds.length);
+    setMixedDoubles(imported.mixedDoubles ?? false);
+    setCourtChanges(imported.courtChanges ?? []);
+    setCourtNames(imported.courtNames ?? []);
+    setBalanceCourts(imported.balanceCourts ?? false);
+    setSinglesCourts(imported.singlesCourts ?? []);
+    setTimePlanEnabled(imported.timePlan !== undefined);
+    setTimePlan(imported.timePlan ?? DEFAULT_TIME_PLAN);
+    setAvailability(imported.availability ?? []);
+    setBreaks(imported.breaks ?? []);
+    setPendingAdds([]);
+    setPendingRemoves([]);
+    setPairSelection({ mode: 'inactive' });
+    setShowPlayerGrid(false);
+    onImport(data, {
+      courtsCount: imported.courts,
+      playersCount: imported.players,
+      roundsCount: imported.rounds.length,
+      weights: { w1, w2, w3, w4 },
+      fixedPairs: imported.fixedPairs,
+      forbiddenPairs: imported.forbiddenPairs,
+      forbiddenOpponents: imported.forbiddenOpponents,
+      roster: imported.roster,
+      mixedDoubles: imported.mixedDoubles,
+      courtChanges: imported.courtChanges,
+      courtNames: imported.courtNames,
+      balanceCourts: imported.balanceCourts,
+      singlesCourts: imported.singlesCourts,
+      timePlan: imported.timePlan,
+      availability: imported.availability,
+    });
+  };
+
   return (
     <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3 }}>
       <Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", mb: { xs: 1, sm: 2 } }}>
@@ -462,6 +857,26 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
           >
             クリア
           </Button>
+          <Tooltip title="インポート">
+            <span>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<FileUploadIcon />}
+                onClick={() => setImportOpen(true)}
+                disabled={isGenerating}
+                sx={{
+                  height: "100%",
+                  minWidth: { xs: "auto", sm: undefined },
+                  "& .MuiButton-startIcon": { mr: { xs: 0, sm: 1 } },
+                }}
+              >
+                <Box component="span" sx={{ display: { xs: "none", sm: "inline" } }}>
+                  インポート
+                </Box>
+              </Button>
+            </span>
+          </Tooltip>
           <Tooltip title="詳細設定">
             <span>
               <Button
@@ -563,20 +978,44 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
               <Button
                 variant="outlined"
                 size="small"
-                color={pairSelection.mode === 'selecting' ? 'secondary' : 'primary'}
-                onClick={() => {
-                  if (pairSelection.mode === 'selecting') {
-                    setPairSelection({ mode: 'inactive' });
-                    setShowPlayerGrid(false);
-                  } else {
-                    setPairSelection({ mode: 'selecting', firstPlayer: null });
-                    setShowPlayerGrid(true);
-                  }
-                }}
-                disabled={pairSelection.mode === 'inactive' && (isGenerating || pairSelectablePlayers.size < 2 || showPlayerGrid)}
+                color={pairSelection.mode === 'selecting' && pairSelection.kind === 'fixed' ? 'secondary' : 'primary'}
+                onClick={() => togglePairSelection('fixed')}
+                disabled={pairSelection.mode === 'inactive'
+                  ? (isGenerating || pairSelectablePlayers.size < 2 || showPlayerGrid)
+                  : pairSelection.kind !== 'fixed'}
               >
                 固定ペア
               </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                color={pairSelection.mode === 'selecting' && pairSelection.kind === 'forbiddenPair' ? 'secondary' : 'primary'}
+                onClick={() => togglePairSelection('forbiddenPair')}
+                disabled={pairSelection.mode === 'inactive'
+                  ? (isGenerating || showPlayerGrid)
+                  : pairSelection.kind !== 'forbiddenPair'}
+              >
+                ペア禁止
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                color={pairSelection.mode === 'selecting' && pairSelection.kind === 'forbiddenOpponent' ? 'secondary' : 'primary'}
+                onClick={() => togglePairSelection('forbiddenOpponent')}
+                disabled={pairSelection.mode === 'inactive'
+                  ? (isGenerating || showPlayerGrid)
+                  : pairSelection.kind !== 'forbiddenOpponent'}
+              >
+                対戦禁止
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => setRosterOpen(true)}
+                disabled={pairSelection.mode === 'selecting'}
+              >
+                名簿
+              </Button>
             </Box>
 
             {/* プレイヤーグリッド（トグルまたはペア選択モード時に表示） */}
@@ -593,7 +1032,14 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
                       onClick={() => handlePlayerTap(p)}
                       sx={getButtonSx(p)}
                     >
-                      {p}
+                      <Box component="span" sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', lineHeight: 1.1 }}>
+                        {p}
+                        {getPlayerName(roster, p) !== String(p) && (
+                          <Box component="span" sx={{ fontSize: '0.65rem', fontWeight: 400, maxWidth: '6em', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {getPlayerName(roster, p)}
+                          </Box>
+                        )}
+                      </Box>
                     </Button>
                   ))}
                   {/* 追加ボタン */}
@@ -616,6 +1062,13 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
                     タップで参加/不参加を切り替え
                   </Typography>
                 )}
+                {pairSelection.mode === 'selecting' && pairSelection.kind !== 'fixed' && (
+                  <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+                    {pairSelection.kind === 'forbiddenPair'
+                      ? '2人をタップすると、その2人はペアを組まなくなります'
+                      : '2人をタップすると、その2人は対戦しなくなります'}
+                  </Typography>
+                )}
               </Box>
             )}
 
@@ -625,7 +1078,7 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
                 {fixedPairs.map((pair, index) => (
                   <Chip
                     key={index}
-                    label={`${pair.player1} & ${pair.player2}`}
+                    label={`${getPlayerName(roster, pair.player1)} & ${getPlayerName(roster, pair.player2)}`}
                     onDelete={() => handleRemoveFixedPair(index)}
                     variant="outlined"
                     sx={{
@@ -638,6 +1091,106 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
               </Stack>
             )}
 
+            {/* ペア禁止・対戦禁止チップ（常に表示） */}
+            {(forbiddenPairs.length > 0 || forbiddenOpponents.length > 0) && (
+              <Stack direction="row" sx={{ mt: 1, flexWrap: 'wrap', gap: 1 }}>
+                {forbiddenPairs.map((pair, index) => (
+                  <Chip
+                    key={`pair-${index}`}
+                    label={`ペアNG: ${getPlayerName(roster, pair.player1)} & ${getPlayerName(roster, pair.player2)}`}
+                    onDelete={() => handleRemoveForbiddenPair(index)}
+                    variant="outlined"
+                    sx={{
+                      borderColor: FORBIDDEN_PAIR_COLOR,
+                      color: FORBIDDEN_PAIR_COLOR,
+                      fontWeight: 600,
+                    }}
+                  />
+                ))}
+                {forbiddenOpponents.map((pair, index) => (
+                  <Chip
+                    key={`opponent-${index}`}
+                    label={`対戦NG: ${getPlayerName(roster, pair.player1)} vs ${getPlayerName(roster, pair.player2)}`}
+                    onDelete={() => handleRemoveForbiddenOpponent(index)}
+                    variant="outlined"
+                    sx={{
+                      borderColor: FORBIDDEN_OPPONENT_COLOR,
+                      color: FORBIDDEN_OPPONENT_COLOR,
+                      fontWeight: 600,
+                    }}
+                  />
+                ))}
+              </Stack>
+            )}
+            {!pairConstraintsValidation.isValid && (
+              <Typography variant="caption" color="error" sx={{ mt: 0.5, display: 'block' }}>
+                {pairConstraintsValidation.errorMessage}
+              </Typography>
+            )}
+            {!mixedDoublesValidation.isValid && (
+              <Typography variant="caption" color="error" sx={{ mt: 0.5, display: 'block' }}>
+                {mixedDoublesValidation.errorMessage}
+              </Typography>
+            )}
+
+            {/* 休憩中のプレイヤー（生成後のみ） */}
+            {schedule && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>休憩中のプレイヤー</Typography>
+                {effectiveBreaks.length > 0 && (
+                  <Stack direction="row" sx={{ flexWrap: 'wrap', gap: 1, mb: 1.5 }}>
+                    {effectiveBreaks.map((entry) => (
+                      <Chip
+                        key={entry.player}
+                        label={`${getPlayerName(roster, entry.player)}: ${formatBreak(entry)}`}
+                        onDelete={isGenerating ? undefined : () => handleResumeBreak(entry.player)}
+                        variant="outlined"
+                        color="warning"
+                      />
+                    ))}
+                  </Stack>
+                )}
+                <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="プレイヤー"
+                    value={breakPlayer}
+                    onChange={(e) => setBreakPlayer(e.target.value === "" ? "" : Number(e.target.value))}
+                    sx={{ width: 120 }}
+                  >
+                    {newActivePlayers.map((p) => (
+                      <MenuItem key={p} value={p}>
+                        {getPlayerName(roster, p)}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    select
+                    size="small"
+                    label="まで"
+                    value={breakUntil}
+                    onChange={(e) => setBreakUntil(e.target.value === "" ? "" : Number(e.target.value))}
+                    sx={{ width: 120 }}
+                  >
+                    <MenuItem value="">再開まで</MenuItem>
+                    {Array.from({ length: Math.max(0, totalRounds - completedCount) }, (_, i) => completedCount + i + 1).map((round) => (
+                      <MenuItem key={round} value={round}>
+                        ラウンド {round}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <Button variant="outlined" onClick={handleAddBreak} disabled={isGenerating || breakPlayer === "" || remainingRounds === 0}>
+                    休憩にする
+                  </Button>
+                </Box>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                  ケガや電話などで一時的に抜けるプレイヤーは、消化していない最初のラウンドから指定したラウンドまで（または再開するまで）必ず休憩にします。
+                  それまでの回数は残り、戻ったあとは休憩した分だけ優先して出場します。✕で再開し、スケジュール生成で残りのラウンドに反映します
+                </Typography>
+              </Box>
+            )}
+
           </Grid>
 
           {/* 送信ボタン */}
@@ -648,7 +1201,7 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
               </Button>
             ) : (
               <Button type="submit" variant="contained" color="primary" size="large" fullWidth disabled={!canSubmit}>
-                スケジュール生成
+                {!schedule && candidateCount > 1 ? `スケジュール生成（${candidateCount} 候補）` : "スケジュール生成"}
               </Button>
             )}
           </Grid>
@@ -676,15 +1229,95 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
         </DialogActions>
       </Dialog>
 
+      {/* インポートダイアログ */}
+      <ImportDialog
+        open={importOpen}
+        weights={{ w1, w2, w3, w4 }}
+        hasSchedule={schedule !== null}
+        onClose={() => setImportOpen(false)}
+        onImport={handleImport}
+      />
+
+      {/* 名簿ダイアログ */}
+      <Dialog open={rosterOpen} onClose={() => setRosterOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>参加者名簿</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            名前を登録すると対戦表・統計・読み上げで番号の代わりに表示されます。読み仮名は読み上げに使用します。
+            レベル（1〜5）を設定すると、各試合のチーム力（ペアのレベル合計）が近くなるように組み合わせます。
+            区分はミックスダブルスのペア編成に使用します。
+          </Typography>
+          {gridPlayers.map((p) => {
+            const participant = roster.find((r) => r.id === p);
+            return (
+              <Box key={p} sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1.5 }}>
+                <Typography sx={{ minWidth: "2.5em", fontWeight: 700, textAlign: "right" }}>{p}</Typography>
+                <TextField
+                  size="small"
+                  label="名前"
+                  value={participant?.name ?? ""}
+                  onChange={(e) => handleParticipantChange(p, { name: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="読み仮名"
+                  value={participant?.reading ?? ""}
+                  onChange={(e) => handleParticipantChange(p, { reading: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="レベル"
+                  value={participant?.rating ?? ""}
+                  onChange={(e) =>
+                    handleParticipantChange(p, { rating: e.target.value === "" ? undefined : Number(e.target.value) })
+                  }
+                  sx={{ width: 88 }}
+                >
+                  <MenuItem value="">未設定</MenuItem>
+                  {Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, i) => MIN_RATING + i).map((rating) => (
+                    <MenuItem key={rating} value={rating}>
+                      {rating}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="区分"
+                  value={participant?.category ?? ""}
+                  onChange={(e) =>
+                    handleParticipantChange(p, { category: e.target.value === "" ? undefined : (e.target.value as PlayerCategory) })
+                  }
+                  sx={{ width: 88 }}
+                >
+                  <MenuItem value="">未設定</MenuItem>
+                  {(Object.keys(CATEGORY_LABELS) as PlayerCategory[]).map((category) => (
+                    <MenuItem key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Box>
+            );
+          })}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRosterOpen(false)}>閉じる</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* 詳細設定ダイアログ */}
       <Dialog open={advancedOpen} onClose={() => setAdvancedOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>詳細設定</DialogTitle>
         <DialogContent>
           {/* ラウンド数 */}
           <Box sx={{ mt: 1, mb: 3 }}>
-            <Typography gutterBottom>ラウンド数: {rounds}</Typography>
+            <Typography gutterBottom>ラウンド数: {effectiveRounds}</Typography>
             <Slider
-              value={rounds}
+              value={effectiveRounds}
               onChange={(_, value) => setRounds(value as number)}
               min={1}
               max={20}
@@ -696,10 +1329,298 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
                 { value: 20, label: "20" },
               ]}
               valueLabelDisplay="auto"
-              disabled={isGenerating}
+              disabled={isGenerating || timePlanEnabled}
             />
           </Box>
 
+          {/* 時間から決めるラウンド数 */}
+          <Box sx={{ mb: 3 }}>
+            <FormControlLabel
+              control={<Switch checked={timePlanEnabled} onChange={(e) => handleTimePlanToggle(e.target.checked)} disabled={isGenerating} />}
+              label="時間からラウンド数を決める"
+            />
+            {timePlanEnabled && (
+              <>
+                <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 1 }}>
+                  <TextField
+                    type="time"
+                    size="small"
+                    label="開始"
+                    value={timePlan.startTime}
+                    onChange={(e) => handleTimePlanChange({ startTime: e.target.value })}
+                    disabled={isGenerating}
+                    sx={{ width: 120 }}
+                  />
+                  <TextField
+                    type="time"
+                    size="small"
+                    label="終了"
+                    value={timePlan.endTime}
+                    onChange={(e) => handleTimePlanChange({ endTime: e.target.value })}
+                    disabled={isGenerating}
+                    sx={{ width: 120 }}
+                  />
+                  <TextField
+                    type="number"
+                    size="small"
+                    label="1試合（分）"
+                    value={timePlan.matchMinutes}
+                    onChange={(e) => handleTimePlanChange({ matchMinutes: Number(e.target.value) })}
+                    disabled={isGenerating}
+                    inputProps={{ min: 1, max: 180 }}
+                    sx={{ width: 100 }}
+                  />
+                  <TextField
+                    type="number"
+                    size="small"
+                    label="入れ替え（分）"
+                    value={timePlan.changeoverMinutes}
+                    onChange={(e) => handleTimePlanChange({ changeoverMinutes: Number(e.target.value) })}
+                    disabled={isGenerating}
+                    inputProps={{ min: 0, max: 60 }}
+                    sx={{ width: 100 }}
+                  />
+                </Box>
+                {!timePlanValidation.isValid ? (
+                  <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                    {timePlanValidation.errorMessage}
+                  </Typography>
+                ) : (
+                  <>
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                      {schedule
+                        ? "予定時刻の表示に使います（ラウンド数は変わりません）"
+                        : `${plannedRounds} ラウンド（最終ラウンド ${lastRoundStart === null ? "" : formatClockTime(lastRoundStart)} 開始）`}
+                    </Typography>
+                    {roundsPlayed.min < plannedRounds && (
+                      <Typography variant="body2" color="warning.main">
+                        各プレイヤーの出場は {plannedRounds} ラウンド中
+                        {roundsPlayed.min === roundsPlayed.max ? ` ${roundsPlayed.min} ` : ` ${roundsPlayed.min}〜${roundsPlayed.max} `}
+                        ラウンドです
+                      </Typography>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </Box>
+
+          {/* コート数の変更 */}
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>コート数の変更</Typography>
+            {courtChanges.length > 0 && (
+              <Stack direction="row" sx={{ flexWrap: "wrap", gap: 1, mb: 1.5 }}>
+                {courtChanges.map((change) => (
+                  <Chip
+                    key={change.fromRound}
+                    label={`ラウンド ${change.fromRound} から ${change.courts} 面`}
+                    onDelete={isGenerating ? undefined : () => handleRemoveCourtChange(change.fromRound)}
+                    variant="outlined"
+                  />
+                ))}
+              </Stack>
+            )}
+            {plannedRounds >= 2 && (
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="ラウンド"
+                  value={Math.min(courtChangeRound, plannedRounds)}
+                  onChange={(e) => setCourtChangeRound(Number(e.target.value))}
+                  sx={{ width: 100 }}
+                >
+                  {Array.from({ length: plannedRounds - 1 }, (_, i) => i + 2).map((round) => (
+                    <MenuItem key={round} value={round}>
+                      {round}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Typography variant="body2">から</Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="コート数"
+                  value={courtChangeCourts}
+                  onChange={(e) => setCourtChangeCourts(Number(e.target.value))}
+                  sx={{ width: 100 }}
+                >
+                  {Array.from({ length: 8 }, (_, i) => i + 1).map((count) => (
+                    <MenuItem key={count} value={count}>
+                      {count} 面
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Button variant="outlined" onClick={handleAddCourtChange} disabled={isGenerating}>
+                  追加
+                </Button>
+              </Box>
+            )}
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 0.5 }}>
+              途中からコートが空く・使えなくなる場合に、指定したラウンド以降のコート数を変更します
+            </Typography>
+            {!courtChangesValidation.isValid && (
+              <Typography variant="caption" color="error" sx={{ display: "block" }}>
+                {courtChangesValidation.errorMessage}
+              </Typography>
+            )}
+          </Box>
+
+          {/* 参加できるラウンド */}
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>参加できるラウンド</Typography>
+            {availability.length > 0 && (
+              <Stack direction="row" sx={{ flexWrap: "wrap", gap: 1, mb: 1.5 }}>
+                {availability.map((entry) => (
+                  <Chip
+                    key={entry.player}
+                    label={`${getPlayerName(roster, entry.player)}: ${formatAvailability(entry)}`}
+                    onDelete={isGenerating ? undefined : () => handleRemoveAvailability(entry.player)}
+                    variant="outlined"
+                  />
+                ))}
+              </Stack>
+            )}
+            <Box sx={{ display: "flex", alignItems: "center", flexWrap: "wrap", gap: 1 }}>
+              <TextField
+                select
+                size="small"
+                label="プレイヤー"
+                value={availabilityPlayer}
+                onChange={(e) => setAvailabilityPlayer(e.target.value === "" ? "" : Number(e.target.value))}
+                sx={{ width: 120 }}
+              >
+                {newActivePlayers.map((p) => (
+                  <MenuItem key={p} value={p}>
+                    {getPlayerName(roster, p)}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="から"
+                value={availabilityFrom}
+                onChange={(e) => setAvailabilityFrom(e.target.value === "" ? "" : Number(e.target.value))}
+                sx={{ width: 100 }}
+              >
+                <MenuItem value="">最初</MenuItem>
+                {Array.from({ length: plannedRounds }, (_, i) => i + 1).map((round) => (
+                  <MenuItem key={round} value={round}>
+                    ラウンド {round}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="まで"
+                value={availabilityUntil}
+                onChange={(e) => setAvailabilityUntil(e.target.value === "" ? "" : Number(e.target.value))}
+                sx={{ width: 100 }}
+              >
+                <MenuItem value="">最後</MenuItem>
+                {Array.from({ length: plannedRounds }, (_, i) => i + 1).map((round) => (
+                  <MenuItem key={round} value={round}>
+                    ラウンド {round}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button variant="outlined" onClick={handleAddAvailability} disabled={isGenerating || availabilityPlayer === ""}>
+                追加
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 0.5 }}>
+              途中から来る・途中で帰るプレイヤーは、指定したラウンドの範囲だけ組み合わせに入れます（休憩は参加したラウンド数に対する割合で均等にします）
+            </Typography>
+            {!availabilityValidation.isValid && (
+              <Typography variant="caption" color="error" sx={{ display: "block" }}>
+                {availabilityValidation.errorMessage}
+              </Typography>
+            )}
+          </Box>
+
+          {/* コート名・コート割り当ての均等化 */}
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>コート名</Typography>
+            <Box sx={{ display: "grid", gridTemplateColumns: { xs: "1fr 1fr", sm: "repeat(4, 1fr)" }, gap: 1 }}>
+              {Array.from({ length: courtsRange.max }, (_, i) => (
+                <TextField
+                  key={i}
+                  size="small"
+                  label={`コート ${i + 1}`}
+                  placeholder={`コート ${i + 1}`}
+                  value={courtNames[i] ?? ""}
+                  onChange={(e) => handleCourtNameChange(i, e.target.value)}
+                  disabled={isGenerating}
+                  inputProps={{ maxLength: 20 }}
+                />
+              ))}
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block", mt: 0.5 }}>
+              対戦表・読み上げ・印刷でコート番号の代わりに表示します（空欄は「コート N」）
+            </Typography>
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={
+                <Switch
+                  checked={balanceCourts}
+                  onChange={(e) => setBalanceCourts(e.target.checked)}
+                  disabled={isGenerating}
+                />
+              }
+              label="コートの割り当てを均等にする"
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+              同じ人が同じコートに偏らないように、各ラウンドの試合をコートに割り当てます（次回の生成から反映）
+            </Typography>
+          </Box>
+
+          {/* シングルスコート */}
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>シングルスにできるコート</Typography>
+            <Box sx={{ display: "grid", gridTemplateColumns: { xs: "1fr 1fr", sm: "repeat(4, 1fr)" } }}>
+              {Array.from({ length: courtsRange.max }, (_, i) => (
+                <FormControlLabel
+                  key={i}
+                  control={
+                    <Checkbox
+                      checked={singlesCourts.includes(i)}
+                      onChange={(e) => handleSinglesCourtToggle(i, e.target.checked)}
+                      disabled={isGenerating}
+                    />
+                  }
+                  label={courtNames[i]?.trim() || `コート ${i + 1}`}
+                />
+              ))}
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+              コート数×4人に足りないラウンドで、足りない人数に応じて選んだコートをシングルスにします（例: 10人3面 → ダブルス2面 + シングルス1面）
+            </Typography>
+            {!singlesCourtsValidation.isValid && (
+              <Typography variant="caption" color="error" sx={{ display: "block" }}>
+                {singlesCourtsValidation.errorMessage}
+              </Typography>
+            )}
+          </Box>
+
+          {/* ミックスダブルス */}
+          <Box sx={{ mb: 3 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={mixedDoubles}
+                  onChange={(e) => setMixedDoubles(e.target.checked)}
+                  disabled={isGenerating}
+                />
+              }
+              label="ミックスダブルス"
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+              すべてのペアを男性1人・女性1人で組みます。参加者名簿で全員の区分を設定してください
+            </Typography>
+          </Box>
+
           {/* 重み W1 */}
           <Box sx={{ mt: 1, mb: 3 }}>
             <Box sx={{ display: "flex", alignItems: "center" }}>
@@ -778,12 +1699,194 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
             )}
           </Box>
 
+          {/* 重み W4 */}
+          <Box sx={{ mt: 2, mb: 1 }}>
+            <Box sx={{ display: "flex", alignItems: "center" }}>
+              <Typography gutterBottom sx={{ mb: 0 }}>
+                重み W4 (レベル差): {w4.toFixed(1)}
+              </Typography>
+              <IconButton size="small" onClick={() => setHelpTarget("w4")} aria-label="W4の説明を表示" sx={{ ml: 0.5 }}>
+                <HelpOutlineIcon fontSize="small" />
+              </IconButton>
+            </Box>
+            <Slider
+              value={w4}
+              onChange={(_, value) => setW4(value as number)}
+              min={0}
+              max={10}
+              step={0.1}
+              marks={[
+                { value: 0, label: "0" },
+                { value: 1, label: "1.0" },
+                { value: 10, label: "10" },
+              ]}
+              disabled={!hasRatings(roster)}
+            />
+            {!hasRatings(roster) && (
+              <Typography variant="caption" color="text.secondary">
+                名簿にレベルが設定されていないため無効です
+              </Typography>
+            )}
+          </Box>
+
           <Typography variant="body2" color="text.secondary" sx={{ mt: 2, pt: 2, borderTop: 1, borderColor: "divider" }}>
-            計算式: 総合スコア = ペア偏差×W1 + 対戦偏差×W2 + 休憩偏差×W3
+            計算式: 総合スコア = ペア偏差×W1 + 対戦偏差×W2 + 休憩偏差×W3 + 平均レベル差×W4
             <br />
             スコアが小さいほど公平な組み合わせです。
           </Typography>
 
+          {/* 乱数シード */}
+          <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="乱数シード"
+              placeholder="空欄でランダム"
+              value={seedText}
+              onChange={(e) => setSeedText(e.target.value)}
+              error={!seedValid}
+              helperText={
+                seedValid
+                  ? "同じ設定とシードからは同じ対戦表が生成されます"
+                  : `0〜${MAX_SEED} の整数で入力してください`
+              }
+              inputProps={{ inputMode: "numeric" }}
+              disabled={isGenerating}
+            />
+            {schedule?.seed !== undefined && (
+              <Button
+                size="small"
+                onClick={() => setSeedText(String(schedule.seed))}
+                disabled={isGenerating || seedText === String(schedule.seed)}
+                sx={{ mt: 0.5 }}
+              >
+                現在の対戦表のシード（{schedule.seed}）を使用
+              </Button>
+            )}
+          </Box>
+
+          {/* 生成アルゴリズム */}
+          <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="生成アルゴリズム"
+              value={strategyId}
+              onChange={(e) => onStrategyChange(e.target.value as StrategyId)}
+              helperText={strategySupported ? selectedStrategy?.description : errorMessage}
+              error={!strategySupported}
+              disabled={isGenerating}
+            >
+              {strategies.map((s) => (
+                <MenuItem key={s.id} value={s.id}>
+                  {s.name}
+                  {s.isExperimental && (
+                    <Chip label="試験的" size="small" variant="outlined" sx={{ ml: 1 }} />
+                  )}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button
+              size="small"
+              startIcon={<CompareArrowsIcon />}
+              onClick={handleCompare}
+              disabled={schedule !== null || !isValid || !seedValid || !localSearchTimeLimitValid || isGenerating || strategies.length < 2}
+              sx={{ mt: 0.5 }}
+            >
+              アルゴリズムを比較
+            </Button>
+            {schedule !== null && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                比較は対戦表の生成前（クリア後）に行えます
+              </Typography>
+            )}
+          </Box>
+
+          {/* 局所探索法の探索予算 */}
+          {strategyId === "local-search" && (
+            <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+              <Typography gutterBottom>1ラウンドあたりの反復回数: {localSearchIterations}</Typography>
+              <Slider
+                value={localSearchIterations}
+                onChange={(_, value) => setLocalSearchIterations(value as number)}
+                min={500}
+                max={10000}
+                step={500}
+                disabled={isGenerating}
+              />
+              <TextField
+                fullWidth
+                size="small"
+                label="探索の時間制限（秒）"
+                placeholder="空欄で制限なし"
+                value={localSearchTimeLimitText}
+                onChange={(e) => setLocalSearchTimeLimitText(e.target.value)}
+                error={!localSearchTimeLimitValid}
+                helperText={
+                  localSearchTimeLimitValid
+                    ? "反復回数を増やすと品質が上がる代わりに時間がかかります。時間制限で打ち切った場合、同じシードでも結果が変わることがあります"
+                    : "0 より大きい数で入力してください"
+                }
+                inputProps={{ inputMode: "decimal" }}
+                disabled={isGenerating}
+                sx={{ mt: 1 }}
+              />
+            </Box>
+          )}
+
+          {/* 候補数 */}
+          <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+            <Typography gutterBottom>候補数: {candidateCount}</Typography>
+            <Slider
+              value={candidateCount}
+              onChange={(_, value) => setCandidateCount(value as number)}
+              min={1}
+              max={MAX_CANDIDATES}
+              step={1}
+              marks={[
+                { value: 1, label: "1" },
+                { value: 10, label: "10" },
+                { value: MAX_CANDIDATES, label: String(MAX_CANDIDATES) },
+              ]}
+              valueLabelDisplay="auto"
+              disabled={isGenerating}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={parallelCandidates}
+                  onChange={(e) => setParallelCandidates(e.target.checked)}
+                  disabled={isGenerating || candidateCount < 2}
+                />
+              }
+              label={<Typography variant="body2">並列に生成</Typography>}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+              2 以上にすると、新規生成時にシードを変えて複数の対戦表を作り、評価の良い候補から選べます（参加者変更後の再生成は対象外）
+            </Typography>
+          </Box>
+
+          {/* スコア形式 */}
+          <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="スコア形式"
+              value={scoringFormatId}
+              onChange={(e) => onScoringFormatChange(e.target.value as ScoringFormatId)}
+              helperText="試合結果の入力時にこの形式でスコアを検証します"
+            >
+              {SCORING_FORMATS.map((format) => (
+                <MenuItem key={format.id} value={format.id}>
+                  {format.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
           {/* 読み上げ速度 */}
           <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
             <Typography gutterBottom>読み上げ速度: {speechRate.toFixed(1)}</Typography>
@@ -819,6 +1922,63 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
               valueLabelDisplay="auto"
             />
           </Box>
+
+          {/* 試合タイマー */}
+          <Box sx={{ mt: 3, pt: 2, borderTop: 1, borderColor: "divider" }}>
+            <Typography gutterBottom>試合時間: {timerSettings.matchMinutes} 分</Typography>
+            <Slider
+              value={timerSettings.matchMinutes}
+              onChange={(_, value) => onTimerSettingsChange({ ...timerSettings, matchMinutes: value as number })}
+              min={1}
+              max={60}
+              step={1}
+              marks={[
+                { value: 1, label: "1" },
+                { value: 15, label: "15" },
+                { value: 30, label: "30" },
+                { value: 60, label: "60" },
+              ]}
+              valueLabelDisplay="auto"
+            />
+            <TextField
+              select
+              size="small"
+              label="終了前の予告"
+              value={timerSettings.warningMinutes}
+              onChange={(e) => onTimerSettingsChange({ ...timerSettings, warningMinutes: Number(e.target.value) })}
+              sx={{ width: 160, mt: 1 }}
+            >
+              <MenuItem value={0}>予告しない</MenuItem>
+              {[1, 2, 3, 5].map((minutes) => (
+                <MenuItem key={minutes} value={minutes}>
+                  残り {minutes} 分
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: "flex", flexWrap: "wrap", mt: 1 }}>
+              {([
+                ["autoStart", "開いたら自動で開始"],
+                ["sound", "音"],
+                ["vibration", "振動"],
+                ["speech", "読み上げ"],
+              ] as const).map(([key, label]) => (
+                <FormControlLabel
+                  key={key}
+                  control={
+                    <Switch
+                      size="small"
+                      checked={timerSettings[key]}
+                      onChange={(e) => onTimerSettingsChange({ ...timerSettings, [key]: e.target.checked })}
+                    />
+                  }
+                  label={<Typography variant="body2">{label}</Typography>}
+                />
+              ))}
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+              ラウンドの詳細画面で試合時間を計測し、終了前の予告と終了時に知らせます。一時停止した時間は試合時間に含めません
+            </Typography>
+          </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setAdvancedOpen(false)}>閉じる</Button>
@@ -831,6 +1991,7 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
           {helpTarget === "w1" && "W1（ペア回数）について"}
           {helpTarget === "w2" && "W2（対戦回数）について"}
           {helpTarget === "w3" && "W3（休憩回数）について"}
+          {helpTarget === "w4" && "W4（レベル差）について"}
         </DialogTitle>
         <DialogContent>
           {helpTarget === "w1" && (
@@ -862,6 +2023,18 @@ export function ScheduleForm({ onGenerate, onRegenerate, onCancel, onClear, isGe
               推奨値: 2.0
             </Typography>
           )}
+          {helpTarget === "w4" && (
+            <Typography>
+              各試合のチーム力の差をどれだけ重視するかを設定します。チーム力はペア2人のレベルの合計です。
+              値を大きくすると、強い2人と初心者2人が対戦するような一方的な試合を避けることが優先されます。
+              <br />
+              <br />
+              ※名簿でレベルを設定した場合のみ有効です。レベル未設定の参加者は 3 として扱います。
+              <br />
+              <br />
+              推奨値: 1.0
+            </Typography>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setHelpTarget(null)}>閉じる</Button>
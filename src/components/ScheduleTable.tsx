@@ -29,9 +29,21 @@ import ExpandLessIcon from "@mui/icons-material/ExpandLess";
 import VolumeUpIcon from "@mui/icons-material/VolumeUp";
 import StopIcon from "@mui/icons-material/Stop";
 import SwapHorizIcon from "@mui/icons-material/SwapHoriz";
-import type { Schedule, Match, Round } from "../types/schedule";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import TimerIcon from "@mui/icons-material/Timer";
+import TimerOffIcon from "@mui/icons-material/TimerOff";
+import type { Schedule, Match, Round, RoundTiming, Participant, MatchResult, MatchResults, ScoringFormat, TimerSettings, TimePlan } from "../types/schedule";
 import { scheduleColors } from "../theme";
 import { useSpeech, buildSpeechText } from "../hooks/useSpeech";
+import { useRoundTimer } from "../hooks/useRoundTimer";
+import { getPlayerName, formatSideNames, hasNamedParticipants } from "../utils/roster";
+import { getCourtName } from "../utils/courtAssignment";
+import { getMatchSides, isSinglesMatch } from "../utils/singles";
+import { calculateAverageMatchMs, endTiming, formatDuration, getElapsedMs, getRemainingMs, isTimingActive, pauseTiming, resumeTiming, startTiming } from "../utils/timer";
+import { formatClockTime, getRoundStartMinutes, isRoundWithinPlan } from "../utils/timePlan";
+import { getMatchResultKey, formatMatchResult } from "../utils/scoring";
+import { MatchResultEditor } from "./MatchResultEditor";
 
 
 interface ScheduleTableProps {
@@ -44,12 +56,18 @@ interface ScheduleTableProps {
   speechPitch: number;
   speechRate: number;
   onEditRound?: (roundIndex: number, editedRound: Round) => void;
+  matchResults: MatchResults;
+  scoringFormat: ScoringFormat;
+  onMatchResultChange?: (key: string, result: MatchResult | null) => void;
+  timerSettings: TimerSettings;
+  onTimingChange?: (roundNumber: number, timing: RoundTiming | undefined) => void;
 }
 
 /** 色付きバッジでマッチを表示（デスクトップ用） */
-function MatchCell({ match }: { match: Match }) {
+function MatchCell({ match, roster, result }: { match: Match; roster: Participant[]; result?: MatchResult }) {
+  const [sideA, sideB] = getMatchSides(match);
   return (
-    <Box sx={{ display: "inline-flex", alignItems: "center", gap: 0.5 }}>
+    <Box sx={{ display: "inline-flex", alignItems: "center", gap: 0.5, flexWrap: "wrap", justifyContent: "center" }}>
       <Box
         sx={{
           bgcolor: scheduleColors.teamA,
@@ -60,7 +78,7 @@ function MatchCell({ match }: { match: Match }) {
           fontWeight: 500,
         }}
       >
-        {match.pairA.player1},{match.pairA.player2}
+        {formatSideNames(roster, sideA)}
       </Box>
       <Typography variant="caption" sx={{ color: "text.secondary", mx: 0.25 }}>
         vs
@@ -75,16 +93,64 @@ function MatchCell({ match }: { match: Match }) {
           fontWeight: 500,
         }}
       >
-        {match.pairB.player1},{match.pairB.player2}
+        {formatSideNames(roster, sideB)}
       </Box>
+      {result && <ResultLabel result={result} />}
     </Box>
   );
 }
 
+/** ラウンドの開始予定時刻の表示（終了時刻までに終わらないラウンドはエラー色） */
+function PlannedTimeLabel({ plan, roundNumber }: { plan: TimePlan; roundNumber: number }) {
+  const start = getRoundStartMinutes(plan, roundNumber);
+  if (start === null) return null;
+  return (
+    <Box component="span" sx={{ color: isRoundWithinPlan(plan, roundNumber) ? undefined : "error.main", fontVariantNumeric: "tabular-nums" }}>
+      予定 {formatClockTime(start)}
+    </Box>
+  );
+}
+
+/** 試合結果のラベル（結果入力済みの試合のみ表示） */
+function ResultLabel({ result }: { result: MatchResult }) {
+  return (
+    <Typography component="span" variant="caption" sx={{ color: "text.secondary", fontWeight: 600, fontVariantNumeric: "tabular-nums", ml: 0.5 }}>
+      {formatMatchResult(result)}
+    </Typography>
+  );
+}
+
+/** コート数が最大のラウンドより少ないラウンドの空き列（コートなし） */
+function UnavailableCourtCells({ count }: { count: number }) {
+  return (
+    <>
+      {Array.from({ length: count }, (_, i) => (
+        <TableCell key={`unavailable-${i}`} align="center" sx={{ color: "text.disabled" }}>
+          -
+        </TableCell>
+      ))}
+    </>
+  );
+}
+
 function formatTime(date: Date): string {
   return date.toLocaleTimeString("ja-JP", { hour: "2-digit", minute: "2-digit" });
 }
 
+/** ラウンドの試合タイマーの表示（計測中は残り時間・超過時間、終了後は試合時間） */
+function TimerLabel({ timing, matchMinutes, now }: { timing: RoundTiming; matchMinutes: number; now: number }) {
+  if (!isTimingActive(timing)) {
+    return <>試合時間 {formatDuration(getElapsedMs(timing, now))}</>;
+  }
+  const remaining = getRemainingMs(timing, matchMinutes, now);
+  return (
+    <Box component="span" sx={{ color: remaining < 0 ? "error.main" : undefined, fontVariantNumeric: "tabular-nums" }}>
+      {remaining < 0 ? "超過" : "残り"} {formatDuration(remaining)}
+      {timing.pausedAt !== undefined && "（一時停止中）"}
+    </Box>
+  );
+}
+
 /** プレイヤー番号のスワップヘルパー */
 function swapPlayer(current: number, from: number, to: number): number {
   if (current === from) return to;
@@ -92,11 +158,12 @@ function swapPlayer(current: number, from: number, to: number): number {
   return current;
 }
 
-export function ScheduleTable({ schedule, completedMatches, onToggleComplete, onAddRound, openedAt, onRoundOpened, speechPitch, speechRate, onEditRound }: ScheduleTableProps) {
+export function ScheduleTable({ schedule, completedMatches, onToggleComplete, onAddRound, openedAt, onRoundOpened, speechPitch, speechRate, onEditRound, matchResults, scoringFormat, onMatchResultChange, timerSettings, onTimingChange }: ScheduleTableProps) {
   const [selectedRound, setSelectedRound] = useState<Round | null>(null);
   const [completedExpanded, setCompletedExpanded] = useState(false);
-  const [now, setNow] = useState(Date.now());
   const { speak, stop, isSpeaking } = useSpeech(speechPitch, speechRate);
+  // 計測中のラウンドがある間は1秒ごとに更新され、予告・終了時に通知する
+  const now = useRoundTimer(schedule.rounds, timerSettings, speak);
 
   // ラウンド編集用の状態
   const [editedRound, setEditedRound] = useState<Round | null>(null);
@@ -121,18 +188,16 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [schedule.rounds]);
 
-  // ダイアログ表示中のみ30秒ごとに現在時刻を更新
-  useEffect(() => {
-    if (!selectedRound) return;
-    setNow(Date.now());
-    const id = setInterval(() => setNow(Date.now()), 30_000);
-    return () => clearInterval(id);
-  }, [selectedRound]);
-
+  // 計測中に試合時間を過ぎたらダイアログの背景で知らせる
+  const selectedTiming = selectedRound?.timing;
   const isOverdue =
-    selectedRound != null &&
-    openedAt[`${selectedRound.roundNumber}`] != null &&
-    now - openedAt[`${selectedRound.roundNumber}`].getTime() > 3 * 60 * 1000;
+    isTimingActive(selectedTiming) && getRemainingMs(selectedTiming, timerSettings.matchMinutes, now) < 0;
+
+  // タイマー操作（開始・一時停止・再開・終了）の結果を記録
+  const handleTimingChange = (timing: RoundTiming) => {
+    if (!selectedRound || !onTimingChange) return;
+    onTimingChange(selectedRound.roundNumber, timing);
+  };
 
   // ダイアログが閉じたら読み上げを停止
   useEffect(() => {
@@ -150,7 +215,7 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
     if (isSpeaking) {
       stop();
     } else if (selectedRound) {
-      speak(buildSpeechText(selectedRound));
+      speak(buildSpeechText(selectedRound, schedule.roster, schedule.courtNames));
     }
   };
 
@@ -159,6 +224,10 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
     const wasCompleted = completedMatches.has(roundId);
     onToggleComplete(roundId);
     onRoundOpened(roundId);
+    // 未消化のラウンドを初めて開いたら試合タイマーを自動で開始
+    if (timerSettings.autoStart && !wasCompleted && !round.timing && onTimingChange) {
+      onTimingChange(round.roundNumber, startTiming(Date.now()));
+    }
     setSelectedRound(round);
     setIsSelectedRoundEditable(!wasCompleted && !!onEditRound);
   };
@@ -185,16 +254,25 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
   const handleSwap = (fromPlayer: number, toPlayer: number) => {
     const round = editedRound ?? selectedRound;
     if (!round) return;
-    const newMatches = round.matches.map((m) => ({
-      pairA: {
-        player1: swapPlayer(m.pairA.player1, fromPlayer, toPlayer),
-        player2: swapPlayer(m.pairA.player2, fromPlayer, toPlayer),
-      },
-      pairB: {
-        player1: swapPlayer(m.pairB.player1, fromPlayer, toPlayer),
-        player2: swapPlayer(m.pairB.player2, fromPlayer, toPlayer),
-      },
-    }));
+    const newMatches: Match[] = round.matches.map((m) =>
+      isSinglesMatch(m)
+        ? {
+            ...m,
+            playerA: swapPlayer(m.playerA, fromPlayer, toPlayer),
+            playerB: swapPlayer(m.playerB, fromPlayer, toPlayer),
+          }
+        : {
+            ...m,
+            pairA: {
+              player1: swapPlayer(m.pairA.player1, fromPlayer, toPlayer),
+              player2: swapPlayer(m.pairA.player2, fromPlayer, toPlayer),
+            },
+            pairB: {
+              player1: swapPlayer(m.pairB.player1, fromPlayer, toPlayer),
+              player2: swapPlayer(m.pairB.player2, fromPlayer, toPlayer),
+            },
+          }
+    );
     const newResting = round.restingPlayers
       .map((p) => swapPlayer(p, fromPlayer, toPlayer))
       .sort((a, b) => a - b);
@@ -208,14 +286,17 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
     if (!editedRound || !onEditRound || !selectedRound) return;
     const roundIndex = schedule.rounds.findIndex((r) => r.roundNumber === selectedRound.roundNumber);
     if (roundIndex === -1) return;
-    onEditRound(roundIndex, editedRound);
-    setSelectedRound(editedRound);
+    // 編集中に操作した試合タイマーの記録は最新の状態を引き継ぐ
+    const round = { ...editedRound, timing: selectedRound.timing };
+    onEditRound(roundIndex, round);
+    setSelectedRound(round);
     setEditedRound(null);
     setChangedPlayers(new Set());
     setSwapTarget(null);
   };
 
   const hasRestingPlayers = schedule.rounds.some((round) => round.restingPlayers && round.restingPlayers.length > 0);
+  const averageMatch = useMemo(() => calculateAverageMatchMs(schedule.rounds), [schedule.rounds]);
 
   const { completedRounds, nonCompletedRounds } = useMemo(() => {
     const completed: Round[] = [];
@@ -230,13 +311,38 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
     return { completedRounds: completed, nonCompletedRounds: nonCompleted };
   }, [schedule.rounds, completedMatches]);
 
-  const totalColSpan = 1 + schedule.courts + (hasRestingPlayers ? 1 : 0);
+  // コート数の変更がある場合はコート数が最大のラウンドに合わせて列を並べる
+  const courtColumns = Math.max(0, ...schedule.rounds.map((round) => round.matches.length));
+  const totalColSpan = 1 + courtColumns + (hasRestingPlayers ? 1 : 0);
+
+  // 名簿に名前があれば番号の代わりに名前を表示（長い名前に合わせてダイアログの文字サイズを縮小）
+  const playerName = (player: number) => getPlayerName(schedule.roster, player);
+  const courtName = (courtIndex: number) => getCourtName(schedule.courtNames, courtIndex);
+  const sideChipLabel = (players: number[]) => (
+    <>
+      {players.map((p, i) => (
+        <Box key={p} component="span">
+          {i > 0 && ", "}
+          <Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{playerName(p)}</Box>
+        </Box>
+      ))}
+    </>
+  );
+  const hasNames = hasNamedParticipants(schedule.roster);
+  const dialogFontSize = hasNames ? "clamp(1.5rem, 6vw, 3.5rem)" : "clamp(2.5rem, 10vw, 6rem)";
 
   return (
     <Paper sx={{ mb: 3 }}>
-      <Typography variant="h6" sx={{ p: 2 }}>
-        対戦表
-      </Typography>
+      <Box sx={{ display: "flex", alignItems: "baseline", p: 2 }}>
+        <Typography variant="h6" sx={{ flex: 1 }}>
+          対戦表
+        </Typography>
+        {averageMatch && (
+          <Typography variant="body2" color="text.secondary">
+            平均試合時間 {formatDuration(averageMatch.averageMs)}（{averageMatch.count} ラウンド）
+          </Typography>
+        )}
+      </Box>
 
       {/* デスクトップ: テーブル表示 */}
       <Box sx={{ display: { xs: "none", sm: "block" } }}>
@@ -247,9 +353,9 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 <TableCell>
                   <strong>ラウンド</strong>
                 </TableCell>
-                {Array.from({ length: schedule.courts }, (_, i) => (
+                {Array.from({ length: courtColumns }, (_, i) => (
                   <TableCell key={i} align="center">
-                    <strong>コート {i + 1}</strong>
+                    <strong>{courtName(i)}</strong>
                   </TableCell>
                 ))}
                 {hasRestingPlayers && (
@@ -307,20 +413,31 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                   >
                     <TableCell>
                       <strong>{round.roundNumber}</strong>
+                      {schedule.timePlan && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          <PlannedTimeLabel plan={schedule.timePlan} roundNumber={round.roundNumber} />
+                        </Typography>
+                      )}
                       {openedAt[`${round.roundNumber}`] && (
                         <Typography variant="caption" display="block" color="text.secondary">
                           {formatTime(openedAt[`${round.roundNumber}`])}
                         </Typography>
                       )}
+                      {round.timing && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          <TimerLabel timing={round.timing} matchMinutes={timerSettings.matchMinutes} now={now} />
+                        </Typography>
+                      )}
                     </TableCell>
                     {round.matches.map((match, idx) => (
                       <TableCell key={idx} align="center">
-                        <MatchCell match={match} />
+                        <MatchCell match={match} roster={schedule.roster} result={matchResults[getMatchResultKey(round.roundNumber, idx)]} />
                       </TableCell>
                     ))}
+                    <UnavailableCourtCells count={courtColumns - round.matches.length} />
                     {hasRestingPlayers && (
                       <TableCell align="center" sx={{ color: "text.secondary" }}>
-                        {round.restingPlayers && round.restingPlayers.length > 0 ? round.restingPlayers.join(", ") : "-"}
+                        {round.restingPlayers && round.restingPlayers.length > 0 ? round.restingPlayers.map(playerName).join(", ") : "-"}
                       </TableCell>
                     )}
                   </TableRow>
@@ -348,20 +465,31 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 >
                   <TableCell>
                     <strong>{round.roundNumber}</strong>
+                    {schedule.timePlan && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        <PlannedTimeLabel plan={schedule.timePlan} roundNumber={round.roundNumber} />
+                      </Typography>
+                    )}
                     {openedAt[`${round.roundNumber}`] && (
                       <Typography variant="caption" display="block" color="text.secondary">
                         {formatTime(openedAt[`${round.roundNumber}`])}
                       </Typography>
                     )}
+                    {round.timing && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        <TimerLabel timing={round.timing} matchMinutes={timerSettings.matchMinutes} now={now} />
+                      </Typography>
+                    )}
                   </TableCell>
                   {round.matches.map((match, idx) => (
                     <TableCell key={idx} align="center">
-                      <MatchCell match={match} />
+                      <MatchCell match={match} roster={schedule.roster} result={matchResults[getMatchResultKey(round.roundNumber, idx)]} />
                     </TableCell>
                   ))}
+                  <UnavailableCourtCells count={courtColumns - round.matches.length} />
                   {hasRestingPlayers && (
                     <TableCell align="center" sx={{ color: "text.secondary" }}>
-                      {round.restingPlayers && round.restingPlayers.length > 0 ? round.restingPlayers.join(", ") : "-"}
+                      {round.restingPlayers && round.restingPlayers.length > 0 ? round.restingPlayers.map(playerName).join(", ") : "-"}
                     </TableCell>
                   )}
                 </TableRow>
@@ -410,11 +538,21 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                       <Box sx={{ display: "flex", alignItems: "center", mb: 1 }}>
                         <Typography variant="subtitle2" sx={{ flex: 1 }}>
                           ラウンド {round.roundNumber}
+                          {schedule.timePlan && (
+                            <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                              <PlannedTimeLabel plan={schedule.timePlan} roundNumber={round.roundNumber} />
+                            </Typography>
+                          )}
                           {openedAt[`${round.roundNumber}`] && (
                             <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
                               {formatTime(openedAt[`${round.roundNumber}`])}
                             </Typography>
                           )}
+                          {round.timing && (
+                            <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                              <TimerLabel timing={round.timing} matchMinutes={timerSettings.matchMinutes} now={now} />
+                            </Typography>
+                          )}
                         </Typography>
                         <IconButton size="small" color="success" aria-label="未消化に戻す" sx={{ p: 0.5 }}>
                           <CheckCircleIcon />
@@ -423,19 +561,22 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                       {round.matches.map((match, idx) => (
                         <Box key={idx} sx={{ display: "flex", alignItems: "center", gap: 1, py: 0.5 }}>
                           <Typography variant="caption" sx={{ minWidth: 52, color: "text.secondary" }}>
-                            コート {idx + 1}
+                            {courtName(idx)}
                           </Typography>
                           <Chip
-                            label={<><Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairA.player1}</Box>,{" "}<Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairA.player2}</Box></>}
+                            label={sideChipLabel(getMatchSides(match)[0])}
                             sx={{ flex: 1, bgcolor: scheduleColors.teamA, fontSize: "1.25rem", fontWeight: 700, height: 36, fontVariantNumeric: "tabular-nums" }}
                           />
                           <Typography variant="body1" color="text.secondary" sx={{ fontWeight: 600 }}>
                             vs
                           </Typography>
                           <Chip
-                            label={<><Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairB.player1}</Box>,{" "}<Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairB.player2}</Box></>}
+                            label={sideChipLabel(getMatchSides(match)[1])}
                             sx={{ flex: 1, bgcolor: scheduleColors.teamB, fontSize: "1.25rem", fontWeight: 700, height: 36, fontVariantNumeric: "tabular-nums" }}
                           />
+                          {matchResults[getMatchResultKey(round.roundNumber, idx)] && (
+                            <ResultLabel result={matchResults[getMatchResultKey(round.roundNumber, idx)]} />
+                          )}
                         </Box>
                       ))}
                       {round.restingPlayers && round.restingPlayers.length > 0 && (
@@ -444,7 +585,7 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                             休憩
                           </Typography>
                           <Typography color="text.secondary" sx={{ fontSize: "1.25rem", fontWeight: 700 }}>
-                            {round.restingPlayers.join(", ")}
+                            {round.restingPlayers.map(playerName).join(", ")}
                           </Typography>
                         </Box>
                       )}
@@ -469,11 +610,21 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 <Box sx={{ display: "flex", alignItems: "center", mb: 1 }}>
                   <Typography variant="subtitle2" sx={{ flex: 1 }}>
                     ラウンド {round.roundNumber}
+                    {schedule.timePlan && (
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        <PlannedTimeLabel plan={schedule.timePlan} roundNumber={round.roundNumber} />
+                      </Typography>
+                    )}
                     {openedAt[`${round.roundNumber}`] && (
                       <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
                         {formatTime(openedAt[`${round.roundNumber}`])}
                       </Typography>
                     )}
+                    {round.timing && (
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        <TimerLabel timing={round.timing} matchMinutes={timerSettings.matchMinutes} now={now} />
+                      </Typography>
+                    )}
                   </Typography>
                   <IconButton size="small" color="default" aria-label="消化済みにする" sx={{ p: 0.5 }}>
                     <CheckCircleOutlineIcon />
@@ -482,19 +633,22 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 {round.matches.map((match, idx) => (
                   <Box key={idx} sx={{ display: "flex", alignItems: "center", gap: 1, py: 0.5 }}>
                     <Typography variant="caption" sx={{ minWidth: 52, color: "text.secondary" }}>
-                      コート {idx + 1}
+                      {courtName(idx)}
                     </Typography>
                     <Chip
-                      label={<><Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairA.player1}</Box>,{" "}<Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairA.player2}</Box></>}
+                      label={sideChipLabel(getMatchSides(match)[0])}
                       sx={{ flex: 1, bgcolor: scheduleColors.teamA, fontSize: "1.25rem", fontWeight: 700, height: 36, fontVariantNumeric: "tabular-nums" }}
                     />
                     <Typography variant="body1" color="text.secondary" sx={{ fontWeight: 600 }}>
                       vs
                     </Typography>
                     <Chip
-                      label={<><Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairB.player1}</Box>,{" "}<Box component="span" sx={{ display: "inline-block", minWidth: "2ch", textAlign: "center" }}>{match.pairB.player2}</Box></>}
+                      label={sideChipLabel(getMatchSides(match)[1])}
                       sx={{ flex: 1, bgcolor: scheduleColors.teamB, fontSize: "1.25rem", fontWeight: 700, height: 36, fontVariantNumeric: "tabular-nums" }}
                     />
+                    {matchResults[getMatchResultKey(round.roundNumber, idx)] && (
+                      <ResultLabel result={matchResults[getMatchResultKey(round.roundNumber, idx)]} />
+                    )}
                   </Box>
                 ))}
                 {round.restingPlayers && round.restingPlayers.length > 0 && (
@@ -503,7 +657,7 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                       休憩
                     </Typography>
                     <Typography color="text.secondary" sx={{ fontSize: "1.25rem", fontWeight: 700 }}>
-                      {round.restingPlayers.join(", ")}
+                      {round.restingPlayers.map(playerName).join(", ")}
                     </Typography>
                   </Box>
                 )}
@@ -538,6 +692,11 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                   Opened at {formatTime(openedAt[`${selectedRound.roundNumber}`])}
                 </Typography>
               )}
+              {selectedTiming && (
+                <Typography variant="h5" display="block" sx={{ fontWeight: 700 }}>
+                  <TimerLabel timing={selectedTiming} matchMinutes={timerSettings.matchMinutes} now={now} />
+                </Typography>
+              )}
             </DialogTitle>
             <DialogContent sx={{ px: { xs: 1.5, sm: 3, md: 4 } }}>
               {displayRound.matches.map((match, idx) => {
@@ -564,10 +723,19 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 const onPlayerClick = isSelectedRoundEditable
                   ? (playerNum: number) => (e: React.MouseEvent) => { e.stopPropagation(); handlePlayerTap(playerNum); }
                   : undefined;
+                const [sideA, sideB] = getMatchSides(match);
+                const renderSide = (players: number[]) =>
+                  players.map((p, i) => (
+                    <Box key={p} component="span">
+                      {i > 0 && ","}
+                      <Box component="span" onClick={onPlayerClick?.(p)} sx={playerNumberSx(p)}>{playerName(p)}</Box>
+                    </Box>
+                  ));
                 return (
                   <Box key={idx} sx={{ mb: 1 }}>
                     <Typography variant="body2" color="text.secondary" sx={{ mb: 0.25 }}>
-                      コート {idx + 1}
+                      {courtName(idx)}
+                      {isSinglesMatch(match) && "（シングルス）"}
                     </Typography>
                     <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
                       <Box
@@ -577,16 +745,14 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                           borderRadius: 2,
                           px: { xs: 1, sm: 1.5, md: 2.5 },
                           py: 0.5,
-                          fontSize: "clamp(2.5rem, 10vw, 6rem)",
+                          fontSize: dialogFontSize,
                           fontWeight: 700,
                           textAlign: "center",
-                          whiteSpace: "nowrap",
+                          whiteSpace: hasNames ? "normal" : "nowrap",
                           fontVariantNumeric: "tabular-nums",
                         }}
                       >
-                        <Box component="span" onClick={onPlayerClick?.(match.pairA.player1)} sx={playerNumberSx(match.pairA.player1)}>{match.pairA.player1}</Box>
-                        ,
-                        <Box component="span" onClick={onPlayerClick?.(match.pairA.player2)} sx={playerNumberSx(match.pairA.player2)}>{match.pairA.player2}</Box>
+                        {renderSide(sideA)}
                       </Box>
                       <Typography sx={{ fontSize: "1rem", color: "text.secondary", fontWeight: 600 }}>vs</Typography>
                       <Box
@@ -596,18 +762,25 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                           borderRadius: 2,
                           px: { xs: 1, sm: 1.5, md: 2.5 },
                           py: 0.5,
-                          fontSize: "clamp(2.5rem, 10vw, 6rem)",
+                          fontSize: dialogFontSize,
                           fontWeight: 700,
                           textAlign: "center",
-                          whiteSpace: "nowrap",
+                          whiteSpace: hasNames ? "normal" : "nowrap",
                           fontVariantNumeric: "tabular-nums",
                         }}
                       >
-                        <Box component="span" onClick={onPlayerClick?.(match.pairB.player1)} sx={playerNumberSx(match.pairB.player1)}>{match.pairB.player1}</Box>
-                        ,
-                        <Box component="span" onClick={onPlayerClick?.(match.pairB.player2)} sx={playerNumberSx(match.pairB.player2)}>{match.pairB.player2}</Box>
+                        {renderSide(sideB)}
                       </Box>
                     </Box>
+                    {/* スコア入力（組み合わせ編集中は結果の対象が変わるため非表示） */}
+                    {onMatchResultChange && !editedRound && (
+                      <MatchResultEditor
+                        key={getMatchResultKey(selectedRound.roundNumber, idx)}
+                        result={matchResults[getMatchResultKey(selectedRound.roundNumber, idx)]}
+                        format={scoringFormat}
+                        onChange={(result) => onMatchResultChange(getMatchResultKey(selectedRound.roundNumber, idx), result)}
+                      />
+                    )}
                   </Box>
                 );
               })}
@@ -642,7 +815,7 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                             }),
                           }}
                         >
-                          {p}
+                          {playerName(p)}
                         </Typography>
                         {i < displayRound.restingPlayers.length - 1 && (
                           <Typography component="span" sx={{ fontSize: { xs: "2rem", sm: "2.5rem", md: "3rem" }, fontWeight: 700, color: "text.secondary", mx: 0.25 }}>
@@ -660,10 +833,31 @@ export function ScheduleTable({ schedule, completedMatches, onToggleComplete, on
                 onClick={handleSpeechToggle}
                 color={isSpeaking ? "error" : "primary"}
                 aria-label={isSpeaking ? "読み上げ停止" : "読み上げ"}
-                sx={{ mr: "auto" }}
               >
                 {isSpeaking ? <StopIcon /> : <VolumeUpIcon />}
               </IconButton>
+              {onTimingChange && !selectedTiming && (
+                <IconButton onClick={() => handleTimingChange(startTiming(Date.now()))} color="primary" aria-label="タイマー開始">
+                  <TimerIcon />
+                </IconButton>
+              )}
+              {onTimingChange && isTimingActive(selectedTiming) && (
+                <>
+                  {selectedTiming.pausedAt === undefined ? (
+                    <IconButton onClick={() => handleTimingChange(pauseTiming(selectedTiming, Date.now()))} color="primary" aria-label="タイマー一時停止">
+                      <PauseIcon />
+                    </IconButton>
+                  ) : (
+                    <IconButton onClick={() => handleTimingChange(resumeTiming(selectedTiming, Date.now()))} color="primary" aria-label="タイマー再開">
+                      <PlayArrowIcon />
+                    </IconButton>
+                  )}
+                  <IconButton onClick={() => handleTimingChange(endTiming(selectedTiming, Date.now()))} color="primary" aria-label="タイマー終了">
+                    <TimerOffIcon />
+                  </IconButton>
+                </>
+              )}
+              <Box sx={{ flex: 1 }} />
               {editedRound && onEditRound && (
                 <Button variant="contained" color="primary" startIcon={<SwapHorizIcon />} onClick={handleRegenerate}>
                   再生成
@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  TextField,
+  Typography,
+} from "@mui/material";
+import QRCode from "qrcode";
+import type { Schedule } from "../types/schedule";
+import { buildShareUrl } from "../utils/share";
+
+// QR コードの表示サイズ（px）
+const QR_SIZE = 280;
+
+interface ShareDialogProps {
+  open: boolean;
+  schedule: Schedule;
+  onClose: () => void;
+}
+
+/**
+ * 対戦表の共有ダイアログ（URL と QR コード）
+ *
+ * 参加者が自分のスマートフォンで閲覧専用の対戦表を開けるようにする。
+ */
+export function ShareDialog({ open, schedule, onClose }: ShareDialogProps) {
+  const hasNames = schedule.roster.some((p) => p.name !== "");
+  const [includeNames, setIncludeNames] = useState(true);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [qrError, setQrError] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const url = useMemo(() => buildShareUrl(schedule, hasNames && includeNames), [schedule, hasNames, includeNames]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setCopied(false);
+    QRCode.toDataURL(url, { errorCorrectionLevel: "L", margin: 2, width: QR_SIZE })
+      .then((dataUrl) => {
+        if (cancelled) return;
+        setQrDataUrl(dataUrl);
+        setQrError(false);
+      })
+      .catch(() => {
+        // データ量が QR コードの容量を超えた場合
+        if (cancelled) return;
+        setQrDataUrl(null);
+        setQrError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, url]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>対戦表の共有</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          QR コードを読み取るか URL を開くと、閲覧専用の対戦表が表示されます。サーバーには保存されません。
+        </Typography>
+        <Box sx={{ display: "flex", justifyContent: "center", alignItems: "center", minHeight: QR_SIZE, mb: 2 }}>
+          {qrDataUrl && <img src={qrDataUrl} width={QR_SIZE} height={QR_SIZE} alt="共有用 QR コード" />}
+          {qrError && (
+            <Typography variant="body2" color="error">
+              データが大きすぎるため QR コードを作成できません。URL を共有してください。
+            </Typography>
+          )}
+        </Box>
+        {hasNames && (
+          <FormControlLabel
+            control={<Checkbox checked={includeNames} onChange={(e) => setIncludeNames(e.target.checked)} />}
+            label="名前を含める"
+          />
+        )}
+        <TextField
+          fullWidth
+          size="small"
+          value={url}
+          inputProps={{ readOnly: true, spellCheck: false }}
+          onFocus={(e) => e.target.select()}
+          helperText={`${url.length.toLocaleString()} 文字`}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleCopy}>{copied ? "コピーしました" : "URL をコピー"}</Button>
+        <Button variant="contained" onClick={onClose}>
+          閉じる
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
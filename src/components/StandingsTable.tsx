@@ -0,0 +1,144 @@
+import { useState, useMemo } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Typography,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import type { Schedule, MatchResults } from '../types/schedule';
+import {
+  calculateStandings,
+  getMetricValue,
+  DEFAULT_STANDINGS_OPTIONS,
+  STANDINGS_METRIC_LABELS,
+} from '../utils/standings';
+import type { StandingsMetric, StandingsNormalization, StandingsOptions, PlayerStanding } from '../utils/standings';
+import { getPlayerName } from '../utils/roster';
+
+interface StandingsTableProps {
+  schedule: Schedule;
+  matchResults: MatchResults;
+}
+
+function formatMetric(standing: PlayerStanding, metric: StandingsMetric, normalization: StandingsNormalization): string {
+  const value = getMetricValue(standing, metric, normalization);
+  if (metric === 'winRate') return `${Math.round(value * 100)}%`;
+  if (normalization === 'perMatch') return value.toFixed(2);
+  return metric === 'gameDiff' && value > 0 ? `+${value}` : String(value);
+}
+
+/**
+ * 個人順位表
+ *
+ * 試合結果から勝利数・ゲーム差・獲得ゲーム・勝率で順位付けする。
+ * 指標のチップをタップするとその指標を最優先に並べ替え、
+ * 「1試合平均」では休憩や途中参加で試合数の少ないプレイヤーも平均値で比較する。
+ */
+export function StandingsTable({ schedule, matchResults }: StandingsTableProps) {
+  const [options, setOptions] = useState<StandingsOptions>(DEFAULT_STANDINGS_OPTIONS);
+
+  const standings = useMemo(
+    () => calculateStandings(schedule.rounds, schedule.activePlayers, matchResults, options),
+    [schedule.rounds, schedule.activePlayers, matchResults, options]
+  );
+
+  const activeSet = useMemo(() => new Set(schedule.activePlayers), [schedule.activePlayers]);
+
+  // タップした指標を最優先に移動
+  const handleMetricClick = (metric: StandingsMetric) => {
+    setOptions((prev) => ({
+      ...prev,
+      tiebreakOrder: [metric, ...prev.tiebreakOrder.filter((m) => m !== metric)],
+    }));
+  };
+
+  return (
+    <Paper sx={{ mb: 3 }}>
+      <Typography variant="h6" sx={{ p: 2, pb: 1 }}>
+        順位表
+      </Typography>
+
+      <Box sx={{ px: 2, pb: 1, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={options.normalization}
+          onChange={(_, value: StandingsNormalization | null) => {
+            if (value) setOptions((prev) => ({ ...prev, normalization: value }));
+          }}
+          aria-label="集計方法"
+        >
+          <ToggleButton value="perMatch">1試合平均</ToggleButton>
+          <ToggleButton value="total">合計</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+          優先順:
+        </Typography>
+        {options.tiebreakOrder.map((metric, i) => (
+          <Chip
+            key={metric}
+            label={`${i + 1}. ${STANDINGS_METRIC_LABELS[metric]}`}
+            size="small"
+            color={i === 0 ? 'primary' : 'default'}
+            variant={i === 0 ? 'filled' : 'outlined'}
+            onClick={() => handleMetricClick(metric)}
+          />
+        ))}
+      </Box>
+
+      <TableContainer>
+        <Table size="small" aria-label="順位表">
+          <TableHead>
+            <TableRow>
+              <TableCell align="center"><strong>順位</strong></TableCell>
+              <TableCell><strong>プレイヤー</strong></TableCell>
+              <TableCell align="center"><strong>試合</strong></TableCell>
+              <TableCell align="center"><strong>勝敗</strong></TableCell>
+              {options.tiebreakOrder.map((metric) => (
+                <TableCell key={metric} align="center">
+                  <strong>{STANDINGS_METRIC_LABELS[metric]}</strong>
+                </TableCell>
+              ))}
+              <TableCell align="center"><strong>休憩</strong></TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {standings.map((standing) => (
+              <TableRow key={standing.player} sx={{ opacity: activeSet.has(standing.player) ? 1 : 0.3 }}>
+                <TableCell align="center">{standing.rank ?? '-'}</TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  <strong>{getPlayerName(schedule.roster, standing.player)}</strong>
+                </TableCell>
+                <TableCell align="center">{standing.matchesPlayed}</TableCell>
+                <TableCell align="center" sx={{ whiteSpace: 'nowrap' }}>
+                  {standing.wins}勝{standing.losses}敗
+                </TableCell>
+                {options.tiebreakOrder.map((metric) => (
+                  <TableCell key={metric} align="center" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+                    {standing.matchesPlayed > 0 ? formatMetric(standing, metric, options.normalization) : '-'}
+                  </TableCell>
+                ))}
+                <TableCell align="center">
+                  {standing.restCount}
+                  {standing.absentCount > 0 && (
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {' '}(不在{standing.absentCount})
+                    </Typography>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import type { Schedule, ScheduleParams } from "../types/schedule";
+import type { StrategyId } from "../strategies/types";
+import { getAvailableStrategies, supportsSize } from "../strategies/registry";
+import { useStrategyComparison, type StrategyComparisonEntry } from "../hooks/useStrategyComparison";
+import { countQualityViolations, QUALITY_LABELS, type QualityTotals } from "../utils/quality";
+import { hasRatings } from "../utils/rating";
+import { getCourtsRange } from "../utils/courtChanges";
+
+interface StrategyComparisonDialogProps {
+  open: boolean;
+  params: ScheduleParams | null;
+  onClose: () => void;
+  onSelect: (strategyId: StrategyId, schedule: Schedule) => void;
+}
+
+// 比較表の1行（値が小さいほど良い指標のみ）
+interface ComparisonRow {
+  label: string;
+  value: (schedule: Schedule, quality: QualityTotals) => number;
+  format: (value: number) => string;
+}
+
+const formatScore = (value: number) => value.toFixed(4);
+const formatCount = (value: number) => String(value);
+
+/**
+ * アルゴリズムの比較ダイアログ
+ *
+ * 同じ設定で複数のアルゴリズムを実行し、評価指標と品質違反件数を並べて表示する。
+ * 採用した結果は通常の生成結果と同じように扱われる。
+ */
+export function StrategyComparisonDialog({ open, params, onClose, onSelect }: StrategyComparisonDialogProps) {
+  const strategies = useMemo(() => getAvailableStrategies(), []);
+  const [selectedIds, setSelectedIds] = useState<StrategyId[]>(() => strategies.map((s) => s.id));
+  const { entries, isRunning, run, cancel, reset } = useStrategyComparison();
+
+  // ダイアログを閉じたら実行中の比較を中断し、結果を破棄する（次回は現在の設定で比較し直す）
+  useEffect(() => {
+    if (!open) reset();
+  }, [open, reset]);
+
+  const rows = useMemo<ComparisonRow[]>(() => {
+    // コート数の変更がある場合は、いずれかのラウンドに休憩者がいれば休憩の指標を表示する
+    const hasRest = params !== null && params.playersCount > getCourtsRange(params.courtsCount, params.courtChanges, params.roundsCount).min * 4;
+    const result: ComparisonRow[] = [
+      { label: "総合スコア", value: (s) => s.evaluation.totalScore, format: formatScore },
+      { label: "ペア回数の標準偏差", value: (s) => s.evaluation.pairStdDev, format: formatScore },
+      { label: "対戦回数の標準偏差", value: (s) => s.evaluation.oppoStdDev, format: formatScore },
+    ];
+    if (hasRest) {
+      result.push({ label: "休憩回数の偏り", value: (s) => s.evaluation.restStdDev, format: formatScore });
+    }
+    if (params && hasRatings(params.roster ?? [])) {
+      result.push({ label: "レベル差の平均", value: (s) => s.evaluation.balanceAvg, format: formatScore });
+    }
+    result.push(
+      { label: QUALITY_LABELS.c1, value: (_, q) => q.c1, format: formatCount },
+      { label: QUALITY_LABELS.c2, value: (_, q) => q.c2, format: formatCount },
+    );
+    if (hasRest) {
+      result.push({ label: QUALITY_LABELS.c3, value: (_, q) => q.c3, format: formatCount });
+    }
+    result.push(
+      { label: QUALITY_LABELS.c4, value: (_, q) => q.c4, format: formatCount },
+      { label: QUALITY_LABELS.c5, value: (_, q) => q.c5, format: formatCount },
+    );
+    return result;
+  }, [params]);
+
+  const qualityById = useMemo(() => {
+    const map = new Map<StrategyId, QualityTotals>();
+    for (const entry of entries) {
+      if (entry.schedule) map.set(entry.strategyId, countQualityViolations(entry.schedule));
+    }
+    return map;
+  }, [entries]);
+
+  const doneEntries = entries.filter((e): e is StrategyComparisonEntry & { schedule: Schedule } => e.schedule !== undefined);
+
+  // 現在の設定の規模に対応していないアルゴリズムは選択できない
+  const isSupported = (id: StrategyId) => {
+    const meta = strategies.find((s) => s.id === id);
+    return !params || !meta || supportsSize(meta, getCourtsRange(params.courtsCount, params.courtChanges, params.roundsCount).max, params.playersCount);
+  };
+  const runnableIds = selectedIds.filter(isSupported);
+
+  const toggleStrategy = (id: StrategyId) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const handleStart = () => {
+    if (!params) return;
+    // 登録順で実行する
+    run(params, strategies.map((s) => s.id).filter((id) => runnableIds.includes(id)));
+  };
+
+  const strategyName = (id: StrategyId) => strategies.find((s) => s.id === id)?.name ?? id;
+
+  const renderCell = (entry: StrategyComparisonEntry, row: ComparisonRow) => {
+    const quality = qualityById.get(entry.strategyId);
+    if (!entry.schedule || !quality) return "-";
+    const value = row.value(entry.schedule, quality);
+    const best = Math.min(...doneEntries.map((e) => row.value(e.schedule, qualityById.get(e.strategyId)!)));
+    const isBest = doneEntries.length > 1 && value === best;
+    return (
+      <Typography variant="body2" component="span" sx={{ fontWeight: isBest ? 700 : 400, color: isBest ? "success.main" : undefined }}>
+        {row.format(value)}
+      </Typography>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>アルゴリズムの比較</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          現在の設定（同じ乱数シード）で選択したアルゴリズムを順に実行し、結果を並べて表示します。
+        </Typography>
+        <FormGroup row sx={{ mb: 2 }}>
+          {strategies.map((s) => (
+            <FormControlLabel
+              key={s.id}
+              control={
+                <Checkbox
+                  checked={runnableIds.includes(s.id)}
+                  onChange={() => toggleStrategy(s.id)}
+                  disabled={isRunning || !isSupported(s.id)}
+                />
+              }
+              label={isSupported(s.id) || !s.limits ? s.name : `${s.name}（${s.limits.maxCourts} 面・${s.limits.maxPlayers} 人以下）`}
+            />
+          ))}
+        </FormGroup>
+
+        {entries.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>指標</strong></TableCell>
+                  {entries.map((entry) => (
+                    <TableCell key={entry.strategyId} align="center" sx={{ minWidth: 140 }}>
+                      <strong>{strategyName(entry.strategyId)}</strong>
+                      {entry.status === "running" && (
+                        <LinearProgress variant="determinate" value={entry.percentage} sx={{ mt: 0.5 }} />
+                      )}
+                      {entry.status === "pending" && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                          待機中
+                        </Typography>
+                      )}
+                      {entry.status === "error" && (
+                        <Typography variant="caption" color="error" sx={{ display: "block" }}>
+                          {entry.errorMessage}
+                        </Typography>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.label}</TableCell>
+                    {entries.map((entry) => (
+                      <TableCell key={entry.strategyId} align="center">
+                        {renderCell(entry, row)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>生成時間</TableCell>
+                  {entries.map((entry) => (
+                    <TableCell key={entry.strategyId} align="center">
+                      {entry.elapsedMs !== undefined ? `${(entry.elapsedMs / 1000).toFixed(1)} 秒` : "-"}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell />
+                  {entries.map((entry) => (
+                    <TableCell key={entry.strategyId} align="center">
+                      {entry.schedule ? (
+                        <Button size="small" variant="outlined" onClick={() => onSelect(entry.strategyId, entry.schedule!)}>
+                          この結果を使用
+                        </Button>
+                      ) : (
+                        <Chip label="-" size="small" variant="outlined" />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            いずれの指標も値が小さいほど良く、最良の値を緑色で表示します。採用したアルゴリズムは以降の生成にも使用されます。
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {isRunning ? (
+          <Button color="error" onClick={cancel}>
+            中断
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={handleStart} disabled={!params || runnableIds.length < 2}>
+            比較を開始
+          </Button>
+        )}
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
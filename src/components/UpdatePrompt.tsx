@@ -0,0 +1,41 @@
+import { Button, Snackbar } from "@mui/material";
+import { useRegisterSW } from "virtual:pwa-register/react";
+
+/**
+ * Service Worker の登録と更新通知
+ *
+ * 新しいバージョンが配信されたら再読み込みを促し、初回のプリキャッシュ完了時はオフライン対応を通知する。
+ * 更新は生成中の対戦表を失わないよう、ユーザーが「更新」を押したときだけ適用する。
+ */
+export function UpdatePrompt() {
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  return (
+    <>
+      <Snackbar
+        open={needRefresh}
+        message="新しいバージョンがあります"
+        action={
+          <>
+            <Button color="inherit" size="small" onClick={() => setNeedRefresh(false)}>
+              後で
+            </Button>
+            <Button color="secondary" size="small" onClick={() => updateServiceWorker(true)}>
+              更新
+            </Button>
+          </>
+        }
+      />
+      <Snackbar
+        open={offlineReady && !needRefresh}
+        autoHideDuration={4000}
+        onClose={() => setOfflineReady(false)}
+        message="オフラインで使用できるようになりました"
+      />
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ScheduleParams } from '../types/schedule';
+import type { StrategyId } from '../strategies/types';
+import { runScheduleStrategy } from '../workers/scheduleWorkerClient';
+import { deriveSeed, generateSeed } from '../utils/random';
+import { countQualityViolations, compareCandidates, type ScheduleCandidate } from '../utils/quality';
+
+/**
+ * 候補数の上限
+ */
+export const MAX_CANDIDATES = 20;
+
+/**
+ * 複数候補生成の設定
+ */
+export interface CandidateGenerationOptions {
+  count: number;      // 生成する候補数
+  parallel: boolean;  // 複数の Worker で並列に生成するか
+}
+
+/**
+ * 同時に実行する生成数を決める（メインスレッド用に1コア残す）
+ */
+function getConcurrency(options: CandidateGenerationOptions): number {
+  if (!options.parallel) return 1;
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(options.count, cores - 1));
+}
+
+/**
+ * 複数候補の生成 React フック
+ *
+ * 同じアルゴリズムをシードを変えて N 回実行し、結果を compareCandidates の順
+ * （総合スコア → 品質違反件数の辞書式順序 → 生成順）に並べる。
+ * 各候補のシードは基準シードから deriveSeed で導出するため、採用した候補は単独でも再現できる。
+ *
+ * @returns 順位順の候補、進捗、実行中フラグ、生成の開始・中断・破棄関数
+ *
+ * @example
+ * const { candidates, isRunning, run } = useCandidateGeneration();
+ * run(params, 'sequential-decision', { count: 10, parallel: true });
+ */
+export function useCandidateGeneration() {
+  const [candidates, setCandidates] = useState<ScheduleCandidate[]>([]);
+  const [completedCount, setCompletedCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [percentage, setPercentage] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (params: ScheduleParams, strategyId: StrategyId, options: CandidateGenerationOptions) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const count = Math.max(1, Math.min(options.count, MAX_CANDIDATES));
+    const baseSeed = params.seed ?? generateSeed();
+    // 候補ごとの進捗率（全体の進捗はその平均）
+    const percentages = new Array<number>(count).fill(0);
+    const updatePercentage = () => {
+      setPercentage(Math.round(percentages.reduce((sum, p) => sum + p, 0) / count));
+    };
+
+    setCandidates([]);
+    setCompletedCount(0);
+    setTotalCount(count);
+    setPercentage(0);
+    setError(null);
+    setIsRunning(true);
+
+    let nextIndex = 0;
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < count && !controller.signal.aborted) {
+        const index = nextIndex++;
+        const schedule = await runScheduleStrategy(
+          { type: 'generate', strategyId, params: { ...params, seed: deriveSeed(baseSeed, index) } },
+          {
+            onProgress: (progress) => {
+              percentages[index] = progress.percentage;
+              updatePercentage();
+            },
+          },
+          controller.signal,
+        );
+        percentages[index] = 100;
+        updatePercentage();
+        const candidate: ScheduleCandidate = { index, schedule, quality: countQualityViolations(schedule) };
+        setCandidates((prev) => [...prev, candidate].sort(compareCandidates));
+        setCompletedCount((prev) => prev + 1);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: getConcurrency({ ...options, count }) }, runNext));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        // 同じ設定の候補は同じ理由で失敗するため、残りも中断する
+        controller.abort();
+        setError(err instanceof Error ? err.message : '生成に失敗しました');
+      }
+    }
+
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, []);
+
+  // 生成を中断する（生成済みの候補は残す）
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  // 候補を破棄する（ダイアログを閉じたときなど）
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setCandidates([]);
+    setCompletedCount(0);
+    setTotalCount(0);
+    setPercentage(0);
+    setError(null);
+  }, []);
+
+  return { candidates, completedCount, totalCount, percentage, isRunning, error, run, cancel, reset };
+}
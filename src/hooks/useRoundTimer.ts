@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Round, TimerSettings } from '../types/schedule';
+import { getRemainingMs, isTimingActive } from '../utils/timer';
+
+/** 予告・終了の通知の種類 */
+type TimerAlertKind = 'warning' | 'end';
+
+// 予告は短く1回、終了は3回鳴らす・振動させる
+const BEEP_COUNTS: Record<TimerAlertKind, number> = { warning: 1, end: 3 };
+const VIBRATION_PATTERNS: Record<TimerAlertKind, number[]> = { warning: [200], end: [400, 200, 400, 200, 400] };
+
+/**
+ * 通知音を鳴らす（Web Audio API 非対応の環境では何もしない）
+ */
+function playBeep(count: number) {
+  if (typeof AudioContext === 'undefined') return;
+  try {
+    const context = new AudioContext();
+    for (let i = 0; i < count; i++) {
+      const start = context.currentTime + i * 0.35;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.3, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.25);
+    }
+    setTimeout(() => void context.close(), count * 350 + 500);
+  } catch (error) {
+    console.debug('通知音の再生に失敗:', error);
+  }
+}
+
+/**
+ * 予告・終了の読み上げテキストを生成
+ * 例: "ラウンド3、残り1分です。" / "ラウンド3、試合時間終了です。"
+ */
+export function buildTimerAlertText(roundNumber: number, kind: TimerAlertKind, warningMinutes: number): string {
+  return kind === 'warning'
+    ? `ラウンド${roundNumber}、残り${warningMinutes}分です。`
+    : `ラウンド${roundNumber}、試合時間終了です。`;
+}
+
+/**
+ * 試合タイマーの React フック
+ *
+ * 計測中のラウンドがある間は1秒ごとに現在時刻を更新し、残り時間が予告のタイミング・0 を
+ * 下回った時点で設定に応じて音・振動・読み上げで知らせる。
+ * 通知は前回の更新からしきい値をまたいだ場合のみ行うため、リロード直後に過去の通知を繰り返さない。
+ *
+ * @param rounds - 全ラウンド（timing を持つラウンドが計測対象）
+ * @param settings - 試合タイマーの設定
+ * @param speak - 読み上げ関数（useSpeech の speak）
+ * @returns 現在時刻（エポックミリ秒。残り時間の表示に使う）
+ *
+ * @example
+ * const now = useRoundTimer(schedule.rounds, timerSettings, speak);
+ * const remaining = round.timing && getRemainingMs(round.timing, timerSettings.matchMinutes, now);
+ */
+export function useRoundTimer(rounds: Round[], settings: TimerSettings, speak: (text: string) => void): number {
+  const [now, setNow] = useState(() => Date.now());
+  // ラウンド番号 → 前回の更新時点の残り時間
+  const previousRemainingRef = useRef(new Map<number, number>());
+
+  const hasActiveTimer = rounds.some((round) => isTimingActive(round.timing) && round.timing.pausedAt === undefined);
+
+  useEffect(() => {
+    if (!hasActiveTimer) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [hasActiveTimer]);
+
+  useEffect(() => {
+    const previous = previousRemainingRef.current;
+    const next = new Map<number, number>();
+    const warningMs = settings.warningMinutes * 60_000;
+
+    const alert = (roundNumber: number, kind: TimerAlertKind) => {
+      if (settings.sound) playBeep(BEEP_COUNTS[kind]);
+      if (settings.vibration && typeof navigator !== 'undefined' && navigator.vibrate) {
+        navigator.vibrate(VIBRATION_PATTERNS[kind]);
+      }
+      if (settings.speech) speak(buildTimerAlertText(roundNumber, kind, settings.warningMinutes));
+    };
+
+    for (const round of rounds) {
+      if (!isTimingActive(round.timing)) continue;
+      const remaining = getRemainingMs(round.timing, settings.matchMinutes, now);
+      next.set(round.roundNumber, remaining);
+      const before = previous.get(round.roundNumber);
+      if (before === undefined) continue;
+      if (before > 0 && remaining <= 0) {
+        alert(round.roundNumber, 'end');
+      } else if (warningMs > 0 && before > warningMs && remaining <= warningMs) {
+        alert(round.roundNumber, 'warning');
+      }
+    }
+    previousRemainingRef.current = next;
+  }, [rounds, settings, speak, now]);
+
+  return now;
+}
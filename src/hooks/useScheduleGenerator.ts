@@ -2,6 +2,7 @@ import { useState, useCallback, useRef } from 'react';
 import type { Schedule, ScheduleParams, GenerationProgress, RegenerationParams } from '../types/schedule';
 import type { StrategyId } from '../strategies/types';
 import { getStrategy, DEFAULT_STRATEGY_ID } from '../strategies/registry';
+import { runScheduleStrategy } from '../workers/scheduleWorkerClient';
 
 /**
  * 同期的スケジュール生成（互換ラッパー）
@@ -18,21 +19,22 @@ export function generateSchedule(params: ScheduleParams): Schedule {
  * アルゴリズム非依存のスケジュール生成 React フック
  *
  * @param strategyId - 使用するアルゴリズムのID（デフォルト: 'sequential-decision'）
+ * @param initialSchedule - 初期表示するスケジュール（保存済みセッションの復元用）
  * @returns スケジュール状態、進捗、生成関数を含むフックインターフェース
  *
  * @example
  * const { schedule, isGenerating, progress, error, generate } = useScheduleGenerator();
  *
  * // 生成をトリガー
- * generate({ courtsCount: 2, playersCount: 8, roundsCount: 7, weights: { w1: 1.0, w2: 0.5, w3: 2.0 }, fixedPairs: [] });
+ * generate({ courtsCount: 2, playersCount: 8, roundsCount: 7, weights: { w1: 1.0, w2: 0.5, w3: 2.0, w4: 1.0 }, fixedPairs: [] });
  *
  * // 進捗を表示
  * if (isGenerating && progress) {
  *   return <Progress value={progress.percentage} />;
  * }
  */
-export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_ID) {
-  const [schedule, setSchedule] = useState<Schedule | null>(null);
+export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_ID, initialSchedule: Schedule | null = null) {
+  const [schedule, setSchedule] = useState<Schedule | null>(initialSchedule);
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState<GenerationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -51,11 +53,9 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
     setSchedule(null);
     setPartialSchedule(null);
 
-    const strategy = getStrategy(strategyId);
-
-    // 進捗更新付きで非同期生成を実行
-    strategy.generateScheduleAsync(
-      params,
+    // 進捗更新付きで非同期生成を実行（Worker が使えればメインスレッドを塞がない）
+    runScheduleStrategy(
+      { type: 'generate', strategyId, params },
       {
         onProgress: (progressUpdate) => {
           setProgress(progressUpdate);
@@ -66,9 +66,12 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
             courts: params.courtsCount,
             players: params.playersCount,
             rounds: confirmedRounds,
-            evaluation: { pairStdDev: 0, oppoStdDev: 0, restStdDev: 0, totalScore: 0 },
+            evaluation: { pairStdDev: 0, oppoStdDev: 0, restStdDev: 0, balanceAvg: 0, balanceMax: 0, totalScore: 0 },
             fixedPairs: params.fixedPairs,
+            forbiddenPairs: params.forbiddenPairs ?? [],
+            forbiddenOpponents: params.forbiddenOpponents ?? [],
             activePlayers: allPlayers,
+            roster: params.roster ?? [],
           });
         },
       },
@@ -105,10 +108,8 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
     setError(null);
     setProgress(null);
 
-    const strategy = getStrategy(strategyId);
-
-    strategy.generateRemainingScheduleAsync(
-      params,
+    runScheduleStrategy(
+      { type: 'regenerate', strategyId, params },
       {
         onProgress: (progressUpdate) => {
           setProgress(progressUpdate);
@@ -118,9 +119,12 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
             courts: params.courtsCount,
             players: Math.max(...params.activePlayers),
             rounds: confirmedRounds,
-            evaluation: { pairStdDev: 0, oppoStdDev: 0, restStdDev: 0, totalScore: 0 },
+            evaluation: { pairStdDev: 0, oppoStdDev: 0, restStdDev: 0, balanceAvg: 0, balanceMax: 0, totalScore: 0 },
             fixedPairs: params.fixedPairs,
+            forbiddenPairs: params.forbiddenPairs ?? [],
+            forbiddenOpponents: params.forbiddenOpponents ?? [],
             activePlayers: params.activePlayers,
+            roster: params.roster ?? [],
           });
         },
       },
@@ -146,6 +150,11 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
       });
   }, [strategyId]);
 
+  // 生成済みスケジュールの付随情報（名簿など）を再生成せずに更新する
+  const updateSchedule = useCallback((updater: (prev: Schedule) => Schedule) => {
+    setSchedule((prev) => (prev ? updater(prev) : prev));
+  }, []);
+
   const cancel = useCallback(() => {
     abortControllerRef.current?.abort();
   }, []);
@@ -159,5 +168,15 @@ export function useScheduleGenerator(strategyId: StrategyId = DEFAULT_STRATEGY_I
     setError(null);
   }, []);
 
-  return { schedule, isGenerating, progress, error, generate, regenerate, partialSchedule, cancel, reset };
+  // インポートしたスケジュールを生成結果として読み込む
+  const load = useCallback((loaded: Schedule) => {
+    abortControllerRef.current?.abort();
+    setSchedule(loaded);
+    setPartialSchedule(null);
+    setIsGenerating(false);
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  return { schedule, isGenerating, progress, error, generate, regenerate, partialSchedule, updateSchedule, cancel, reset, load };
 }
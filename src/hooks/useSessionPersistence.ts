@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { saveSession } from '../utils/persistence';
+import type { SessionState } from '../utils/persistence';
+
+/**
+ * セッション状態の自動保存 React フック
+ *
+ * セッションを構成する値のいずれかが変化するたびに localStorage へスナップショットを保存する。
+ * 生成中は途中状態（schedule が null）で保存済みセッションを上書きしないよう、
+ * paused が true の間は保存しない。
+ *
+ * @param state - 保存するセッション状態
+ * @param paused - true の間は保存を停止する（スケジュール生成中など）
+ *
+ * @example
+ * useSessionPersistence({ schedule, completedMatches, ... }, isGenerating);
+ */
+export function useSessionPersistence(state: SessionState, paused: boolean) {
+  const { schedule, completedMatches, openedAt, lastParams, fixedPairs, forbiddenPairs, forbiddenOpponents, roster, matchResults, scoringFormatId, strategyId, speechPitch, speechRate, timerSettings } = state;
+
+  useEffect(() => {
+    if (paused) return;
+    saveSession({ schedule, completedMatches, openedAt, lastParams, fixedPairs, forbiddenPairs, forbiddenOpponents, roster, matchResults, scoringFormatId, strategyId, speechPitch, speechRate, timerSettings });
+  }, [paused, schedule, completedMatches, openedAt, lastParams, fixedPairs, forbiddenPairs, forbiddenOpponents, roster, matchResults, scoringFormatId, strategyId, speechPitch, speechRate, timerSettings]);
+}
@@ -1,21 +1,33 @@
 import { useState, useEffect, useCallback } from "react";
-import type { Round } from "../types/schedule";
+import type { Round, Participant } from "../types/schedule";
+import { getPlayerReading } from "../utils/roster";
+import { isSinglesMatch } from "../utils/singles";
 
 /**
  * ラウンドデータから読み上げ用テキストを生成
+ * 名簿に読み仮名（なければ名前）が登録されていれば番号の代わりに読み上げる
+ * コート名が設定されていれば「コート N」の代わりにコート名を読み上げる
+ * シングルスのコートは「シングルス」と前置きして2人を読み上げる
  * 例: "ラウンド1。コート1、1、2、 3、4。コート2、5、6、 7、8。休憩、9、10。"
+ * 例: "ラウンド1。コート1、1、2、 3、4。コート2、シングルス、5、 6。"
  */
-export function buildSpeechText(round: Round): string {
+export function buildSpeechText(round: Round, roster: Participant[] = [], courtNames: string[] = []): string {
   const parts: string[] = [];
+  const say = (player: number) => getPlayerReading(roster, player);
 
   parts.push(`ラウンド${round.roundNumber}`);
 
   round.matches.forEach((match, idx) => {
-    parts.push(`コート${idx + 1}、${match.pairA.player1}、${match.pairA.player2}、 ${match.pairB.player1}、${match.pairB.player2}`);
+    const court = courtNames[idx]?.trim() || `コート${idx + 1}`;
+    if (isSinglesMatch(match)) {
+      parts.push(`${court}、シングルス、${say(match.playerA)}、 ${say(match.playerB)}`);
+      return;
+    }
+    parts.push(`${court}、${say(match.pairA.player1)}、${say(match.pairA.player2)}、 ${say(match.pairB.player1)}、${say(match.pairB.player2)}`);
   });
 
   if (round.restingPlayers && round.restingPlayers.length > 0) {
-    parts.push(`休憩、${round.restingPlayers.join("、")}`);
+    parts.push(`休憩、${round.restingPlayers.map(say).join("、")}`);
   }
 
   return parts.join("。") + "。";
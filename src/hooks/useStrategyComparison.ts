@@ -0,0 +1,90 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Schedule, ScheduleParams } from '../types/schedule';
+import type { StrategyId } from '../strategies/types';
+import { runScheduleStrategy } from '../workers/scheduleWorkerClient';
+import { generateSeed } from '../utils/random';
+
+/**
+ * 1アルゴリズム分の比較結果
+ */
+export interface StrategyComparisonEntry {
+  strategyId: StrategyId;
+  status: 'pending' | 'running' | 'done' | 'error';
+  percentage: number;     // 生成の進捗率（0-100）
+  schedule?: Schedule;    // 生成結果（status が 'done' の場合）
+  elapsedMs?: number;     // 生成にかかった時間（status が 'done' の場合）
+  errorMessage?: string;  // エラー内容（status が 'error' の場合）
+}
+
+/**
+ * 複数アルゴリズムの比較生成 React フック
+ *
+ * 同じパラメータ・同じシードで各アルゴリズムを1つずつ順に実行する
+ * （並列に実行すると生成時間の比較が端末の負荷に左右されるため）。
+ *
+ * @returns 比較結果、実行中フラグ、比較の開始・中断・破棄関数
+ *
+ * @example
+ * const { entries, isRunning, run, cancel } = useStrategyComparison();
+ * run(params, ['sequential-decision', 'local-search']);
+ */
+export function useStrategyComparison() {
+  const [entries, setEntries] = useState<StrategyComparisonEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateEntry = useCallback((strategyId: StrategyId, patch: Partial<StrategyComparisonEntry>) => {
+    setEntries((prev) => prev.map((e) => (e.strategyId === strategyId ? { ...e, ...patch } : e)));
+  }, []);
+
+  const run = useCallback(async (params: ScheduleParams, strategyIds: StrategyId[]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // シード未指定でも全アルゴリズムで同じシードを使う
+    const sharedParams: ScheduleParams = { ...params, seed: params.seed ?? generateSeed() };
+
+    setEntries(strategyIds.map((strategyId) => ({ strategyId, status: 'pending', percentage: 0 })));
+    setIsRunning(true);
+
+    for (const strategyId of strategyIds) {
+      if (controller.signal.aborted) break;
+      updateEntry(strategyId, { status: 'running' });
+      const startedAt = performance.now();
+      try {
+        const schedule = await runScheduleStrategy(
+          { type: 'generate', strategyId, params: sharedParams },
+          { onProgress: (progress) => updateEntry(strategyId, { percentage: progress.percentage }) },
+          controller.signal,
+        );
+        updateEntry(strategyId, { status: 'done', percentage: 100, schedule, elapsedMs: performance.now() - startedAt });
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') break;
+        updateEntry(strategyId, { status: 'error', errorMessage: err instanceof Error ? err.message : '生成に失敗しました' });
+      }
+    }
+
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [updateEntry]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setEntries((prev) => prev.filter((e) => e.status === 'done' || e.status === 'error'));
+  }, []);
+
+  // 比較結果を破棄する（ダイアログを閉じたときなど）
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setEntries([]);
+  }, []);
+
+  return { entries, isRunning, run, cancel, reset };
+}
@@ -0,0 +1,127 @@
+/**
+ * 全探索法の1ラウンド探索
+ *
+ * 休憩者の全組み合わせ × 正規化配置テンプレートの全通りを evaluateCandidate で評価し、
+ * 累積状態に対して最良となる次ラウンドを求める（小規模専用）。
+ */
+
+import type { CumulativeState, FixedPair, PairConstraints, Round } from '../../types/schedule';
+import { evaluateCandidate } from '../../utils/evaluation';
+import { estimateArrangementCount, getNormalizedArrangements } from '../../utils/normalizedArrangements';
+import { generateCombinations } from '../../utils/permutation';
+import { satisfiesFixedPairs } from '../../utils/fixedPairs';
+import { countCourtViolations } from '../../utils/pairConstraints';
+import { arrangementToRoundWithRest } from '../../utils/normalization';
+import type { Random } from '../../utils/random';
+
+// ハード制約（固定ペア・ペア禁止・対戦禁止）の違反ペナルティ
+// evaluateCandidate の pairMax 項（×1000）より常に優先されるよう十分大きくする
+const HARD_PENALTY = 1_000_000;
+const TIE_EPSILON = 1e-9; // 同点とみなすスコア差
+
+/**
+ * 全探索法の対応規模
+ */
+export const EXHAUSTIVE_LIMITS = { maxCourts: 2, maxPlayers: 10 };
+
+/**
+ * 1ラウンドの候補数（休憩者の組み合わせ数 × 正規化配置数）を返す
+ *
+ * 計算量: O(1)
+ */
+export function countRoundCandidates(playersCount: number, courtsCount: number): number {
+  const playingCount = courtsCount * 4;
+  const restCount = playersCount - playingCount;
+  let restCombinations = 1;
+  for (let i = 0; i < restCount; i++) {
+    restCombinations = (restCombinations * (playersCount - i)) / (i + 1);
+  }
+  return Math.round(restCombinations) * estimateArrangementCount(courtsCount, playingCount);
+}
+
+/** 0-basedテンプレートの1コート分を実プレイヤー番号で取り出す */
+function courtAt(template: number[], playerMap: number[], court: number): [number, number, number, number] {
+  const offset = court * 4;
+  return [
+    playerMap[template[offset]],
+    playerMap[template[offset + 1]],
+    playerMap[template[offset + 2]],
+    playerMap[template[offset + 3]],
+  ];
+}
+
+/**
+ * 累積状態に対して最良の次ラウンドを全探索で求める
+ *
+ * 固定ペア・ペア禁止・対戦禁止（ミックスダブルスの区分制約を含む）はハード制約として扱い、
+ * 満たす候補があればその中で evaluateCandidate のスコア（pairMax 優先 → totalScore）が最小の候補を選ぶ。
+ * 満たす候補がない場合は違反の少ない候補を選ぶ。
+ * 同点の候補が複数ある場合は乱数で一様に1つを選ぶ（同じシードなら同じ結果）。
+ *
+ * @param state - 累積状態（変更しない）
+ * @param activePlayers - 出場可能なプレイヤー番号（昇順）
+ * @param courtsCount - コート数
+ * @param roundNumber - ラウンド番号
+ * @param weights - 評価の重み
+ * @param fixedPairs - 固定ペア
+ * @param constraints - ペア禁止・対戦禁止（なしの場合は null）
+ * @param random - 同点候補の選択とコート順のランダム化に使う乱数生成関数
+ * @returns 最良の Round
+ *
+ * 計算量: O(C(N, rest) × 正規化配置数 × courts)
+ */
+export function searchBestRound(
+  state: CumulativeState,
+  activePlayers: number[],
+  courtsCount: number,
+  roundNumber: number,
+  weights: { w1: number; w2: number; w3: number; w4?: number },
+  fixedPairs: FixedPair[],
+  constraints: PairConstraints | null,
+  random: Random,
+): Round {
+  const playingCount = courtsCount * 4;
+  const restCount = activePlayers.length - playingCount;
+  const templates = getNormalizedArrangements(courtsCount, playingCount);
+
+  let bestScore = Infinity;
+  let bestTemplate: number[] = [];
+  let bestPlayerMap: number[] = [];
+  let bestResting: number[] = [];
+  let ties = 0;
+
+  for (const resting of generateCombinations(activePlayers, restCount)) {
+    const restSet = new Set(resting);
+    // テンプレートの正規化（p1 < p2 など）を保つため、出場者は昇順に並べる
+    const playerMap = activePlayers.filter((p) => !restSet.has(p));
+
+    for (const template of templates) {
+      let violations = satisfiesFixedPairs(template, courtsCount, fixedPairs, playerMap) ? 0 : 1;
+      if (constraints) {
+        for (let c = 0; c < courtsCount; c++) {
+          violations += countCourtViolations(constraints, courtAt(template, playerMap, c));
+        }
+      }
+      const score = violations * HARD_PENALTY + evaluateCandidate(state, template, courtsCount, playerMap, resting, weights);
+
+      if (score < bestScore - TIE_EPSILON) {
+        bestScore = score;
+        bestTemplate = template;
+        bestPlayerMap = playerMap;
+        bestResting = resting;
+        ties = 1;
+      } else if (score <= bestScore + TIE_EPSILON) {
+        // 同点: リザーバサンプリングで一様に選ぶ
+        ties++;
+        if (random() * ties < 1) {
+          bestTemplate = template;
+          bestPlayerMap = playerMap;
+          bestResting = resting;
+        }
+      }
+    }
+  }
+
+  const arrangement = bestTemplate.map((index) => bestPlayerMap[index]);
+  return arrangementToRoundWithRest(arrangement, courtsCount, roundNumber, bestResting, random);
+}
@@ -0,0 +1,313 @@
+/**
+ * 全探索法（Exhaustive Greedy）ストラテジー
+ *
+ * アルゴリズム:
+ * 1. 各ラウンドで、休憩者の全組み合わせ × 正規化配置テンプレートの全通りを評価する
+ * 2. 累積状態（CumulativeState）に対して evaluateCandidate が最小となる配置を採用する
+ * 3. 各ラウンドの選択はその時点で証明可能な最良（貪欲法のため全体最適ではない）
+ *
+ * 候補数が組み合わせ爆発するため、2面・10人以下の小規模な設定専用（コート数の変更がある場合は最大のコート数で判定）。
+ * 配置テンプレートはダブルスのみのため、シングルスのコートが必要になる設定には対応しない。
+ * 参加できるラウンドの範囲（availability）を指定した場合、各ラウンドは範囲内のプレイヤーだけで探索する。
+ * 再生成時に休憩中のプレイヤー（breaks）がいる場合、その休憩を累積状態に反映したうえで残りのプレイヤーだけで探索する。
+ * ヒューリスティック（逐次決定法・局所探索法）の品質を検証するための基準として使う。
+ */
+
+import type { ScheduleStrategy, StrategyMeta, ProgressCallbacks } from "../types";
+import type { Schedule, ScheduleParams, RegenerationParams, Round, CumulativeState } from "../../types/schedule";
+import { createInitialArrangement } from "../../utils/permutation";
+import { createRandom, generateSeed } from "../../utils/random";
+import {
+  createCumulativeState,
+  commitRoundToState,
+  evaluateFromState,
+  buildCumulativeStateForActivePlayers,
+  shiftAttendanceInState,
+} from "../../utils/evaluation";
+import { buildPlayerRatings } from "../../utils/rating";
+import { buildPairConstraints } from "../../utils/pairConstraints";
+import { buildPlayerCategories } from "../../utils/mixedDoubles";
+import { getCourtsForRound } from "../../utils/courtChanges";
+import { assertEnoughPlayers, getAvailablePlayers } from "../../utils/availability";
+import { addPlayersOnBreak, getPlayersOnBreak } from "../../utils/breaks";
+import { balanceCourtAssignments } from "../../utils/courtAssignment";
+import { getMatchPlayers, getSinglesCourtsForRound } from "../../utils/singles";
+import { EXHAUSTIVE_LIMITS, countRoundCandidates, searchBestRound } from "./exhaustiveUtils";
+
+export { EXHAUSTIVE_LIMITS } from "./exhaustiveUtils";
+
+function createAbortError(): DOMException {
+  return new DOMException("Generation cancelled", "AbortError");
+}
+
+function assertWithinLimits(courtsCount: number, playersCount: number): void {
+  if (courtsCount > EXHAUSTIVE_LIMITS.maxCourts || playersCount > EXHAUSTIVE_LIMITS.maxPlayers) {
+    throw new Error(`全探索法は ${EXHAUSTIVE_LIMITS.maxCourts} 面・${EXHAUSTIVE_LIMITS.maxPlayers} 人以下でのみ使用できます`);
+  }
+}
+
+/**
+ * 各ラウンドのコート数と参加人数（[courts, players]）でシングルスのコートが必要にならないか確認する
+ */
+function assertDoublesOnly(singlesCourts: number[] | undefined, roundSizes: [number, number][]): void {
+  if (roundSizes.some(([courts, players]) => getSinglesCourtsForRound(singlesCourts, courts, players).length > 0)) {
+    throw new Error("全探索法はシングルスのコートを含む設定では使用できません");
+  }
+}
+
+export class ExhaustiveStrategy implements ScheduleStrategy {
+  readonly meta: StrategyMeta = {
+    id: "exhaustive",
+    name: "全探索法",
+    description: "各ラウンドの全配置を評価して最良を選ぶ品質基準（2面・10人以下）",
+    isExperimental: true,
+    limits: EXHAUSTIVE_LIMITS,
+  };
+
+  estimateTotalEvaluations(playersCount: number, courtsCount: number, roundsCount: number): number {
+    return roundsCount * countRoundCandidates(playersCount, courtsCount);
+  }
+
+  generateSchedule(params: ScheduleParams): Schedule {
+    const { courtsCount, playersCount, roundsCount, weights, fixedPairs } = params;
+    const roundNumbers = Array.from({ length: roundsCount }, (_, i) => i + 1);
+    const courtsFor = (roundNumber: number) => getCourtsForRound(courtsCount, params.courtChanges, roundNumber);
+    const allPlayers = createInitialArrangement(playersCount);
+    const playersFor = (roundNumber: number) => getAvailablePlayers(allPlayers, params.availability, roundNumber);
+    assertWithinLimits(Math.max(...roundNumbers.map(courtsFor)), playersCount);
+    assertDoublesOnly(params.singlesCourts, roundNumbers.map((r) => [courtsFor(r), playersFor(r).length]));
+    assertEnoughPlayers(roundNumbers, playersFor, courtsFor);
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
+
+    const ratings = buildPlayerRatings(params.roster ?? [], playersCount);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], playersCount) : null;
+    const constraints = buildPairConstraints(playersCount, forbiddenPairs, forbiddenOpponents, categories);
+    const state = createCumulativeState(playersCount, ratings);
+    const rounds: Round[] = [];
+
+    for (const r of roundNumbers) {
+      const round = searchBestRound(state, playersFor(r), courtsFor(r), r, weights, fixedPairs, constraints, random);
+      rounds.push(round);
+      commitRoundToState(state, round);
+    }
+
+    return {
+      courts: courtsCount,
+      players: playersCount,
+      rounds: params.balanceCourts ? balanceCourtAssignments(rounds) : rounds,
+      evaluation: evaluateFromState(state, weights),
+      fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
+      activePlayers: allPlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
+    };
+  }
+
+  async generateScheduleAsync(params: ScheduleParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
+    const { courtsCount, playersCount, roundsCount, weights, fixedPairs } = params;
+    const roundNumbers = Array.from({ length: roundsCount }, (_, i) => i + 1);
+    const courtsFor = (roundNumber: number) => getCourtsForRound(courtsCount, params.courtChanges, roundNumber);
+    const allPlayers = createInitialArrangement(playersCount);
+    const playersFor = (roundNumber: number) => getAvailablePlayers(allPlayers, params.availability, roundNumber);
+    assertWithinLimits(Math.max(...roundNumbers.map(courtsFor)), playersCount);
+    assertDoublesOnly(params.singlesCourts, roundNumbers.map((r) => [courtsFor(r), playersFor(r).length]));
+    assertEnoughPlayers(roundNumbers, playersFor, courtsFor);
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
+
+    const ratings = buildPlayerRatings(params.roster ?? [], playersCount);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], playersCount) : null;
+    const constraints = buildPairConstraints(playersCount, forbiddenPairs, forbiddenOpponents, categories);
+    const state = createCumulativeState(playersCount, ratings);
+    const rounds: Round[] = [];
+
+    await this.searchRoundsAsync(
+      state,
+      rounds,
+      roundNumbers,
+      roundsCount,
+      (roundNumber) => searchBestRound(state, playersFor(roundNumber), courtsFor(roundNumber), roundNumber, weights, fixedPairs, constraints, random),
+      (roundNumber) => countRoundCandidates(playersFor(roundNumber).length, courtsFor(roundNumber)),
+      callbacks,
+      signal,
+    );
+
+    return {
+      courts: courtsCount,
+      players: playersCount,
+      rounds: params.balanceCourts ? balanceCourtAssignments(rounds) : rounds,
+      evaluation: evaluateFromState(state, weights),
+      fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
+      activePlayers: allPlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
+    };
+  }
+
+  async generateRemainingScheduleAsync(params: RegenerationParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
+    const { courtsCount, completedRounds, remainingRoundsCount, weights, fixedPairs } = params;
+    const activePlayers = [...params.activePlayers].sort((a, b) => a - b);
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
+    const courtsFor = (roundNumber: number) => getCourtsForRound(courtsCount, params.courtChanges, roundNumber);
+    const availableFor = (roundNumber: number) => getAvailablePlayers(activePlayers, params.availability, roundNumber);
+    const breaksFor = (roundNumber: number) => getPlayersOnBreak(availableFor(roundNumber), params.breaks, roundNumber);
+    // 出場者・休憩者を探索するプレイヤー（休憩中のプレイヤーを除く）
+    const playersFor = (roundNumber: number) => {
+      const onBreak = breaksFor(roundNumber);
+      return availableFor(roundNumber).filter((p) => !onBreak.includes(p));
+    };
+
+    let maxPlayerNumber = Math.max(...activePlayers);
+    for (const round of completedRounds) {
+      for (const match of round.matches) {
+        maxPlayerNumber = Math.max(maxPlayerNumber, ...getMatchPlayers(match));
+      }
+      for (const player of round.restingPlayers) {
+        maxPlayerNumber = Math.max(maxPlayerNumber, player);
+      }
+    }
+    const ratings = buildPlayerRatings(params.roster ?? [], maxPlayerNumber);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], maxPlayerNumber) : null;
+    const constraints = buildPairConstraints(maxPlayerNumber, forbiddenPairs, forbiddenOpponents, categories);
+
+    // 消化済みラウンドはアクティブプレイヤーのみで累積状態に反映する（最終評価と同じ基準）
+    const state = buildCumulativeStateForActivePlayers(completedRounds, activePlayers, maxPlayerNumber, ratings);
+    const rounds: Round[] = [...completedRounds];
+    const totalRounds = completedRounds.length + remainingRoundsCount;
+
+    // 消化済みラウンドが使用しているroundNumberを除外した空き番号リストを生成
+    const usedRoundNumbers = new Set(completedRounds.map((r) => r.roundNumber));
+    const freeRoundNumbers: number[] = [];
+    for (let n = 1; n <= totalRounds && freeRoundNumbers.length < remainingRoundsCount; n++) {
+      if (!usedRoundNumbers.has(n)) {
+        freeRoundNumbers.push(n);
+      }
+    }
+
+    // 生成するラウンドのうちコート数が最も多いラウンドで規模を確認し、各ラウンドの参加できる人数を確認する
+    const maxCourts = Math.max(0, ...freeRoundNumbers.map(courtsFor));
+    assertWithinLimits(maxCourts, activePlayers.length);
+    assertDoublesOnly(params.singlesCourts, freeRoundNumbers.map((r) => [courtsFor(r), playersFor(r).length]));
+    assertEnoughPlayers(freeRoundNumbers, playersFor, courtsFor);
+
+    await this.searchRoundsAsync(
+      state,
+      rounds,
+      freeRoundNumbers,
+      totalRounds,
+      (roundNumber) => {
+        // 休憩中のプレイヤーの休憩を反映した状態で候補を比べ、探索後に戻す（ラウンドごと反映するため）
+        const onBreak = breaksFor(roundNumber);
+        for (const p of onBreak) shiftAttendanceInState(state, p, true, 1);
+        const round = searchBestRound(state, playersFor(roundNumber), courtsFor(roundNumber), roundNumber, weights, fixedPairs, constraints, random);
+        for (const p of onBreak) shiftAttendanceInState(state, p, true, -1);
+        return addPlayersOnBreak(round, onBreak);
+      },
+      (roundNumber) => countRoundCandidates(playersFor(roundNumber).length, courtsFor(roundNumber)),
+      callbacks,
+      signal,
+    );
+
+    rounds.sort((a, b) => a.roundNumber - b.roundNumber);
+
+    return {
+      courts: courtsCount,
+      players: maxPlayerNumber,
+      rounds: params.balanceCourts ? balanceCourtAssignments(rounds, usedRoundNumbers) : rounds,
+      evaluation: evaluateFromState(state, weights),
+      fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
+      activePlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
+      breaks: params.breaks,
+    };
+  }
+
+  // === private メソッド ===
+
+  /**
+   * 進捗通知と中断確認を挟みながら、指定したラウンド番号を順に探索する
+   *
+   * 進捗の評価回数は「探索済みラウンドの候補数の合計」で数える（コート数の変更でラウンドごとに異なる）。
+   */
+  private async searchRoundsAsync(
+    state: CumulativeState,
+    rounds: Round[],
+    roundNumbers: number[],
+    totalRounds: number,
+    searchRound: (roundNumber: number) => Round,
+    countCandidates: (roundNumber: number) => number,
+    callbacks: ProgressCallbacks,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const totalEvaluations = roundNumbers.reduce((sum, roundNumber) => sum + countCandidates(roundNumber), 0);
+    let currentEvaluations = 0;
+
+    callbacks.onProgress({
+      currentEvaluations: 0,
+      totalEvaluations,
+      percentage: 0,
+      currentRound: roundNumbers[0] ?? totalRounds,
+      totalRounds,
+    });
+
+    for (let i = 0; i < roundNumbers.length; i++) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const roundNumber = roundNumbers[i];
+      const round = searchRound(roundNumber);
+      rounds.push(round);
+      commitRoundToState(state, round);
+
+      currentEvaluations += countCandidates(roundNumber);
+      callbacks.onRoundComplete?.([...rounds], roundNumber);
+      callbacks.onProgress({
+        currentEvaluations,
+        totalEvaluations,
+        percentage: Math.round((currentEvaluations / totalEvaluations) * 100),
+        currentRound: roundNumber,
+        totalRounds,
+      });
+
+      // UIスレッドに制御を返す
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+}
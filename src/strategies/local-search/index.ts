@@ -0,0 +1,239 @@
+/**
+ * 局所探索法（Local Search / Simulated Annealing）ストラテジー
+ *
+ * アルゴリズム:
+ * 1. 逐次決定法でスケジュール全体を生成する（初期解）
+ * 2. ランダムなラウンドに近傍操作（プレイヤー交換・ペア交換・休憩交換）を適用し、
+ *    Evaluation の totalScore（+ 禁止違反ペナルティ）の変化量で採否を決める（焼きなまし法）
+ * 3. 探索中に見つかった最良のスケジュールを返す（初期解より悪くなることはない）
+ *
+ * 反復回数は探索対象のラウンド数に比例する。時間制限を指定した場合はそれを超えた時点で打ち切る
+ * （打ち切りは実行速度に依存するため、同じシードでも結果が変わり得る）。
+ * 予算はコンストラクタで既定値を設定し、生成ごとに ScheduleParams.localSearch で上書きできる。
+ */
+
+import type { ScheduleStrategy, StrategyMeta, ProgressCallbacks } from "../types";
+import type {
+  Schedule,
+  ScheduleParams,
+  RegenerationParams,
+  GenerationProgress,
+  CumulativeState,
+  Round,
+  LocalSearchBudget,
+} from "../../types/schedule";
+import { createRandom, generateSeed, type Random } from "../../utils/random";
+import { createCumulativeState, commitRoundToState, buildCumulativeStateForActivePlayers, evaluateFromState } from "../../utils/evaluation";
+import { buildPlayerRatings } from "../../utils/rating";
+import { buildPairConstraints } from "../../utils/pairConstraints";
+import { buildPlayerCategories } from "../../utils/mixedDoubles";
+import { balanceCourtAssignments } from "../../utils/courtAssignment";
+import { SequentialDecisionStrategy } from "../sequential-decision";
+import { createSearchContext, runSearchIterations, toRound, type SearchContext } from "./localSearchUtils";
+
+/** 探索対象1ラウンドあたりの反復回数の既定値 */
+export const DEFAULT_ITERATIONS_PER_ROUND = 2000;
+const ITERATIONS_PER_CHUNK = 1000; // 進捗通知・中断確認の間隔
+const TEMPERATURES = { initial: 0.01, final: 0.0001 }; // 焼きなましの初期温度・最終温度
+
+/**
+ * 局所探索の予算の既定値（生成ごとの ScheduleParams.localSearch で上書きされる）
+ */
+export type LocalSearchOptions = LocalSearchBudget;
+
+interface ResolvedBudget {
+  iterationsPerRound: number;
+  timeLimitMs: number | null;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Generation cancelled", "AbortError");
+}
+
+export class LocalSearchStrategy implements ScheduleStrategy {
+  readonly meta: StrategyMeta = {
+    id: "local-search",
+    name: "局所探索法",
+    description: "逐次決定法の結果を焼きなまし法で改善（時間はかかるが高品質）",
+    isExperimental: true,
+  };
+
+  private readonly base = new SequentialDecisionStrategy();
+  private readonly iterationsPerRound: number;
+  private readonly timeLimitMs: number | null;
+
+  constructor(options: LocalSearchOptions = {}) {
+    this.iterationsPerRound = options.iterationsPerRound ?? DEFAULT_ITERATIONS_PER_ROUND;
+    this.timeLimitMs = options.timeLimitMs ?? null;
+  }
+
+  estimateTotalEvaluations(playersCount: number, courtsCount: number, roundsCount: number): number {
+    return this.base.estimateTotalEvaluations(playersCount, courtsCount, roundsCount) + roundsCount * this.iterationsPerRound;
+  }
+
+  generateSchedule(params: ScheduleParams): Schedule {
+    const seed = params.seed ?? generateSeed();
+    const initial = this.base.generateSchedule({ ...params, seed });
+    const random = createRandom(seed);
+    const budget = this.resolveBudget(params.localSearch);
+
+    const ctx = this.createContext(initial, [], params.weights);
+    const iterations = ctx.rounds.length * budget.iterationsPerRound;
+    const deadline = budget.timeLimitMs === null ? Infinity : Date.now() + budget.timeLimitMs;
+    for (let done = 0; done < iterations && Date.now() < deadline; done += ITERATIONS_PER_CHUNK) {
+      runSearchIterations(ctx, done, Math.min(done + ITERATIONS_PER_CHUNK, iterations), iterations, TEMPERATURES, random);
+    }
+    return this.buildResult(initial, ctx, [], params.weights, random);
+  }
+
+  async generateScheduleAsync(params: ScheduleParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
+    const seed = params.seed ?? generateSeed();
+    const { roundsCount } = params;
+    const budget = this.resolveBudget(params.localSearch);
+    const totalEvaluations =
+      this.base.estimateTotalEvaluations(params.playersCount, params.courtsCount, roundsCount) + roundsCount * budget.iterationsPerRound;
+
+    // 初期解（逐次決定法）の進捗はそのまま通知する
+    const initial = await this.base.generateScheduleAsync(
+      { ...params, seed },
+      {
+        onProgress: (progress) => callbacks.onProgress(this.scaleProgress(progress, totalEvaluations)),
+        onRoundComplete: callbacks.onRoundComplete,
+      },
+      signal,
+    );
+    const random = createRandom(seed);
+    const ctx = this.createContext(initial, [], params.weights);
+    await this.searchAsync(ctx, budget, roundsCount, roundsCount, totalEvaluations, callbacks, random, signal);
+    return this.buildResult(initial, ctx, [], params.weights, random);
+  }
+
+  async generateRemainingScheduleAsync(params: RegenerationParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
+    const seed = params.seed ?? generateSeed();
+    const { completedRounds, remainingRoundsCount } = params;
+    const totalRounds = completedRounds.length + remainingRoundsCount;
+    const budget = this.resolveBudget(params.localSearch);
+    const totalEvaluations = remainingRoundsCount + remainingRoundsCount * budget.iterationsPerRound;
+
+    const initial = await this.base.generateRemainingScheduleAsync(
+      { ...params, seed },
+      {
+        onProgress: (progress) => callbacks.onProgress(this.scaleProgress(progress, totalEvaluations)),
+        onRoundComplete: callbacks.onRoundComplete,
+      },
+      signal,
+    );
+    const random = createRandom(seed);
+    const ctx = this.createContext(initial, completedRounds, params.weights);
+    await this.searchAsync(ctx, budget, remainingRoundsCount, totalRounds, totalEvaluations, callbacks, random, signal);
+    return this.buildResult(initial, ctx, completedRounds, params.weights, random);
+  }
+
+  // === private メソッド ===
+
+  /**
+   * 生成ごとの予算をコンストラクタの既定値に重ねる
+   */
+  private resolveBudget(budget: LocalSearchBudget | undefined): ResolvedBudget {
+    return {
+      iterationsPerRound: budget?.iterationsPerRound ?? this.iterationsPerRound,
+      timeLimitMs: budget?.timeLimitMs ?? this.timeLimitMs,
+    };
+  }
+
+  /**
+   * 初期解から探索状態を作成する（completedRounds に含まれるラウンドは探索しない）
+   */
+  private createContext(initial: Schedule, completedRounds: Round[], weights: SearchContext["weights"]): SearchContext {
+    const completedNumbers = new Set(completedRounds.map((r) => r.roundNumber));
+    const searchRounds = initial.rounds.filter((r) => !completedNumbers.has(r.roundNumber));
+    const ratings = buildPlayerRatings(initial.roster, initial.players);
+    const state = completedRounds.length > 0
+      ? buildCumulativeStateForActivePlayers(completedRounds, initial.activePlayers, initial.players, ratings)
+      : createCumulativeState(initial.players, ratings);
+    const categories = initial.mixedDoubles ? buildPlayerCategories(initial.roster, initial.players) : null;
+    const constraints = buildPairConstraints(initial.players, initial.forbiddenPairs, initial.forbiddenOpponents, categories);
+    return createSearchContext(state, searchRounds, weights, constraints, initial.fixedPairs, initial.breaks, categories);
+  }
+
+  /**
+   * 進捗通知と中断確認を挟みながら探索する
+   */
+  private async searchAsync(
+    ctx: SearchContext,
+    budget: ResolvedBudget,
+    baseEvaluations: number,
+    totalRounds: number,
+    totalEvaluations: number,
+    callbacks: ProgressCallbacks,
+    random: Random,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const iterations = ctx.rounds.length * budget.iterationsPerRound;
+    const deadline = budget.timeLimitMs === null ? Infinity : Date.now() + budget.timeLimitMs;
+
+    for (let done = 0; done < iterations && Date.now() < deadline; done += ITERATIONS_PER_CHUNK) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const to = Math.min(done + ITERATIONS_PER_CHUNK, iterations);
+      runSearchIterations(ctx, done, to, iterations, TEMPERATURES, random);
+
+      const currentEvaluations = baseEvaluations + to;
+      callbacks.onProgress({
+        currentEvaluations,
+        totalEvaluations,
+        percentage: Math.round((currentEvaluations / totalEvaluations) * 100),
+        currentRound: totalRounds,
+        totalRounds,
+      });
+
+      // UIスレッドに制御を返す
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  /**
+   * 初期解の進捗を探索込みの総評価回数に換算する
+   */
+  private scaleProgress(progress: GenerationProgress, totalEvaluations: number): GenerationProgress {
+    return {
+      ...progress,
+      totalEvaluations,
+      percentage: Math.round((progress.currentEvaluations / totalEvaluations) * 100),
+    };
+  }
+
+  /**
+   * 探索の最良解からスケジュールを組み立て、評価を再計算する
+   */
+  private buildResult(
+    initial: Schedule,
+    ctx: SearchContext,
+    completedRounds: Round[],
+    weights: SearchContext["weights"],
+    random: Random,
+  ): Schedule {
+    const rounds = [...completedRounds, ...ctx.bestRounds.map((r) => toRound(r, random))];
+    rounds.sort((a, b) => a.roundNumber - b.roundNumber);
+
+    // 再生成時はアクティブプレイヤーのみで評価する（逐次決定法と同じ）
+    const ratings = buildPlayerRatings(initial.roster, initial.players);
+    let state: CumulativeState;
+    if (completedRounds.length > 0) {
+      state = buildCumulativeStateForActivePlayers(rounds, initial.activePlayers, initial.players, ratings);
+    } else {
+      state = createCumulativeState(initial.players, ratings);
+      for (const round of rounds) {
+        commitRoundToState(state, round);
+      }
+    }
+
+    // コートの割り当ては探索で並び順が変わるため、最良解に対して改めて均等化する
+    const courtRounds = initial.balanceCourts
+      ? balanceCourtAssignments(rounds, new Set(completedRounds.map((r) => r.roundNumber)))
+      : rounds;
+    return { ...initial, rounds: courtRounds, evaluation: evaluateFromState(state, weights) };
+  }
+}
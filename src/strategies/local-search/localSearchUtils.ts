@@ -0,0 +1,413 @@
+/**
+ * 局所探索（焼きなまし法）の探索状態と近傍操作
+ *
+ * スケジュールを「ラウンドごとのコート割り当て [p1, p2, p3, p4] と休憩者」で保持し、
+ * 近傍操作の前後で対象ラウンドを累積状態から外して入れ直すことで、Evaluation を O(courts) で更新する。
+ *
+ * 近傍操作（いずれも固定ペアを分断しない）:
+ * - プレイヤー交換: 別のペアにいる2人を入れ替える（コートをまたぐ交換を含む）
+ * - ペア交換: 別コートのペア同士を入れ替える（ペアは保ったまま対戦相手が変わる）
+ * - 休憩交換: 休憩者と出場者を入れ替える（固定ペアの休憩者はペア単位で入れ替える）
+ * - ラウンド間の休憩交換: ラウンドAで休憩しBで出場する人と、Aで出場しBで休憩する人の休憩するラウンドを入れ替える
+ *   （休憩回数を保ったまま出場するメンバーの組み合わせが変わる。対象の2ラウンドを外して入れ直す）
+ *
+ * ミックスダブルスでは、プレイヤー交換・休憩交換・ラウンド間の休憩交換を同じ区分のプレイヤー同士に限る
+ * （区分の異なる交換は必ずペア禁止の違反になり、採用されないため）。
+ * シングルスの試合は初期解のまま探索しない（累積状態には反映する）。
+ * 休憩中のプレイヤー（breaks）は休憩交換の対象にせず、休憩者のまま累積状態に反映する。
+ */
+
+import type { CumulativeState, FixedPair, PairConstraints, PlayerBreak, PlayerCategories, Round, SinglesMatch } from '../../types/schedule';
+import { evaluateFromState, shiftAttendanceInState } from '../../utils/evaluation';
+import { getPlayersOnBreak } from '../../utils/breaks';
+import { countConstraintViolations } from '../../utils/pairConstraints';
+import { calculateImbalance } from '../../utils/rating';
+import type { Random } from '../../utils/random';
+import { isSinglesMatch, mergeCourtMatches } from '../../utils/singles';
+import { buildNormalizedMatches } from '../sequential-decision/sequentialUtils';
+
+const FORBIDDEN_PENALTY = 10000; // ペア禁止・対戦禁止の違反ペナルティ
+const MOVE_ATTEMPTS = 8; // 適用できる近傍操作を探す試行回数
+const CROSS_ROUND_RATE = 0.25; // ラウンド間の休憩交換を選ぶ割合
+
+/** 1コートの割り当て: (p1, p2) vs (p3, p4) */
+export type CourtAssignment = [number, number, number, number];
+
+/**
+ * 探索対象の1ラウンド（探索中はその場で書き換える）
+ */
+export interface SearchRound {
+  roundNumber: number;
+  courts: CourtAssignment[]; // ダブルスのコート
+  singles: SinglesMatch[]; // シングルスの試合（探索しない）
+  singlesCourts: number[]; // シングルスのコートのインデックス（昇順）
+  resting: number[];
+  onBreak: number[]; // 休憩中のプレイヤー（休憩者に含めるが探索しない）
+}
+
+/**
+ * 局所探索の状態
+ */
+export interface SearchContext {
+  state: CumulativeState; // 固定ラウンドと探索対象ラウンドをすべて反映した累積状態
+  rounds: SearchRound[]; // 探索対象のラウンド（消化済みラウンドは含まない）
+  weights: { w1: number; w2: number; w3: number; w4: number };
+  constraints: PairConstraints | null;
+  fixedPartners: Map<number, number>; // 固定ペアの相方
+  categories: PlayerCategories | null; // ミックスダブルスの区分（ミックスダブルスでない場合は null）
+  violations: number; // 探索対象ラウンドのペア禁止・対戦禁止の違反数
+  score: number; // 現在の目的関数値
+  bestScore: number;
+  bestRounds: SearchRound[];
+}
+
+function cloneRounds(rounds: SearchRound[]): SearchRound[] {
+  return rounds.map((r) => ({
+    roundNumber: r.roundNumber,
+    courts: r.courts.map((c): CourtAssignment => [c[0], c[1], c[2], c[3]]),
+    singles: r.singles,
+    singlesCourts: r.singlesCourts,
+    resting: [...r.resting],
+    onBreak: r.onBreak,
+  }));
+}
+
+/** 行列の (a, b) 要素を delta だけ変化させ、上三角要素の sum / sumSq の変化量を返す */
+function shiftCount(matrix: number[][], a: number, b: number, delta: number): number {
+  const old = matrix[a - 1][b - 1];
+  const next = old + delta;
+  matrix[a - 1][b - 1] = next;
+  matrix[b - 1][a - 1] = next;
+  return next * next - old * old;
+}
+
+/**
+ * ラウンドを累積状態に反映する（sign = -1 で取り除く）
+ *
+ * pairMax・balanceMax は更新しない（目的関数は totalScore のみを使用するため）。
+ * 参加ラウンド数・休憩回数は shiftAttendanceInState で出場者・休憩者の全員分を更新する。
+ *
+ * 計算量: O(courts + resting)
+ */
+function applyRoundToState(state: CumulativeState, round: SearchRound, sign: 1 | -1): void {
+  for (const [p1, p2, p3, p4] of round.courts) {
+    state.pairSumSq += shiftCount(state.pairCounts, p1, p2, sign) + shiftCount(state.pairCounts, p3, p4, sign);
+    state.pairSum += 2 * sign;
+    state.oppoSumSq +=
+      shiftCount(state.oppoCounts, p1, p3, sign) +
+      shiftCount(state.oppoCounts, p1, p4, sign) +
+      shiftCount(state.oppoCounts, p2, p3, sign) +
+      shiftCount(state.oppoCounts, p2, p4, sign);
+    state.oppoSum += 4 * sign;
+    if (state.ratings) state.balanceSum += calculateImbalance(state.ratings, p1, p2, p3, p4) * sign;
+    for (const p of [p1, p2, p3, p4]) shiftAttendanceInState(state, p, false, sign);
+  }
+  for (const { playerA, playerB } of round.singles) {
+    state.oppoSumSq += shiftCount(state.oppoCounts, playerA, playerB, sign);
+    state.oppoSum += sign;
+    for (const p of [playerA, playerB]) {
+      const old = state.singlesCounts[p - 1];
+      const next = old + sign;
+      state.singlesCounts[p - 1] = next;
+      state.singlesSum += sign;
+      state.singlesSumSq += next * next - old * old;
+      shiftAttendanceInState(state, p, false, sign);
+    }
+    if (state.ratings) state.balanceSum += Math.abs(state.ratings[playerA - 1] - state.ratings[playerB - 1]) * sign;
+  }
+  for (const p of round.resting) shiftAttendanceInState(state, p, true, sign);
+  for (const p of round.onBreak) shiftAttendanceInState(state, p, true, sign);
+}
+
+function computeScore(ctx: SearchContext): number {
+  return evaluateFromState(ctx.state, ctx.weights).totalScore + ctx.violations * FORBIDDEN_PENALTY;
+}
+
+/**
+ * Round を探索用の表現に変換する
+ *
+ * @param onBreak - 休憩中のプレイヤー（休憩者から分けて保持する、省略時はなし）
+ */
+export function toSearchRound(round: Round, onBreak: number[] = []): SearchRound {
+  const courts: CourtAssignment[] = [];
+  const singles: SinglesMatch[] = [];
+  const singlesCourts: number[] = [];
+  round.matches.forEach((m, c) => {
+    if (isSinglesMatch(m)) {
+      singles.push(m);
+      singlesCourts.push(c);
+    } else {
+      courts.push([m.pairA.player1, m.pairA.player2, m.pairB.player1, m.pairB.player2]);
+    }
+  });
+  const resting = round.restingPlayers.filter((p) => !onBreak.includes(p));
+  return { roundNumber: round.roundNumber, courts, singles, singlesCourts, resting, onBreak };
+}
+
+/**
+ * 探索用の表現を正規化済みの Round に戻す
+ */
+export function toRound(round: SearchRound, random: Random): Round {
+  return {
+    roundNumber: round.roundNumber,
+    matches: mergeCourtMatches(buildNormalizedMatches(round.courts, random), round.singles, round.singlesCourts),
+    restingPlayers: [...round.resting, ...round.onBreak].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * 探索状態を作成する
+ *
+ * @param state - 消化済みラウンド（探索しない）のみを反映した累積状態（その場で変更する）
+ * @param rounds - 探索対象のラウンド
+ * @param weights - 評価の重み
+ * @param constraints - ペア禁止・対戦禁止（なしの場合は null）
+ * @param fixedPairs - 固定ペア
+ * @param breaks - 休憩中のプレイヤー（省略時はなし）
+ * @param categories - ミックスダブルスの区分（省略時は区分を考慮しない）
+ */
+export function createSearchContext(
+  state: CumulativeState,
+  rounds: Round[],
+  weights: { w1: number; w2: number; w3: number; w4: number },
+  constraints: PairConstraints | null,
+  fixedPairs: FixedPair[],
+  breaks?: PlayerBreak[],
+  categories: PlayerCategories | null = null,
+): SearchContext {
+  const searchRounds = rounds.map((r) => toSearchRound(r, getPlayersOnBreak(r.restingPlayers, breaks, r.roundNumber)));
+  let violations = 0;
+  for (const round of searchRounds) {
+    applyRoundToState(state, round, 1);
+    violations += countConstraintViolations(constraints, round.courts);
+  }
+
+  const fixedPartners = new Map<number, number>();
+  for (const fp of fixedPairs) {
+    fixedPartners.set(fp.player1, fp.player2);
+    fixedPartners.set(fp.player2, fp.player1);
+  }
+
+  const ctx: SearchContext = {
+    state,
+    rounds: searchRounds,
+    weights,
+    constraints,
+    fixedPartners,
+    categories,
+    violations,
+    score: 0,
+    bestScore: 0,
+    bestRounds: cloneRounds(searchRounds),
+  };
+  ctx.score = computeScore(ctx);
+  ctx.bestScore = ctx.score;
+  return ctx;
+}
+
+/** 交換しても区分が変わらないか（区分を考慮しない場合は常に true） */
+function isSameCategory(categories: PlayerCategories | null, a: number, b: number): boolean {
+  return categories === null || categories[a - 1] === categories[b - 1];
+}
+
+/** コート割り当てを平坦化した位置（0〜courts×4-1）の値を入れ替える */
+function swapPositions(round: SearchRound, i: number, j: number): void {
+  const a = round.courts[i >> 2];
+  const b = round.courts[j >> 2];
+  const tmp = a[i & 3];
+  a[i & 3] = b[j & 3];
+  b[j & 3] = tmp;
+}
+
+/** 出場位置と休憩者を入れ替える */
+function swapWithResting(round: SearchRound, position: number, restIndex: number): void {
+  const court = round.courts[position >> 2];
+  const tmp = court[position & 3];
+  court[position & 3] = round.resting[restIndex];
+  round.resting[restIndex] = tmp;
+}
+
+/**
+ * ラウンドにランダムな近傍操作を1つ適用する
+ *
+ * @returns 操作を取り消す関数（適用できる操作が見つからない場合は null）
+ */
+function applyRandomMove(
+  round: SearchRound,
+  fixedPartners: Map<number, number>,
+  categories: PlayerCategories | null,
+  random: Random,
+): (() => void) | null {
+  const positions = round.courts.length * 4;
+  if (positions === 0) return null; // ダブルスのコートがない（シングルスのみ）
+  const isFree = (player: number) => !fixedPartners.has(player);
+
+  for (let attempt = 0; attempt < MOVE_ATTEMPTS; attempt++) {
+    const kind = Math.floor(random() * 3);
+
+    if (kind === 0) {
+      // プレイヤー交換（固定ペアのメンバーと区分の異なるプレイヤー同士は対象外）
+      const i = Math.floor(random() * positions);
+      const j = Math.floor(random() * positions);
+      if (i >> 1 === j >> 1) continue;
+      const player1 = round.courts[i >> 2][i & 3];
+      const player2 = round.courts[j >> 2][j & 3];
+      if (!isFree(player1) || !isFree(player2) || !isSameCategory(categories, player1, player2)) continue;
+      swapPositions(round, i, j);
+      return () => swapPositions(round, i, j);
+    }
+
+    if (kind === 1) {
+      // ペア交換（別コートのペア同士）
+      if (round.courts.length < 2) continue;
+      const s = Math.floor(random() * (positions / 2));
+      const t = Math.floor(random() * (positions / 2));
+      if (s >> 1 === t >> 1) continue;
+      const swapSlots = () => {
+        swapPositions(round, s * 2, t * 2);
+        swapPositions(round, s * 2 + 1, t * 2 + 1);
+      };
+      swapSlots();
+      return swapSlots;
+    }
+
+    // 休憩交換
+    if (round.resting.length === 0) continue;
+    const r = Math.floor(random() * round.resting.length);
+    const restingPlayer = round.resting[r];
+    const partner = fixedPartners.get(restingPlayer);
+    if (partner === undefined) {
+      const k = Math.floor(random() * positions);
+      const playing = round.courts[k >> 2][k & 3];
+      if (!isFree(playing) || !isSameCategory(categories, playing, restingPlayer)) continue;
+      swapWithResting(round, k, r);
+      return () => swapWithResting(round, k, r);
+    }
+
+    // 固定ペアの休憩者: ペア単位で出場ペアと入れ替える
+    const r2 = round.resting.indexOf(partner);
+    if (r2 < 0) continue;
+    const s = Math.floor(random() * (positions / 2));
+    const swapPair = () => {
+      swapWithResting(round, s * 2, r);
+      swapWithResting(round, s * 2 + 1, r2);
+    };
+    swapPair();
+    return swapPair;
+  }
+  return null;
+}
+
+/** ダブルスのコート割り当てを平坦化した位置でプレイヤーを探す（出場していない場合は -1） */
+function findPosition(round: SearchRound, player: number): number {
+  for (let c = 0; c < round.courts.length; c++) {
+    const i = round.courts[c].indexOf(player);
+    if (i >= 0) return c * 4 + i;
+  }
+  return -1;
+}
+
+/**
+ * 2つのラウンドの間で休憩するラウンドを入れ替える近傍操作を1つ適用する
+ *
+ * a で休憩し b のダブルスに出場するプレイヤー x と、a のダブルスに出場し b で休憩するプレイヤー y を選び、
+ * a では x が y の位置に入り、b では y が x の位置に入る（x・y の休憩回数は変わらない）。
+ * 固定ペアのメンバーと休憩中のプレイヤー（onBreak）、区分の異なるプレイヤー同士は対象外。
+ *
+ * @returns 操作を取り消す関数（適用できる操作が見つからない場合は null）
+ */
+function applyCrossRoundMove(
+  a: SearchRound,
+  b: SearchRound,
+  fixedPartners: Map<number, number>,
+  categories: PlayerCategories | null,
+  random: Random,
+): (() => void) | null {
+  if (a.resting.length === 0 || b.resting.length === 0) return null;
+
+  for (let attempt = 0; attempt < MOVE_ATTEMPTS; attempt++) {
+    const ra = Math.floor(random() * a.resting.length);
+    const rb = Math.floor(random() * b.resting.length);
+    const x = a.resting[ra];
+    const y = b.resting[rb];
+    if (fixedPartners.has(x) || fixedPartners.has(y) || !isSameCategory(categories, x, y)) continue;
+    const kb = findPosition(b, x);
+    const ka = findPosition(a, y);
+    if (ka < 0 || kb < 0) continue;
+    const swapRounds = () => {
+      swapWithResting(a, ka, ra);
+      swapWithResting(b, kb, rb);
+    };
+    swapRounds();
+    return swapRounds;
+  }
+  return null;
+}
+
+/**
+ * 焼きなまし法の反復を実行する
+ *
+ * 温度は反復番号に応じて initialTemperature から finalTemperature まで指数的に下げる。
+ * 改善する操作は常に採用し、悪化する操作は exp(-Δ / 温度) の確率で採用する。
+ * 反復ごとに CROSS_ROUND_RATE の割合で2ラウンド間の休憩交換を、それ以外は1ラウンド内の近傍操作を試す。
+ * 最良解は ctx.bestRounds に保持する。
+ *
+ * @param ctx - 探索状態（その場で更新）
+ * @param from - 開始する反復番号
+ * @param to - 終了する反復番号（この番号は含まない）
+ * @param totalIterations - 全体の反復回数（温度計算用）
+ * @param temperatures - 初期温度と最終温度
+ * @param random - 乱数生成関数
+ *
+ * 計算量: O((to - from) × (courts + resting))
+ */
+export function runSearchIterations(
+  ctx: SearchContext,
+  from: number,
+  to: number,
+  totalIterations: number,
+  temperatures: { initial: number; final: number },
+  random: Random,
+): void {
+  if (ctx.rounds.length === 0) return;
+  const cooling = Math.log(temperatures.final / temperatures.initial);
+
+  for (let iteration = from; iteration < to; iteration++) {
+    const temperature = temperatures.initial * Math.exp((cooling * iteration) / totalIterations);
+    const index = Math.floor(random() * ctx.rounds.length);
+    const round = ctx.rounds[index];
+    let targets = [round];
+    if (ctx.rounds.length >= 2 && random() < CROSS_ROUND_RATE) {
+      const other = Math.floor(random() * (ctx.rounds.length - 1));
+      targets = [round, ctx.rounds[other >= index ? other + 1 : other]];
+    }
+
+    const countViolations = () => targets.reduce((sum, r) => sum + countConstraintViolations(ctx.constraints, r.courts), 0);
+    const violationsBefore = countViolations();
+    for (const r of targets) applyRoundToState(ctx.state, r, -1);
+    const undo = targets.length === 2
+      ? applyCrossRoundMove(targets[0], targets[1], ctx.fixedPartners, ctx.categories, random)
+      : applyRandomMove(round, ctx.fixedPartners, ctx.categories, random);
+    for (const r of targets) applyRoundToState(ctx.state, r, 1);
+    if (undo === null) continue;
+    const violationsAfter = countViolations();
+    ctx.violations += violationsAfter - violationsBefore;
+
+    const nextScore = computeScore(ctx);
+    const delta = nextScore - ctx.score;
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      ctx.score = nextScore;
+      if (nextScore < ctx.bestScore - 1e-12) {
+        ctx.bestScore = nextScore;
+        ctx.bestRounds = cloneRounds(ctx.rounds);
+      }
+      continue;
+    }
+
+    // 不採用: 操作を取り消す
+    for (const r of targets) applyRoundToState(ctx.state, r, -1);
+    undo();
+    for (const r of targets) applyRoundToState(ctx.state, r, 1);
+    ctx.violations -= violationsAfter - violationsBefore;
+  }
+}
@@ -6,11 +6,15 @@
 
 import type { ScheduleStrategy, StrategyId, StrategyMeta } from "./types";
 import { SequentialDecisionStrategy } from "./sequential-decision";
+import { LocalSearchStrategy } from "./local-search";
+import { ExhaustiveStrategy } from "./exhaustive";
 
 const strategies: Map<StrategyId, ScheduleStrategy> = new Map();
 
 // ストラテジーを登録
 strategies.set("sequential-decision", new SequentialDecisionStrategy());
+strategies.set("local-search", new LocalSearchStrategy());
+strategies.set("exhaustive", new ExhaustiveStrategy());
 
 /**
  * デフォルトのストラテジーID
@@ -28,6 +32,13 @@ export function getStrategy(id: StrategyId): ScheduleStrategy {
   return strategy;
 }
 
+/**
+ * 登録済みのストラテジーIDか判定する（保存済みセッションなど外部データの検証用）
+ */
+export function isRegisteredStrategy(id: string): id is StrategyId {
+  return strategies.has(id as StrategyId);
+}
+
 /**
  * 利用可能なストラテジーのメタ情報一覧を取得する
  */
@@ -35,6 +46,14 @@ export function getAvailableStrategies(): StrategyMeta[] {
   return Array.from(strategies.values()).map((s) => s.meta);
 }
 
+/**
+ * 指定した規模でストラテジーを使用できるか判定する
+ */
+export function supportsSize(meta: StrategyMeta, courtsCount: number, playersCount: number): boolean {
+  if (!meta.limits) return true;
+  return courtsCount <= meta.limits.maxCourts && playersCount <= meta.limits.maxPlayers;
+}
+
 /**
  * 新しいストラテジーを登録する
  */
@@ -5,25 +5,53 @@
  * 1. 各ラウンドで、コートごとにプレイヤーを1人ずつ制約付きでランダム選択
  * 2. 制約（未ペア・未対戦）を満たせない場合はラウンド全体をリトライ
  * 3. 高速（O(R × C × N)）だが、解の品質は貪欲法に劣る可能性がある
+ *
+ * コート数の変更（courtChanges）がある場合、各ラウンドはそのラウンドのコート数で生成する。
+ * 休憩者は累積の休憩回数が少ない順に選ぶため、休憩人数がラウンドごとに変わっても休憩回数は均等になる。
+ * コートの均等化（balanceCourts）を指定した場合は、生成後に各ラウンドの試合のコートを入れ替える。
+ * シングルスコート（singlesCourts）を指定した場合、人数が足りないラウンドは先にシングルスの出場者を
+ * シングルス出場回数の少ない順に選び、残りの出場者でダブルスのコートを逐次決定する。
+ * 参加できるラウンドの範囲（availability）を指定した場合、各ラウンドは範囲内のプレイヤーだけで生成し、
+ * 休憩者は参加ラウンド数に対する休憩回数の割合で選ぶ。
+ * 再生成時に休憩中のプレイヤー（breaks）がいる場合、そのラウンドは休憩中のプレイヤーを除いて生成し、休憩者に加える。
+ * 休憩した回数として数えるため、戻ったあとは休憩回数の多いプレイヤーとして優先して出場する。
  */
 
 import type { ScheduleStrategy, StrategyMeta, ProgressCallbacks } from "../types";
-import type { Schedule, ScheduleParams, RegenerationParams, Round, Match, CountMatrix, FixedPair } from "../../types/schedule";
+import type { Schedule, ScheduleParams, RegenerationParams, Round, Match, CountMatrix, FixedPair, PlayerRatings, PairConstraints, PlayerCategories } from "../../types/schedule";
 import { createInitialArrangement } from "../../utils/permutation";
 import { arrangementToRoundWithRest } from "../../utils/normalization";
+import { createRandom, generateSeed, shuffle, type Random } from "../../utils/random";
 import {
   initializeCountMatrix,
   initializeRestCounts,
   updateCountMatrices,
   updateRestCounts,
+  updateSinglesCounts,
+  updateAttendedCounts,
   createCumulativeState,
   commitRoundToState,
   evaluateFromState,
   buildCumulativeStateForActivePlayers,
   extractPreviousOpponents,
 } from "../../utils/evaluation";
+import { buildPlayerRatings, calculateImbalance } from "../../utils/rating";
+import { buildPairConstraints, canOppose, countConstraintViolations } from "../../utils/pairConstraints";
+import { buildPlayerCategories } from "../../utils/mixedDoubles";
+import { getCourtsForRound } from "../../utils/courtChanges";
+import { assertEnoughPlayers, getAvailablePlayers } from "../../utils/availability";
+import { addPlayersOnBreak, getPlayersOnBreak } from "../../utils/breaks";
+import { balanceCourtAssignments } from "../../utils/courtAssignment";
+import {
+  getMatchPlayers,
+  getSinglesCourtsForRound,
+  countPlayingPlayers,
+  selectSinglesPlayers,
+  buildSinglesMatches,
+  createSinglesMatch,
+  mergeCourtMatches,
+} from "../../utils/singles";
 import {
-  shuffle,
   selectRestingPlayers,
   tryAssignCourtWithBacktracking,
   tryAssignCourtWithBacktrackingFixedPairs,
@@ -42,6 +70,17 @@ const MAX_RETRY_SOFT = 100; // Phase2   ソフト制約
 const PAIR_MAX_PENALTY = 100; // 最大ペア制約
 const OPPO_MAX_PENALTY = 100; // 最大対戦制約
 const CONSECUTIVE_OPPONENT_PENALTY = 100; // 連続対戦ペナルティ
+const FORBIDDEN_PENALTY = 10000; // ペア禁止・対戦禁止の違反ペナルティ
+const BALANCE_CANDIDATES = 20; // Phase1   チーム力差評価時に比較する候補数
+
+/**
+ * チーム力差の評価設定（レベル未設定または重み0の場合は null）
+ */
+type BalanceOption = { ratings: PlayerRatings; weight: number } | null;
+
+function createBalanceOption(ratings: PlayerRatings | null, weight: number): BalanceOption {
+  return ratings && weight > 0 ? { ratings, weight } : null;
+}
 
 export class SequentialDecisionStrategy implements ScheduleStrategy {
   readonly meta: StrategyMeta = {
@@ -57,29 +96,45 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
 
   generateSchedule(params: ScheduleParams): Schedule {
     const { courtsCount, playersCount, roundsCount, weights, fixedPairs } = params;
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
 
     const allPlayers = createInitialArrangement(playersCount);
+    const ratings = buildPlayerRatings(params.roster ?? [], playersCount);
+    const balance = createBalanceOption(ratings, weights.w4);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], playersCount) : null;
+    const constraints = buildPairConstraints(playersCount, forbiddenPairs, forbiddenOpponents, categories);
     const pairHistory = initializeCountMatrix(playersCount);
     const opponentHistory = initializeCountMatrix(playersCount);
     const restCounts = initializeRestCounts(playersCount);
+    const attendedCounts = initializeRestCounts(playersCount);
+    const singlesCounts = initializeRestCounts(playersCount);
     const rounds: Round[] = [];
+    const roundNumbers = Array.from({ length: roundsCount }, (_, i) => i + 1);
+    assertEnoughPlayers(roundNumbers, (r) => getAvailablePlayers(allPlayers, params.availability, r), (r) => getCourtsForRound(courtsCount, params.courtChanges, r), params.singlesCourts);
 
     // ラウンド1: 固定配置
-    const firstRound = this.createFirstRound(allPlayers, courtsCount);
+    const firstRound = this.createFirstRound(getAvailablePlayers(allPlayers, params.availability, 1), getCourtsForRound(courtsCount, params.courtChanges, 1), params.singlesCourts, fixedPairs, constraints, categories, random);
     rounds.push(firstRound);
     updateCountMatrices(firstRound, pairHistory, opponentHistory);
     updateRestCounts(firstRound, restCounts);
+    updateAttendedCounts(firstRound, attendedCounts);
+    updateSinglesCounts(firstRound, singlesCounts);
 
     // ラウンド2以降: ランダム逐次決定
     for (let r = 2; r <= roundsCount; r++) {
       const previousRound = rounds[rounds.length - 1];
-      const round = this.generateRound(r, allPlayers, courtsCount, pairHistory, opponentHistory, restCounts, fixedPairs, previousRound);
+      const round = this.generateRound(r, getAvailablePlayers(allPlayers, params.availability, r), getCourtsForRound(courtsCount, params.courtChanges, r), params.singlesCourts, pairHistory, opponentHistory, restCounts, attendedCounts, singlesCounts, fixedPairs, previousRound, balance, constraints, categories, random);
       rounds.push(round);
       updateCountMatrices(round, pairHistory, opponentHistory);
       updateRestCounts(round, restCounts);
+      updateAttendedCounts(round, attendedCounts);
+      updateSinglesCounts(round, singlesCounts);
     }
 
-    const cumulativeState = createCumulativeState(playersCount);
+    const cumulativeState = createCumulativeState(playersCount, ratings);
     for (const round of rounds) {
       commitRoundToState(cumulativeState, round);
     }
@@ -88,21 +143,44 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
     return {
       courts: courtsCount,
       players: playersCount,
-      rounds,
+      rounds: params.balanceCourts ? balanceCourtAssignments(rounds) : rounds,
       evaluation,
       fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
       activePlayers: allPlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
     };
   }
 
   async generateScheduleAsync(params: ScheduleParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
     const { courtsCount, playersCount, roundsCount, weights, fixedPairs } = params;
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
 
     const allPlayers = createInitialArrangement(playersCount);
+    const ratings = buildPlayerRatings(params.roster ?? [], playersCount);
+    const balance = createBalanceOption(ratings, weights.w4);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], playersCount) : null;
+    const constraints = buildPairConstraints(playersCount, forbiddenPairs, forbiddenOpponents, categories);
     const pairHistory = initializeCountMatrix(playersCount);
     const opponentHistory = initializeCountMatrix(playersCount);
     const restCounts = initializeRestCounts(playersCount);
+    const attendedCounts = initializeRestCounts(playersCount);
+    const singlesCounts = initializeRestCounts(playersCount);
     const rounds: Round[] = [];
+    const roundNumbers = Array.from({ length: roundsCount }, (_, i) => i + 1);
+    assertEnoughPlayers(roundNumbers, (r) => getAvailablePlayers(allPlayers, params.availability, r), (r) => getCourtsForRound(courtsCount, params.courtChanges, r), params.singlesCourts);
 
     callbacks.onProgress({
       currentEvaluations: 0,
@@ -113,10 +191,12 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
     });
 
     // ラウンド1: 固定配置
-    const firstRound = this.createFirstRound(allPlayers, courtsCount);
+    const firstRound = this.createFirstRound(getAvailablePlayers(allPlayers, params.availability, 1), getCourtsForRound(courtsCount, params.courtChanges, 1), params.singlesCourts, fixedPairs, constraints, categories, random);
     rounds.push(firstRound);
     updateCountMatrices(firstRound, pairHistory, opponentHistory);
     updateRestCounts(firstRound, restCounts);
+    updateAttendedCounts(firstRound, attendedCounts);
+    updateSinglesCounts(firstRound, singlesCounts);
     callbacks.onRoundComplete?.([...rounds], 1);
     callbacks.onProgress({
       currentEvaluations: 1,
@@ -133,10 +213,12 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       }
 
       const previousRound = rounds[rounds.length - 1];
-      const round = this.generateRound(r, allPlayers, courtsCount, pairHistory, opponentHistory, restCounts, fixedPairs, previousRound);
+      const round = this.generateRound(r, getAvailablePlayers(allPlayers, params.availability, r), getCourtsForRound(courtsCount, params.courtChanges, r), params.singlesCourts, pairHistory, opponentHistory, restCounts, attendedCounts, singlesCounts, fixedPairs, previousRound, balance, constraints, categories, random);
       rounds.push(round);
       updateCountMatrices(round, pairHistory, opponentHistory);
       updateRestCounts(round, restCounts);
+      updateAttendedCounts(round, attendedCounts);
+      updateSinglesCounts(round, singlesCounts);
 
       callbacks.onRoundComplete?.([...rounds], r);
       callbacks.onProgress({
@@ -151,7 +233,7 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       await new Promise((resolve) => setTimeout(resolve, 0));
     }
 
-    const cumulativeState = createCumulativeState(playersCount);
+    const cumulativeState = createCumulativeState(playersCount, ratings);
     for (const round of rounds) {
       commitRoundToState(cumulativeState, round);
     }
@@ -160,39 +242,58 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
     return {
       courts: courtsCount,
       players: playersCount,
-      rounds,
+      rounds: params.balanceCourts ? balanceCourtAssignments(rounds) : rounds,
       evaluation,
       fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
       activePlayers: allPlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
     };
   }
 
   async generateRemainingScheduleAsync(params: RegenerationParams, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
     const { courtsCount, completedRounds, activePlayers, remainingRoundsCount, weights, fixedPairs } = params;
-
-    if (activePlayers.length < courtsCount * 4) {
-      throw new Error(`参加者数（${activePlayers.length}人）がコート数（${courtsCount}面）に必要な${courtsCount * 4}人を下回っています`);
-    }
+    const forbiddenPairs = params.forbiddenPairs ?? [];
+    const forbiddenOpponents = params.forbiddenOpponents ?? [];
+    const seed = params.seed ?? generateSeed();
+    const random = createRandom(seed);
 
     let maxPlayerNumber = Math.max(...activePlayers);
     for (const round of completedRounds) {
       for (const match of round.matches) {
-        maxPlayerNumber = Math.max(maxPlayerNumber, match.pairA.player1, match.pairA.player2, match.pairB.player1, match.pairB.player2);
+        maxPlayerNumber = Math.max(maxPlayerNumber, ...getMatchPlayers(match));
       }
       for (const player of round.restingPlayers) {
         maxPlayerNumber = Math.max(maxPlayerNumber, player);
       }
     }
     const allRounds: Round[] = [...completedRounds];
+    const ratings = buildPlayerRatings(params.roster ?? [], maxPlayerNumber);
+    const balance = createBalanceOption(ratings, weights.w4);
+    const categories = params.mixedDoubles ? buildPlayerCategories(params.roster ?? [], maxPlayerNumber) : null;
+    const constraints = buildPairConstraints(maxPlayerNumber, forbiddenPairs, forbiddenOpponents, categories);
 
     // 完了済みラウンドから履歴を再構築
     const pairHistory = initializeCountMatrix(maxPlayerNumber);
     const opponentHistory = initializeCountMatrix(maxPlayerNumber);
     const restCounts = initializeRestCounts(maxPlayerNumber);
+    const attendedCounts = initializeRestCounts(maxPlayerNumber);
+    const singlesCounts = initializeRestCounts(maxPlayerNumber);
 
     for (const round of completedRounds) {
       updateCountMatrices(round, pairHistory, opponentHistory);
       updateRestCounts(round, restCounts);
+      updateAttendedCounts(round, attendedCounts);
+      updateSinglesCounts(round, singlesCounts);
     }
 
     const totalRounds = completedRounds.length + remainingRoundsCount;
@@ -206,6 +307,19 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       }
     }
 
+    // 生成する各ラウンドで、参加できる人数（休憩中のプレイヤーを除く）がコート数に必要な人数以上か確認する
+    // （シングルスにできるコートは2人で数える）
+    assertEnoughPlayers(
+      freeRoundNumbers.slice(0, remainingRoundsCount),
+      (n) => {
+        const available = getAvailablePlayers(activePlayers, params.availability, n);
+        const onBreak = getPlayersOnBreak(available, params.breaks, n);
+        return available.filter((p) => !onBreak.includes(p));
+      },
+      (n) => getCourtsForRound(courtsCount, params.courtChanges, n),
+      params.singlesCourts,
+    );
+
     callbacks.onProgress({
       currentEvaluations: 0,
       totalEvaluations: remainingRoundsCount,
@@ -216,6 +330,11 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
 
     for (let i = 0; i < remainingRoundsCount; i++) {
       const roundNumber = freeRoundNumbers[i];
+      const roundCourts = getCourtsForRound(courtsCount, params.courtChanges, roundNumber);
+      const availablePlayers = getAvailablePlayers(activePlayers, params.availability, roundNumber);
+      // 休憩中のプレイヤーは出場者・休憩者の選択から外し、生成後に休憩者に加える
+      const onBreak = getPlayersOnBreak(availablePlayers, params.breaks, roundNumber);
+      const roundPlayers = availablePlayers.filter((p) => !onBreak.includes(p));
 
       if (signal?.aborted) {
         throw new DOMException("Generation cancelled", "AbortError");
@@ -225,23 +344,33 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       let round: Round;
       if (previousRound === undefined) {
         // 消化済ラウンドなし: 固定配置で最初のラウンドを生成
-        round = this.createFirstRound(activePlayers, courtsCount);
+        round = this.createFirstRound(roundPlayers, roundCourts, params.singlesCourts, fixedPairs, constraints, categories, random);
         round = { ...round, roundNumber };
       } else {
         round = this.generateRound(
           roundNumber,
-          activePlayers,
-          courtsCount,
+          roundPlayers,
+          roundCourts,
+          params.singlesCourts,
           pairHistory,
           opponentHistory,
           restCounts,
+          attendedCounts,
+          singlesCounts,
           fixedPairs,
           previousRound,
+          balance,
+          constraints,
+          categories,
+          random,
         );
       }
+      round = addPlayersOnBreak(round, onBreak);
       allRounds.push(round);
       updateCountMatrices(round, pairHistory, opponentHistory);
       updateRestCounts(round, restCounts);
+      updateAttendedCounts(round, attendedCounts);
+      updateSinglesCounts(round, singlesCounts);
 
       callbacks.onRoundComplete?.([...allRounds], roundNumber);
       callbacks.onProgress({
@@ -259,16 +388,28 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
     allRounds.sort((a, b) => a.roundNumber - b.roundNumber);
 
     // 最終評価はアクティブプレイヤーのみで計算
-    const cumulativeState = buildCumulativeStateForActivePlayers(allRounds, activePlayers, maxPlayerNumber);
+    const cumulativeState = buildCumulativeStateForActivePlayers(allRounds, activePlayers, maxPlayerNumber, ratings);
     const evaluation = evaluateFromState(cumulativeState, weights);
 
     return {
       courts: courtsCount,
       players: maxPlayerNumber,
-      rounds: allRounds,
+      rounds: params.balanceCourts ? balanceCourtAssignments(allRounds, new Set(completedRounds.map((r) => r.roundNumber))) : allRounds,
       evaluation,
       fixedPairs,
+      forbiddenPairs,
+      forbiddenOpponents,
       activePlayers,
+      roster: params.roster ?? [],
+      seed,
+      mixedDoubles: params.mixedDoubles ?? false,
+      courtChanges: params.courtChanges ?? [],
+      courtNames: params.courtNames ?? [],
+      balanceCourts: params.balanceCourts ?? false,
+      singlesCourts: params.singlesCourts ?? [],
+      timePlan: params.timePlan,
+      availability: params.availability,
+      breaks: params.breaks,
     };
   }
 
@@ -279,47 +420,124 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
    *
    * プレイヤーを昇順に並べて正規化形式のラウンドを返す。
    * 例: 8人2コート → (1,2 : 3,4) (5,6 : 7,8)
+   * シングルスにするコートがある場合は、ダブルスの後に続く2人ずつをシングルスにする。
+   * 例: 10人3コート（コート3がシングルス） → (1,2 : 3,4) (5,6 : 7,8) (9 : 10)
+   * 固定配置がペア禁止・対戦禁止（ミックスダブルスの区分制約を含む）に違反する場合は、
+   * 履歴なしの状態から逐次決定で生成する。
    */
-  private createFirstRound(allPlayers: number[], courtsCount: number): Round {
-    const playingCount = courtsCount * 4;
-    const playingPlayers = allPlayers.slice(0, playingCount);
+  private createFirstRound(
+    allPlayers: number[],
+    courtsCount: number,
+    singlesCourts: number[] | undefined,
+    fixedPairs: FixedPair[],
+    constraints: PairConstraints | null,
+    categories: PlayerCategories | null,
+    random: Random,
+  ): Round {
+    const singlesCourtIndices = getSinglesCourtsForRound(singlesCourts, courtsCount, allPlayers.length);
+    const doublesCourts = courtsCount - singlesCourtIndices.length;
+    const doublesCount = doublesCourts * 4;
+    const playingCount = countPlayingPlayers(courtsCount, singlesCourtIndices.length);
+    const doublesPlayers = allPlayers.slice(0, doublesCount);
+    const singlesPlayers = allPlayers.slice(doublesCount, playingCount);
     const restingPlayers = allPlayers.slice(playingCount);
-    return arrangementToRoundWithRest(playingPlayers, courtsCount, 1, restingPlayers);
+    const doublesRound = arrangementToRoundWithRest(doublesPlayers, doublesCourts, 1, restingPlayers, random);
+    const singlesMatches = Array.from({ length: singlesCourtIndices.length }, (_, i) =>
+      createSinglesMatch(singlesPlayers[i * 2], singlesPlayers[i * 2 + 1])
+    );
+    const round: Round = { ...doublesRound, matches: mergeCourtMatches(doublesRound.matches, singlesMatches, singlesCourtIndices) };
+    if (constraints === null) return round;
+
+    const assignments = doublesRound.matches.map((m): [number, number, number, number] => {
+      const [a1, a2, b1, b2] = getMatchPlayers(m);
+      return [a1, a2, b1, b2];
+    });
+    const singlesViolations = singlesMatches.filter((m) => !canOppose(constraints, m.playerA, m.playerB)).length;
+    if (countConstraintViolations(constraints, assignments) + singlesViolations === 0) return round;
+
+    const n = Math.max(...allPlayers);
+    const emptyRound: Round = { roundNumber: 0, matches: [], restingPlayers: [] };
+    return this.generateRound(
+      1,
+      allPlayers,
+      courtsCount,
+      singlesCourts,
+      initializeCountMatrix(n),
+      initializeCountMatrix(n),
+      initializeRestCounts(n),
+      initializeRestCounts(n),
+      initializeRestCounts(n),
+      fixedPairs,
+      emptyRound,
+      null,
+      constraints,
+      categories,
+      random,
+    );
   }
 
   /**
    * 1ラウンドを生成する（3フェーズ: バックトラック → スコアリングフォールバック → ペア重複修正）
+   *
+   * チーム力差を評価する場合（balance が非 null）、Phase 1 は最初に見つかった解を採用せず、
+   * 制約を満たす候補を最大 BALANCE_CANDIDATES 件集めて quickEvaluate が最小のものを採用する。
+   *
+   * ペア禁止・対戦禁止（constraints）は Phase 1/1.5 でハード制約、Phase 2 で大きなペナルティとして扱い、
+   * Phase 3 の修正でも違反する組み合わせは採用しない。
+   * ミックスダブルス（categories が非 null）では同じ区分のペアも constraints のペア禁止に含まれ、
+   * 休憩者は出場者が男女同数になるよう区分ごとに選ぶ。
+   * シングルスにするコートがある場合は、出場者からシングルスの出場者を選んで対戦を決め、
+   * 残りの出場者でダブルスのコート（3フェーズ）を決める。
+   * allPlayers はこのラウンドに参加できるプレイヤー（参加できるラウンドの範囲外のプレイヤーは含めない）。
    */
   private generateRound(
     roundNumber: number,
     allPlayers: number[],
     courtsCount: number,
+    singlesCourts: number[] | undefined,
     pairHistory: CountMatrix,
     opponentHistory: CountMatrix,
     restCounts: number[],
+    attendedCounts: number[],
+    singlesCounts: number[],
     fixedPairs: FixedPair[],
     previousRound: Round,
+    balance: BalanceOption,
+    constraints: PairConstraints | null,
+    categories: PlayerCategories | null,
+    random: Random,
   ): Round {
-    const playingCount = courtsCount * 4;
+    const singlesCourtIndices = getSinglesCourtsForRound(singlesCourts, courtsCount, allPlayers.length);
+    const playingCount = countPlayingPlayers(courtsCount, singlesCourtIndices.length);
     const restCount = allPlayers.length - playingCount;
     const previousOpponents = extractPreviousOpponents(previousRound);
 
-    const restingPlayers = selectRestingPlayers(allPlayers, restCount, restCounts, previousRound.restingPlayers, fixedPairs);
-    const playingPlayers = allPlayers.filter((p) => !restingPlayers.includes(p));
+    const restingPlayers = selectRestingPlayers(allPlayers, restCount, restCounts, random, previousRound.restingPlayers, fixedPairs, categories, attendedCounts);
     const sortedResting = restingPlayers.slice().sort((a, b) => a - b);
 
+    // シングルス: 出場回数の少ない順に出場者を選び、対戦を決める（残りの出場者でダブルスを決める）
+    const roundPlayers = allPlayers.filter((p) => !restingPlayers.includes(p));
+    const singlesPlayers = selectSinglesPlayers(roundPlayers, singlesCourtIndices.length * 2, singlesCounts, random, fixedPairs);
+    const singlesMatches = buildSinglesMatches(singlesPlayers, opponentHistory, random, previousOpponents, constraints);
+    const playingPlayers = roundPlayers.filter((p) => !singlesPlayers.includes(p));
+    const doublesCourts = courtsCount - singlesCourtIndices.length;
+    const toMatches = (doublesMatches: Match[]): Match[] => mergeCourtMatches(doublesMatches, singlesMatches, singlesCourtIndices);
+
     const hasFixedPairs = fixedPairs.length > 0;
 
     // === Phase 1: ハード制約 + バックトラック ===
+    let phase1Best: [number, number, number, number][] | null = null;
+    let phase1BestScore = Infinity;
+    let phase1Candidates = 0;
     for (let retry = 0; retry < MAX_RETRY_HARD; retry++) {
-      const available = shuffle([...playingPlayers]);
+      const available = shuffle([...playingPlayers], random);
       const courtAssignments: [number, number, number, number][] = [];
       let failed = false;
 
-      for (let k = 0; k < courtsCount; k++) {
+      for (let k = 0; k < doublesCourts; k++) {
         const result = hasFixedPairs
-          ? tryAssignCourtWithBacktrackingFixedPairs(available, pairHistory, opponentHistory, fixedPairs)
-          : tryAssignCourtWithBacktracking(available, pairHistory, opponentHistory);
+          ? tryAssignCourtWithBacktrackingFixedPairs(available, pairHistory, opponentHistory, fixedPairs, random, constraints)
+          : tryAssignCourtWithBacktracking(available, pairHistory, opponentHistory, random, constraints);
 
         if (result === null) {
           failed = true;
@@ -329,23 +547,34 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       }
 
       if (!failed) {
-        const matches: Match[] = buildNormalizedMatches(courtAssignments);
-        return { roundNumber, matches, restingPlayers: sortedResting };
+        if (balance === null) {
+          const matches = toMatches(buildNormalizedMatches(courtAssignments, random));
+          return { roundNumber, matches, restingPlayers: sortedResting };
+        }
+        const score = this.quickEvaluate(courtAssignments, pairHistory, opponentHistory, previousOpponents, balance);
+        if (score < phase1BestScore) {
+          phase1BestScore = score;
+          phase1Best = courtAssignments;
+        }
+        if (++phase1Candidates >= BALANCE_CANDIDATES) break;
       }
     }
+    if (phase1Best !== null) {
+      return { roundNumber, matches: toMatches(buildNormalizedMatches(phase1Best, random)), restingPlayers: sortedResting };
+    }
 
     // === Phase 1.5: 対戦制約のみバックトラック（ペア制約緩和） ===
     {
       let phase15Assignments: [number, number, number, number][] | null = null;
       for (let retry = 0; retry < MAX_RETRY_OPPO; retry++) {
-        const available = shuffle([...playingPlayers]);
+        const available = shuffle([...playingPlayers], random);
         const courtAssignments: [number, number, number, number][] = [];
         let failed = false;
 
-        for (let k = 0; k < courtsCount; k++) {
+        for (let k = 0; k < doublesCourts; k++) {
           const result = hasFixedPairs
-            ? tryAssignCourtOpponentOnlyFixedPairs(available, pairHistory, opponentHistory, fixedPairs)
-            : tryAssignCourtOpponentOnly(available, pairHistory, opponentHistory);
+            ? tryAssignCourtOpponentOnlyFixedPairs(available, pairHistory, opponentHistory, fixedPairs, random, constraints)
+            : tryAssignCourtOpponentOnly(available, pairHistory, opponentHistory, random, constraints);
 
           if (result === null) {
             failed = true;
@@ -362,10 +591,10 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
 
       if (phase15Assignments !== null) {
         // === Phase 3: ペア重複修正 ===
-        const fixed = tryPhase3FixExpanded(phase15Assignments, pairHistory, playingPlayers)
-                   ?? tryPhase3FixWithExtraCourt(phase15Assignments, pairHistory, playingPlayers);
+        const fixed = tryPhase3FixExpanded(phase15Assignments, pairHistory, playingPlayers, constraints)
+                   ?? tryPhase3FixWithExtraCourt(phase15Assignments, pairHistory, playingPlayers, constraints);
         const finalAssignments = fixed ?? phase15Assignments;
-        const matches: Match[] = buildNormalizedMatches(finalAssignments);
+        const matches = toMatches(buildNormalizedMatches(finalAssignments, random));
         return { roundNumber, matches, restingPlayers: sortedResting };
       }
     }
@@ -376,18 +605,19 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
     let bestCourtAssignments: [number, number, number, number][] | null = null;
 
     for (let retry = 0; retry < MAX_RETRY_SOFT; retry++) {
-      const available = shuffle([...playingPlayers]);
+      const available = shuffle([...playingPlayers], random);
       const courtAssignments: [number, number, number, number][] = [];
 
-      for (let k = 0; k < courtsCount; k++) {
+      for (let k = 0; k < doublesCourts; k++) {
         const result = hasFixedPairs
-          ? assignCourtWithScoringFixedPairs(available, pairHistory, opponentHistory, fixedPairs, previousOpponents)
-          : assignCourtWithScoring(available, pairHistory, opponentHistory, previousOpponents);
+          ? assignCourtWithScoringFixedPairs(available, pairHistory, opponentHistory, fixedPairs, random, previousOpponents, constraints)
+          : assignCourtWithScoring(available, pairHistory, opponentHistory, random, previousOpponents, constraints);
         courtAssignments.push(result);
       }
 
-      const matches: Match[] = buildNormalizedMatches(courtAssignments);
-      const score = this.quickEvaluate(courtAssignments, pairHistory, opponentHistory, previousOpponents);
+      const matches: Match[] = buildNormalizedMatches(courtAssignments, random);
+      const score = this.quickEvaluate(courtAssignments, pairHistory, opponentHistory, previousOpponents, balance)
+        + countConstraintViolations(constraints, courtAssignments) * FORBIDDEN_PENALTY;
       if (score < bestScore) {
         bestScore = score;
         bestMatches = matches;
@@ -397,14 +627,14 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
 
     // === Phase 3: ペア重複修正 ===
     if (bestCourtAssignments !== null) {
-      const fixed = tryPhase3FixExpanded(bestCourtAssignments, pairHistory, playingPlayers)
-                 ?? tryPhase3FixWithExtraCourt(bestCourtAssignments, pairHistory, playingPlayers);
+      const fixed = tryPhase3FixExpanded(bestCourtAssignments, pairHistory, playingPlayers, constraints)
+                 ?? tryPhase3FixWithExtraCourt(bestCourtAssignments, pairHistory, playingPlayers, constraints);
       if (fixed !== null) {
-        bestMatches = buildNormalizedMatches(fixed);
+        bestMatches = buildNormalizedMatches(fixed, random);
       }
     }
 
-    return { roundNumber, matches: bestMatches!, restingPlayers: sortedResting };
+    return { roundNumber, matches: toMatches(bestMatches!), restingPlayers: sortedResting };
   }
 
   /**
@@ -414,12 +644,14 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
    * pairMax（ペア回数最大値）→ oppoMax（対戦回数最大値）→ カウント合計
    * の3段階辞書式順序で評価する。
    * 連続対戦にはペナルティを加算する。
+   * チーム力差を評価する場合は、各コートのチーム力差 × 重みをカウント合計に加算する。
    */
   private quickEvaluate(
     courtAssignments: [number, number, number, number][],
     pairHistory: CountMatrix,
     opponentHistory: CountMatrix,
     previousOpponents: Map<number, Set<number>>,
+    balance: BalanceOption,
   ): number {
     let score = 0;
     let pairMax = 0;
@@ -452,6 +684,9 @@ export class SequentialDecisionStrategy implements ScheduleStrategy {
       if (previousOpponents.get(p1)?.has(p4)) score += CONSECUTIVE_OPPONENT_PENALTY;
       if (previousOpponents.get(p2)?.has(p3)) score += CONSECUTIVE_OPPONENT_PENALTY;
       if (previousOpponents.get(p2)?.has(p4)) score += CONSECUTIVE_OPPONENT_PENALTY;
+
+      // チーム力差
+      if (balance !== null) score += calculateImbalance(balance.ratings, p1, p2, p3, p4) * balance.weight;
     }
     return pairMax * PAIR_MAX_PENALTY + oppoMax * OPPO_MAX_PENALTY + score;
   }
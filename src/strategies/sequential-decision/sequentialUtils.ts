@@ -2,48 +2,77 @@
  * 逐次決定法のユーティリティ関数
  */
 
-import type { CountMatrix, FixedPair } from '../../types/schedule';
+import type { CountMatrix, FixedPair, PairConstraints, PlayerCategories } from '../../types/schedule';
+import { canPair, canOppose, countCourtViolations, countConstraintViolations } from '../../utils/pairConstraints';
+import { randomPick, shuffle, type Random } from '../../utils/random';
 
 /**
- * 配列からランダムに1要素を選択する
- */
-export function randomPick(arr: number[]): number {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-/**
- * 配列をその場でシャッフルする（Fisher-Yates）
+ * 参加ラウンド数の違いを考慮した休憩回数を返す（休憩者の選択用）
+ *
+ * 評価の休憩の偏り（calculateRestDeviation）と同じく、このラウンドを含めた全体の休憩率 k から
+ * 各プレイヤーの見込みの休憩回数 (参加ラウンド数 + 1) × k を求め、休憩回数との差を返す。
+ * 差が小さい（見込みより休憩していない）プレイヤーから休憩させると、偏りの二乗和が最小になる。
+ * 全員の参加ラウンド数が同じ場合は休憩回数から同じ値を引くだけなので、休憩回数の順序と一致する。
+ * 例: 6ラウンド中2回休憩したプレイヤーと、このラウンドから来たプレイヤー（参加0ラウンド）、k = 0.3
+ *   → 2 - 7 × 0.3 = -0.1 と 0 - 1 × 0.3 = -0.3 となり、後者が先に休憩する
+ *     （途中から来ても、参加したラウンドの分だけ休憩すれば偏りにならない）
  */
-export function shuffle<T>(arr: T[]): T[] {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
+function normalizeRestCounts(
+  allPlayers: number[],
+  restCount: number,
+  restCounts: number[],
+  attendedCounts: number[]
+): number[] {
+  let restSum = restCount;
+  let attendedSum = allPlayers.length;
+  for (const p of allPlayers) {
+    restSum += restCounts[p - 1];
+    attendedSum += attendedCounts[p - 1];
   }
-  return arr;
+  const k = restSum / attendedSum;
+  const normalized = [...restCounts];
+  for (const p of allPlayers) {
+    normalized[p - 1] = restCounts[p - 1] - (attendedCounts[p - 1] + 1) * k;
+  }
+  return normalized;
 }
 
 /**
  * 休憩者を1パターン決定する
  *
  * 休憩回数が最少のプレイヤーから優先的に必要人数を選択する。
+ * 参加ラウンド数を渡した場合（途中から来る・途中で帰るプレイヤーがいる場合）は、
+ * 参加ラウンド数から見込まれる休憩回数との差で比較する（normalizeRestCounts）。
  * 同じ休憩回数のプレイヤーが複数いる場合はランダムに選ぶ。
  * 固定ペアがある場合、ペアをアトミック単位として扱い分断を防止する。
+ * 区分配列を渡した場合（ミックスダブルス）、出場者が男女同数になるよう区分ごとの休憩人数を守る。
  *
  * @param allPlayers - 全プレイヤー番号
- * @param restCount - 休憩させる人数
+ * @param restCount - 休憩させる人数（コート数の変更によりラウンドごとに異なってよい）
  * @param restCounts - 各プレイヤーの現在の休憩回数（0-based index）
+ * @param random - 乱数生成関数
  * @param previousRestingPlayers - 前ラウンドの休憩者（連続休憩回避用、省略可）
  * @param fixedPairs - 固定ペアの配列（固定ペア分断防止用、省略可）
+ * @param categories - プレイヤーの区分配列（ミックスダブルス用、省略可）
+ * @param attendedCounts - 各プレイヤーの参加ラウンド数（0-based index、省略時は休憩回数をそのまま比較）
  * @returns 休憩者のプレイヤー番号配列（昇順）
  */
 export function selectRestingPlayers(
   allPlayers: number[],
   restCount: number,
-  restCounts: number[],
+  rawRestCounts: number[],
+  random: Random,
   previousRestingPlayers?: number[],
-  fixedPairs?: FixedPair[]
+  fixedPairs?: FixedPair[],
+  categories?: PlayerCategories | null,
+  attendedCounts?: number[]
 ): number[] {
-  if (restCount === 0) return [];
+  // ミックスダブルスは休憩者がいなくても男女の人数を確認する
+  if (restCount === 0 && !categories) return [];
+  const restCounts = attendedCounts ? normalizeRestCounts(allPlayers, restCount, rawRestCounts, attendedCounts) : rawRestCounts;
+  if (categories) {
+    return selectRestingPlayersByCategory(allPlayers, restCount, restCounts, random, categories, previousRestingPlayers, fixedPairs);
+  }
 
   const prevRestSet = new Set(previousRestingPlayers ?? []);
 
@@ -65,7 +94,7 @@ export function selectRestingPlayers(
       const aPrev = prevRestSet.has(a) ? 1 : 0;
       const bPrev = prevRestSet.has(b) ? 1 : 0;
       if (aPrev !== bPrev) return aPrev - bPrev;
-      return Math.random() - 0.5;
+      return random() - 0.5;
     });
     return sorted.slice(0, restCount).sort((a, b) => a - b);
   }
@@ -87,7 +116,7 @@ export function selectRestingPlayers(
     const prevPenalty = (prevRestSet.has(fp.player1) || prevRestSet.has(fp.player2)) ? 1000 : 0;
     units.push({
       players: [fp.player1, fp.player2],
-      score: combinedRest + prevPenalty + Math.random() * 0.1,
+      score: combinedRest + prevPenalty + random() * 0.1,
     });
   }
 
@@ -96,7 +125,7 @@ export function selectRestingPlayers(
     units.push({
       players: [p],
       // ソロは1人分なのでペアと比較可能にするため2倍
-      score: restCounts[p - 1] * 2 + prevPenalty + Math.random() * 0.1,
+      score: restCounts[p - 1] * 2 + prevPenalty + random() * 0.1,
     });
   }
 
@@ -120,7 +149,7 @@ export function selectRestingPlayers(
       const aPrev = prevRestSet.has(a) ? 1 : 0;
       const bPrev = prevRestSet.has(b) ? 1 : 0;
       if (aPrev !== bPrev) return aPrev - bPrev;
-      return Math.random() - 0.5;
+      return random() - 0.5;
     });
     return sorted.slice(0, restCount).sort((a, b) => a - b);
   }
@@ -128,10 +157,88 @@ export function selectRestingPlayers(
   return selected.sort((a, b) => a - b);
 }
 
+/**
+ * ミックスダブルスの休憩者を1パターン決定する
+ *
+ * 出場者が男女同数になるよう、区分ごとの休憩人数（区分の人数 - 出場人数/2）を枠として、
+ * selectRestingPlayers と同じスコア（休憩回数 → 連続休憩）で単位ごとに貪欲に選ぶ。
+ * 固定ペア（男性1人・女性1人）は各区分の枠を1つずつ使う。
+ * 固定ペアを保ったまま枠を埋められない場合は、固定ペアを無視して区分ごとに選び直す。
+ * それでも枠を埋められない（区分の人数が出場人数/2 に足りない）場合はエラーを投げる。
+ */
+function selectRestingPlayersByCategory(
+  allPlayers: number[],
+  restCount: number,
+  restCounts: number[],
+  random: Random,
+  categories: PlayerCategories,
+  previousRestingPlayers?: number[],
+  fixedPairs?: FixedPair[]
+): number[] {
+  const prevRestSet = new Set(previousRestingPlayers ?? []);
+  if (restCount >= allPlayers.length / 2) {
+    prevRestSet.clear();
+  }
+
+  const playingPerCategory = (allPlayers.length - restCount) / 2;
+  const quota = new Map<string | null, number>();
+  for (const p of allPlayers) {
+    quota.set(categories[p - 1], (quota.get(categories[p - 1]) ?? 0) + 1);
+  }
+  for (const [category, count] of quota) {
+    quota.set(category, count - playingPerCategory);
+  }
+  // 男性・女性のどちらかが出場人数に足りない（参加できるラウンドや休憩の指定で偏った場合など）
+  const shortage = () => new Error(`男性・女性の人数がそろわないため、ミックスダブルスの休憩者を ${restCount} 人選べません`);
+  if ([...quota.values()].some(q => q < 0)) throw shortage();
+
+  const activeFixedPairs = (fixedPairs ?? []).filter(
+    fp => allPlayers.includes(fp.player1) && allPlayers.includes(fp.player2)
+  );
+  const fixedPairMembers = new Set<number>();
+  for (const fp of activeFixedPairs) {
+    fixedPairMembers.add(fp.player1);
+    fixedPairMembers.add(fp.player2);
+  }
+
+  type RestUnit = { players: number[]; score: number };
+  const scoreOf = (p: number) => restCounts[p - 1] + (prevRestSet.has(p) ? 1000 : 0);
+  const pickUnits = (units: RestUnit[]): number[] | null => {
+    units.sort((a, b) => a.score - b.score);
+    const remaining = new Map(quota);
+    const selected: number[] = [];
+    for (const unit of units) {
+      const fits = unit.players.every(p => (remaining.get(categories[p - 1]) ?? 0) > 0);
+      if (!fits) continue;
+      for (const p of unit.players) {
+        remaining.set(categories[p - 1], remaining.get(categories[p - 1])! - 1);
+      }
+      selected.push(...unit.players);
+      if (selected.length === restCount) break;
+    }
+    return selected.length === restCount ? selected.sort((a, b) => a - b) : null;
+  };
+
+  const units: RestUnit[] = [];
+  for (const fp of activeFixedPairs) {
+    units.push({ players: [fp.player1, fp.player2], score: scoreOf(fp.player1) + scoreOf(fp.player2) + random() * 0.1 });
+  }
+  for (const p of allPlayers) {
+    if (!fixedPairMembers.has(p)) units.push({ players: [p], score: scoreOf(p) * 2 + random() * 0.1 });
+  }
+  const selected = pickUnits(units);
+  if (selected !== null) return selected;
+
+  // 固定ペアを保てない場合のフォールバック
+  const fallback = pickUnits(allPlayers.map(p => ({ players: [p], score: scoreOf(p) * 2 + random() * 0.1 })));
+  if (fallback === null) throw shortage();
+  return fallback;
+}
+
 /**
  * 候補からスコア最小のプレイヤーを選択する（タイブレークはランダム）
  */
-function pickMinScore(candidates: number[], scoreFn: (p: number) => number): number {
+function pickMinScore(random: Random, candidates: number[], scoreFn: (p: number) => number): number {
   let minScore = Infinity;
   const best: number[] = [];
   for (const p of candidates) {
@@ -144,13 +251,14 @@ function pickMinScore(candidates: number[], scoreFn: (p: number) => number): num
       best.push(p);
     }
   }
-  return best[Math.floor(Math.random() * best.length)];
+  return randomPick(best, random);
 }
 
 /**
  * 候補固定ペアからスコア最小のペアを選択する（タイブレークはランダム）
  */
 function pickMinScoreFixedPair(
+  random: Random,
   candidates: FixedPair[],
   scoreFn: (fp: FixedPair) => number
 ): FixedPair {
@@ -166,7 +274,7 @@ function pickMinScoreFixedPair(
       best.push(fp);
     }
   }
-  return best[Math.floor(Math.random() * best.length)];
+  return randomPick(best, random);
 }
 
 /**
@@ -183,31 +291,37 @@ function removeFromAvailable(available: number[], player: number): void {
  *
  * p4で詰まったらp3を変更、p3で詰まったらp2を変更…と系統的に探索する。
  * ハード制約が充足不可能な場合は null を返す。
+ * ペア禁止・対戦禁止（constraints）も常にハード制約として扱う。
  *
  * @param available - 利用可能なプレイヤー番号（成功時のみ変更される）
  * @param pairHistory - ペア履歴行列
  * @param opponentHistory - 対戦履歴行列
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可）
  * @returns 成功時: [p1, p2, p3, p4]、失敗時: null
  */
 export function tryAssignCourtWithBacktracking(
   available: number[],
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
+  random: Random,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] | null {
   if (available.length < 4) return null;
 
-  const shuffled = shuffle([...available]);
+  const shuffled = shuffle([...available], random);
 
   for (const p1 of shuffled) {
     const p2Candidates = shuffled.filter(p =>
-      p !== p1 && pairHistory[p1 - 1][p - 1] === 0
+      p !== p1 && pairHistory[p1 - 1][p - 1] === 0 &&
+      canPair(constraints, p1, p)
     );
 
     for (const p2 of p2Candidates) {
       const p3Candidates = shuffled.filter(p =>
         p !== p1 && p !== p2 &&
         opponentHistory[p1 - 1][p - 1] === 0 &&
-        opponentHistory[p2 - 1][p - 1] === 0
+        opponentHistory[p2 - 1][p - 1] === 0 &&
+        canOppose(constraints, p1, p) && canOppose(constraints, p2, p)
       );
 
       for (const p3 of p3Candidates) {
@@ -215,7 +329,9 @@ export function tryAssignCourtWithBacktracking(
           p !== p1 && p !== p2 && p !== p3 &&
           opponentHistory[p1 - 1][p - 1] === 0 &&
           opponentHistory[p2 - 1][p - 1] === 0 &&
-          pairHistory[p3 - 1][p - 1] === 0
+          pairHistory[p3 - 1][p - 1] === 0 &&
+          canOppose(constraints, p1, p) && canOppose(constraints, p2, p) &&
+          canPair(constraints, p3, p)
         );
 
         if (p4Candidates.length > 0) {
@@ -247,6 +363,8 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
   fixedPairs: FixedPair[],
+  random: Random,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] | null {
   const availableSet = new Set(available);
   const applicableFixed = fixedPairs.filter(
@@ -254,7 +372,7 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
   );
 
   if (applicableFixed.length > 0) {
-    const shuffledFixed = shuffle([...applicableFixed]);
+    const shuffledFixed = shuffle([...applicableFixed], random);
     for (const fp1 of shuffledFixed) {
       const p1 = fp1.player1;
       const p2 = fp1.player2;
@@ -263,7 +381,7 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
       // Step A: 対戦相手側も固定ペアから選択を試みる
       const opponentFixed = shuffle(applicableFixed.filter(fp2 =>
         fp2 !== fp1 && remainingSet.has(fp2.player1) && remainingSet.has(fp2.player2)
-      ));
+      ), random);
       for (const fp2 of opponentFixed) {
         const p3 = fp2.player1;
         const p4 = fp2.player2;
@@ -271,7 +389,8 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
           opponentHistory[p1 - 1][p3 - 1] === 0 &&
           opponentHistory[p1 - 1][p4 - 1] === 0 &&
           opponentHistory[p2 - 1][p3 - 1] === 0 &&
-          opponentHistory[p2 - 1][p4 - 1] === 0
+          opponentHistory[p2 - 1][p4 - 1] === 0 &&
+          countCourtViolations(constraints, [p1, p2, p3, p4]) === 0
         ) {
           removeFromAvailable(available, p1);
           removeFromAvailable(available, p2);
@@ -282,15 +401,17 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
       }
 
       // Step B: 固定ペアが使えない場合、個別選択にフォールバック
-      const remaining = shuffle([...remainingSet]);
+      const remaining = shuffle([...remainingSet], random);
       for (const p3 of remaining) {
         if (opponentHistory[p1 - 1][p3 - 1] !== 0 || opponentHistory[p2 - 1][p3 - 1] !== 0) continue;
+        if (!canOppose(constraints, p1, p3) || !canOppose(constraints, p2, p3)) continue;
 
         const p4Candidates = remaining.filter(p =>
           p !== p3 &&
           opponentHistory[p1 - 1][p - 1] === 0 &&
           opponentHistory[p2 - 1][p - 1] === 0 &&
-          pairHistory[p3 - 1][p - 1] === 0
+          pairHistory[p3 - 1][p - 1] === 0 &&
+          countCourtViolations(constraints, [p1, p2, p3, p]) === 0
         );
 
         if (p4Candidates.length > 0) {
@@ -306,7 +427,7 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
     return null;
   }
 
-  return tryAssignCourtWithBacktracking(available, pairHistory, opponentHistory);
+  return tryAssignCourtWithBacktracking(available, pairHistory, opponentHistory, random, constraints);
 }
 
 // === Phase 1.5: 対戦制約のみバックトラック ===
@@ -316,39 +437,46 @@ export function tryAssignCourtWithBacktrackingFixedPairs(
  *
  * Phase 1.5: ペア制約を緩和し、対戦のみのハード制約で探索する。
  * ペア回数の少ない相手をソフト優先する。
+ * ペア禁止・対戦禁止（constraints）は緩和せずハード制約として扱う。
  *
  * @param available - 利用可能なプレイヤー番号（成功時のみ変更される）
  * @param pairHistory - ペア履歴行列（ソフト制約として参照）
  * @param opponentHistory - 対戦履歴行列（ハード制約）
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可）
  * @returns 成功時: [p1, p2, p3, p4]、失敗時: null
  */
 export function tryAssignCourtOpponentOnly(
   available: number[],
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
+  random: Random,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] | null {
   if (available.length < 4) return null;
 
-  const shuffled = shuffle([...available]);
+  const shuffled = shuffle([...available], random);
 
   for (const p1 of shuffled) {
-    // p2: ペア制約なし、ペア回数昇順でソフト優先
+    // p2: ペア履歴の制約なし、ペア回数昇順でソフト優先
     const p2Candidates = shuffled
-      .filter(p => p !== p1)
+      .filter(p => p !== p1 && canPair(constraints, p1, p))
       .sort((a, b) => pairHistory[p1 - 1][a - 1] - pairHistory[p1 - 1][b - 1]);
 
     for (const p2 of p2Candidates) {
       const p3Candidates = shuffled.filter(p =>
         p !== p1 && p !== p2 &&
         opponentHistory[p1 - 1][p - 1] === 0 &&
-        opponentHistory[p2 - 1][p - 1] === 0
+        opponentHistory[p2 - 1][p - 1] === 0 &&
+        canOppose(constraints, p1, p) && canOppose(constraints, p2, p)
       );
 
       for (const p3 of p3Candidates) {
         const p4Candidates = shuffled.filter(p =>
           p !== p1 && p !== p2 && p !== p3 &&
           opponentHistory[p1 - 1][p - 1] === 0 &&
-          opponentHistory[p2 - 1][p - 1] === 0
+          opponentHistory[p2 - 1][p - 1] === 0 &&
+          canOppose(constraints, p1, p) && canOppose(constraints, p2, p) &&
+          canPair(constraints, p3, p)
         );
 
         if (p4Candidates.length > 0) {
@@ -379,6 +507,8 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
   fixedPairs: FixedPair[],
+  random: Random,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] | null {
   const availableSet = new Set(available);
   const applicableFixed = fixedPairs.filter(
@@ -386,7 +516,7 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
   );
 
   if (applicableFixed.length > 0) {
-    const shuffledFixed = shuffle([...applicableFixed]);
+    const shuffledFixed = shuffle([...applicableFixed], random);
     for (const fp1 of shuffledFixed) {
       const p1 = fp1.player1;
       const p2 = fp1.player2;
@@ -395,7 +525,7 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
       // Step A: 対戦相手側も固定ペアから選択を試みる
       const opponentFixed = shuffle(applicableFixed.filter(fp2 =>
         fp2 !== fp1 && remainingSet.has(fp2.player1) && remainingSet.has(fp2.player2)
-      ));
+      ), random);
       for (const fp2 of opponentFixed) {
         const p3 = fp2.player1;
         const p4 = fp2.player2;
@@ -403,7 +533,8 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
           opponentHistory[p1 - 1][p3 - 1] === 0 &&
           opponentHistory[p1 - 1][p4 - 1] === 0 &&
           opponentHistory[p2 - 1][p3 - 1] === 0 &&
-          opponentHistory[p2 - 1][p4 - 1] === 0
+          opponentHistory[p2 - 1][p4 - 1] === 0 &&
+          countCourtViolations(constraints, [p1, p2, p3, p4]) === 0
         ) {
           removeFromAvailable(available, p1);
           removeFromAvailable(available, p2);
@@ -414,14 +545,16 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
       }
 
       // Step B: 固定ペアが使えない場合、個別選択にフォールバック
-      const remaining = shuffle([...remainingSet]);
+      const remaining = shuffle([...remainingSet], random);
       for (const p3 of remaining) {
         if (opponentHistory[p1 - 1][p3 - 1] !== 0 || opponentHistory[p2 - 1][p3 - 1] !== 0) continue;
+        if (!canOppose(constraints, p1, p3) || !canOppose(constraints, p2, p3)) continue;
 
         const p4Candidates = remaining.filter(p =>
           p !== p3 &&
           opponentHistory[p1 - 1][p - 1] === 0 &&
-          opponentHistory[p2 - 1][p - 1] === 0
+          opponentHistory[p2 - 1][p - 1] === 0 &&
+          countCourtViolations(constraints, [p1, p2, p3, p]) === 0
         );
 
         if (p4Candidates.length > 0) {
@@ -439,7 +572,7 @@ export function tryAssignCourtOpponentOnlyFixedPairs(
     return null;
   }
 
-  return tryAssignCourtOpponentOnly(available, pairHistory, opponentHistory);
+  return tryAssignCourtOpponentOnly(available, pairHistory, opponentHistory, random, constraints);
 }
 
 // === Phase 2: スコアリングベースのフォールバック（常に成功） ===
@@ -464,40 +597,72 @@ function consecutiveOpponentPenalty(
   return penalty;
 }
 
+/**
+ * 組み合わせ禁止のペナルティを計算するヘルパー
+ *
+ * 履歴カウントや連続対戦ペナルティより十分大きい値とし、
+ * 禁止の組み合わせは他に候補がない場合のみ選ばれるようにする。
+ */
+function forbiddenPenalty(
+  player: number,
+  partner: number | null,
+  opponents: number[],
+  constraints?: PairConstraints | null,
+): number {
+  if (!constraints) return 0;
+  const PENALTY = 10000;
+  let penalty = 0;
+  if (partner !== null && !canPair(constraints, player, partner)) penalty += PENALTY;
+  for (const opp of opponents) {
+    if (!canOppose(constraints, player, opp)) penalty += PENALTY;
+  }
+  return penalty;
+}
+
 /**
  * 1コートの4人をスコアリングで割り当てる（常に成功）
  *
  * ハード制約の代わりに、履歴カウントが最小のプレイヤーを優先的に選択する。
  * 制約が充足不可能な状況でも必ず結果を返す。
  * 連続対戦にはペナルティを加算して回避する。
+ * ペア禁止・対戦禁止には大きなペナルティを加算して回避する。
  *
  * @param available - 利用可能なプレイヤー番号（この関数内で変更される）
  * @param pairHistory - ペア履歴行列
  * @param opponentHistory - 対戦履歴行列
+ * @param random - 乱数生成関数
  * @param previousOpponents - 前ラウンドの対戦相手マップ（連続対戦回避用）
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可）
  * @returns [p1, p2, p3, p4]（常に成功）
  */
 export function assignCourtWithScoring(
   available: number[],
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
+  random: Random,
   previousOpponents?: Map<number, Set<number>>,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] {
-  const p1 = randomPick(available);
+  const p1 = randomPick(available, random);
   removeFromAvailable(available, p1);
 
-  const p2 = pickMinScore(available, p => pairHistory[p1 - 1][p - 1]);
+  const p2 = pickMinScore(random, available, p =>
+    pairHistory[p1 - 1][p - 1]
+    + forbiddenPenalty(p, p1, [], constraints)
+  );
   removeFromAvailable(available, p2);
 
-  const p3 = pickMinScore(available, p =>
+  const p3 = pickMinScore(random, available, p =>
     opponentHistory[p1 - 1][p - 1] + opponentHistory[p2 - 1][p - 1]
     + consecutiveOpponentPenalty(p, [p1, p2], previousOpponents)
+    + forbiddenPenalty(p, null, [p1, p2], constraints)
   );
   removeFromAvailable(available, p3);
 
-  const p4 = pickMinScore(available, p =>
+  const p4 = pickMinScore(random, available, p =>
     opponentHistory[p1 - 1][p - 1] + opponentHistory[p2 - 1][p - 1] + pairHistory[p3 - 1][p - 1]
     + consecutiveOpponentPenalty(p, [p1, p2], previousOpponents)
+    + forbiddenPenalty(p, p3, [p1, p2], constraints)
   );
   removeFromAvailable(available, p4);
 
@@ -512,7 +677,9 @@ export function assignCourtWithScoringFixedPairs(
   pairHistory: CountMatrix,
   opponentHistory: CountMatrix,
   fixedPairs: FixedPair[],
+  random: Random,
   previousOpponents?: Map<number, Set<number>>,
+  constraints?: PairConstraints | null,
 ): [number, number, number, number] {
   const availableSet = new Set(available);
   const applicableFixed = fixedPairs.filter(
@@ -520,7 +687,7 @@ export function assignCourtWithScoringFixedPairs(
   );
 
   if (applicableFixed.length > 0) {
-    const fp1 = applicableFixed[Math.floor(Math.random() * applicableFixed.length)];
+    const fp1 = randomPick(applicableFixed, random);
     const p1 = fp1.player1;
     const p2 = fp1.player2;
     removeFromAvailable(available, p1);
@@ -532,11 +699,13 @@ export function assignCourtWithScoringFixedPairs(
     );
 
     if (remainingApplicable.length > 0) {
-      const fp2 = pickMinScoreFixedPair(remainingApplicable, fp =>
+      const fp2 = pickMinScoreFixedPair(random, remainingApplicable, fp =>
         opponentHistory[p1 - 1][fp.player1 - 1] + opponentHistory[p1 - 1][fp.player2 - 1]
         + opponentHistory[p2 - 1][fp.player1 - 1] + opponentHistory[p2 - 1][fp.player2 - 1]
         + consecutiveOpponentPenalty(fp.player1, [p1, p2], previousOpponents)
         + consecutiveOpponentPenalty(fp.player2, [p1, p2], previousOpponents)
+        + forbiddenPenalty(fp.player1, null, [p1, p2], constraints)
+        + forbiddenPenalty(fp.player2, null, [p1, p2], constraints)
       );
       const p3 = fp2.player1;
       const p4 = fp2.player2;
@@ -546,32 +715,36 @@ export function assignCourtWithScoringFixedPairs(
     }
 
     // Step B: 固定ペアが使えない場合、個別選択にフォールバック
-    const p3 = pickMinScore(available, p =>
+    const p3 = pickMinScore(random, available, p =>
       opponentHistory[p1 - 1][p - 1] + opponentHistory[p2 - 1][p - 1]
       + consecutiveOpponentPenalty(p, [p1, p2], previousOpponents)
+      + forbiddenPenalty(p, null, [p1, p2], constraints)
     );
     removeFromAvailable(available, p3);
 
-    const p4 = pickMinScore(available, p =>
+    const p4 = pickMinScore(random, available, p =>
       opponentHistory[p1 - 1][p - 1] + opponentHistory[p2 - 1][p - 1] + pairHistory[p3 - 1][p - 1]
       + consecutiveOpponentPenalty(p, [p1, p2], previousOpponents)
+      + forbiddenPenalty(p, p3, [p1, p2], constraints)
     );
     removeFromAvailable(available, p4);
 
     return [p1, p2, p3, p4];
   }
 
-  return assignCourtWithScoring(available, pairHistory, opponentHistory, previousOpponents);
+  return assignCourtWithScoring(available, pairHistory, opponentHistory, random, previousOpponents, constraints);
 }
 
 /**
  * コート割り当て結果からMatch配列を構築し正規化する
  *
  * @param courtAssignments - 各コートの [p1, p2, p3, p4] 配列
+ * @param random - 乱数生成関数（コート順のランダム化に使用）
  * @returns 正規化されたMatch配列
  */
 export function buildNormalizedMatches(
-  courtAssignments: [number, number, number, number][]
+  courtAssignments: [number, number, number, number][],
+  random: Random
 ): { pairA: { player1: number; player2: number }; pairB: { player1: number; player2: number } }[] {
   const matches = courtAssignments.map(([p1, p2, p3, p4]) => {
     // ペア内ソート
@@ -589,7 +762,7 @@ export function buildNormalizedMatches(
   });
 
   // コート割り当てをランダム化（評価品質に影響なし）
-  shuffle(matches);
+  shuffle(matches, random);
 
   return matches;
 }
@@ -728,16 +901,19 @@ export function countUnnecessaryRepeatPairs(
  * 3^C の全組み合わせを列挙し、最も違反の少ない組み合わせを返す。
  * タイブレークはペア履歴カウントの合計（小さい方が優先）。
  * 改善なしの場合は null を返す。
+ * ペア禁止・対戦禁止に違反する組み合わせは候補から除外する。
  *
  * @param courtAssignments - 各コートの [p1, p2, p3, p4] 配列
  * @param pairHistory - ペア履歴行列
  * @param playingPlayers - 今ラウンドでプレイするプレイヤー（休憩者を除く）
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可）
  * @returns 改善された割り当て配列、または null（改善なし）
  */
 export function tryPhase3Fix(
   courtAssignments: [number, number, number, number][],
   pairHistory: CountMatrix,
   playingPlayers: number[],
+  constraints?: PairConstraints | null,
 ): [number, number, number, number][] | null {
   const C = courtAssignments.length;
   if (C === 0) return null;
@@ -764,7 +940,8 @@ export function tryPhase3Fix(
     for (const [p1, p2, p3, p4] of candidate) {
       tiebreak += pairHistory[p1 - 1][p2 - 1] + pairHistory[p3 - 1][p4 - 1];
     }
-    if (violations < bestViolations || (violations === bestViolations && tiebreak < bestTiebreak)) {
+    const allowed = countConstraintViolations(constraints, candidate) === 0;
+    if (allowed && (violations < bestViolations || (violations === bestViolations && tiebreak < bestTiebreak))) {
       bestViolations = violations;
       bestTiebreak = tiebreak;
       bestIndices = [...indices];
@@ -800,14 +977,16 @@ export function tryPhase3Fix(
  * @param courtAssignments - 各コートの [p1, p2, p3, p4] 配列
  * @param pairHistory - ペア履歴行列
  * @param playingPlayers - 今ラウンドでプレイするプレイヤー
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可、違反する候補は除外）
  * @returns 改善された割り当て配列、または null（改善なし）
  */
 export function tryPhase3FixExpanded(
   courtAssignments: [number, number, number, number][],
   pairHistory: CountMatrix,
   playingPlayers: number[],
+  constraints?: PairConstraints | null,
 ): [number, number, number, number][] | null {
-  const intraFix = tryPhase3Fix(courtAssignments, pairHistory, playingPlayers);
+  const intraFix = tryPhase3Fix(courtAssignments, pairHistory, playingPlayers, constraints);
   if (intraFix !== null) return intraFix;
 
   const targetIndices = findPhase3TargetCourts(courtAssignments, pairHistory, playingPlayers);
@@ -826,7 +1005,9 @@ export function tryPhase3FixExpanded(
 
       for (const [groupA, groupB] of generateSplits4From8(players8)) {
         for (const pA of generatePairings4(groupA)) {
+          if (countCourtViolations(constraints, pA) > 0) continue;
           for (const pB of generatePairings4(groupB)) {
+            if (countCourtViolations(constraints, pB) > 0) continue;
             const candidate = [...courtAssignments] as [number, number, number, number][];
             candidate[courtI] = pA;
             candidate[courtJ] = pB;
@@ -862,12 +1043,14 @@ export function tryPhase3FixExpanded(
  * @param courtAssignments - 各コートの [p1, p2, p3, p4] 配列
  * @param pairHistory - ペア履歴行列
  * @param playingPlayers - 今ラウンドでプレイするプレイヤー
+ * @param constraints - 組み合わせ禁止の判定用行列（省略可、違反する候補は除外）
  * @returns 改善された割り当て配列、または null（改善なし）
  */
 export function tryPhase3FixWithExtraCourt(
   courtAssignments: [number, number, number, number][],
   pairHistory: CountMatrix,
   playingPlayers: number[],
+  constraints?: PairConstraints | null,
 ): [number, number, number, number][] | null {
   const targetIndices = findPhase3TargetCourts(courtAssignments, pairHistory, playingPlayers);
   if (targetIndices.length < 2) return null;
@@ -888,8 +1071,11 @@ export function tryPhase3FixWithExtraCourt(
         const players12 = [...courtAssignments[courtI], ...courtAssignments[courtJ], ...courtAssignments[courtK]];
         for (const [groupA, groupB, groupC] of generateSplits4From12(players12)) {
           for (const pA of generatePairings4(groupA)) {
+            if (countCourtViolations(constraints, pA) > 0) continue;
             for (const pB of generatePairings4(groupB)) {
+              if (countCourtViolations(constraints, pB) > 0) continue;
               for (const pC of generatePairings4(groupC)) {
+                if (countCourtViolations(constraints, pC) > 0) continue;
                 const candidate = [...courtAssignments] as [number, number, number, number][];
                 candidate[courtI] = pA;
                 candidate[courtJ] = pB;
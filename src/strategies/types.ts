@@ -13,7 +13,15 @@ import type {
 /**
  * アルゴリズム識別子
  */
-export type StrategyId = 'sequential-decision';
+export type StrategyId = 'sequential-decision' | 'local-search' | 'exhaustive';
+
+/**
+ * アルゴリズムが対応する規模の上限
+ */
+export interface StrategyLimits {
+  maxCourts: number;
+  maxPlayers: number;
+}
 
 /**
  * アルゴリズム戦略のメタ情報
@@ -23,6 +31,7 @@ export interface StrategyMeta {
   name: string;
   description: string;
   isExperimental: boolean;
+  limits?: StrategyLimits; // 対応規模の上限（省略時は制限なし）
 }
 
 /**
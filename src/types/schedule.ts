@@ -12,6 +12,59 @@ export interface FixedPair {
   player2: number; // プレイヤー番号（1始まり）、常に大きい方
 }
 
+/**
+ * 組み合わせ禁止の2人のプレイヤー（ペア禁止・対戦禁止で共通）
+ * 不変条件: player1 < player2（正規化済み）
+ * 用途: 初心者同士をペアにしない、夫婦を対戦させないなど
+ */
+export interface PairConstraint {
+  player1: number; // プレイヤー番号（1始まり）、常に小さい方
+  player2: number; // プレイヤー番号（1始まり）、常に大きい方
+}
+
+/**
+ * 組み合わせ禁止の判定用行列
+ * forbiddenPairs[i][j] = プレイヤー i+1 と j+1 はペアを組まない
+ * forbiddenOpponents[i][j] = プレイヤー i+1 と j+1 は対戦しない
+ * 注意: プレイヤー番号は1始まり、配列インデックスは0始まり（対称行列）
+ */
+export interface PairConstraints {
+  forbiddenPairs: boolean[][];
+  forbiddenOpponents: boolean[][];
+}
+
+/**
+ * 参加者名簿の1エントリ
+ * 不変条件: id はスケジュール内のプレイヤー番号（1始まり）と一致する
+ * 名前・読み仮名は表示・読み上げにのみ使用し、生成アルゴリズムはレベル（rating）と区分（category）のみを参照する
+ */
+export interface Participant {
+  id: number;        // プレイヤー番号（1始まり）
+  name: string;      // 表示名（空文字の場合は番号で表示）
+  reading?: string;  // 読み仮名（音声読み上げ用、省略可）
+  rating?: number;   // レベル（1〜5、省略時は未設定。チーム力差の評価に使用）
+  category?: PlayerCategory; // 区分（省略時は未設定。ミックスダブルスのペア編成に使用）
+}
+
+/**
+ * プレイヤーの区分（ミックスダブルス用）
+ */
+export type PlayerCategory = 'male' | 'female';
+
+/**
+ * プレイヤーの区分配列
+ * PlayerCategories[i] = プレイヤー i+1 の区分（未設定のプレイヤーは null）
+ * 注意: プレイヤー番号は1始まり、配列インデックスは0始まり
+ */
+export type PlayerCategories = (PlayerCategory | null)[];
+
+/**
+ * プレイヤーのレベル配列
+ * PlayerRatings[i] = プレイヤー i+1 のレベル（未設定のプレイヤーは標準レベル）
+ * 注意: プレイヤー番号は1始まり、配列インデックスは0始まり
+ */
+export type PlayerRatings = number[];
+
 /**
  * 固定ペアのバリデーション結果
  */
@@ -20,6 +73,94 @@ export interface FixedPairsValidation {
   errorMessage?: string;
 }
 
+/**
+ * ペア禁止・対戦禁止のバリデーション結果
+ */
+export interface PairConstraintsValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * ミックスダブルス設定のバリデーション結果
+ */
+export interface MixedDoublesValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * ラウンドの途中からのコート数の変更
+ * 不変条件: fromRound >= 2、courtChanges は fromRound の昇順（重複なし）
+ * 用途: 途中からコートが1面空く、レッスンで1面使えなくなるなど
+ */
+export interface CourtChange {
+  fromRound: number; // 変更を適用する最初のラウンド番号（以降のラウンドすべてに適用）
+  courts: number;    // 変更後のコート数
+}
+
+/**
+ * プレイヤーの参加できるラウンドの範囲（途中から来る・途中で帰るプレイヤー）
+ * 不変条件: 1 <= fromRound <= untilRound（指定した場合）、availability は player の昇順（重複なし）
+ * 範囲外のラウンドではそのプレイヤーを試合にも休憩にも含めない
+ */
+export interface PlayerAvailability {
+  player: number;
+  fromRound?: number;  // 参加できる最初のラウンド（省略時はラウンド1から）
+  untilRound?: number; // 参加できる最後のラウンド（省略時は最後まで）
+}
+
+/**
+ * 参加できるラウンドの指定のバリデーション結果
+ */
+export interface AvailabilityValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * 一時的に抜けるプレイヤー（ケガ・電話など）の休憩
+ * 不変条件: 1 <= fromRound <= untilRound（指定した場合）、breaks は player の昇順（重複なし）
+ * 範囲内のラウンドではそのプレイヤーを必ず休憩にする（参加者から外さないため、それまでの回数は保持する）
+ */
+export interface PlayerBreak {
+  player: number;
+  fromRound: number;   // 休憩を始めるラウンド（休憩にした時点で消化していない最初のラウンド）
+  untilRound?: number; // 休憩する最後のラウンド（省略時は再開するまで）
+}
+
+/**
+ * 休憩中のプレイヤーの指定のバリデーション結果
+ */
+export interface BreaksValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * コート数の変更のバリデーション結果
+ */
+export interface CourtChangesValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * 時間から決めるラウンド数の設定のバリデーション結果
+ */
+export interface TimePlanValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * シングルスコートの設定のバリデーション結果
+ */
+export interface SinglesCourtsValidation {
+  isValid: boolean;
+  errorMessage?: string;
+}
+
 /**
  * ダブルスの試合におけるペア（2人のプレイヤー）
  * 不変条件: player1 < player2（正規化済み）
@@ -30,21 +171,105 @@ export interface Pair {
 }
 
 /**
- * 1コートでの試合（2ペアが対戦）
+ * 1コートでのダブルスの試合（2ペアが対戦）
  * 不変条件: min(pairA) < min(pairB)（正規化済み）
+ * type は省略可能（シングルス導入前のデータは type を持たない）
  */
-export interface Match {
+export interface DoublesMatch {
+  type?: 'doubles';
   pairA: Pair;
   pairB: Pair;
 }
 
+/**
+ * 1コートでのシングルスの試合（1対1）
+ * 不変条件: playerA < playerB（正規化済み）
+ */
+export interface SinglesMatch {
+  type: 'singles';
+  playerA: number; // プレイヤー番号（1始まり）
+  playerB: number; // プレイヤー番号（1始まり）
+}
+
+/**
+ * 1コートでの試合（ダブルスまたはシングルス）
+ * 種類の判定は isSinglesMatch()、出場者の取得は getMatchSides() / getMatchPlayers() を使う
+ */
+export type Match = DoublesMatch | SinglesMatch;
+
 /**
  * 1ラウンドの全試合と休憩者
  */
 export interface Round {
   roundNumber: number; // ラウンド番号（1始まり）
-  matches: Match[]; // コートごとに1試合（コート割り当てはランダム）
+  matches: Match[]; // コートごとに1試合（インデックス = コート番号-1。割り当てはランダム、または均等化。試合数はそのラウンドのコート数）
   restingPlayers: number[]; // このラウンドで休憩するプレイヤー番号（昇順）
+  timing?: RoundTiming; // 試合タイマーの計測記録（タイマーを使っていないラウンドは省略）
+}
+
+/**
+ * ラウンドの試合時間の計測記録（時刻はエポックミリ秒）
+ * 経過時間 = (endedAt ?? pausedAt ?? 現在時刻) - startedAt - pausedMs
+ */
+export interface RoundTiming {
+  startedAt: number; // 計測を開始した時刻
+  endedAt?: number; // 計測を終了した時刻（計測中は省略）
+  pausedAt?: number; // 一時停止中の場合、一時停止した時刻
+  pausedMs: number; // 再開済みの一時停止の合計時間（ミリ秒）
+}
+
+/**
+ * 試合タイマーの設定
+ */
+export interface TimerSettings {
+  matchMinutes: number; // 1試合の時間（分）
+  warningMinutes: number; // 終了前の予告のタイミング（残り時間、分。0 なら予告しない）
+  autoStart: boolean; // ラウンドを開いたときに自動で計測を開始する
+  sound: boolean; // 予告・終了時に音を鳴らす
+  vibration: boolean; // 予告・終了時に端末を振動させる（対応端末のみ）
+  speech: boolean; // 予告・終了時に読み上げる
+}
+
+/**
+ * 1試合の結果
+ * walkover 指定時はゲーム数・タイブレークを集計に使用しない
+ */
+export interface MatchResult {
+  gamesA: number; // pairA の獲得ゲーム数
+  gamesB: number; // pairB の獲得ゲーム数
+  tiebreak?: { pointsA: number; pointsB: number }; // タイブレークのポイント（タイブレーク実施時のみ）
+  walkover?: 'A' | 'B'; // 不戦勝となった側（相手の棄権・不在時）
+}
+
+/**
+ * 試合結果の一覧
+ * キー: `${roundNumber}-${courtIndex}`（courtIndex は Round.matches のインデックス、0始まり）
+ */
+export type MatchResults = Record<string, MatchResult>;
+
+/**
+ * スコア形式の識別子
+ */
+export type ScoringFormatId = 'six-game-set' | 'eight-game-pro-set' | 'four-game-no-ad';
+
+/**
+ * スコア形式（試合結果のバリデーション規則）
+ */
+export interface ScoringFormat {
+  id: ScoringFormatId;
+  name: string;
+  gamesToWin: number;        // 勝利に必要なゲーム数
+  winByTwo: boolean;         // 2ゲーム差が必要か（false: 先取で終了）
+  tiebreakAt: number | null; // タイブレークに入るゲーム数（6-6 なら 6）、null はタイブレークなし
+  tiebreakPoints: number;    // タイブレークの勝利に必要なポイント（2ポイント差が必要）
+}
+
+/**
+ * 試合結果のバリデーション結果
+ */
+export interface MatchResultValidation {
+  isValid: boolean;
+  errorMessage?: string;
 }
 
 /**
@@ -53,20 +278,46 @@ export interface Round {
 export interface Evaluation {
   pairStdDev: number;   // ペア回数の標準偏差
   oppoStdDev: number;   // 対戦回数の標準偏差
-  restStdDev: number;   // 休憩回数の標準偏差
-  totalScore: number;   // 重み付き合計: pairStdDev * w1 + oppoStdDev * w2 + restStdDev * w3
+  restStdDev: number;   // 休憩回数の偏り（参加ラウンド数と全体の出場率から見込まれる休憩回数との差の二乗平均平方根。参加ラウンド数が全員同じなら休憩回数の標準偏差）
+  balanceAvg: number;   // 試合ごとのチーム力差（ペアのレベル合計の差）の平均（レベル未設定時は0）
+  balanceMax: number;   // 試合ごとのチーム力差の最大値（レベル未設定時は0）
+  singlesStdDev?: number; // シングルス出場回数の標準偏差（シングルスコート導入前のデータは省略。総合スコアには含めない）
+  totalScore: number;   // 重み付き合計: pairStdDev * w1 + oppoStdDev * w2 + restStdDev * w3 + balanceAvg * w4
 }
 
 /**
  * 大会の完全なスケジュール
  */
 export interface Schedule {
-  courts: number;       // コート数
+  courts: number;       // コート数（ラウンド1のコート数。courtChanges がなければ全ラウンド共通）
   players: number;      // 最大プレイヤー番号（行列サイズ用）
   rounds: Round[];      // スケジュールの全ラウンド
   evaluation: Evaluation; // 品質指標
   fixedPairs: FixedPair[]; // 固定ペアのリスト
+  forbiddenPairs: PairConstraint[]; // ペア禁止のリスト
+  forbiddenOpponents: PairConstraint[]; // 対戦禁止のリスト
   activePlayers: number[]; // 現在アクティブなプレイヤー番号（ソート済み）
+  roster: Participant[]; // 参加者名簿（名前未登録のプレイヤーは含まれない）
+  seed?: number;         // 最後の生成（再生成）で使用した乱数シード（インポート等で不明な場合は省略）
+  mixedDoubles?: boolean; // ミックスダブルス（全ペアが男性1人・女性1人、省略時は false）
+  courtChanges?: CourtChange[]; // ラウンドの途中からのコート数の変更（省略時は変更なし）
+  courtNames?: string[];  // コート名（インデックス = コート番号-1、未設定・空文字は「コート N」と表示）
+  balanceCourts?: boolean; // コートの割り当てをプレイヤーごとに均等化したか（省略時は false）
+  singlesCourts?: number[]; // シングルスにできるコートのインデックス（コート番号-1、昇順。省略時はすべてダブルス）
+  timePlan?: TimePlan; // 時間から決めたラウンド数の設定（各ラウンドの予定時刻の表示に使う。省略時は予定時刻なし）
+  availability?: PlayerAvailability[]; // プレイヤーの参加できるラウンドの範囲（省略時は全員が全ラウンドに参加）
+  breaks?: PlayerBreak[]; // 休憩中のプレイヤー（省略時はなし）
+}
+
+/**
+ * 時間から決めるラウンド数の設定（時刻は "HH:MM"、日付をまたぐ設定は不可）
+ * ラウンド n の開始予定 = startTime + (n - 1) × (matchMinutes + changeoverMinutes)
+ */
+export interface TimePlan {
+  startTime: string; // 開始時刻
+  endTime: string; // 終了時刻（コートを使える最後の時刻）
+  matchMinutes: number; // 1試合の時間（分）
+  changeoverMinutes: number; // ラウンド間の入れ替え時間（分）
 }
 
 /**
@@ -76,19 +327,47 @@ export interface Schedule {
  */
 export type CountMatrix = number[][];
 
+/**
+ * プレイヤーごとのコート別の試合数
+ * CourtCounts[i][c] = プレイヤー i+1 がコート c+1（Round.matches のインデックス c）で試合をした回数
+ * 注意: プレイヤー番号・コート番号は1始まり、配列インデックスは0始まり
+ */
+export type CourtCounts = number[][];
+
 /**
  * スケジュール生成のパラメータ
  */
 export interface ScheduleParams {
-  courtsCount: number;
+  courtsCount: number; // ラウンド1のコート数（courtChanges で途中から変更できる）
   playersCount: number;
   roundsCount: number;
   weights: {
     w1: number; // ペア回数の標準偏差の重み
     w2: number; // 対戦回数の標準偏差の重み
-    w3: number; // 休憩回数の標準偏差の重み
+    w3: number; // 休憩回数の偏りの重み
+    w4: number; // チーム力差の平均の重み（名簿にレベルが設定されている場合のみ有効）
   };
   fixedPairs: FixedPair[]; // 固定ペアのリスト
+  forbiddenPairs?: PairConstraint[]; // ペア禁止のリスト（省略時はなし）
+  forbiddenOpponents?: PairConstraint[]; // 対戦禁止のリスト（省略時はなし）
+  roster?: Participant[]; // 参加者名簿（生成結果にそのまま引き継ぐ）
+  seed?: number; // 乱数シード（省略時はランダム。同じ入力とシードからは同じ対戦表が生成される）
+  mixedDoubles?: boolean; // ミックスダブルス（名簿の区分で男性1人・女性1人のペアのみ編成、省略時は false）
+  courtChanges?: CourtChange[]; // ラウンドの途中からのコート数の変更（省略時は全ラウンド courtsCount）
+  courtNames?: string[]; // コート名（生成結果にそのまま引き継ぐ）
+  balanceCourts?: boolean; // コートの割り当てをプレイヤーごとに均等化する（省略時はランダム）
+  singlesCourts?: number[]; // シングルスにできるコートのインデックス（人数が足りないラウンドのみシングルスにする）
+  timePlan?: TimePlan; // 時間から決めたラウンド数の設定（生成結果にそのまま引き継ぐ。roundsCount は計算済みの値を渡す）
+  availability?: PlayerAvailability[]; // プレイヤーの参加できるラウンドの範囲（範囲外のラウンドには含めない）
+  localSearch?: LocalSearchBudget; // 局所探索法の探索予算（他のアルゴリズムでは無視。省略時は既定値）
+}
+
+/**
+ * 局所探索法の探索予算
+ */
+export interface LocalSearchBudget {
+  iterationsPerRound?: number; // 探索対象1ラウンドあたりの反復回数（省略時は既定値）
+  timeLimitMs?: number; // 探索の時間制限（ミリ秒、省略時は反復回数のみで終了）
 }
 
 /**
@@ -115,7 +394,18 @@ export interface CumulativeState {
   restSum: number;           // 休憩回数の合計
   restSumSq: number;         // 休憩回数の二乗和
   restN: number;             // プレイヤー数
+  attendedCounts: number[];  // 累積参加ラウンド数配列（試合または休憩に含まれたラウンド数）
+  attendedSum: number;       // 参加ラウンド数の合計
+  attendedSumSq: number;     // 参加ラウンド数の二乗和
+  restAttendedSum: number;   // 休憩回数 × 参加ラウンド数の合計
   pairMax: number;           // ペア回数の最大値（辞書式順序評価用）
+  ratings: PlayerRatings | null; // プレイヤーのレベル（null: レベル未設定、チーム力差を評価しない）
+  balanceSum: number;        // 試合ごとのチーム力差の合計
+  balanceMax: number;        // 試合ごとのチーム力差の最大値
+  matchCount: number;        // 累積した試合数
+  singlesCounts: number[];   // 累積シングルス出場回数配列
+  singlesSum: number;        // シングルス出場回数の合計
+  singlesSumSq: number;      // シングルス出場回数の二乗和
 }
 
 /**
@@ -126,8 +416,21 @@ export interface RegenerationParams {
   completedRounds: Round[];       // 消化済みラウンド（保持する）
   activePlayers: number[];        // 新しいアクティブプレイヤー（ソート済み）
   remainingRoundsCount: number;   // 再生成するラウンド数
-  weights: { w1: number; w2: number; w3: number };
+  weights: { w1: number; w2: number; w3: number; w4: number };
   fixedPairs: FixedPair[];
+  forbiddenPairs?: PairConstraint[];
+  forbiddenOpponents?: PairConstraint[];
+  roster?: Participant[];
+  seed?: number; // 乱数シード（省略時はランダム）
+  mixedDoubles?: boolean; // ミックスダブルス（省略時は false）
+  courtChanges?: CourtChange[]; // ラウンドの途中からのコート数の変更（消化済みラウンドを含む全体の設定）
+  courtNames?: string[];
+  balanceCourts?: boolean; // コートの割り当てを均等化する（消化済みラウンドの割り当ては変更しない）
+  singlesCourts?: number[];
+  timePlan?: TimePlan;
+  availability?: PlayerAvailability[]; // 参加できるラウンドの範囲（消化済みラウンドを含む全体の設定）
+  breaks?: PlayerBreak[]; // 休憩中のプレイヤー（範囲内の再生成するラウンドでは必ず休憩にする）
+  localSearch?: LocalSearchBudget; // 局所探索法の探索予算（他のアルゴリズムでは無視）
 }
 
 /**
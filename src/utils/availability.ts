@@ -0,0 +1,169 @@
+/**
+ * プレイヤーの参加できるラウンドの範囲（途中から来る・途中で帰るプレイヤー）のユーティリティ関数
+ *
+ * 範囲はプレイヤーごとに「参加できる最初のラウンド（fromRound）」と「最後のラウンド（untilRound）」で表す。
+ * 範囲外のラウンドではそのプレイヤーを試合にも休憩にも含めないため、
+ * 各プレイヤーがラウンドに含まれた回数（参加ラウンド数）はそのまま参加できたラウンド数になる。
+ */
+
+import type { AvailabilityValidation, CourtChange, PlayerAvailability, PlayerCategories } from '../types/schedule';
+import { getCourtsForRound } from './courtChanges';
+import { countCategoryRests } from './mixedDoubles';
+import { getRequiredPlayers } from './singles';
+
+/**
+ * プレイヤーが指定ラウンドに参加できるか判定する
+ *
+ * @param availability - 参加できるラウンドの範囲（省略時・指定のないプレイヤーは全ラウンドに参加）
+ * @param player - プレイヤー番号
+ * @param roundNumber - ラウンド番号（1始まり）
+ *
+ * @example
+ * isAvailableInRound([{ player: 7, fromRound: 4 }], 7, 3) // false
+ */
+export function isAvailableInRound(
+  availability: PlayerAvailability[] | undefined,
+  player: number,
+  roundNumber: number
+): boolean {
+  const entry = availability?.find((a) => a.player === player);
+  if (!entry) return true;
+  return (entry.fromRound ?? 1) <= roundNumber && roundNumber <= (entry.untilRound ?? Infinity);
+}
+
+/**
+ * 指定ラウンドに参加できるプレイヤーを返す（並び順は players のまま）
+ *
+ * @example
+ * getAvailablePlayers([1, 2, 3], [{ player: 2, untilRound: 5 }], 6) // [1, 3]
+ */
+export function getAvailablePlayers(
+  players: number[],
+  availability: PlayerAvailability[] | undefined,
+  roundNumber: number
+): number[] {
+  if (!availability || availability.length === 0) return players;
+  return players.filter((p) => isAvailableInRound(availability, p, roundNumber));
+}
+
+/**
+ * プレイヤーの参加できるラウンドの範囲を設定（同じプレイヤーの指定は置き換え）し、player の昇順に並べる
+ *
+ * fromRound・untilRound の両方を省略した場合は指定を削除する（全ラウンドに参加）。
+ */
+export function setPlayerAvailability(
+  availability: PlayerAvailability[],
+  entry: PlayerAvailability
+): PlayerAvailability[] {
+  const others = availability.filter((a) => a.player !== entry.player);
+  if (entry.fromRound === undefined && entry.untilRound === undefined) return others;
+  return [...others, entry].sort((a, b) => a.player - b.player);
+}
+
+/**
+ * 参加できるラウンドの範囲の表示テキストを返す
+ *
+ * @example
+ * formatAvailability({ player: 7, fromRound: 4 }) // 'ラウンド 4 から'
+ * formatAvailability({ player: 12, untilRound: 10 }) // 'ラウンド 10 まで'
+ * formatAvailability({ player: 3, fromRound: 2, untilRound: 5 }) // 'ラウンド 2〜5'
+ */
+export function formatAvailability(entry: PlayerAvailability): string {
+  if (entry.fromRound !== undefined && entry.untilRound !== undefined) {
+    return `ラウンド ${entry.fromRound}〜${entry.untilRound}`;
+  }
+  return entry.fromRound !== undefined ? `ラウンド ${entry.fromRound} から` : `ラウンド ${entry.untilRound} まで`;
+}
+
+/**
+ * 参加できるラウンドの範囲をバリデーションする
+ *
+ * チェック項目:
+ * - 参加するプレイヤーの指定か、同じプレイヤーの指定が重複していないか
+ * - fromRound・untilRound が 1〜ラウンド数の整数で、fromRound <= untilRound か
+ * - 各ラウンドで参加できる人数がそのラウンドのコート数に必要な人数（コート数×4、シングルスにできるコートは×2）以上か
+ * - ミックスダブルスでは、各ラウンドで参加できる男性・女性がそれぞれ コート数×2 人以上か
+ *
+ * @param availability - 参加できるラウンドの範囲
+ * @param players - 参加するプレイヤー番号
+ * @param roundsCount - ラウンド数
+ * @param courtsCount - ラウンド1のコート数
+ * @param courtChanges - コート数の変更（省略時は変更なし）
+ * @param singlesCourts - シングルスにできるコートのインデックス（省略時はなし）
+ * @param categories - ミックスダブルスの区分配列（ミックスダブルスでない場合は省略）
+ * @returns バリデーション結果
+ */
+export function validateAvailability(
+  availability: PlayerAvailability[],
+  players: number[],
+  roundsCount: number,
+  courtsCount: number,
+  courtChanges?: CourtChange[],
+  singlesCourts?: number[],
+  categories?: PlayerCategories | null
+): AvailabilityValidation {
+  const seen = new Set<number>();
+  for (const entry of availability) {
+    if (!players.includes(entry.player) || seen.has(entry.player)) {
+      return { isValid: false, errorMessage: `プレイヤー ${entry.player} の参加ラウンドの指定が不正です` };
+    }
+    seen.add(entry.player);
+    const from = entry.fromRound ?? 1;
+    const until = entry.untilRound ?? roundsCount;
+    if (!Number.isInteger(from) || !Number.isInteger(until) || from < 1 || until > roundsCount || from > until) {
+      return {
+        isValid: false,
+        errorMessage: `プレイヤー ${entry.player} の参加ラウンドはラウンド 1〜${roundsCount} の範囲で指定してください`,
+      };
+    }
+  }
+  for (let r = 1; r <= roundsCount; r++) {
+    const availablePlayers = getAvailablePlayers(players, availability, r);
+    const courts = getCourtsForRound(courtsCount, courtChanges, r);
+    const available = availablePlayers.length;
+    const required = getRequiredPlayers(courts, singlesCourts);
+    if (available < required) {
+      return {
+        isValid: false,
+        errorMessage: `ラウンド ${r} に参加できるのは ${available} 人です（${required} 人以上必要です）`,
+      };
+    }
+    if (categories) {
+      const rests = countCategoryRests(availablePlayers, categories, courts);
+      if (rests.male < 0 || rests.female < 0) {
+        return {
+          isValid: false,
+          errorMessage: `ラウンド ${r} に参加できるのは男性 ${rests.male + courts * 2} 人・女性 ${rests.female + courts * 2} 人です（それぞれ ${courts * 2} 人以上必要です）`,
+        };
+      }
+    }
+  }
+  return { isValid: true };
+}
+
+/**
+ * 生成する各ラウンドで出場できる人数がそのラウンドのコート数に必要な人数以上か確認する
+ *
+ * 各アルゴリズムの新規生成・再生成の入口で呼び、人数の足りないラウンドを作らずにエラーにする。
+ *
+ * @param roundNumbers - 生成するラウンド番号
+ * @param playersFor - ラウンドで出場できるプレイヤー（参加できる範囲外・休憩中のプレイヤーを除く）
+ * @param courtsFor - ラウンドのコート数
+ * @param singlesCourts - シングルスにできるコートのインデックス（省略時はなし）
+ * @throws 人数の足りないラウンドがある場合
+ */
+export function assertEnoughPlayers(
+  roundNumbers: number[],
+  playersFor: (roundNumber: number) => number[],
+  courtsFor: (roundNumber: number) => number,
+  singlesCourts?: number[]
+): void {
+  for (const r of roundNumbers) {
+    const courts = courtsFor(r);
+    const available = playersFor(r).length;
+    const required = getRequiredPlayers(courts, singlesCourts);
+    if (available < required) {
+      throw new Error(`ラウンド${r}の参加者数（${available}人）がコート数（${courts}面）に必要な${required}人を下回っています`);
+    }
+  }
+}
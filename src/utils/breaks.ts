@@ -0,0 +1,140 @@
+/**
+ * 一時的に抜けるプレイヤー（ケガ・電話など）の休憩のユーティリティ関数
+ *
+ * 休憩はプレイヤーごとに「休憩を始めるラウンド（fromRound）」と「休憩する最後のラウンド（untilRound、省略時は再開するまで）」で表す。
+ * 参加できるラウンドの範囲（availability）と違い、範囲内のラウンドでもプレイヤーを休憩者に含めるため、
+ * 休憩した回数として数えられ、戻ったあとは休憩の偏りを減らすように優先して出場する。
+ */
+
+import type { BreaksValidation, CourtChange, PlayerAvailability, PlayerBreak, PlayerCategories, Round } from '../types/schedule';
+import { getAvailablePlayers } from './availability';
+import { getCourtsForRound } from './courtChanges';
+import { countCategoryRests } from './mixedDoubles';
+import { getRequiredPlayers } from './singles';
+
+/**
+ * プレイヤーが指定ラウンドで休憩中か判定する
+ *
+ * @param breaks - 休憩中のプレイヤー（省略時はなし）
+ * @param player - プレイヤー番号
+ * @param roundNumber - ラウンド番号（1始まり）
+ *
+ * @example
+ * isOnBreak([{ player: 3, fromRound: 5, untilRound: 6 }], 3, 7) // false
+ */
+export function isOnBreak(breaks: PlayerBreak[] | undefined, player: number, roundNumber: number): boolean {
+  const entry = breaks?.find((b) => b.player === player);
+  if (!entry) return false;
+  return entry.fromRound <= roundNumber && roundNumber <= (entry.untilRound ?? Infinity);
+}
+
+/**
+ * 指定ラウンドで休憩中のプレイヤーを返す（並び順は players のまま）
+ *
+ * @example
+ * getPlayersOnBreak([1, 2, 3], [{ player: 2, fromRound: 4 }], 6) // [2]
+ */
+export function getPlayersOnBreak(
+  players: number[],
+  breaks: PlayerBreak[] | undefined,
+  roundNumber: number
+): number[] {
+  if (!breaks || breaks.length === 0) return [];
+  return players.filter((p) => isOnBreak(breaks, p, roundNumber));
+}
+
+/**
+ * 休憩中のプレイヤーをラウンドの休憩者に加える（休憩者は昇順に並べ直す）
+ *
+ * 生成時は休憩中のプレイヤーを除いて出場者・休憩者を決め、このあとで休憩者に加える。
+ */
+export function addPlayersOnBreak(round: Round, onBreak: number[]): Round {
+  if (onBreak.length === 0) return round;
+  return { ...round, restingPlayers: [...round.restingPlayers, ...onBreak].sort((a, b) => a - b) };
+}
+
+/**
+ * プレイヤーの休憩を設定（同じプレイヤーの指定は置き換え）し、player の昇順に並べる
+ */
+export function setPlayerBreak(breaks: PlayerBreak[], entry: PlayerBreak): PlayerBreak[] {
+  return [...breaks.filter((b) => b.player !== entry.player), entry].sort((a, b) => a.player - b.player);
+}
+
+/**
+ * 休憩の表示テキストを返す
+ *
+ * @example
+ * formatBreak({ player: 3, fromRound: 5, untilRound: 6 }) // 'ラウンド 6 まで休憩'
+ * formatBreak({ player: 3, fromRound: 5 }) // '再開まで休憩'
+ */
+export function formatBreak(entry: PlayerBreak): string {
+  return entry.untilRound !== undefined ? `ラウンド ${entry.untilRound} まで休憩` : '再開まで休憩';
+}
+
+/**
+ * 休憩中のプレイヤーの指定をバリデーションする
+ *
+ * チェック項目:
+ * - 参加するプレイヤーの指定か、同じプレイヤーの指定が重複していないか
+ * - fromRound・untilRound が1以上の整数で、fromRound <= untilRound か
+ * - 各ラウンドで出場できる人数（参加できる人数 − 休憩中の人数）がそのラウンドのコート数に必要な人数以上か
+ * - ミックスダブルスでは、各ラウンドで出場できる男性・女性がそれぞれ コート数×2 人以上か
+ *
+ * @param breaks - 休憩中のプレイヤー
+ * @param players - 参加するプレイヤー番号
+ * @param roundsCount - ラウンド数
+ * @param courtsCount - ラウンド1のコート数
+ * @param courtChanges - コート数の変更（省略時は変更なし）
+ * @param singlesCourts - シングルスにできるコートのインデックス（省略時はなし）
+ * @param availability - 参加できるラウンドの範囲（省略時は全員が全ラウンドに参加）
+ * @param categories - ミックスダブルスの区分配列（ミックスダブルスでない場合は null）
+ * @param firstRound - 人数を確認する最初のラウンド（消化済みのラウンドは確認しない、省略時はラウンド1）
+ * @returns バリデーション結果
+ */
+export function validateBreaks(
+  breaks: PlayerBreak[],
+  players: number[],
+  roundsCount: number,
+  courtsCount: number,
+  courtChanges?: CourtChange[],
+  singlesCourts?: number[],
+  availability?: PlayerAvailability[],
+  categories: PlayerCategories | null = null,
+  firstRound = 1
+): BreaksValidation {
+  const seen = new Set<number>();
+  for (const entry of breaks) {
+    if (!players.includes(entry.player) || seen.has(entry.player)) {
+      return { isValid: false, errorMessage: `プレイヤー ${entry.player} の休憩の指定が不正です` };
+    }
+    seen.add(entry.player);
+    const until = entry.untilRound ?? entry.fromRound;
+    if (!Number.isInteger(entry.fromRound) || !Number.isInteger(until) || entry.fromRound < 1 || entry.fromRound > until) {
+      return { isValid: false, errorMessage: `プレイヤー ${entry.player} の休憩するラウンドが不正です` };
+    }
+  }
+  if (breaks.length === 0) return { isValid: true };
+  for (let r = Math.max(firstRound, Math.min(...breaks.map((b) => b.fromRound))); r <= roundsCount; r++) {
+    const available = getAvailablePlayers(players, availability, r);
+    const onBreak = getPlayersOnBreak(available, breaks, r);
+    const playable = available.length - onBreak.length;
+    const courts = getCourtsForRound(courtsCount, courtChanges, r);
+    const required = getRequiredPlayers(courts, singlesCourts);
+    if (playable < required) {
+      return {
+        isValid: false,
+        errorMessage: `休憩中のプレイヤーを除くと、ラウンド ${r} に出場できるのは ${playable} 人です（${required} 人以上必要です）`,
+      };
+    }
+    if (categories) {
+      const rests = countCategoryRests(available.filter((p) => !onBreak.includes(p)), categories, courts);
+      if (rests.male < 0 || rests.female < 0) {
+        return {
+          isValid: false,
+          errorMessage: `休憩中のプレイヤーを除くと、ラウンド ${r} に出場できるのは男性 ${rests.male + courts * 2} 人・女性 ${rests.female + courts * 2} 人です（それぞれ ${courts * 2} 人以上必要です）`,
+        };
+      }
+    }
+  }
+  return { isValid: true };
+}
@@ -0,0 +1,139 @@
+/**
+ * コート名とコート割り当ての均等化のユーティリティ関数
+ *
+ * どの試合をどのコートで行うか（Round.matches の並び順）はペア・対戦の組み合わせと独立しているため、
+ * 生成アルゴリズムが決めたラウンドの試合の並び順だけを入れ替えて、プレイヤーごとのコートの偏りを減らす。
+ */
+
+import type { CourtCounts, Round } from '../types/schedule';
+import { getMatchPlayers, isSinglesMatch } from './singles';
+
+// シングルスとダブルスのコートを入れ替えないためのコスト（どの割り当てのコスト合計よりも大きい）
+const COURT_TYPE_MISMATCH_COST = 1_000_000;
+
+/**
+ * コートの表示名を返す
+ *
+ * @param courtNames - コート名（インデックス = コート番号 - 1、省略時は番号のみ）
+ * @param courtIndex - コートのインデックス（0始まり）
+ * @returns コート名（未設定・空文字の場合は「コート N」）
+ *
+ * @example
+ * getCourtName(['センター'], 0) // 'センター'
+ * getCourtName(['センター'], 1) // 'コート 2'
+ */
+export function getCourtName(courtNames: string[] | undefined, courtIndex: number): string {
+  const name = courtNames?.[courtIndex]?.trim();
+  return name ? name : `コート ${courtIndex + 1}`;
+}
+
+/**
+ * コート名が1つでも設定されているか
+ */
+export function hasCourtNames(courtNames: string[] | undefined): boolean {
+  return (courtNames ?? []).some(name => name.trim() !== '');
+}
+
+/**
+ * プレイヤーごとのコート別の試合数を集計する
+ *
+ * @param rounds - 集計するラウンド
+ * @param playersCount - 最大プレイヤー番号（行数）
+ * @returns コート別の試合数（列数はラウンドの最大コート数）
+ *
+ * 計算量: O(R × C)
+ */
+export function buildCourtCounts(rounds: Round[], playersCount: number): CourtCounts {
+  const courts = Math.max(0, ...rounds.map(r => r.matches.length));
+  const counts: CourtCounts = Array.from({ length: playersCount }, () => Array(courts).fill(0));
+  for (const round of rounds) {
+    round.matches.forEach((match, court) => {
+      for (const p of getMatchPlayers(match)) {
+        if (p >= 1 && p <= playersCount) counts[p - 1][court]++;
+      }
+    });
+  }
+  return counts;
+}
+
+/**
+ * 試合をコートに割り当てる（コスト合計が最小の順列をビットDPで求める）
+ *
+ * cost[m][c] = 試合 m をコート c に割り当てたときのコスト。
+ * 同じコストの割り当てが複数ある場合は先に見つかったものを選ぶ（コストがすべて0なら元の並び順のまま）。
+ *
+ * 計算量: O(2^C × C)
+ */
+function assignMatchesToCourts(cost: number[][]): number[] {
+  const k = cost.length;
+  const full = (1 << k) - 1;
+  const dp: number[] = Array(full + 1).fill(Infinity);
+  const parent: number[] = Array(full + 1).fill(-1);
+  dp[0] = 0;
+  for (let mask = 0; mask < full; mask++) {
+    if (dp[mask] === Infinity) continue;
+    let m = 0;
+    for (let bits = mask; bits > 0; bits &= bits - 1) m++;
+    for (let c = 0; c < k; c++) {
+      if (mask & (1 << c)) continue;
+      const next = mask | (1 << c);
+      const score = dp[mask] + cost[m][c];
+      if (score < dp[next]) {
+        dp[next] = score;
+        parent[next] = c;
+      }
+    }
+  }
+
+  // courtOf[m] = 試合 m のコート
+  const courtOf: number[] = Array(k).fill(0);
+  for (let mask = full, m = k - 1; mask > 0; m--) {
+    const c = parent[mask];
+    courtOf[m] = c;
+    mask &= ~(1 << c);
+  }
+  return courtOf;
+}
+
+/**
+ * コートの割り当てを均等化する
+ *
+ * ラウンド番号順に、それまでに各プレイヤーが各コートで試合をした回数を累積し、
+ * 「試合の4人がそのコートで試合をした回数の合計」が最小になるように試合の並び順を入れ替える。
+ * 特定のコート（照明の悪いコートなど）に同じプレイヤーが続けて割り当てられるのを防ぐ。
+ * シングルスの試合はシングルスのコート同士でのみ入れ替える。
+ *
+ * @param rounds - ラウンド番号の昇順に並んだラウンド
+ * @param fixedRoundNumbers - 並び順を変更しないラウンド番号（消化済みラウンドなど。集計には含める）
+ * @returns 試合の並び順を入れ替えたラウンド（ペア・対戦・休憩者は変更しない）
+ *
+ * 計算量: O(R × (2^C × C + C² × 4))
+ */
+export function balanceCourtAssignments(rounds: Round[], fixedRoundNumbers: Set<number> = new Set()): Round[] {
+  const playersCount = Math.max(0, ...rounds.flatMap(r => r.matches.flatMap(getMatchPlayers)));
+  const courts = Math.max(0, ...rounds.map(r => r.matches.length));
+  const counts: CourtCounts = Array.from({ length: playersCount }, () => Array(courts).fill(0));
+
+  return rounds.map(round => {
+    let matches = round.matches;
+    if (!fixedRoundNumbers.has(round.roundNumber) && matches.length > 1) {
+      const cost = matches.map(match =>
+        matches.map((courtMatch, c) =>
+          isSinglesMatch(match) !== isSinglesMatch(courtMatch)
+            ? COURT_TYPE_MISMATCH_COST
+            : getMatchPlayers(match).reduce((sum, p) => sum + counts[p - 1][c], 0)
+        )
+      );
+      const reordered = [...matches];
+      assignMatchesToCourts(cost).forEach((c, m) => {
+        reordered[c] = matches[m];
+      });
+      matches = reordered;
+    }
+
+    matches.forEach((match, c) => {
+      for (const p of getMatchPlayers(match)) counts[p - 1][c]++;
+    });
+    return { ...round, matches };
+  });
+}
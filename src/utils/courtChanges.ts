@@ -0,0 +1,115 @@
+/**
+ * ラウンドの途中からのコート数の変更（コートの空き・使用不可）のユーティリティ関数
+ *
+ * コート数は「ラウンド1のコート数（courtsCount）」と「指定ラウンド以降の変更（CourtChange）」で表す。
+ * 最後の変更は以降のすべてのラウンド（ラウンド追加で増えたラウンドを含む）に適用される。
+ */
+
+import type { CourtChange, CourtChangesValidation } from '../types/schedule';
+import { getRequiredPlayers } from './singles';
+
+/**
+ * 指定ラウンドのコート数を返す
+ *
+ * @param courtsCount - ラウンド1のコート数
+ * @param courtChanges - コート数の変更（fromRound の昇順、省略時は変更なし）
+ * @param roundNumber - ラウンド番号（1始まり）
+ * @returns そのラウンドのコート数
+ *
+ * @example
+ * getCourtsForRound(2, [{ fromRound: 4, courts: 3 }], 5) // 3
+ */
+export function getCourtsForRound(
+  courtsCount: number,
+  courtChanges: CourtChange[] | undefined,
+  roundNumber: number
+): number {
+  let courts = courtsCount;
+  for (const change of courtChanges ?? []) {
+    if (change.fromRound > roundNumber) break;
+    courts = change.courts;
+  }
+  return courts;
+}
+
+/**
+ * 指定ラウンド数までのコート数の最小値・最大値を返す
+ *
+ * @param courtsCount - ラウンド1のコート数
+ * @param courtChanges - コート数の変更（省略時は変更なし）
+ * @param roundsCount - 対象のラウンド数（省略時はすべての変更を対象にする）
+ * @returns コート数の最小値・最大値
+ */
+export function getCourtsRange(
+  courtsCount: number,
+  courtChanges: CourtChange[] | undefined,
+  roundsCount = Infinity
+): { min: number; max: number } {
+  let min = courtsCount;
+  let max = courtsCount;
+  for (const change of courtChanges ?? []) {
+    if (change.fromRound > roundsCount) break;
+    min = Math.min(min, change.courts);
+    max = Math.max(max, change.courts);
+  }
+  return { min, max };
+}
+
+/**
+ * コート数の変更を追加（同じラウンドの変更は置き換え）し、fromRound の昇順に並べる
+ *
+ * @param courtChanges - コート数の変更
+ * @param fromRound - 変更を適用する最初のラウンド番号
+ * @param courts - 変更後のコート数
+ * @returns 新しいコート数の変更の配列
+ */
+export function setCourtChange(courtChanges: CourtChange[], fromRound: number, courts: number): CourtChange[] {
+  return [...courtChanges.filter(c => c.fromRound !== fromRound), { fromRound, courts }]
+    .sort((a, b) => a.fromRound - b.fromRound);
+}
+
+/**
+ * コート数の変更をバリデーションする
+ *
+ * チェック項目:
+ * - 変更ラウンドが 2〜ラウンド数の範囲内で、昇順（重複なし）か
+ * - 変更後のコート数が1以上か
+ * - 変更後のコート数に必要な人数（コート数×4、シングルスにできるコートは×2）が参加人数以下か
+ *
+ * @param courtChanges - コート数の変更
+ * @param roundsCount - ラウンド数
+ * @param playersCount - 参加人数
+ * @param singlesCourts - シングルスにできるコートのインデックス（省略時はなし）
+ * @returns バリデーション結果
+ */
+export function validateCourtChanges(
+  courtChanges: CourtChange[],
+  roundsCount: number,
+  playersCount: number,
+  singlesCourts: number[] = []
+): CourtChangesValidation {
+  let previousRound = 1;
+  for (const change of courtChanges) {
+    if (!Number.isInteger(change.fromRound) || change.fromRound <= previousRound || change.fromRound > roundsCount) {
+      return {
+        isValid: false,
+        errorMessage: `コート数の変更（ラウンド ${change.fromRound}）はラウンド 2〜${roundsCount} で重複なく指定してください`,
+      };
+    }
+    if (!Number.isInteger(change.courts) || change.courts < 1) {
+      return {
+        isValid: false,
+        errorMessage: `ラウンド ${change.fromRound} からのコート数は1以上で指定してください`,
+      };
+    }
+    const required = getRequiredPlayers(change.courts, singlesCourts);
+    if (required > playersCount) {
+      return {
+        isValid: false,
+        errorMessage: `ラウンド ${change.fromRound} からの ${change.courts} 面には参加人数が ${required} 人以上必要です`,
+      };
+    }
+    previousRound = change.fromRound;
+  }
+  return { isValid: true };
+}
@@ -1,5 +1,7 @@
-import type { Round, Evaluation, CountMatrix, RestCounts, CumulativeState } from '../types/schedule';
+import type { Round, Evaluation, CountMatrix, RestCounts, CumulativeState, PlayerRatings } from '../types/schedule';
 import { calculateStandardDeviation, extractUpperTriangleValues } from './statistics';
+import { calculateImbalance, calculateMatchImbalance } from './rating';
+import { getMatchPlayers, getMatchSides, isSinglesMatch } from './singles';
 
 /**
  * N×N のカウント行列を全て0で初期化する
@@ -27,6 +29,8 @@ export function initializeCountMatrix(playersCount: number): CountMatrix {
  * カウント行列は対称: matrix[i][j] = matrix[j][i]
  * 各関係について両方向を更新する必要がある
  *
+ * シングルスの試合はペア回数を更新せず、2人の対戦回数のみ更新する。
+ *
  * @param round - 処理するラウンド
  * @param pairCounts - 各ペアが一緒にプレイした回数を追跡する対称行列（その場で変更）
  * @param oppoCounts - 各ペアが対戦した回数を追跡する対称行列（その場で変更）
@@ -47,6 +51,11 @@ export function updateCountMatrices(
   oppoCounts: CountMatrix
 ): void {
   for (const match of round.matches) {
+    if (isSinglesMatch(match)) {
+      oppoCounts[match.playerA - 1][match.playerB - 1]++;
+      oppoCounts[match.playerB - 1][match.playerA - 1]++;
+      continue;
+    }
     const { pairA, pairB } = match;
 
     // ペア回数を更新（対称行列）
@@ -110,38 +119,85 @@ export function updateRestCounts(round: Round, restCounts: RestCounts): void {
 }
 
 /**
- * ペア、対戦、休憩の公平性に基づいてスケジュールの品質を評価する
+ * ラウンドに基づいて参加ラウンド数カウントを更新する
+ *
+ * ラウンドの試合または休憩に含まれるプレイヤーを参加として数える。
+ * 参加できるラウンドの範囲外（availability）や離脱後のラウンドは数えない。
+ *
+ * @param round - 処理するラウンド
+ * @param attendedCounts - 各プレイヤーの参加ラウンド数を追跡する配列（その場で変更）
+ *
+ * 計算量: O(courts + 休憩者数)
+ */
+export function updateAttendedCounts(round: Round, attendedCounts: number[]): void {
+  for (const match of round.matches) {
+    for (const player of getMatchPlayers(match)) {
+      attendedCounts[player - 1]++;
+    }
+  }
+  for (const player of round.restingPlayers) {
+    attendedCounts[player - 1]++;
+  }
+}
+
+/**
+ * ラウンドに基づいてシングルス出場回数カウントを更新する
+ *
+ * @param round - 処理するラウンド
+ * @param singlesCounts - 各プレイヤーのシングルス出場回数を追跡する配列（その場で変更）
+ *
+ * 計算量: O(courts)
+ */
+export function updateSinglesCounts(round: Round, singlesCounts: number[]): void {
+  for (const match of round.matches) {
+    if (!isSinglesMatch(match)) continue;
+    singlesCounts[match.playerA - 1]++;
+    singlesCounts[match.playerB - 1]++;
+  }
+}
+
+/**
+ * ペア、対戦、休憩の公平性とチーム力差に基づいてスケジュールの品質を評価する
  *
  * 評価式:
- *   totalScore = pairStdDev * w1 + oppoStdDev * w2 + restStdDev * w3
+ *   totalScore = pairStdDev * w1 + oppoStdDev * w2 + restStdDev * w3 + balanceAvg * w4
  *
  * スコアが低いほど良い。理想解: pairStdDev = 0, oppoStdDev = 0, restStdDev = 0
- * （全プレイヤーが他の全員と均等にペアを組み、均等に対戦し、均等に休憩する）
+ * （全プレイヤーが他の全員と均等にペアを組み、均等に対戦し、参加したラウンドに対して均等に休憩する）
+ * 休憩の偏り（restStdDev）は参加ラウンド数で重み付けして計算する（calculateRestDeviation）。
+ * レベル（ratings）が null の場合、チーム力差は 0 として扱う。
+ * シングルス出場回数の標準偏差（singlesStdDev）は参考値として返し、総合スコアには含めない。
  *
  * @param rounds - 評価する全ラウンド
  * @param playersCount - プレイヤーの総数
- * @param weights - 公平性の重み（w1: ペア、w2: 対戦、w3: 休憩）
+ * @param weights - 公平性の重み（w1: ペア、w2: 対戦、w3: 休憩、w4: チーム力差）
+ * @param ratings - プレイヤーのレベル（省略時はチーム力差を評価しない）
  * @returns 評価指標
  *
  * @example
  * evaluate([round1, round2, round3], 10, { w1: 1.0, w2: 0.5, w3: 2.0 })
- * // 戻り値: { pairStdDev: 0.52, oppoStdDev: 0.82, restStdDev: 0.47, totalScore: 1.87 }
+ * // 戻り値: { pairStdDev: 0.52, oppoStdDev: 0.82, restStdDev: 0.47, balanceAvg: 0, balanceMax: 0, totalScore: 1.87 }
  *
  * 計算量: O(rounds * courts + players²)
  */
 export function evaluate(
   rounds: Round[],
   playersCount: number,
-  weights: { w1: number; w2: number; w3: number }
+  weights: { w1: number; w2: number; w3: number; w4?: number },
+  ratings: PlayerRatings | null = null
 ): Evaluation {
   const pairCounts = initializeCountMatrix(playersCount);
   const oppoCounts = initializeCountMatrix(playersCount);
   const restCounts = initializeRestCounts(playersCount);
+  const attendedCounts = initializeRestCounts(playersCount);
+  const singlesCounts = initializeRestCounts(playersCount);
 
   // 全ラウンドのカウントを累積
   for (const round of rounds) {
     updateCountMatrices(round, pairCounts, oppoCounts);
     updateRestCounts(round, restCounts);
+    updateAttendedCounts(round, attendedCounts);
+    updateSinglesCounts(round, singlesCounts);
   }
 
   // 上三角の値を抽出（対称行列なので、各ペアを1回だけカウント）
@@ -151,23 +207,85 @@ export function evaluate(
   // 標準偏差を計算
   const pairStdDev = calculateStandardDeviation(pairValues);
   const oppoStdDev = calculateStandardDeviation(oppoValues);
-  const restStdDev = calculateStandardDeviation(restCounts);
+  let restSum = 0, restSumSq = 0, attendedSum = 0, attendedSumSq = 0, restAttendedSum = 0;
+  for (let i = 0; i < playersCount; i++) {
+    restSum += restCounts[i];
+    restSumSq += restCounts[i] ** 2;
+    attendedSum += attendedCounts[i];
+    attendedSumSq += attendedCounts[i] ** 2;
+    restAttendedSum += restCounts[i] * attendedCounts[i];
+  }
+  const restStdDev = calculateRestDeviation(restSum, restSumSq, attendedSum, attendedSumSq, restAttendedSum, playersCount);
+  const singlesStdDev = calculateStandardDeviation(singlesCounts);
+
+  // チーム力差の平均・最大値
+  let balanceSum = 0;
+  let balanceMax = 0;
+  let matchCount = 0;
+  if (ratings) {
+    for (const round of rounds) {
+      for (const match of round.matches) {
+        const imbalance = calculateMatchImbalance(ratings, match);
+        balanceSum += imbalance;
+        if (imbalance > balanceMax) balanceMax = imbalance;
+        matchCount++;
+      }
+    }
+  }
+  const balanceAvg = matchCount > 0 ? balanceSum / matchCount : 0;
 
   // 総合スコアを計算（重み付き合計）
-  const totalScore = pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3;
+  const totalScore =
+    pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3 + balanceAvg * (weights.w4 ?? 0);
 
-  return { pairStdDev, oppoStdDev, restStdDev, totalScore };
+  return { pairStdDev, oppoStdDev, restStdDev, balanceAvg, balanceMax, singlesStdDev, totalScore };
+}
+
+/**
+ * 参加ラウンド数を考慮した休憩回数の偏りを計算する
+ *
+ * 全体の休憩率 k = 休憩回数の合計 / 参加ラウンド数の合計 とし、各プレイヤーの見込みの休憩回数を
+ * 参加ラウンド数 × k とする。休憩回数と見込みとの差の二乗平均平方根を返す。
+ * 差は「出場率（出場回数 / 参加ラウンド数）と全体の出場率との差 × 参加ラウンド数」と同じで、
+ * 途中から来たプレイヤーは参加したラウンドの分だけ休憩すれば偏りにならない。
+ * 全員の参加ラウンド数が同じ場合は休憩回数の標準偏差と一致する。
+ *
+ * Σ(r - a·k)² = Σr² - 2k·Σ(r·a) + k²·Σa² を使い、合計値のみから計算する（増分評価用）。
+ *
+ * @param restSum - 休憩回数の合計（Σr）
+ * @param restSumSq - 休憩回数の二乗和（Σr²）
+ * @param attendedSum - 参加ラウンド数の合計（Σa）
+ * @param attendedSumSq - 参加ラウンド数の二乗和（Σa²）
+ * @param restAttendedSum - 休憩回数 × 参加ラウンド数の合計（Σr·a）
+ * @param n - プレイヤー数
+ *
+ * @example
+ * // 6ラウンド参加で2回休憩、3ラウンド参加で1回休憩 → k = 3/9、見込みは 2 と 1 で偏りなし
+ * calculateRestDeviation(3, 5, 9, 45, 15, 2) // 0
+ */
+export function calculateRestDeviation(
+  restSum: number,
+  restSumSq: number,
+  attendedSum: number,
+  attendedSumSq: number,
+  restAttendedSum: number,
+  n: number
+): number {
+  if (n === 0) return 0;
+  const k = attendedSum > 0 ? restSum / attendedSum : 0;
+  return Math.sqrt(Math.max(0, (restSumSq - 2 * k * restAttendedSum + k * k * attendedSumSq) / n));
 }
 
 /**
  * 累積状態を初期化する
  *
  * @param playersCount - プレイヤー数
+ * @param ratings - プレイヤーのレベル（省略時はチーム力差を集計しない）
  * @returns 全て0で初期化された累積状態
  *
  * 計算量: O(N²)
  */
-export function createCumulativeState(playersCount: number): CumulativeState {
+export function createCumulativeState(playersCount: number, ratings: PlayerRatings | null = null): CumulativeState {
   const n = playersCount * (playersCount - 1) / 2;
   return {
     pairCounts: initializeCountMatrix(playersCount),
@@ -182,7 +300,18 @@ export function createCumulativeState(playersCount: number): CumulativeState {
     restSum: 0,
     restSumSq: 0,
     restN: playersCount,
+    attendedCounts: initializeRestCounts(playersCount),
+    attendedSum: 0,
+    attendedSumSq: 0,
+    restAttendedSum: 0,
     pairMax: 0,
+    ratings,
+    balanceSum: 0,
+    balanceMax: 0,
+    matchCount: 0,
+    singlesCounts: initializeRestCounts(playersCount),
+    singlesSum: 0,
+    singlesSumSq: 0,
   };
 }
 
@@ -191,6 +320,8 @@ export function createCumulativeState(playersCount: number): CumulativeState {
  *
  * カウント行列と統計サマリ（sum, sumSq）の両方を更新する。
  * sumSq の増分: 値が v → v+1 になるとき、v² → (v+1)² なので差分は 2v+1
+ * シングルスの試合は対戦回数（1組み合わせ）・シングルス出場回数・チーム力差（2人のレベル差）を更新する。
+ * 試合と休憩に含まれる全プレイヤーの参加ラウンド数・休憩回数は shiftAttendanceInState で更新する。
  *
  * @param state - 更新する累積状態（その場で変更）
  * @param round - 反映するラウンド
@@ -199,6 +330,10 @@ export function createCumulativeState(playersCount: number): CumulativeState {
  */
 export function commitRoundToState(state: CumulativeState, round: Round): void {
   for (const match of round.matches) {
+    if (isSinglesMatch(match)) {
+      commitSinglesMatchToState(state, match.playerA, match.playerB);
+      continue;
+    }
     const { pairA, pairB } = match;
 
     // ペア回数: pairA (正規化済み: player1 < player2)
@@ -265,36 +400,106 @@ export function commitRoundToState(state: CumulativeState, round: Round): void {
       state.oppoSum += 1;
       state.oppoSumSq += 2 * oldOppo + 1;
     }
+
+    // チーム力差
+    if (state.ratings) {
+      const imbalance = calculateImbalance(state.ratings, a1, a2, b1, b2);
+      state.balanceSum += imbalance;
+      if (imbalance > state.balanceMax) state.balanceMax = imbalance;
+    }
+    state.matchCount++;
   }
 
-  // 休憩回数
+  // 参加ラウンド数・休憩回数
+  for (const match of round.matches) {
+    for (const player of getMatchPlayers(match)) shiftAttendanceInState(state, player, false, 1);
+  }
   for (const player of round.restingPlayers) {
-    const idx = player - 1;
-    const oldRest = state.restCounts[idx];
-    state.restCounts[idx]++;
-    state.restSum += 1;
-    state.restSumSq += 2 * oldRest + 1;
+    shiftAttendanceInState(state, player, true, 1);
+  }
+}
+
+/**
+ * プレイヤーの1ラウンド分の参加（出場または休憩）を累積状態に反映する・取り除く（状態を変更する）
+ *
+ * 参加ラウンド数・休憩回数と、休憩の偏りの計算に使う合計値（calculateRestDeviation）を更新する。
+ *
+ * @param state - 更新する累積状態（その場で変更）
+ * @param player - プレイヤー番号
+ * @param rested - そのラウンドで休憩したか
+ * @param sign - 1: 反映する、-1: 取り除く
+ *
+ * 計算量: O(1)
+ */
+export function shiftAttendanceInState(state: CumulativeState, player: number, rested: boolean, sign: 1 | -1): void {
+  const idx = player - 1;
+  const oldAttended = state.attendedCounts[idx];
+  const oldRest = state.restCounts[idx];
+  const attended = oldAttended + sign;
+  const rest = rested ? oldRest + sign : oldRest;
+  state.attendedCounts[idx] = attended;
+  state.attendedSum += sign;
+  state.attendedSumSq += attended * attended - oldAttended * oldAttended;
+  state.restAttendedSum += rest * attended - oldRest * oldAttended;
+  if (rested) {
+    state.restCounts[idx] = rest;
+    state.restSum += sign;
+    state.restSumSq += rest * rest - oldRest * oldRest;
   }
 }
 
+/**
+ * シングルスの試合を累積状態に反映する（状態を変更する）
+ *
+ * 計算量: O(1)
+ */
+function commitSinglesMatchToState(state: CumulativeState, a: number, b: number): void {
+  const oi = Math.min(a, b) - 1;
+  const oj = Math.max(a, b) - 1;
+  const oldOppo = state.oppoCounts[oi][oj];
+  state.oppoCounts[oi][oj]++;
+  state.oppoCounts[oj][oi]++;
+  state.oppoSum += 1;
+  state.oppoSumSq += 2 * oldOppo + 1;
+
+  for (const player of [a, b]) {
+    const oldSingles = state.singlesCounts[player - 1];
+    state.singlesCounts[player - 1]++;
+    state.singlesSum += 1;
+    state.singlesSumSq += 2 * oldSingles + 1;
+  }
+
+  if (state.ratings) {
+    const imbalance = Math.abs(state.ratings[a - 1] - state.ratings[b - 1]);
+    state.balanceSum += imbalance;
+    if (imbalance > state.balanceMax) state.balanceMax = imbalance;
+  }
+  state.matchCount++;
+}
+
 /**
  * 消化済みラウンドからアクティブプレイヤーのみの累積状態を構築する
  *
  * 参加者の途中追加/離脱後に残りラウンドを再生成する際に使用。
  * 除外されたプレイヤーとのペア/対戦は無視し、アクティブプレイヤー間の
- * 相互作用のみを集計する。新規プレイヤーは全カウント0で開始する。
+ * 相互作用のみを集計する。新規プレイヤーは全カウント0（参加ラウンド数も0）で開始するため、
+ * 休憩の偏りは参加したラウンドに対して評価され、途中から来たプレイヤーが休憩を「取り戻す」必要はない。
  *
  * @param completedRounds - 消化済みラウンド（保持する）
  * @param activePlayers - 現在アクティブなプレイヤー番号（ソート済み）
  * @param maxPlayerNumber - 最大プレイヤー番号（行列サイズ決定用）
+ * @param ratings - プレイヤーのレベル（省略時はチーム力差を集計しない）
  * @returns アクティブプレイヤーのみを反映した累積状態
  *
+ * チーム力差は離脱者を含む全試合から集計する（実際に行われた試合の偏りのため）。
+ *
  * 計算量: O(completedRounds * courts + activePlayers²)
  */
 export function buildCumulativeStateForActivePlayers(
   completedRounds: Round[],
   activePlayers: number[],
-  maxPlayerNumber: number
+  maxPlayerNumber: number,
+  ratings: PlayerRatings | null = null
 ): CumulativeState {
   const activeSet = new Set(activePlayers);
   const n = activePlayers.length;
@@ -304,10 +509,35 @@ export function buildCumulativeStateForActivePlayers(
   const pairCounts = initializeCountMatrix(maxPlayerNumber);
   const oppoCounts = initializeCountMatrix(maxPlayerNumber);
   const restCounts = initializeRestCounts(maxPlayerNumber);
+  const attendedCounts = initializeRestCounts(maxPlayerNumber);
+  const singlesCounts = initializeRestCounts(maxPlayerNumber);
+
+  let balanceSum = 0;
+  let balanceMax = 0;
+  let matchCount = 0;
 
   // 消化済みラウンドからカウントを集計（アクティブプレイヤーのみ）
   for (const round of completedRounds) {
     for (const match of round.matches) {
+      // チーム力差: 全試合
+      if (ratings) {
+        const imbalance = calculateMatchImbalance(ratings, match);
+        balanceSum += imbalance;
+        if (imbalance > balanceMax) balanceMax = imbalance;
+      }
+      matchCount++;
+
+      // シングルス: 対戦回数と出場回数（アクティブプレイヤーのみ）
+      if (isSinglesMatch(match)) {
+        const { playerA, playerB } = match;
+        if (activeSet.has(playerA) && activeSet.has(playerB)) {
+          oppoCounts[playerA - 1][playerB - 1]++;
+          oppoCounts[playerB - 1][playerA - 1]++;
+        }
+        if (activeSet.has(playerA)) singlesCounts[playerA - 1]++;
+        if (activeSet.has(playerB)) singlesCounts[playerB - 1]++;
+        continue;
+      }
       const { pairA, pairB } = match;
 
       // ペア回数: 両プレイヤーが active の場合のみ
@@ -341,10 +571,17 @@ export function buildCumulativeStateForActivePlayers(
     }
   }
 
+  // 参加ラウンド数（アクティブプレイヤー以外も数えるが、合計値には含めない）
+  for (const round of completedRounds) {
+    updateAttendedCounts(round, attendedCounts);
+  }
+
   // アクティブプレイヤーのペアのみから sum/sumSq/pairMax を計算
   let pairSum = 0, pairSumSq = 0;
   let oppoSum = 0, oppoSumSq = 0;
   let restSum = 0, restSumSq = 0;
+  let attendedSum = 0, attendedSumSq = 0, restAttendedSum = 0;
+  let singlesSum = 0, singlesSumSq = 0;
   let pairMax = 0;
 
   for (let idx = 0; idx < activePlayers.length; idx++) {
@@ -362,6 +599,11 @@ export function buildCumulativeStateForActivePlayers(
   for (const p of activePlayers) {
     restSum += restCounts[p - 1];
     restSumSq += restCounts[p - 1] ** 2;
+    attendedSum += attendedCounts[p - 1];
+    attendedSumSq += attendedCounts[p - 1] ** 2;
+    restAttendedSum += restCounts[p - 1] * attendedCounts[p - 1];
+    singlesSum += singlesCounts[p - 1];
+    singlesSumSq += singlesCounts[p - 1] ** 2;
   }
 
   return {
@@ -377,7 +619,18 @@ export function buildCumulativeStateForActivePlayers(
     restSum,
     restSumSq,
     restN: n,
+    attendedCounts,
+    attendedSum,
+    attendedSumSq,
+    restAttendedSum,
     pairMax,
+    ratings,
+    balanceSum,
+    balanceMax,
+    matchCount,
+    singlesCounts,
+    singlesSum,
+    singlesSumSq,
   };
 }
 
@@ -387,16 +640,17 @@ export function buildCumulativeStateForActivePlayers(
  * 累積状態の現在のカウント値を読み取り、候補ラウンドを追加した場合の
  * 標準偏差を sum/sumSq から直接計算する。
  * stddev = sqrt(sumSq/n - (sum/n)²)
+ * 休憩の偏りは出場者・休憩者全員の参加ラウンド数を1増やして calculateRestDeviation で計算する。
  *
  * @param state - 現在の累積状態（変更しない）
  * @param template - 0-basedインデックスの正規化済み配置テンプレート
  * @param courtsCount - コート数
  * @param playerMap - テンプレートインデックスを実プレイヤー番号に変換する配列
  * @param restingPlayers - 休憩者リスト（実プレイヤー番号）
- * @param weights - 評価の重み
+ * @param weights - 評価の重み（w4 はチーム力差、state.ratings が null の場合は無視）
  * @returns totalScore（小さいほど良い）
  *
- * 計算量: O(courts)
+ * 計算量: O(courts + restingPlayers)
  */
 export function evaluateCandidate(
   state: CumulativeState,
@@ -404,7 +658,7 @@ export function evaluateCandidate(
   courtsCount: number,
   playerMap: number[],
   restingPlayers: number[],
-  weights: { w1: number; w2: number; w3: number }
+  weights: { w1: number; w2: number; w3: number; w4?: number }
 ): number {
   let pairSum = state.pairSum;
   let pairSumSq = state.pairSumSq;
@@ -412,7 +666,11 @@ export function evaluateCandidate(
   let oppoSumSq = state.oppoSumSq;
   let restSum = state.restSum;
   let restSumSq = state.restSumSq;
+  let attendedSum = state.attendedSum;
+  let attendedSumSq = state.attendedSumSq;
+  let restAttendedSum = state.restAttendedSum;
   let candidatePairMax = state.pairMax;
+  let balanceSum = state.balanceSum;
 
   for (let c = 0; c < courtsCount; c++) {
     const offset = c * 4;
@@ -460,23 +718,41 @@ export function evaluateCandidate(
       oppoSum += 1;
       oppoSumSq += 2 * state.oppoCounts[oi][oj] + 1;
     }
+
+    // チーム力差
+    if (state.ratings) {
+      balanceSum += calculateImbalance(state.ratings, p1, p2, p3, p4);
+    }
+
+    // 参加ラウンド数: a → a+1 なので Σa² は 2a+1、Σr·a は r 増える
+    for (let k = 0; k < 4; k++) {
+      const idx = playerMap[template[offset + k]] - 1;
+      attendedSum += 1;
+      attendedSumSq += 2 * state.attendedCounts[idx] + 1;
+      restAttendedSum += state.restCounts[idx];
+    }
   }
 
-  // 休憩
+  // 休憩: r → r+1, a → a+1 なので Σr·a は r+a+1 増える
   for (const player of restingPlayers) {
     const oldRest = state.restCounts[player - 1];
+    const oldAttended = state.attendedCounts[player - 1];
     restSum += 1;
     restSumSq += 2 * oldRest + 1;
+    attendedSum += 1;
+    attendedSumSq += 2 * oldAttended + 1;
+    restAttendedSum += oldRest + oldAttended + 1;
   }
 
   // stddev = sqrt(sumSq/n - (sum/n)²)
   const pairStdDev = Math.sqrt(Math.max(0, pairSumSq / state.pairN - (pairSum / state.pairN) ** 2));
   const oppoStdDev = Math.sqrt(Math.max(0, oppoSumSq / state.oppoN - (oppoSum / state.oppoN) ** 2));
-  const restStdDev = state.restN > 0
-    ? Math.sqrt(Math.max(0, restSumSq / state.restN - (restSum / state.restN) ** 2))
-    : 0;
+  const restStdDev = calculateRestDeviation(restSum, restSumSq, attendedSum, attendedSumSq, restAttendedSum, state.restN);
+  const matchCount = state.matchCount + courtsCount;
+  const balanceAvg = matchCount > 0 ? balanceSum / matchCount : 0;
 
-  const totalScore = pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3;
+  const totalScore =
+    pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3 + balanceAvg * (weights.w4 ?? 0);
 
   // 辞書式順序: pairMax を最優先し、同じ pairMax 内で totalScore で比較
   // PAIR_MAX_PENALTY は totalScore の最大値（≒30程度）を十分上回る値
@@ -487,7 +763,7 @@ export function evaluateCandidate(
 /**
  * 前ラウンドから各プレイヤーの対戦相手を抽出する
  *
- * 連続対戦回避のために使用。各プレイヤーが前ラウンドで対戦した相手の集合を返す。
+ * 連続対戦回避のために使用。各プレイヤーが前ラウンドで対戦した相手の集合を返す（シングルスを含む）。
  *
  * @param round - 前ラウンド
  * @returns プレイヤー番号 → 対戦相手番号の集合
@@ -497,8 +773,7 @@ export function evaluateCandidate(
 export function extractPreviousOpponents(round: Round): Map<number, Set<number>> {
   const map = new Map<number, Set<number>>();
   for (const match of round.matches) {
-    const playersA = [match.pairA.player1, match.pairA.player2];
-    const playersB = [match.pairB.player1, match.pairB.player2];
+    const [playersA, playersB] = getMatchSides(match);
     for (const pa of playersA) {
       if (!map.has(pa)) map.set(pa, new Set());
       for (const pb of playersB) map.get(pa)!.add(pb);
@@ -558,14 +833,20 @@ export function calculateConsecutiveOpponentPenalty(
  */
 export function evaluateFromState(
   state: CumulativeState,
-  weights: { w1: number; w2: number; w3: number }
+  weights: { w1: number; w2: number; w3: number; w4?: number }
 ): Evaluation {
   const pairStdDev = Math.sqrt(Math.max(0, state.pairSumSq / state.pairN - (state.pairSum / state.pairN) ** 2));
   const oppoStdDev = Math.sqrt(Math.max(0, state.oppoSumSq / state.oppoN - (state.oppoSum / state.oppoN) ** 2));
-  const restStdDev = state.restN > 0
-    ? Math.sqrt(Math.max(0, state.restSumSq / state.restN - (state.restSum / state.restN) ** 2))
+  const restStdDev = calculateRestDeviation(
+    state.restSum, state.restSumSq, state.attendedSum, state.attendedSumSq, state.restAttendedSum, state.restN
+  );
+  const balanceAvg = state.matchCount > 0 ? state.balanceSum / state.matchCount : 0;
+  const balanceMax = state.balanceMax;
+  const singlesStdDev = state.restN > 0
+    ? Math.sqrt(Math.max(0, state.singlesSumSq / state.restN - (state.singlesSum / state.restN) ** 2))
     : 0;
-  const totalScore = pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3;
+  const totalScore =
+    pairStdDev * weights.w1 + oppoStdDev * weights.w2 + restStdDev * weights.w3 + balanceAvg * (weights.w4 ?? 0);
 
-  return { pairStdDev, oppoStdDev, restStdDev, totalScore };
+  return { pairStdDev, oppoStdDev, restStdDev, balanceAvg, balanceMax, singlesStdDev, totalScore };
 }
@@ -0,0 +1,292 @@
+/**
+ * スケジュールのエクスポートユーティリティ
+ *
+ * 出力形式:
+ * - CSV: 表計算ソフト用。1試合1行、末尾に固定ペア・評価指標のセクションを付ける
+ * - JSON: アプリ間で受け渡すための安定した形式（ScheduleExport を参照）
+ * - 印刷用 HTML: A4 横向きに収まる対戦表（1ラウンド1行、コートごとの列）
+ */
+
+import type { Schedule, MatchResults, ScoringFormatId, Match, Pair } from '../types/schedule';
+import { getPlayerName, formatSideNames } from './roster';
+import { getMatchResultKey, formatMatchResult } from './scoring';
+import { getCourtName, hasCourtNames } from './courtAssignment';
+import { getMatchSides } from './singles';
+
+/** JSON エクスポートの形式識別子 */
+export const SCHEDULE_EXPORT_FORMAT = 'doubles-schedule';
+
+/**
+ * JSON エクスポートのバージョン
+ * 形式を互換性のない形で変更する場合のみインクリメントする（フィールド追加は互換とみなす）
+ */
+export const SCHEDULE_EXPORT_VERSION = 1;
+
+/**
+ * JSON エクスポート形式
+ *
+ * ```json
+ * {
+ *   "format": "doubles-schedule",
+ *   "version": 1,
+ *   "exportedAt": "2025-01-01T09:00:00.000Z",
+ *   "schedule": { "courts": 2, "players": 8, "rounds": [...], ... },
+ *   "matchResults": { "1-0": { "gamesA": 6, "gamesB": 4 } },
+ *   "scoringFormatId": "six-game-set"
+ * }
+ * ```
+ *
+ * - schedule: Schedule 型そのまま（src/types/schedule.ts の不変条件を満たす）
+ * - matchResults: キーは `${roundNumber}-${courtIndex}`（courtIndex は rounds[].matches の添字）
+ */
+export interface ScheduleExport {
+  format: typeof SCHEDULE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  schedule: Schedule;
+  matchResults: MatchResults;
+  scoringFormatId: ScoringFormatId;
+}
+
+/**
+ * エクスポートファイル名を生成する
+ *
+ * @example
+ * buildExportFileName('csv', new Date(2025, 0, 2, 9, 5)) // 'schedule-20250102-0905.csv'
+ */
+export function buildExportFileName(extension: string, date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `schedule-${stamp}.${extension}`;
+}
+
+/**
+ * スケジュールを JSON 文字列に変換する
+ *
+ * @param schedule - スケジュール
+ * @param matchResults - 試合結果
+ * @param scoringFormatId - スコア形式
+ * @param exportedAt - エクスポート日時（省略時は現在時刻）
+ * @returns 整形済み JSON 文字列
+ */
+export function exportScheduleToJson(
+  schedule: Schedule,
+  matchResults: MatchResults,
+  scoringFormatId: ScoringFormatId,
+  exportedAt: Date = new Date()
+): string {
+  const data: ScheduleExport = {
+    format: SCHEDULE_EXPORT_FORMAT,
+    version: SCHEDULE_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    schedule,
+    matchResults,
+    scoringFormatId,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/** CSV の1フィールドをエスケープする（カンマ・改行・ダブルクォートを含む場合は囲む） */
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(fields: (string | number)[]): string {
+  return fields.map(escapeCsvField).join(',');
+}
+
+/**
+ * スケジュールを CSV 文字列に変換する
+ *
+ * 1試合1行（ラウンド, コート, ペアA, ペアB, スコア, 休憩）。休憩者はラウンドの先頭行にのみ記載する。
+ * シングルスの試合はペア欄に1人ずつ記載する。
+ * コート欄はコート番号（コート名が設定されている場合はコート名）。
+ * 固定ペア・ペア禁止・対戦禁止・評価指標は空行を挟んで末尾に出力する。
+ * Excel で文字化けしないよう、ダウンロード時は BOM 付き UTF-8 で保存すること。
+ *
+ * @param schedule - スケジュール
+ * @param matchResults - 試合結果（未入力の試合はスコア欄が空）
+ * @returns CSV 文字列（改行は CRLF）
+ */
+export function exportScheduleToCsv(schedule: Schedule, matchResults: MatchResults): string {
+  const { roster } = schedule;
+  const names = (players: number[]) => players.map(p => getPlayerName(roster, p)).join('・');
+  const court = (courtIndex: number) =>
+    hasCourtNames(schedule.courtNames) ? getCourtName(schedule.courtNames, courtIndex) : courtIndex + 1;
+
+  const lines: string[] = [toCsvLine(['ラウンド', 'コート', 'ペアA', 'ペアB', 'スコア', '休憩'])];
+  for (const round of schedule.rounds) {
+    round.matches.forEach((match, courtIndex) => {
+      const result = matchResults[getMatchResultKey(round.roundNumber, courtIndex)];
+      const [sideA, sideB] = getMatchSides(match);
+      lines.push(toCsvLine([
+        round.roundNumber,
+        court(courtIndex),
+        names(sideA),
+        names(sideB),
+        result ? formatMatchResult(result) : '',
+        courtIndex === 0 ? names(round.restingPlayers) : '',
+      ]));
+    });
+  }
+
+  const pairSections: [string, Pair[]][] = [
+    ['固定ペア', schedule.fixedPairs],
+    ['ペア禁止', schedule.forbiddenPairs],
+    ['対戦禁止', schedule.forbiddenOpponents],
+  ];
+  for (const [label, pairs] of pairSections) {
+    if (pairs.length === 0) continue;
+    lines.push('', toCsvLine([label]));
+    for (const pair of pairs) {
+      lines.push(toCsvLine([getPlayerName(roster, pair.player1), getPlayerName(roster, pair.player2)]));
+    }
+  }
+
+  const { evaluation } = schedule;
+  lines.push(
+    '',
+    toCsvLine(['評価指標', '値']),
+    toCsvLine(['ペア回数の標準偏差', evaluation.pairStdDev.toFixed(3)]),
+    toCsvLine(['対戦回数の標準偏差', evaluation.oppoStdDev.toFixed(3)]),
+    toCsvLine(['休憩回数の偏り', evaluation.restStdDev.toFixed(3)]),
+    toCsvLine(['チーム力差の平均', evaluation.balanceAvg.toFixed(3)]),
+    toCsvLine(['チーム力差の最大', evaluation.balanceMax.toFixed(3)]),
+    ...(evaluation.singlesStdDev !== undefined && (schedule.singlesCourts ?? []).length > 0
+      ? [toCsvLine(['シングルス回数の標準偏差', evaluation.singlesStdDev.toFixed(3)])]
+      : []),
+    toCsvLine(['総合スコア', evaluation.totalScore.toFixed(3)]),
+  );
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/** HTML 特殊文字をエスケープする */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 印刷用スタイル（A4 横向き、1ラウンド1行） */
+const PRINT_STYLES = `
+@page { size: A4 landscape; margin: 10mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: sans-serif; color: #000; }
+h1 { font-size: 16pt; margin: 0 0 4mm; }
+table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+th, td { border: 1px solid #000; padding: 2mm; text-align: center; vertical-align: middle; }
+th { font-size: 12pt; background: #eee; }
+td { font-size: 15pt; font-weight: bold; }
+th.round, td.round { width: 18mm; }
+tr { break-inside: avoid; page-break-inside: avoid; }
+thead { display: table-header-group; }
+.vs { display: block; font-size: 10pt; font-weight: normal; color: #555; }
+.result { display: block; font-size: 11pt; font-weight: normal; margin-top: 1mm; }
+.rest { font-size: 12pt; font-weight: normal; }
+@media print { * { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`;
+
+/**
+ * 印刷用の対戦表 HTML ドキュメントを生成する
+ *
+ * 対戦表（ScheduleTable）のデスクトップ表示と同じく、1ラウンド1行・コートごとの列で構成する。
+ * 休憩者がいる場合のみ休憩列を付ける。
+ *
+ * @param schedule - スケジュール
+ * @param matchResults - 試合結果（入力済みの試合はスコアを併記）
+ * @param title - 見出し（省略時は「対戦表」）
+ * @returns 完全な HTML ドキュメント文字列
+ */
+export function buildPrintableHtml(schedule: Schedule, matchResults: MatchResults, title = '対戦表'): string {
+  const { roster } = schedule;
+  const hasRestingPlayers = schedule.rounds.some(r => r.restingPlayers.length > 0);
+  // コート数の変更がある場合はコート数が最大のラウンドに合わせる（コートのないラウンドは空欄）
+  const courtColumns = Math.max(0, ...schedule.rounds.map(r => r.matches.length));
+
+  const headerCells = [
+    '<th class="round">R</th>',
+    ...Array.from({ length: courtColumns }, (_, i) => `<th>${escapeHtml(getCourtName(schedule.courtNames, i))}</th>`),
+    ...(hasRestingPlayers ? ['<th>休憩</th>'] : []),
+  ];
+
+  const matchCell = (roundNumber: number, match: Match | undefined, courtIndex: number) => {
+    if (!match) return '<td></td>';
+    const result = matchResults[getMatchResultKey(roundNumber, courtIndex)];
+    const [sideA, sideB] = getMatchSides(match);
+    return '<td>'
+      + escapeHtml(formatSideNames(roster, sideA))
+      + '<span class="vs">vs</span>'
+      + escapeHtml(formatSideNames(roster, sideB))
+      + (result ? `<span class="result">${escapeHtml(formatMatchResult(result))}</span>` : '')
+      + '</td>';
+  };
+
+  const rows = schedule.rounds.map(round => {
+    const cells = [
+      `<td class="round">${round.roundNumber}</td>`,
+      ...Array.from({ length: courtColumns }, (_, i) => matchCell(round.roundNumber, round.matches[i], i)),
+      ...(hasRestingPlayers
+        ? [`<td class="rest">${escapeHtml(round.restingPlayers.map(p => getPlayerName(roster, p)).join(', '))}</td>`]
+        : []),
+    ];
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<table>
+<thead><tr>${headerCells.join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * 文字列をファイルとしてダウンロードさせる
+ *
+ * @param fileName - 保存ファイル名
+ * @param content - ファイル内容
+ * @param mimeType - MIME タイプ
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 印刷用 HTML を新しいウィンドウで開き、印刷ダイアログを表示する
+ *
+ * @returns ウィンドウを開けなかった場合（ポップアップブロック等）は false
+ */
+export function openPrintWindow(html: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
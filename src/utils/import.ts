@@ -0,0 +1,698 @@
+/**
+ * スケジュールのインポートユーティリティ
+ *
+ * export.ts で出力した JSON（または Schedule 単体の JSON）を読み込み、
+ * src/types/schedule.ts に記載された不変条件を検証してからアプリに取り込む。
+ * ファイルは手で編集されることがあるため、違反した不変条件ごとにエラーメッセージを返す。
+ *
+ * 評価指標（evaluation）はファイルの値を信用せず、読み込んだラウンドから再計算する。
+ */
+
+import type {
+  Schedule,
+  Round,
+  RoundTiming,
+  Match,
+  Pair,
+  FixedPair,
+  PairConstraint,
+  Participant,
+  CourtChange,
+  TimePlan,
+  PlayerAvailability,
+  PlayerBreak,
+  MatchResult,
+  MatchResults,
+  ScoringFormatId,
+} from '../types/schedule';
+import { SCHEDULE_EXPORT_FORMAT, SCHEDULE_EXPORT_VERSION } from './export';
+import { SCORING_FORMATS, DEFAULT_SCORING_FORMAT_ID, getScoringFormat, validateMatchResult } from './scoring';
+import { validateFixedPairs } from './fixedPairs';
+import { buildPlayerRatings, MIN_RATING, MAX_RATING } from './rating';
+import { buildCumulativeStateForActivePlayers, evaluateFromState } from './evaluation';
+import { isValidSeed, MAX_SEED } from './random';
+import { validateTimePlan } from './timePlan';
+import { getCourtsForRound } from './courtChanges';
+import { getMatchPlayers, getRequiredPlayers, isSinglesMatch } from './singles';
+
+/**
+ * 読み込みに成功したデータ
+ */
+export interface ImportedSchedule {
+  schedule: Schedule;
+  matchResults: MatchResults;
+  scoringFormatId: ScoringFormatId;
+}
+
+/**
+ * 読み込み結果（無効な場合は違反ごとのエラーメッセージを返す）
+ */
+export type ScheduleImportResult =
+  | { isValid: true; data: ImportedSchedule }
+  | { isValid: false; errorMessages: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * 検証中のエラーを集めるコンテキスト
+ */
+interface Validator {
+  errors: string[];
+  players: number; // 有効なプレイヤー番号の上限
+}
+
+/** プレイヤー番号を検証する（1〜players の整数） */
+function checkPlayer(v: Validator, value: unknown, label: string): value is number {
+  if (!isPositiveInteger(value)) {
+    v.errors.push(`${label}: プレイヤー番号が1以上の整数ではありません（${JSON.stringify(value)}）`);
+    return false;
+  }
+  if (value > v.players) {
+    v.errors.push(`${label}: プレイヤー ${value} は players（${v.players}）を超えています`);
+    return false;
+  }
+  return true;
+}
+
+/** 正規化済みの2人組（player1 < player2）を検証する */
+function checkPair(v: Validator, value: unknown, label: string): Pair | null {
+  if (!isRecord(value)) {
+    v.errors.push(`${label}: ペアの形式が不正です`);
+    return null;
+  }
+  const ok1 = checkPlayer(v, value.player1, label);
+  const ok2 = checkPlayer(v, value.player2, label);
+  if (!ok1 || !ok2) return null;
+  const player1 = value.player1 as number;
+  const player2 = value.player2 as number;
+  if (player1 >= player2) {
+    v.errors.push(`${label}: player1 < player2 になっていません（${player1}, ${player2}）`);
+    return null;
+  }
+  return { player1, player2 };
+}
+
+/** プレイヤー番号の配列を検証する（sorted: 昇順・重複なしを要求） */
+function checkPlayerList(v: Validator, value: unknown, label: string): number[] | null {
+  if (!Array.isArray(value)) {
+    v.errors.push(`${label} が配列ではありません`);
+    return null;
+  }
+  let valid = true;
+  value.forEach((p) => {
+    if (!checkPlayer(v, p, label)) valid = false;
+  });
+  if (!valid) return null;
+  const players = value as number[];
+  for (let i = 1; i < players.length; i++) {
+    if (players[i - 1] >= players[i]) {
+      v.errors.push(`${label} が昇順（重複なし）になっていません（${players.join(', ')}）`);
+      return null;
+    }
+  }
+  return players;
+}
+
+function checkMatch(v: Validator, value: unknown, label: string): Match | null {
+  if (!isRecord(value)) {
+    v.errors.push(`${label}: 試合の形式が不正です`);
+    return null;
+  }
+  if (value.type === 'singles') {
+    const okA = checkPlayer(v, value.playerA, `${label} プレイヤーA`);
+    const okB = checkPlayer(v, value.playerB, `${label} プレイヤーB`);
+    if (!okA || !okB) return null;
+    const playerA = value.playerA as number;
+    const playerB = value.playerB as number;
+    if (playerA >= playerB) {
+      v.errors.push(`${label}: playerA < playerB になっていません（${playerA}, ${playerB}）`);
+      return null;
+    }
+    return { type: 'singles', playerA, playerB };
+  }
+  if (value.type !== undefined && value.type !== 'doubles') {
+    v.errors.push(`${label}: type は doubles または singles で指定してください（${JSON.stringify(value.type)}）`);
+    return null;
+  }
+  const pairA = checkPair(v, value.pairA, `${label} ペアA`);
+  const pairB = checkPair(v, value.pairB, `${label} ペアB`);
+  if (!pairA || !pairB) return null;
+  if (pairA.player1 >= pairB.player1) {
+    v.errors.push(`${label}: min(ペアA) < min(ペアB) になっていません（${pairA.player1} と ${pairB.player1}）`);
+    return null;
+  }
+  return { pairA, pairB };
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * 試合タイマーの計測記録を検証する（時刻の前後関係が崩れている場合は無効）
+ */
+function checkTiming(v: Validator, value: unknown, label: string): RoundTiming | null {
+  if (!isRecord(value) || !isTimestamp(value.startedAt) || !isTimestamp(value.pausedMs)) {
+    v.errors.push(`${label}: timing の形式が不正です`);
+    return null;
+  }
+  const { startedAt, pausedMs, endedAt, pausedAt } = value;
+  if (endedAt !== undefined && (!isTimestamp(endedAt) || endedAt < startedAt)) {
+    v.errors.push(`${label}: timing.endedAt が開始時刻より前です`);
+    return null;
+  }
+  if (pausedAt !== undefined && (!isTimestamp(pausedAt) || pausedAt < startedAt || endedAt !== undefined)) {
+    v.errors.push(`${label}: timing.pausedAt が不正です`);
+    return null;
+  }
+  return {
+    startedAt,
+    pausedMs,
+    ...(endedAt !== undefined && { endedAt }),
+    ...(pausedAt !== undefined && { pausedAt }),
+  };
+}
+
+function checkRound(v: Validator, value: unknown, index: number, courts: number, courtChanges: CourtChange[]): Round | null {
+  if (!isRecord(value)) {
+    v.errors.push(`rounds[${index}]: ラウンドの形式が不正です`);
+    return null;
+  }
+  if (!isPositiveInteger(value.roundNumber)) {
+    v.errors.push(`rounds[${index}]: roundNumber が1以上の整数ではありません`);
+    return null;
+  }
+  const roundNumber = value.roundNumber;
+  const label = `ラウンド ${roundNumber}`;
+
+  if (!Array.isArray(value.matches)) {
+    v.errors.push(`${label}: matches が配列ではありません`);
+    return null;
+  }
+  const roundCourts = getCourtsForRound(courts, courtChanges, roundNumber);
+  if (value.matches.length !== roundCourts) {
+    v.errors.push(`${label}: 試合数（${value.matches.length}）がコート数（${roundCourts}）と一致しません`);
+  }
+  const matches = value.matches.map((m, courtIndex) => checkMatch(v, m, `${label} コート ${courtIndex + 1}`));
+  const restingPlayers = checkPlayerList(v, value.restingPlayers, `${label} の restingPlayers`);
+  const timing = value.timing === undefined ? undefined : checkTiming(v, value.timing, label);
+  if (matches.some((m) => m === null) || restingPlayers === null || timing === null) return null;
+
+  // 同一ラウンドで同じプレイヤーが複数箇所に含まれていないか
+  const seen = new Set<number>();
+  const duplicated = new Set<number>();
+  const validMatches = matches as Match[];
+  for (const m of validMatches) {
+    for (const p of getMatchPlayers(m)) {
+      if (seen.has(p)) duplicated.add(p);
+      seen.add(p);
+    }
+  }
+  for (const p of restingPlayers) {
+    if (seen.has(p)) duplicated.add(p);
+    seen.add(p);
+  }
+  if (duplicated.size > 0) {
+    v.errors.push(`${label}: プレイヤー ${[...duplicated].join(', ')} が同じラウンドの複数箇所に含まれています`);
+    return null;
+  }
+
+  return { roundNumber, matches: validMatches, restingPlayers, ...(timing && { timing }) };
+}
+
+function checkPairList(v: Validator, value: unknown, label: string): Pair[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    v.errors.push(`${label} が配列ではありません`);
+    return null;
+  }
+  const pairs = value.map((p, i) => checkPair(v, p, `${label}[${i}]`));
+  return pairs.some((p) => p === null) ? null : (pairs as Pair[]);
+}
+
+/**
+ * シングルスコートを検証する（0以上の昇順、省略時はシングルスの試合があるコートから復元）
+ * シングルスの試合はすべてシングルスコートで行われている必要がある
+ */
+function checkSinglesCourts(errors: string[], value: unknown, rounds: Round[]): number[] | null {
+  const used = [...new Set(rounds.flatMap((r) => r.matches.flatMap((m, c) => (isSinglesMatch(m) ? [c] : []))))].sort((a, b) => a - b);
+  if (value === undefined) return used;
+  if (!Array.isArray(value) || value.some((c) => typeof c !== 'number' || !Number.isInteger(c) || c < 0)) {
+    errors.push('singlesCourts が0以上の整数の配列ではありません');
+    return null;
+  }
+  const singlesCourts = value as number[];
+  for (let i = 1; i < singlesCourts.length; i++) {
+    if (singlesCourts[i - 1] >= singlesCourts[i]) {
+      errors.push(`singlesCourts が昇順（重複なし）になっていません（${singlesCourts.join(', ')}）`);
+      return null;
+    }
+  }
+  const outside = used.filter((c) => !singlesCourts.includes(c));
+  if (outside.length > 0) {
+    errors.push(`コート ${outside.map((c) => c + 1).join(', ')} のシングルスの試合が singlesCourts に含まれていません`);
+    return null;
+  }
+  return singlesCourts;
+}
+
+/** 時間から決めたラウンド数の設定を検証する（時刻は "HH:MM"、時間内に1ラウンド以上入る） */
+function checkTimePlan(errors: string[], value: unknown): TimePlan | null {
+  if (
+    !isRecord(value) ||
+    typeof value.startTime !== 'string' ||
+    typeof value.endTime !== 'string' ||
+    typeof value.matchMinutes !== 'number' ||
+    typeof value.changeoverMinutes !== 'number'
+  ) {
+    errors.push('timePlan に startTime・endTime・matchMinutes・changeoverMinutes がありません');
+    return null;
+  }
+  const timePlan: TimePlan = {
+    startTime: value.startTime,
+    endTime: value.endTime,
+    matchMinutes: value.matchMinutes,
+    changeoverMinutes: value.changeoverMinutes,
+  };
+  const validation = validateTimePlan(timePlan);
+  if (!validation.isValid) {
+    errors.push(`timePlan: ${validation.errorMessage}`);
+    return null;
+  }
+  return timePlan;
+}
+
+/** コート数の変更を検証する（fromRound は2以上の昇順、courts は1以上） */
+function checkCourtChanges(errors: string[], value: unknown): CourtChange[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push('courtChanges が配列ではありません');
+    return null;
+  }
+  const courtChanges: CourtChange[] = [];
+  let previousRound = 1;
+  value.forEach((entry, i) => {
+    const label = `courtChanges[${i}]`;
+    if (!isRecord(entry) || !isPositiveInteger(entry.fromRound) || !isPositiveInteger(entry.courts)) {
+      errors.push(`${label}: fromRound と courts は1以上の整数で指定してください`);
+      return;
+    }
+    if (entry.fromRound <= previousRound) {
+      errors.push(`${label}: fromRound は2以上で、昇順（重複なし）に並べてください`);
+      return;
+    }
+    previousRound = entry.fromRound;
+    courtChanges.push({ fromRound: entry.fromRound, courts: entry.courts });
+  });
+  return courtChanges.length === value.length ? courtChanges : null;
+}
+
+/** 参加できるラウンドの範囲を検証する（player の昇順（重複なし）、fromRound <= untilRound） */
+function checkAvailability(v: Validator, value: unknown): PlayerAvailability[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    v.errors.push('availability が配列ではありません');
+    return null;
+  }
+  const availability: PlayerAvailability[] = [];
+  value.forEach((entry, i) => {
+    const label = `availability[${i}]`;
+    if (!isRecord(entry)) {
+      v.errors.push(`${label} がオブジェクトではありません`);
+      return;
+    }
+    if (!checkPlayer(v, entry.player, label)) return;
+    const { fromRound, untilRound } = entry;
+    if ((fromRound !== undefined && !isPositiveInteger(fromRound)) || (untilRound !== undefined && !isPositiveInteger(untilRound))) {
+      v.errors.push(`${label}: fromRound と untilRound は1以上の整数で指定してください`);
+      return;
+    }
+    if (fromRound !== undefined && untilRound !== undefined && fromRound > untilRound) {
+      v.errors.push(`${label}: fromRound（${fromRound}）が untilRound（${untilRound}）より後になっています`);
+      return;
+    }
+    const previous = availability[availability.length - 1];
+    if (previous && previous.player >= entry.player) {
+      v.errors.push(`${label}: availability が player の昇順（重複なし）になっていません`);
+      return;
+    }
+    availability.push({
+      player: entry.player,
+      ...(fromRound !== undefined && { fromRound }),
+      ...(untilRound !== undefined && { untilRound }),
+    });
+  });
+  return availability.length === value.length ? availability : null;
+}
+
+function checkBreaks(v: Validator, value: unknown): PlayerBreak[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    v.errors.push('breaks が配列ではありません');
+    return null;
+  }
+  const breaks: PlayerBreak[] = [];
+  value.forEach((entry, i) => {
+    const label = `breaks[${i}]`;
+    if (!isRecord(entry)) {
+      v.errors.push(`${label} がオブジェクトではありません`);
+      return;
+    }
+    if (!checkPlayer(v, entry.player, label)) return;
+    const { fromRound, untilRound } = entry;
+    if (!isPositiveInteger(fromRound) || (untilRound !== undefined && !isPositiveInteger(untilRound))) {
+      v.errors.push(`${label}: fromRound と untilRound は1以上の整数で指定してください`);
+      return;
+    }
+    if (untilRound !== undefined && fromRound > untilRound) {
+      v.errors.push(`${label}: fromRound（${fromRound}）が untilRound（${untilRound}）より後になっています`);
+      return;
+    }
+    const previous = breaks[breaks.length - 1];
+    if (previous && previous.player >= entry.player) {
+      v.errors.push(`${label}: breaks が player の昇順（重複なし）になっていません`);
+      return;
+    }
+    breaks.push({ player: entry.player, fromRound, ...(untilRound !== undefined && { untilRound }) });
+  });
+  return breaks.length === value.length ? breaks : null;
+}
+
+function checkRoster(v: Validator, value: unknown): Participant[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    v.errors.push('roster が配列ではありません');
+    return null;
+  }
+  const roster: Participant[] = [];
+  const ids = new Set<number>();
+  value.forEach((entry, i) => {
+    const label = `roster[${i}]`;
+    if (!isRecord(entry) || typeof entry.name !== 'string') {
+      v.errors.push(`${label}: 名簿エントリの形式が不正です（name が必要です）`);
+      return;
+    }
+    if (!checkPlayer(v, entry.id, label)) return;
+    const id = entry.id as number;
+    if (ids.has(id)) {
+      v.errors.push(`${label}: プレイヤー ${id} が名簿に重複しています`);
+      return;
+    }
+    ids.add(id);
+    const participant: Participant = { id, name: entry.name };
+    if (entry.reading !== undefined) {
+      if (typeof entry.reading !== 'string') {
+        v.errors.push(`${label}: reading が文字列ではありません`);
+        return;
+      }
+      participant.reading = entry.reading;
+    }
+    if (entry.rating !== undefined) {
+      const { rating } = entry;
+      if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+        v.errors.push(`${label}: rating は${MIN_RATING}〜${MAX_RATING}の整数で指定してください`);
+        return;
+      }
+      participant.rating = rating;
+    }
+    if (entry.category !== undefined) {
+      const { category } = entry;
+      if (category !== 'male' && category !== 'female') {
+        v.errors.push(`${label}: category は male または female で指定してください`);
+        return;
+      }
+      participant.category = category;
+    }
+    roster.push(participant);
+  });
+  return roster.sort((a, b) => a.id - b.id);
+}
+
+function checkMatchResult(value: unknown): MatchResult | null {
+  if (!isRecord(value) || typeof value.gamesA !== 'number' || typeof value.gamesB !== 'number') return null;
+  const result: MatchResult = { gamesA: value.gamesA, gamesB: value.gamesB };
+  if (value.walkover !== undefined) {
+    if (value.walkover !== 'A' && value.walkover !== 'B') return null;
+    result.walkover = value.walkover;
+  }
+  if (value.tiebreak !== undefined) {
+    const { tiebreak } = value;
+    if (!isRecord(tiebreak) || typeof tiebreak.pointsA !== 'number' || typeof tiebreak.pointsB !== 'number') return null;
+    result.tiebreak = { pointsA: tiebreak.pointsA, pointsB: tiebreak.pointsB };
+  }
+  return result;
+}
+
+function checkMatchResults(
+  v: Validator,
+  value: unknown,
+  rounds: Round[],
+  scoringFormatId: ScoringFormatId
+): MatchResults {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    v.errors.push('matchResults がオブジェクトではありません');
+    return {};
+  }
+  const format = getScoringFormat(scoringFormatId);
+  const courtsByRound = new Map(rounds.map((r) => [r.roundNumber, r.matches.length]));
+  const results: MatchResults = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const label = `matchResults["${key}"]`;
+    const match = /^(\d+)-(\d+)$/.exec(key);
+    const courts = match ? courtsByRound.get(Number(match[1])) : undefined;
+    if (!match || courts === undefined || Number(match[2]) >= courts) {
+      v.errors.push(`${label}: 対応する試合がありません（キーは「ラウンド番号-コート番号(0始まり)」）`);
+      continue;
+    }
+    const result = checkMatchResult(raw);
+    if (!result) {
+      v.errors.push(`${label}: 試合結果の形式が不正です`);
+      continue;
+    }
+    const validation = validateMatchResult(result, format);
+    if (!validation.isValid) {
+      v.errors.push(`${label}: ${validation.errorMessage}`);
+      continue;
+    }
+    results[key] = result;
+  }
+  return results;
+}
+
+/**
+ * JSON 上のスケジュールを検証し、Schedule に変換する
+ *
+ * 検証する不変条件:
+ * - courts / players が1以上の整数
+ * - 各ラウンドの roundNumber が重複せず昇順、試合数がコート数と一致
+ * - Pair が正規化済み（player1 < player2）、Match が min(pairA) < min(pairB)（シングルスは playerA < playerB）
+ * - シングルスの試合がシングルスコート（singlesCourts、省略時は試合から復元）で行われている
+ * - 同一ラウンドで同じプレイヤーが複数箇所（コート・休憩）に含まれない
+ * - 試合タイマーの計測記録（timing、省略可）の時刻が開始 ≦ 一時停止・終了の順
+ * - 時間から決めたラウンド数の設定（timePlan、省略可）の時刻が "HH:MM" 形式で、時間内に1ラウンド以上入る
+ * - 参加できるラウンドの範囲（availability、省略可）が player の昇順（重複なし）で、fromRound <= untilRound
+ * - 休憩中のプレイヤー（breaks、省略可）が player の昇順（重複なし）で、fromRound <= untilRound
+ * - restingPlayers / activePlayers が昇順（重複なし）
+ * - 固定ペア・ペア禁止・対戦禁止が正規化済み、固定ペアが重複しない
+ * - 全てのプレイヤー番号が 1〜players の範囲内
+ *
+ * evaluation は検証せず、読み込んだラウンドから再計算する。
+ *
+ * @param value - JSON.parse 済みのスケジュール
+ * @param weights - 評価の再計算に使用する重み
+ * @param errors - エラーメッセージの追加先
+ * @returns 変換後のスケジュール、またはエラーがある場合は null
+ */
+function checkSchedule(
+  value: unknown,
+  weights: { w1: number; w2: number; w3: number; w4: number },
+  errors: string[]
+): Schedule | null {
+  if (!isRecord(value)) {
+    errors.push('schedule がオブジェクトではありません');
+    return null;
+  }
+  if (!isPositiveInteger(value.courts)) {
+    errors.push('courts（コート数）が1以上の整数ではありません');
+  }
+  if (!isPositiveInteger(value.players)) {
+    errors.push('players（最大プレイヤー番号）が1以上の整数ではありません');
+  }
+  if (!Array.isArray(value.rounds) || value.rounds.length === 0) {
+    errors.push('rounds が空、または配列ではありません');
+  }
+  const courtChanges = checkCourtChanges(errors, value.courtChanges);
+  if (errors.length > 0 || !courtChanges) return null;
+
+  const courts = value.courts as number;
+  const players = value.players as number;
+  const v: Validator = { errors, players };
+
+  const rounds = (value.rounds as unknown[]).map((r, i) => checkRound(v, r, i, courts, courtChanges));
+  const validRounds = rounds.filter((r): r is Round => r !== null);
+  for (let i = 1; i < validRounds.length; i++) {
+    if (validRounds[i - 1].roundNumber >= validRounds[i].roundNumber) {
+      errors.push(`ラウンド ${validRounds[i].roundNumber}: rounds が roundNumber の昇順（重複なし）になっていません`);
+      break;
+    }
+  }
+
+  const singlesCourts = checkSinglesCourts(errors, value.singlesCourts, validRounds);
+  const activePlayers = value.activePlayers === undefined
+    ? Array.from({ length: players }, (_, i) => i + 1)
+    : checkPlayerList(v, value.activePlayers, 'activePlayers');
+  // コート数の変更がある場合は最終ラウンドのコート数で判定する（以降のラウンド追加に使うため）
+  const lastCourts = getCourtsForRound(courts, courtChanges, validRounds[validRounds.length - 1]?.roundNumber ?? 1);
+  const requiredPlayers = getRequiredPlayers(lastCourts, singlesCourts ?? []);
+  if (activePlayers && activePlayers.length < requiredPlayers) {
+    errors.push(`activePlayers の人数（${activePlayers.length}人）がコート数に必要な${requiredPlayers}人を下回っています`);
+  }
+
+  const fixedPairs = checkPairList(v, value.fixedPairs, 'fixedPairs') as FixedPair[] | null;
+  if (fixedPairs) {
+    const validation = validateFixedPairs(fixedPairs, players);
+    if (!validation.isValid) errors.push(`fixedPairs: ${validation.errorMessage}`);
+  }
+  const forbiddenPairs = checkPairList(v, value.forbiddenPairs, 'forbiddenPairs') as PairConstraint[] | null;
+  const forbiddenOpponents = checkPairList(v, value.forbiddenOpponents, 'forbiddenOpponents') as PairConstraint[] | null;
+  const roster = checkRoster(v, value.roster);
+  const availability = checkAvailability(v, value.availability);
+  const breaks = checkBreaks(v, value.breaks);
+  const { seed } = value;
+  if (seed !== undefined && (typeof seed !== 'number' || !isValidSeed(seed))) {
+    errors.push(`seed は0〜${MAX_SEED}の整数で指定してください`);
+  }
+  const { mixedDoubles, balanceCourts, courtNames } = value;
+  if (mixedDoubles !== undefined && typeof mixedDoubles !== 'boolean') {
+    errors.push('mixedDoubles が真偽値ではありません');
+  }
+  if (balanceCourts !== undefined && typeof balanceCourts !== 'boolean') {
+    errors.push('balanceCourts が真偽値ではありません');
+  }
+  if (courtNames !== undefined && (!Array.isArray(courtNames) || courtNames.some((name) => typeof name !== 'string'))) {
+    errors.push('courtNames が文字列の配列ではありません');
+  }
+  const timePlan = value.timePlan === undefined ? undefined : checkTimePlan(errors, value.timePlan);
+
+  if (errors.length > 0 || !activePlayers || !fixedPairs || !forbiddenPairs || !forbiddenOpponents || !roster || !singlesCourts || timePlan === null || !availability || !breaks) {
+    return null;
+  }
+
+  const state = buildCumulativeStateForActivePlayers(validRounds, activePlayers, players, buildPlayerRatings(roster, players));
+  return {
+    courts,
+    players,
+    rounds: validRounds,
+    evaluation: evaluateFromState(state, weights),
+    fixedPairs,
+    forbiddenPairs,
+    forbiddenOpponents,
+    activePlayers,
+    roster,
+    ...(typeof seed === 'number' && { seed }),
+    ...(typeof mixedDoubles === 'boolean' && { mixedDoubles }),
+    ...(courtChanges.length > 0 && { courtChanges }),
+    ...(Array.isArray(courtNames) && { courtNames: courtNames as string[] }),
+    ...(typeof balanceCourts === 'boolean' && { balanceCourts }),
+    ...(singlesCourts.length > 0 && { singlesCourts }),
+    ...(timePlan && { timePlan }),
+    ...(availability.length > 0 && { availability }),
+    ...(breaks.length > 0 && { breaks }),
+  };
+}
+
+/**
+ * スケジュール単体の検証結果
+ */
+export type ScheduleDataResult =
+  | { isValid: true; schedule: Schedule }
+  | { isValid: false; errorMessages: string[] };
+
+/**
+ * JSON.parse 済みなどのスケジュールオブジェクトを検証し、Schedule に変換する
+ *
+ * 検証内容は parseScheduleImport と同じ（evaluation は再計算）。
+ *
+ * @param value - スケジュールオブジェクト
+ * @param weights - 評価の再計算に使用する重み
+ * @returns 検証結果（無効な場合は違反ごとのエラーメッセージ）
+ */
+export function parseScheduleData(
+  value: unknown,
+  weights: { w1: number; w2: number; w3: number; w4: number }
+): ScheduleDataResult {
+  const errors: string[] = [];
+  const schedule = checkSchedule(value, weights, errors);
+  return schedule ? { isValid: true, schedule } : { isValid: false, errorMessages: errors };
+}
+
+/**
+ * エクスポートした JSON テキストを読み込む
+ *
+ * 受け付ける形式:
+ * - ScheduleExport（export.ts の exportScheduleToJson の出力）
+ * - Schedule 単体（試合結果なし、スコア形式は既定値）
+ *
+ * @param text - JSON テキスト
+ * @param weights - 評価の再計算に使用する重み
+ * @returns 読み込み結果（無効な場合は違反ごとのエラーメッセージ）
+ *
+ * @example
+ * const result = parseScheduleImport(text, { w1: 1.0, w2: 0.5, w3: 2.0, w4: 1.0 });
+ * if (!result.isValid) console.log(result.errorMessages.join('\n'));
+ */
+export function parseScheduleImport(
+  text: string,
+  weights: { w1: number; w2: number; w3: number; w4: number }
+): ScheduleImportResult {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { isValid: false, errorMessages: [`JSON として読み込めません: ${detail}`] };
+  }
+  if (!isRecord(root)) {
+    return { isValid: false, errorMessages: ['JSON のトップレベルがオブジェクトではありません'] };
+  }
+
+  const errors: string[] = [];
+  let rawSchedule: unknown = root;
+  let rawResults: unknown;
+  let scoringFormatId: ScoringFormatId = DEFAULT_SCORING_FORMAT_ID;
+
+  if ('format' in root) {
+    if (root.format !== SCHEDULE_EXPORT_FORMAT) {
+      errors.push(`format が "${SCHEDULE_EXPORT_FORMAT}" ではありません（${JSON.stringify(root.format)}）`);
+    }
+    if (typeof root.version !== 'number' || root.version > SCHEDULE_EXPORT_VERSION) {
+      errors.push(`未対応のバージョンです（${JSON.stringify(root.version)}、対応: ${SCHEDULE_EXPORT_VERSION} 以下）`);
+    }
+    if (root.scoringFormatId !== undefined) {
+      const format = SCORING_FORMATS.find((f) => f.id === root.scoringFormatId);
+      if (format) {
+        scoringFormatId = format.id;
+      } else {
+        errors.push(`scoringFormatId が不明なスコア形式です（${JSON.stringify(root.scoringFormatId)}）`);
+      }
+    }
+    if (errors.length > 0) return { isValid: false, errorMessages: errors };
+    rawSchedule = root.schedule;
+    rawResults = root.matchResults;
+  }
+
+  const schedule = checkSchedule(rawSchedule, weights, errors);
+  if (!schedule) return { isValid: false, errorMessages: errors };
+
+  const matchResults = checkMatchResults({ errors, players: schedule.players }, rawResults, schedule.rounds, scoringFormatId);
+  if (errors.length > 0) return { isValid: false, errorMessages: errors };
+
+  return { isValid: true, data: { schedule, matchResults, scoringFormatId } };
+}
@@ -0,0 +1,112 @@
+/**
+ * ミックスダブルス（男性1人・女性1人のペア）のユーティリティ関数
+ *
+ * ペアの区分制約は、同じ区分の2人をペア禁止として組み合わせ禁止の判定用行列に加えることで
+ * 各アルゴリズムのハード制約として扱う（buildPairConstraints の categories 引数）。
+ * 休憩者は区分ごとに人数を決め、出場者が常に男女同数になるようにする。
+ */
+
+import type { FixedPair, MixedDoublesValidation, Participant, PlayerCategories, PlayerCategory } from '../types/schedule';
+
+/**
+ * 区分の表示名
+ */
+export const CATEGORY_LABELS: Record<PlayerCategory, string> = {
+  male: '男性',
+  female: '女性',
+};
+
+/**
+ * 名簿からプレイヤーの区分配列を作成する
+ *
+ * @param roster - 参加者名簿
+ * @param playersCount - 最大プレイヤー番号（配列サイズ）
+ * @returns 区分配列（区分未設定のプレイヤーは null）
+ *
+ * @example
+ * buildPlayerCategories([{ id: 1, name: '', category: 'male' }], 3) // ['male', null, null]
+ */
+export function buildPlayerCategories(roster: Participant[], playersCount: number): PlayerCategories {
+  const categories: PlayerCategories = Array(playersCount).fill(null);
+  for (const participant of roster) {
+    if (participant.category !== undefined && participant.id >= 1 && participant.id <= playersCount) {
+      categories[participant.id - 1] = participant.category;
+    }
+  }
+  return categories;
+}
+
+/**
+ * 区分ごとの休憩人数を計算する
+ *
+ * 出場者は各コート男性2人・女性2人のため、区分ごとに「人数 - コート数×2」人が休憩する。
+ *
+ * @param activePlayers - 参加プレイヤー番号
+ * @param categories - 区分配列
+ * @param courtsCount - コート数
+ * @returns 区分ごとの休憩人数
+ */
+export function countCategoryRests(
+  activePlayers: number[],
+  categories: PlayerCategories,
+  courtsCount: number
+): Record<PlayerCategory, number> {
+  const perCourt = courtsCount * 2;
+  const males = activePlayers.filter(p => categories[p - 1] === 'male').length;
+  const females = activePlayers.filter(p => categories[p - 1] === 'female').length;
+  return { male: males - perCourt, female: females - perCourt };
+}
+
+/**
+ * ミックスダブルスの設定をバリデーションする
+ *
+ * チェック項目:
+ * - 全参加者に区分が設定されているか
+ * - 男性・女性がそれぞれ コート数×2 人以上いるか（1ラウンドを編成できるか）
+ * - 固定ペアが男性1人・女性1人か
+ *
+ * @param roster - 参加者名簿
+ * @param activePlayers - 参加プレイヤー番号
+ * @param courtsCount - コート数
+ * @param fixedPairs - 固定ペアの配列
+ * @returns バリデーション結果
+ */
+export function validateMixedDoubles(
+  roster: Participant[],
+  activePlayers: number[],
+  courtsCount: number,
+  fixedPairs: FixedPair[]
+): MixedDoublesValidation {
+  const maxPlayer = Math.max(0, ...activePlayers, ...roster.map(p => p.id));
+  const categories = buildPlayerCategories(roster, maxPlayer);
+
+  const unassigned = activePlayers.filter(p => categories[p - 1] === null);
+  if (unassigned.length > 0) {
+    return {
+      isValid: false,
+      errorMessage: `プレイヤー ${unassigned.join(', ')} の区分（男性・女性）が名簿で未設定です`,
+    };
+  }
+
+  const rests = countCategoryRests(activePlayers, categories, courtsCount);
+  if (rests.male < 0 || rests.female < 0) {
+    const perCourt = courtsCount * 2;
+    return {
+      isValid: false,
+      errorMessage: `${courtsCount} 面のミックスダブルスには男性・女性がそれぞれ ${perCourt} 人以上必要です（男性 ${rests.male + perCourt} 人・女性 ${rests.female + perCourt} 人）`,
+    };
+  }
+
+  const activeSet = new Set(activePlayers);
+  for (const fp of fixedPairs) {
+    if (!activeSet.has(fp.player1) || !activeSet.has(fp.player2)) continue;
+    if (categories[fp.player1 - 1] === categories[fp.player2 - 1]) {
+      return {
+        isValid: false,
+        errorMessage: `固定ペア ${fp.player1} と ${fp.player2} は同じ区分のため、ミックスダブルスのペアにできません`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
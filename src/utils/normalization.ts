@@ -1,15 +1,5 @@
 import type { Round, Match } from '../types/schedule';
-
-/**
- * 配列をその場でシャッフルする（Fisher-Yates）
- * コート割り当てのランダム化に使用
- */
-function shuffleMatches<T>(arr: T[]): void {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-}
+import { shuffle, type Random } from './random';
 
 /**
  * 配列が正規化ルールを満たしているか確認する
@@ -85,10 +75,11 @@ export function isNormalized(arrangement: number[], courtsCount: number): boolea
  * @param arrangement - [p1,p2,p3,p4, p5,p6,p7,p8, ...] 形式のプレイヤー番号配列
  * @param courtsCount - コート数
  * @param roundNumber - ラウンド番号（1始まり）
+ * @param random - コート順のランダム化に使う乱数生成関数（同じシードから同じ結果を得るため、シード付きの Random を渡す）
  * @returns マッチを含む Round オブジェクト
  *
  * @example
- * arrangementToRound([1,2,3,4, 5,6,7,8], 2, 1)
+ * arrangementToRound([1,2,3,4, 5,6,7,8], 2, 1, createRandom(12345))
  * // 戻り値:
  * // {
  * //   roundNumber: 1,
@@ -103,7 +94,8 @@ export function isNormalized(arrangement: number[], courtsCount: number): boolea
 export function arrangementToRound(
   arrangement: number[],
   courtsCount: number,
-  roundNumber: number
+  roundNumber: number,
+  random: Random
 ): Round {
   const matches: Match[] = [];
 
@@ -118,7 +110,7 @@ export function arrangementToRound(
   }
 
   if (roundNumber > 1) {
-    shuffleMatches(matches);
+    shuffle(matches, random);
   }
 
   return { roundNumber, matches, restingPlayers: [] };
@@ -131,10 +123,11 @@ export function arrangementToRound(
  * @param courtsCount - コート数
  * @param roundNumber - ラウンド番号（1始まり）
  * @param restingPlayers - 休憩するプレイヤー番号の配列
+ * @param random - コート順のランダム化に使う乱数生成関数（同じシードから同じ結果を得るため、シード付きの Random を渡す）
  * @returns マッチと休憩者を含む Round オブジェクト
  *
  * @example
- * arrangementToRoundWithRest([1,2,3,4, 5,6,7,8], 2, 1, [9, 10])
+ * arrangementToRoundWithRest([1,2,3,4, 5,6,7,8], 2, 1, [9, 10], createRandom(12345))
  * // 戻り値:
  * // {
  * //   roundNumber: 1,
@@ -151,7 +144,8 @@ export function arrangementToRoundWithRest(
   arrangement: number[],
   courtsCount: number,
   roundNumber: number,
-  restingPlayers: number[]
+  restingPlayers: number[],
+  random: Random
 ): Round {
   const matches: Match[] = [];
 
@@ -166,7 +160,7 @@ export function arrangementToRoundWithRest(
   }
 
   if (roundNumber > 1) {
-    shuffleMatches(matches);
+    shuffle(matches, random);
   }
 
   return { roundNumber, matches, restingPlayers: restingPlayers.slice().sort((a, b) => a - b) };
@@ -0,0 +1,194 @@
+/**
+ * ペア禁止・対戦禁止（組み合わせ禁止）のユーティリティ関数
+ *
+ * 固定ペアの逆の制約:
+ * - ペア禁止: 指定した2人は同じペアにならない（例: 初心者同士）
+ * - 対戦禁止: 指定した2人は同じコートで対戦しない（例: 夫婦）
+ */
+
+import type { FixedPair, PairConstraint, PairConstraints, PairConstraintsValidation, PlayerCategories } from '../types/schedule';
+
+/**
+ * 組み合わせ禁止の2人を正規化する（player1 < player2）
+ */
+export function normalizePairConstraint(p1: number, p2: number): PairConstraint {
+  return p1 < p2
+    ? { player1: p1, player2: p2 }
+    : { player1: p2, player2: p1 };
+}
+
+/**
+ * 2人の組み合わせがリストに含まれるか判定する
+ */
+export function containsPairConstraint(list: PairConstraint[], p1: number, p2: number): boolean {
+  const { player1, player2 } = normalizePairConstraint(p1, p2);
+  return list.some(c => c.player1 === player1 && c.player2 === player2);
+}
+
+/**
+ * ペア禁止・対戦禁止の設定をバリデーションする
+ *
+ * チェック項目:
+ * - プレイヤー番号が有効範囲内か
+ * - 固定ペアとペア禁止が矛盾していないか
+ * - ペア禁止により、ペアを組める相手がいないプレイヤーがいないか
+ *
+ * @param forbiddenPairs - ペア禁止の配列
+ * @param forbiddenOpponents - 対戦禁止の配列
+ * @param fixedPairs - 固定ペアの配列
+ * @param activePlayers - 参加プレイヤー番号
+ * @returns バリデーション結果
+ */
+export function validatePairConstraints(
+  forbiddenPairs: PairConstraint[],
+  forbiddenOpponents: PairConstraint[],
+  fixedPairs: FixedPair[],
+  activePlayers: number[]
+): PairConstraintsValidation {
+  // 空の場合は常に有効
+  if (forbiddenPairs.length === 0 && forbiddenOpponents.length === 0) {
+    return { isValid: true };
+  }
+
+  // プレイヤー番号の範囲チェック
+  const activeSet = new Set(activePlayers);
+  for (const c of [...forbiddenPairs, ...forbiddenOpponents]) {
+    for (const player of [c.player1, c.player2]) {
+      if (!activeSet.has(player)) {
+        return {
+          isValid: false,
+          errorMessage: `プレイヤー ${player} は参加者に含まれていません`,
+        };
+      }
+    }
+  }
+
+  // 固定ペアとの矛盾チェック
+  for (const fp of fixedPairs) {
+    if (containsPairConstraint(forbiddenPairs, fp.player1, fp.player2)) {
+      return {
+        isValid: false,
+        errorMessage: `プレイヤー ${fp.player1} と ${fp.player2} は固定ペアとペア禁止の両方に指定されています`,
+      };
+    }
+  }
+
+  // ペアを組める相手が残っているかチェック
+  for (const player of activePlayers) {
+    const forbiddenCount = forbiddenPairs.filter(c => c.player1 === player || c.player2 === player).length;
+    if (forbiddenCount >= activePlayers.length - 1) {
+      return {
+        isValid: false,
+        errorMessage: `プレイヤー ${player} は全員とペア禁止のためペアを組めません`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * 組み合わせ禁止の判定用行列を作成する
+ *
+ * 禁止が1件もない場合は null を返す（生成アルゴリズムは判定をスキップする）。
+ * playersCount を超えるプレイヤー番号は無視する。
+ * 区分配列を渡した場合（ミックスダブルス）は、同じ区分の2人もペア禁止として扱う。
+ *
+ * @param playersCount - 最大プレイヤー番号（行列サイズ）
+ * @param forbiddenPairs - ペア禁止の配列
+ * @param forbiddenOpponents - 対戦禁止の配列
+ * @param categories - プレイヤーの区分配列（ミックスダブルスでない場合は null）
+ * @returns 判定用行列、または禁止なしの場合は null
+ */
+export function buildPairConstraints(
+  playersCount: number,
+  forbiddenPairs: PairConstraint[],
+  forbiddenOpponents: PairConstraint[],
+  categories: PlayerCategories | null = null
+): PairConstraints | null {
+  if (forbiddenPairs.length === 0 && forbiddenOpponents.length === 0 && categories === null) return null;
+
+  const toMatrix = (list: PairConstraint[]): boolean[][] => {
+    const matrix = Array.from({ length: playersCount }, () => Array<boolean>(playersCount).fill(false));
+    for (const { player1, player2 } of list) {
+      if (player1 < 1 || player2 > playersCount) continue;
+      matrix[player1 - 1][player2 - 1] = true;
+      matrix[player2 - 1][player1 - 1] = true;
+    }
+    return matrix;
+  };
+
+  const pairMatrix = toMatrix(forbiddenPairs);
+  if (categories) {
+    for (let i = 0; i < playersCount; i++) {
+      for (let j = i + 1; j < playersCount; j++) {
+        if (categories[i] !== null && categories[i] === categories[j]) {
+          pairMatrix[i][j] = true;
+          pairMatrix[j][i] = true;
+        }
+      }
+    }
+  }
+
+  return {
+    forbiddenPairs: pairMatrix,
+    forbiddenOpponents: toMatrix(forbiddenOpponents),
+  };
+}
+
+/**
+ * 2人がペアを組めるか判定する（constraints が null の場合は常に true）
+ */
+export function canPair(constraints: PairConstraints | null | undefined, p1: number, p2: number): boolean {
+  return !constraints || !constraints.forbiddenPairs[p1 - 1][p2 - 1];
+}
+
+/**
+ * 2人が対戦できるか判定する（constraints が null の場合は常に true）
+ */
+export function canOppose(constraints: PairConstraints | null | undefined, p1: number, p2: number): boolean {
+  return !constraints || !constraints.forbiddenOpponents[p1 - 1][p2 - 1];
+}
+
+/**
+ * 1コートの割り当て (p1,p2) vs (p3,p4) の禁止違反数を数える
+ *
+ * 計算量: O(1)
+ */
+export function countCourtViolations(
+  constraints: PairConstraints | null | undefined,
+  [p1, p2, p3, p4]: [number, number, number, number]
+): number {
+  if (!constraints) return 0;
+  let violations = 0;
+  if (!canPair(constraints, p1, p2)) violations++;
+  if (!canPair(constraints, p3, p4)) violations++;
+  if (!canOppose(constraints, p1, p3)) violations++;
+  if (!canOppose(constraints, p1, p4)) violations++;
+  if (!canOppose(constraints, p2, p3)) violations++;
+  if (!canOppose(constraints, p2, p4)) violations++;
+  return violations;
+}
+
+/**
+ * ラウンドの全コート割り当ての禁止違反数を数える
+ */
+export function countConstraintViolations(
+  constraints: PairConstraints | null | undefined,
+  courtAssignments: [number, number, number, number][]
+): number {
+  if (!constraints) return 0;
+  let violations = 0;
+  for (const assignment of courtAssignments) {
+    violations += countCourtViolations(constraints, assignment);
+  }
+  return violations;
+}
+
+/**
+ * 参加者から外れたプレイヤーを含む組み合わせ禁止を除外する
+ */
+export function filterPairConstraints(list: PairConstraint[], activePlayers: number[]): PairConstraint[] {
+  const activeSet = new Set(activePlayers);
+  return list.filter(c => activeSet.has(c.player1) && activeSet.has(c.player2));
+}
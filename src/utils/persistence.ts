@@ -0,0 +1,270 @@
+/**
+ * セッション永続化ユーティリティ
+ *
+ * 画面ロックやリロードで進行中の大会が失われないよう、セッション全体を
+ * localStorage にスナップショットとして保存・復元する。
+ *
+ * スナップショット形式: { version, savedAt, data }
+ * - version: スキーマバージョン。古いバージョンは MIGRATIONS で順に変換する
+ * - 変換できないバージョン（未来のバージョン、移行関数のない古いバージョン）や
+ *   構造が壊れたデータは破棄し、null を返す（アプリは初期状態で起動する）
+ */
+
+import type { Schedule, ScheduleParams, FixedPair, PairConstraint, Participant, MatchResults, ScoringFormatId, TimerSettings } from '../types/schedule';
+import type { StrategyId } from '../strategies/types';
+import { DEFAULT_SCORING_FORMAT_ID } from './scoring';
+import { DEFAULT_TIMER_SETTINGS } from './timer';
+import { DEFAULT_STRATEGY_ID, isRegisteredStrategy } from '../strategies/registry';
+
+const STORAGE_KEY = 'tennis-scheduler-session';
+
+/**
+ * 現在のスナップショットのスキーマバージョン
+ *
+ * 保存形式を変更する場合はインクリメントし、MIGRATIONS に旧バージョンからの変換を追加する。
+ * ただし、省略時に追加前と同じ動作になる省略可能なフィールドの追加はインクリメントしない
+ * （古いデータでは省略されているだけで、そのまま現行の形式として読める）。
+ * 例: Schedule の seed・mixedDoubles・courtChanges・courtNames・balanceCourts・
+ * singlesCourts・timePlan・availability・breaks、Round の timing、Evaluation の singlesStdDev、
+ * ScheduleParams の localSearch。
+ * 必須フィールドの追加、既存フィールドの型の変更など、古いデータのままでは読めない変更はインクリメントする。
+ */
+export const SESSION_SCHEMA_VERSION = 6;
+
+/**
+ * アプリ上のセッション状態（復元後にそのまま React state に設定できる形式）
+ */
+export interface SessionState {
+  schedule: Schedule | null;
+  completedMatches: Set<string>;
+  openedAt: Record<string, Date>;
+  lastParams: ScheduleParams | null;
+  fixedPairs: FixedPair[];
+  forbiddenPairs: PairConstraint[];
+  forbiddenOpponents: PairConstraint[];
+  roster: Participant[];
+  matchResults: MatchResults;
+  scoringFormatId: ScoringFormatId;
+  strategyId: StrategyId;
+  speechPitch: number;
+  speechRate: number;
+  timerSettings: TimerSettings;
+}
+
+/**
+ * 保存形式のセッションデータ（JSON シリアライズ可能な形式）
+ */
+interface SerializedSession {
+  schedule: Schedule | null;
+  completedMatches: string[];
+  openedAt: Record<string, number>; // エポックミリ秒
+  lastParams: ScheduleParams | null;
+  fixedPairs: FixedPair[];
+  forbiddenPairs: PairConstraint[];
+  forbiddenOpponents: PairConstraint[];
+  roster: Participant[];
+  matchResults: MatchResults;
+  scoringFormatId: ScoringFormatId;
+  strategyId: StrategyId;
+  speechPitch: number;
+  speechRate: number;
+  timerSettings: TimerSettings;
+}
+
+interface SessionSnapshot {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+/**
+ * スキーマ移行関数
+ * キー: 移行元バージョン n、値: バージョン n のデータをバージョン n+1 に変換する関数
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 → v2: 試合結果とスコア形式を追加
+  1: (data) => ({ ...data, matchResults: {}, scoringFormatId: DEFAULT_SCORING_FORMAT_ID }),
+  // v2 → v3: 重み W4（レベル差）とチーム力差の評価指標を追加（v2 以前はレベル未対応のため差は0）
+  2: (data) => {
+    const lastParams = isRecord(data.lastParams) && isRecord(data.lastParams.weights)
+      ? { ...data.lastParams, weights: { ...data.lastParams.weights, w4: 1.0 } }
+      : data.lastParams;
+    const schedule = isRecord(data.schedule) && isRecord(data.schedule.evaluation)
+      ? { ...data.schedule, evaluation: { ...data.schedule.evaluation, balanceAvg: 0, balanceMax: 0 } }
+      : data.schedule;
+    return { ...data, lastParams, schedule };
+  },
+  // v3 → v4: ペア禁止・対戦禁止を追加
+  3: (data) => {
+    const schedule = isRecord(data.schedule)
+      ? { ...data.schedule, forbiddenPairs: [], forbiddenOpponents: [] }
+      : data.schedule;
+    return { ...data, schedule, forbiddenPairs: [], forbiddenOpponents: [] };
+  },
+  // v4 → v5: 生成アルゴリズムの選択を追加
+  4: (data) => ({ ...data, strategyId: DEFAULT_STRATEGY_ID }),
+  // v5 → v6: 試合タイマーの設定を追加
+  5: (data) => ({ ...data, timerSettings: DEFAULT_TIMER_SETTINGS }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 現行バージョンのデータ構造を満たしているか検証する
+ */
+function isSerializedSession(data: unknown): data is SerializedSession {
+  if (!isRecord(data)) return false;
+  return (
+    (data.schedule === null || (isRecord(data.schedule) && Array.isArray(data.schedule.rounds))) &&
+    Array.isArray(data.completedMatches) &&
+    isRecord(data.openedAt) &&
+    (data.lastParams === null || isRecord(data.lastParams)) &&
+    Array.isArray(data.fixedPairs) &&
+    Array.isArray(data.forbiddenPairs) &&
+    Array.isArray(data.forbiddenOpponents) &&
+    Array.isArray(data.roster) &&
+    isRecord(data.matchResults) &&
+    typeof data.scoringFormatId === 'string' &&
+    typeof data.strategyId === 'string' &&
+    typeof data.speechPitch === 'number' &&
+    typeof data.speechRate === 'number' &&
+    isRecord(data.timerSettings)
+  );
+}
+
+/**
+ * スナップショットを現行バージョンまで移行する
+ *
+ * @returns 移行後のデータ
+ * @throws 未来のバージョン、または移行関数のない古いバージョンの場合
+ */
+function migrate(snapshot: SessionSnapshot): unknown {
+  let { version } = snapshot;
+  let data = snapshot.data;
+
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`未対応のセッションバージョンです: v${version}`);
+  }
+
+  while (version < SESSION_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step || !isRecord(data)) {
+      throw new Error(`セッションを v${version} から移行できません`);
+    }
+    data = step(data);
+    version++;
+  }
+
+  return data;
+}
+
+function serialize(state: SessionState): SerializedSession {
+  const openedAt: Record<string, number> = {};
+  for (const [roundId, date] of Object.entries(state.openedAt)) {
+    openedAt[roundId] = date.getTime();
+  }
+  return {
+    schedule: state.schedule,
+    completedMatches: [...state.completedMatches],
+    openedAt,
+    lastParams: state.lastParams,
+    fixedPairs: state.fixedPairs,
+    forbiddenPairs: state.forbiddenPairs,
+    forbiddenOpponents: state.forbiddenOpponents,
+    roster: state.roster,
+    matchResults: state.matchResults,
+    scoringFormatId: state.scoringFormatId,
+    strategyId: state.strategyId,
+    speechPitch: state.speechPitch,
+    speechRate: state.speechRate,
+    timerSettings: state.timerSettings,
+  };
+}
+
+function deserialize(data: SerializedSession): SessionState {
+  const openedAt: Record<string, Date> = {};
+  for (const [roundId, time] of Object.entries(data.openedAt)) {
+    openedAt[roundId] = new Date(time);
+  }
+  return {
+    schedule: data.schedule,
+    completedMatches: new Set(data.completedMatches),
+    openedAt,
+    lastParams: data.lastParams,
+    fixedPairs: data.fixedPairs,
+    forbiddenPairs: data.forbiddenPairs,
+    forbiddenOpponents: data.forbiddenOpponents,
+    roster: data.roster,
+    matchResults: data.matchResults,
+    scoringFormatId: data.scoringFormatId,
+    // 削除されたアルゴリズムが保存されていた場合はデフォルトに戻す
+    strategyId: isRegisteredStrategy(data.strategyId) ? data.strategyId : DEFAULT_STRATEGY_ID,
+    speechPitch: data.speechPitch,
+    speechRate: data.speechRate,
+    timerSettings: data.timerSettings,
+  };
+}
+
+/**
+ * セッション状態を localStorage に保存する
+ */
+export function saveSession(state: SessionState): void {
+  try {
+    const snapshot: SessionSnapshot = {
+      version: SESSION_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      data: serialize(state),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.debug('セッションの保存に失敗:', error);
+  }
+}
+
+/**
+ * localStorage からセッション状態を復元する
+ *
+ * 保存データがない、壊れている、または移行できないバージョンの場合は null を返す。
+ * 移行できないデータは次回起動時に再度読み込まないよう削除する。
+ *
+ * @returns 復元したセッション状態、または null
+ */
+export function loadSession(): SessionState | null {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.debug('セッションの読み込みに失敗:', error);
+    return null;
+  }
+  if (!raw) return null;
+
+  try {
+    const snapshot: unknown = JSON.parse(raw);
+    if (!isRecord(snapshot) || typeof snapshot.version !== 'number') {
+      throw new Error('スナップショットの形式が不正です');
+    }
+    const data = migrate(snapshot as unknown as SessionSnapshot);
+    if (!isSerializedSession(data)) {
+      throw new Error(`v${snapshot.version} のセッションデータ構造が不正です`);
+    }
+    return deserialize(data);
+  } catch (error) {
+    console.debug('保存済みセッションを破棄します:', error);
+    clearSession();
+    return null;
+  }
+}
+
+/**
+ * 保存済みセッションを削除する
+ */
+export function clearSession(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.debug('セッションの削除に失敗:', error);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * スケジュールの品質違反件数の集計
+ *
+ * 標準偏差では見えにくい「実際に参加者が気づく偏り」をラウンド順に数える。
+ * 統計情報の品質タブとアルゴリズム比較で共通に使用する。
+ */
+
+import type { Round, Schedule } from '../types/schedule';
+import { initializeCountMatrix, updateCountMatrices, initializeRestCounts, updateRestCounts, extractPreviousOpponents } from './evaluation';
+import { getMatchSides, isSinglesMatch } from './singles';
+
+/**
+ * 品質違反件数
+ */
+export interface QualityTotals {
+  c1: number; // (1) ペア重複: 既にペアを組んだ2人が再びペアになった回数
+  c2: number; // (2) 対戦重複: 既に対戦した2人が再び対戦した回数
+  c3: number; // (3) 不公平休憩: 休憩回数が最少でない人が休憩した累計人数
+  c4: number; // (4) 前R対戦→今Rペア: 前ラウンドの対戦相手と今ラウンドでペアになった回数
+  c5: number; // (5) 前Rペア→今R対戦: 前ラウンドのペアと今ラウンドで対戦した回数
+  hasRest: boolean; // 休憩者がいるラウンドがあるか（ない場合 c3 は対象外）
+}
+
+/**
+ * 品質違反の観点ごとの表示名
+ */
+export const QUALITY_LABELS: Record<'c1' | 'c2' | 'c3' | 'c4' | 'c5', string> = {
+  c1: '(1) ペア重複',
+  c2: '(2) 対戦重複',
+  c3: '(3) 不公平休憩',
+  c4: '(4) 前R対戦→今Rペア',
+  c5: '(5) 前Rペア→今R対戦',
+};
+
+function buildPrevPairMap(round: Round): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const match of round.matches) {
+    if (isSinglesMatch(match)) continue;
+    map.set(match.pairA.player1, match.pairA.player2);
+    map.set(match.pairA.player2, match.pairA.player1);
+    map.set(match.pairB.player1, match.pairB.player2);
+    map.set(match.pairB.player2, match.pairB.player1);
+  }
+  return map;
+}
+
+/**
+ * スケジュールの品質違反件数を集計する
+ *
+ * 計算量: O(R × (C + N))
+ */
+export function countQualityViolations(schedule: Schedule): QualityTotals {
+  const n = schedule.players;
+  const pc = initializeCountMatrix(n);
+  const oc = initializeCountMatrix(n);
+  const rc = initializeRestCounts(n);
+  const allPlayers = schedule.activePlayers;
+  const totals = { c1: 0, c2: 0, c3: 0, c4: 0, c5: 0 };
+  let hasRest = false;
+  let prevRound: Round | null = null;
+
+  for (const round of schedule.rounds) {
+    // (1) ペア重複
+    for (const match of round.matches) {
+      if (isSinglesMatch(match)) continue;
+      if (pc[match.pairA.player1 - 1][match.pairA.player2 - 1] > 0) totals.c1++;
+      if (pc[match.pairB.player1 - 1][match.pairB.player2 - 1] > 0) totals.c1++;
+    }
+
+    // (2) 対戦重複
+    for (const match of round.matches) {
+      const [sideA, sideB] = getMatchSides(match);
+      for (const a of sideA) {
+        for (const b of sideB) {
+          if (oc[a - 1][b - 1] > 0) totals.c2++;
+        }
+      }
+    }
+
+    // (3) 不公平休憩
+    if (round.restingPlayers.length > 0) {
+      hasRest = true;
+      const minRest = Math.min(...allPlayers.map((p) => rc[p - 1]));
+      for (const p of round.restingPlayers) {
+        if (rc[p - 1] > minRest) totals.c3++;
+      }
+    }
+
+    // (4) 前R対戦→今Rペア
+    if (prevRound !== null) {
+      const prevOppoMap = extractPreviousOpponents(prevRound);
+      for (const match of round.matches) {
+        if (isSinglesMatch(match)) continue;
+        for (const pair of [match.pairA, match.pairB]) {
+          if (prevOppoMap.get(pair.player1)?.has(pair.player2)) totals.c4++;
+        }
+      }
+    }
+
+    // (5) 前Rペア→今R対戦
+    if (prevRound !== null) {
+      const prevPairMap = buildPrevPairMap(prevRound);
+      for (const match of round.matches) {
+        const [sideA, sideB] = getMatchSides(match);
+        for (const a of sideA) {
+          for (const b of sideB) {
+            if (prevPairMap.get(a) === b) totals.c5++;
+          }
+        }
+      }
+    }
+
+    updateCountMatrices(round, pc, oc);
+    updateRestCounts(round, rc);
+    prevRound = round;
+  }
+
+  return { ...totals, hasRest };
+}
+
+/**
+ * 品質違反件数付きのスケジュール
+ */
+export interface ScheduleWithQuality {
+  schedule: Schedule;
+  quality: QualityTotals;
+}
+
+/**
+ * 2つのスケジュールの優劣を比較する（Array.prototype.sort 用、良い方が先）
+ *
+ * 総合スコア（Evaluation.totalScore）を優先し、同点の場合は品質違反件数を
+ * (1) → (5) の順に辞書式で比較する。
+ */
+export function compareScheduleQuality(a: ScheduleWithQuality, b: ScheduleWithQuality): number {
+  const scoreDiff = a.schedule.evaluation.totalScore - b.schedule.evaluation.totalScore;
+  if (Math.abs(scoreDiff) > 1e-9) return scoreDiff;
+  return (
+    a.quality.c1 - b.quality.c1 ||
+    a.quality.c2 - b.quality.c2 ||
+    a.quality.c3 - b.quality.c3 ||
+    a.quality.c4 - b.quality.c4 ||
+    a.quality.c5 - b.quality.c5
+  );
+}
+
+/**
+ * 複数候補生成の1候補
+ */
+export interface ScheduleCandidate extends ScheduleWithQuality {
+  index: number; // 生成順（0始まり）
+}
+
+/**
+ * 候補の順位を比較する（Array.prototype.sort 用、上位が先）
+ *
+ * compareScheduleQuality で同点の場合は生成順（index）の早い方を上位にする。
+ * 生成の完了順に依存しないため、並列生成でも同じシードからは同じ順位になる。
+ */
+export function compareCandidates(a: ScheduleCandidate, b: ScheduleCandidate): number {
+  return compareScheduleQuality(a, b) || a.index - b.index;
+}
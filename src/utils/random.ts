@@ -0,0 +1,82 @@
+/**
+ * 乱数ユーティリティ
+ *
+ * スケジュール生成の乱数はすべて Random を引数で受け取り、Math.random を直接呼ばない。
+ * 同じシードから作った Random を渡せば、同じ入力に対して同じ対戦表が生成される（不具合の再現・ベンチマーク用）。
+ */
+
+/**
+ * 乱数生成関数（Math.random と同じく [0, 1) の値を返す）
+ */
+export type Random = () => number;
+
+/** シードの最大値（32bit 符号なし整数） */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * シード付きの疑似乱数生成関数を作成する（mulberry32）
+ *
+ * @param seed - シード（0〜MAX_SEED の整数、範囲外は 32bit に丸める）
+ * @returns [0, 1) の値を返す決定的な乱数生成関数
+ *
+ * @example
+ * const random = createRandom(12345);
+ * random(); // 常に同じ値
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 新しいシードをランダムに決定する
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * 1つのシードから複数候補用のシードを導出する
+ *
+ * index = 0 は元のシードそのまま（通常の生成と同じ結果になる）。
+ * 連番にせず黄金比の定数で間隔を空け、候補同士の乱数列が似ないようにする。
+ *
+ * @example
+ * deriveSeed(12345, 0); // 12345
+ */
+export function deriveSeed(seed: number, index: number): number {
+  return (seed + Math.imul(index, 0x9e3779b9)) >>> 0;
+}
+
+/**
+ * シードとして有効な値か判定する（0〜MAX_SEED の整数）
+ */
+export function isValidSeed(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+/**
+ * 配列からランダムに1要素を選択する
+ */
+export function randomPick<T>(arr: T[], random: Random): T {
+  return arr[Math.floor(random() * arr.length)];
+}
+
+/**
+ * 配列をその場でシャッフルする（Fisher-Yates）
+ *
+ * @returns シャッフルした配列（引数と同じ参照）
+ */
+export function shuffle<T>(arr: T[], random: Random): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
@@ -0,0 +1,71 @@
+/**
+ * プレイヤーのレベル（rating）とチーム力差のユーティリティ関数
+ *
+ * チーム力 = ペア2人のレベルの合計
+ * チーム力差 = |pairA のチーム力 - pairB のチーム力|（シングルスは2人のレベルの差）
+ */
+
+import type { Match, Participant, PlayerRatings } from '../types/schedule';
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/** レベル未設定のプレイヤーに使用する標準レベル */
+export const DEFAULT_RATING = 3;
+
+/**
+ * 名簿にレベルが1件以上設定されているか判定する
+ */
+export function hasRatings(roster: Participant[]): boolean {
+  return roster.some(p => p.rating !== undefined);
+}
+
+/**
+ * 名簿からプレイヤーのレベル配列を作成する
+ *
+ * 名簿にレベルが1件も設定されていない場合は null を返す（チーム力差を評価しない）。
+ * レベル未設定のプレイヤーは DEFAULT_RATING として扱う。
+ *
+ * @param roster - 参加者名簿
+ * @param playersCount - 最大プレイヤー番号（配列サイズ）
+ * @returns レベル配列、またはレベル未設定時は null
+ *
+ * @example
+ * buildPlayerRatings([{ id: 1, name: '', rating: 5 }], 4) // [5, 3, 3, 3]
+ * buildPlayerRatings([], 4) // null
+ */
+export function buildPlayerRatings(roster: Participant[], playersCount: number): PlayerRatings | null {
+  if (!hasRatings(roster)) return null;
+  const ratings: PlayerRatings = Array(playersCount).fill(DEFAULT_RATING);
+  for (const participant of roster) {
+    if (participant.rating !== undefined && participant.id >= 1 && participant.id <= playersCount) {
+      ratings[participant.id - 1] = participant.rating;
+    }
+  }
+  return ratings;
+}
+
+/**
+ * 4人の割り当て (p1,p2) vs (p3,p4) のチーム力差を計算する
+ *
+ * 計算量: O(1)
+ */
+export function calculateImbalance(
+  ratings: PlayerRatings,
+  p1: number,
+  p2: number,
+  p3: number,
+  p4: number
+): number {
+  return Math.abs(ratings[p1 - 1] + ratings[p2 - 1] - ratings[p3 - 1] - ratings[p4 - 1]);
+}
+
+/**
+ * 試合のチーム力差を計算する
+ *
+ * シングルスの試合は2人のレベルの差を返す。
+ */
+export function calculateMatchImbalance(ratings: PlayerRatings, match: Match): number {
+  if (match.type === 'singles') return Math.abs(ratings[match.playerA - 1] - ratings[match.playerB - 1]);
+  return calculateImbalance(ratings, match.pairA.player1, match.pairA.player2, match.pairB.player1, match.pairB.player2);
+}
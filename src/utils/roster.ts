@@ -0,0 +1,83 @@
+/**
+ * 参加者名簿のユーティリティ関数
+ */
+
+import type { Participant } from '../types/schedule';
+
+/**
+ * プレイヤー番号から表示名を取得する
+ *
+ * 名簿に名前が登録されていない場合はプレイヤー番号を文字列で返す。
+ *
+ * @param roster - 参加者名簿
+ * @param player - プレイヤー番号（1始まり）
+ * @returns 表示名
+ *
+ * @example
+ * getPlayerName([{ id: 1, name: '田中' }], 1) // '田中'
+ * getPlayerName([{ id: 1, name: '田中' }], 2) // '2'
+ */
+export function getPlayerName(roster: Participant[], player: number): string {
+  const participant = roster.find(p => p.id === player);
+  return participant && participant.name.trim() !== '' ? participant.name : String(player);
+}
+
+/**
+ * プレイヤー番号から読み上げ用の文字列を取得する
+ *
+ * 読み仮名 → 表示名 → プレイヤー番号 の順にフォールバックする。
+ *
+ * @param roster - 参加者名簿
+ * @param player - プレイヤー番号（1始まり）
+ * @returns 読み上げ用の文字列
+ */
+export function getPlayerReading(roster: Participant[], player: number): string {
+  const participant = roster.find(p => p.id === player);
+  if (participant?.reading && participant.reading.trim() !== '') {
+    return participant.reading;
+  }
+  return getPlayerName(roster, player);
+}
+
+/**
+ * 試合の片側（ダブルスのペア、シングルスの1人）の表示文字列を生成する
+ *
+ * @example
+ * formatSideNames([], [1, 2]) // '1,2'
+ * formatSideNames([], [5]) // '5'
+ */
+export function formatSideNames(roster: Participant[], players: number[]): string {
+  return players.map(p => getPlayerName(roster, p)).join(',');
+}
+
+/**
+ * 名簿に名前が1件以上登録されているか判定する
+ */
+export function hasNamedParticipants(roster: Participant[]): boolean {
+  return roster.some(p => p.name.trim() !== '');
+}
+
+/**
+ * 名簿の1エントリを更新（または追加）した新しい名簿を返す
+ *
+ * 名前・読み仮名が空でレベルも未設定になったエントリは名簿から削除する。
+ * 戻り値はプレイヤー番号の昇順にソートされる。
+ *
+ * @param roster - 現在の名簿
+ * @param id - 更新するプレイヤー番号
+ * @param patch - 更新内容
+ * @returns 更新後の名簿（元の配列は変更しない）
+ */
+export function updateParticipant(
+  roster: Participant[],
+  id: number,
+  patch: Partial<Omit<Participant, 'id'>>
+): Participant[] {
+  const current = roster.find(p => p.id === id) ?? { id, name: '' };
+  const updated: Participant = { ...current, ...patch };
+  const others = roster.filter(p => p.id !== id);
+
+  const isEmpty = updated.name.trim() === '' && (updated.reading ?? '').trim() === '' && updated.rating === undefined && updated.category === undefined;
+  const next = isEmpty ? others : [...others, updated];
+  return next.sort((a, b) => a.id - b.id);
+}
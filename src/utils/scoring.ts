@@ -0,0 +1,216 @@
+/**
+ * 試合結果（スコア）のユーティリティ関数
+ *
+ * スコア形式ごとの規則に従って試合結果を検証する。
+ * 試合結果は `${roundNumber}-${courtIndex}` をキーとした MatchResults に格納する。
+ */
+
+import type {
+  MatchResult,
+  MatchResults,
+  MatchResultValidation,
+  ScoringFormat,
+  ScoringFormatId,
+} from '../types/schedule';
+
+/**
+ * 選択可能なスコア形式の一覧
+ */
+export const SCORING_FORMATS: ScoringFormat[] = [
+  {
+    id: 'six-game-set',
+    name: '6ゲーム先取（6-6タイブレーク）',
+    gamesToWin: 6,
+    winByTwo: true,
+    tiebreakAt: 6,
+    tiebreakPoints: 7,
+  },
+  {
+    id: 'eight-game-pro-set',
+    name: '8ゲームプロセット（8-8タイブレーク）',
+    gamesToWin: 8,
+    winByTwo: true,
+    tiebreakAt: 8,
+    tiebreakPoints: 7,
+  },
+  {
+    id: 'four-game-no-ad',
+    name: '4ゲーム先取（ノーアド）',
+    gamesToWin: 4,
+    winByTwo: false,
+    tiebreakAt: null,
+    tiebreakPoints: 7,
+  },
+];
+
+export const DEFAULT_SCORING_FORMAT_ID: ScoringFormatId = 'six-game-set';
+
+/**
+ * 識別子からスコア形式を取得する（未知の識別子はデフォルト形式）
+ */
+export function getScoringFormat(id: ScoringFormatId): ScoringFormat {
+  return SCORING_FORMATS.find(f => f.id === id)
+    ?? SCORING_FORMATS.find(f => f.id === DEFAULT_SCORING_FORMAT_ID)!;
+}
+
+/**
+ * 試合結果のキーを生成する
+ *
+ * @param roundNumber - ラウンド番号（1始まり）
+ * @param courtIndex - コートのインデックス（0始まり）
+ */
+export function getMatchResultKey(roundNumber: number, courtIndex: number): string {
+  return `${roundNumber}-${courtIndex}`;
+}
+
+function isNonNegativeInteger(value: number): boolean {
+  return Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * タイブレークのポイントを検証する
+ * 勝者は tiebreakPoints 以上かつ2ポイント差。tiebreakPoints を超える場合はちょうど2ポイント差。
+ */
+function validateTiebreak(
+  tiebreak: { pointsA: number; pointsB: number },
+  setWinner: 'A' | 'B',
+  format: ScoringFormat
+): MatchResultValidation {
+  const { pointsA, pointsB } = tiebreak;
+  if (!isNonNegativeInteger(pointsA) || !isNonNegativeInteger(pointsB)) {
+    return { isValid: false, errorMessage: 'タイブレークのポイントは0以上の整数で入力してください' };
+  }
+  const winnerPoints = Math.max(pointsA, pointsB);
+  const loserPoints = Math.min(pointsA, pointsB);
+  const isFinished =
+    winnerPoints >= format.tiebreakPoints &&
+    winnerPoints - loserPoints >= 2 &&
+    (winnerPoints === format.tiebreakPoints || winnerPoints - loserPoints === 2);
+  if (!isFinished) {
+    return { isValid: false, errorMessage: `タイブレークは${format.tiebreakPoints}ポイント先取・2ポイント差で入力してください` };
+  }
+  if ((pointsA > pointsB ? 'A' : 'B') !== setWinner) {
+    return { isValid: false, errorMessage: 'タイブレークの勝者とゲーム数の勝者が一致しません' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * 試合結果がスコア形式の規則を満たしているか検証する
+ *
+ * 有効なスコア（6ゲーム先取・6-6タイブレークの場合）:
+ * - 6-0 〜 6-4（2ゲーム差で先取）
+ * - 7-5（5-5 からの2ゲーム差）
+ * - 7-6（タイブレークのポイントが必須）
+ * 不戦勝（walkover）の場合はゲーム数を検証しない。
+ *
+ * @param result - 試合結果
+ * @param format - スコア形式
+ * @returns 検証結果（無効な場合はエラーメッセージ付き）
+ *
+ * @example
+ * validateMatchResult({ gamesA: 6, gamesB: 4 }, getScoringFormat('six-game-set'))
+ * // { isValid: true }
+ */
+export function validateMatchResult(result: MatchResult, format: ScoringFormat): MatchResultValidation {
+  if (result.walkover) {
+    return { isValid: true };
+  }
+
+  const { gamesA, gamesB, tiebreak } = result;
+  if (!isNonNegativeInteger(gamesA) || !isNonNegativeInteger(gamesB)) {
+    return { isValid: false, errorMessage: 'ゲーム数は0以上の整数で入力してください' };
+  }
+  if (gamesA === gamesB) {
+    return { isValid: false, errorMessage: '引き分けのスコアは入力できません' };
+  }
+
+  const winnerGames = Math.max(gamesA, gamesB);
+  const loserGames = Math.min(gamesA, gamesB);
+  const setWinner = gamesA > gamesB ? 'A' : 'B';
+  const { gamesToWin, tiebreakAt } = format;
+
+  // 先取で決着（2ゲーム差不要の形式、または2ゲーム差以上で先取）
+  const wonOutright = format.winByTwo
+    ? winnerGames === gamesToWin && loserGames <= gamesToWin - 2
+    : winnerGames === gamesToWin && loserGames < gamesToWin;
+  // 先取後の延長で2ゲーム差（タイブレーク到達前）
+  const wonByTwo =
+    format.winByTwo &&
+    winnerGames === loserGames + 2 &&
+    loserGames >= gamesToWin - 1 &&
+    (tiebreakAt === null || loserGames < tiebreakAt);
+  // タイブレークで決着
+  const wonByTiebreak =
+    format.winByTwo && tiebreakAt !== null && loserGames === tiebreakAt && winnerGames === tiebreakAt + 1;
+
+  if (wonByTiebreak) {
+    if (!tiebreak) {
+      return { isValid: false, errorMessage: 'タイブレークのポイントを入力してください' };
+    }
+    return validateTiebreak(tiebreak, setWinner, format);
+  }
+  if (wonOutright || wonByTwo) {
+    if (tiebreak) {
+      return { isValid: false, errorMessage: 'このスコアではタイブレークは入力できません' };
+    }
+    return { isValid: true };
+  }
+  return { isValid: false, errorMessage: `${gamesA}-${gamesB} は「${format.name}」のスコアとして無効です` };
+}
+
+/**
+ * 試合結果がタイブレークの入力を必要とするスコアか判定する
+ */
+export function requiresTiebreak(gamesA: number, gamesB: number, format: ScoringFormat): boolean {
+  if (!format.winByTwo || format.tiebreakAt === null) return false;
+  const winnerGames = Math.max(gamesA, gamesB);
+  const loserGames = Math.min(gamesA, gamesB);
+  return loserGames === format.tiebreakAt && winnerGames === format.tiebreakAt + 1;
+}
+
+/**
+ * 試合の勝者側を取得する
+ *
+ * @returns 'A'（pairA の勝利）または 'B'（pairB の勝利）
+ */
+export function getMatchWinner(result: MatchResult): 'A' | 'B' {
+  if (result.walkover) return result.walkover;
+  return result.gamesA > result.gamesB ? 'A' : 'B';
+}
+
+/**
+ * 試合結果の表示文字列を生成する
+ *
+ * @example
+ * formatMatchResult({ gamesA: 7, gamesB: 6, tiebreak: { pointsA: 7, pointsB: 4 } }) // '7-6(4)'
+ * formatMatchResult({ gamesA: 0, gamesB: 0, walkover: 'B' }) // '不戦勝(B)'
+ */
+export function formatMatchResult(result: MatchResult): string {
+  if (result.walkover) {
+    return `不戦勝(${result.walkover})`;
+  }
+  const base = `${result.gamesA}-${result.gamesB}`;
+  if (!result.tiebreak) return base;
+  // 慣例に従い、タイブレークは敗者側のポイントのみ表示
+  return `${base}(${Math.min(result.tiebreak.pointsA, result.tiebreak.pointsB)})`;
+}
+
+/**
+ * 指定したラウンド番号の試合結果のみを残す
+ * ラウンドを再生成した場合、再生成されたラウンドの結果は組み合わせが変わるため破棄する。
+ *
+ * @param results - 試合結果の一覧
+ * @param keepRoundNumbers - 結果を保持するラウンド番号
+ * @returns 絞り込んだ試合結果（元のオブジェクトは変更しない）
+ */
+export function filterResultsByRounds(results: MatchResults, keepRoundNumbers: Set<number>): MatchResults {
+  const filtered: MatchResults = {};
+  for (const [key, result] of Object.entries(results)) {
+    const roundNumber = Number(key.split('-')[0]);
+    if (keepRoundNumbers.has(roundNumber)) {
+      filtered[key] = result;
+    }
+  }
+  return filtered;
+}
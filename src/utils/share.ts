@@ -0,0 +1,285 @@
+/**
+ * 対戦表の共有ユーティリティ（サーバー不要の URL / QR コード共有）
+ *
+ * スケジュールをコンパクトなバイナリに詰めて base64url 化し、URL フラグメント（#s=...）に載せる。
+ * フラグメントはサーバーに送信されないため、オフラインでも開ける。
+ *
+ * バイナリ形式（バージョン 3、ビット単位で詰めて最後のバイトのみ 0 埋め）:
+ * - version: 8bit
+ * - flags: 1bit（名前を含むか）
+ * - courts / players / ラウンド数: 可変長整数
+ * - コート数の変更: 件数（可変長整数）、各変更の fromRound・courts（可変長整数）
+ * - activePlayers: players ビットのビットマスク
+ * - 各ラウンド: roundNumber（可変長整数）、そのラウンドのコート数ぶんの試合、休憩人数（可変長整数）と休憩者
+ * - 各試合: 種類 1bit（0: ダブルス、1: シングルス）、ダブルスは pairA.player1, pairA.player2, pairB.player1, pairB.player2、
+ *   シングルスは playerA, playerB
+ * - 名前（flags が立っている場合のみ）: 件数（可変長整数）、各エントリのプレイヤー番号・UTF-8 バイト長・バイト列
+ *
+ * プレイヤー番号は players を表現できる最小ビット幅で書き込む。
+ * バージョン 1（コート数の変更なし）・バージョン 2（試合の種類なし、すべてダブルス）のリンクも読み込める。
+ * シングルスコートの設定は含めず、読み込み時にシングルスの試合があるコートから復元する。
+ * 試合タイマーの計測記録（Round.timing）、時間から決めたラウンド数の設定（timePlan）、参加できるラウンドの範囲（availability）、
+ * 休憩中のプレイヤー（breaks）は含めない。
+ * 同じスケジュールからは常に同じ文字列が得られる（決定的）。
+ */
+
+import type { Schedule, Participant, CourtChange, Match } from '../types/schedule';
+import { parseScheduleData, type ScheduleDataResult } from './import';
+import { getCourtsForRound } from './courtChanges';
+import { getMatchPlayers, isSinglesMatch } from './singles';
+
+/** 共有 URL のフラグメント接頭辞 */
+export const SHARE_HASH_PREFIX = '#s=';
+
+/** 共有形式のバージョン（互換性のない変更時のみインクリメントする） */
+export const SHARE_FORMAT_VERSION = 3;
+
+// コート数の変更を含まない旧バージョン
+const SHARE_FORMAT_VERSION_WITHOUT_COURT_CHANGES = 1;
+
+// 試合の種類を含まない旧バージョン（すべてダブルス）
+const SHARE_FORMAT_VERSION_WITHOUT_MATCH_TYPE = 2;
+
+// 閲覧用に評価を再計算する際の重み（設定の初期値と同じ）
+const VIEW_WEIGHTS = { w1: 1.0, w2: 0.5, w3: 2.0, w4: 1.0 };
+
+/** 共有データが壊れている場合のエラー */
+class ShareDecodeError extends Error {}
+
+/**
+ * ビット単位の書き込み
+ */
+class BitWriter {
+  private bytes: number[] = [];
+  private bitLength = 0;
+
+  writeBits(value: number, width: number): void {
+    for (let i = width - 1; i >= 0; i--) {
+      const byteIndex = this.bitLength >> 3;
+      if (byteIndex === this.bytes.length) this.bytes.push(0);
+      if ((value >> i) & 1) this.bytes[byteIndex] |= 0x80 >> (this.bitLength & 7);
+      this.bitLength++;
+    }
+  }
+
+  /** 可変長整数（7bit ごとに継続ビットを付ける） */
+  writeVarUint(value: number): void {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.writeBits((rest & 0x7f) | 0x80, 8);
+      rest >>>= 7;
+    }
+    this.writeBits(rest, 8);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * ビット単位の読み込み（データ末尾を超えた場合は ShareDecodeError）
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  readBits(width: number): number {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      const byteIndex = this.position >> 3;
+      if (byteIndex >= this.bytes.length) throw new ShareDecodeError('データが途中で終わっています');
+      value = (value << 1) | ((this.bytes[byteIndex] >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readVarUint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.readBits(8);
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new ShareDecodeError('数値が大きすぎます');
+  }
+}
+
+/** 1〜players を表現できる最小ビット幅 */
+function playerBitWidth(players: number): number {
+  return Math.max(1, Math.ceil(Math.log2(players + 1)));
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new ShareDecodeError('使用できない文字が含まれています');
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * スケジュールを共有用の文字列に変換する
+ *
+ * @param schedule - スケジュール
+ * @param includeNames - 名簿の名前を含めるか（読み仮名・レベルは含めない）
+ * @returns base64url 文字列
+ */
+export function encodeScheduleForShare(schedule: Schedule, includeNames: boolean): string {
+  const writer = new BitWriter();
+  const width = playerBitWidth(schedule.players);
+  const names = includeNames ? schedule.roster.filter((p) => p.name !== '') : [];
+
+  writer.writeBits(SHARE_FORMAT_VERSION, 8);
+  writer.writeBits(names.length > 0 ? 1 : 0, 1);
+  writer.writeVarUint(schedule.courts);
+  writer.writeVarUint(schedule.players);
+  writer.writeVarUint(schedule.rounds.length);
+  const courtChanges = schedule.courtChanges ?? [];
+  writer.writeVarUint(courtChanges.length);
+  for (const { fromRound, courts } of courtChanges) {
+    writer.writeVarUint(fromRound);
+    writer.writeVarUint(courts);
+  }
+
+  const activeSet = new Set(schedule.activePlayers);
+  for (let p = 1; p <= schedule.players; p++) {
+    writer.writeBits(activeSet.has(p) ? 1 : 0, 1);
+  }
+
+  for (const round of schedule.rounds) {
+    writer.writeVarUint(round.roundNumber);
+    for (const match of round.matches) {
+      writer.writeBits(isSinglesMatch(match) ? 1 : 0, 1);
+      for (const p of getMatchPlayers(match)) {
+        writer.writeBits(p, width);
+      }
+    }
+    writer.writeVarUint(round.restingPlayers.length);
+    for (const p of round.restingPlayers) {
+      writer.writeBits(p, width);
+    }
+  }
+
+  if (names.length > 0) {
+    const encoder = new TextEncoder();
+    writer.writeVarUint(names.length);
+    for (const { id, name } of names) {
+      const bytes = encoder.encode(name);
+      writer.writeBits(id, width);
+      writer.writeVarUint(bytes.length);
+      bytes.forEach((b) => writer.writeBits(b, 8));
+    }
+  }
+
+  return bytesToBase64Url(writer.toBytes());
+}
+
+/**
+ * 共有用の文字列からスケジュールを復元する
+ *
+ * 復元後はインポートと同じ不変条件で検証し、評価指標を再計算する。
+ *
+ * @param encoded - encodeScheduleForShare で生成した文字列
+ * @returns 検証結果（無効な場合はエラーメッセージ）
+ */
+export function decodeSharedSchedule(encoded: string): ScheduleDataResult {
+  let raw: unknown;
+  try {
+    const reader = new BitReader(base64UrlToBytes(encoded));
+    const version = reader.readBits(8);
+    if (
+      version !== SHARE_FORMAT_VERSION &&
+      version !== SHARE_FORMAT_VERSION_WITHOUT_MATCH_TYPE &&
+      version !== SHARE_FORMAT_VERSION_WITHOUT_COURT_CHANGES
+    ) {
+      return { isValid: false, errorMessages: [`未対応の共有リンクのバージョンです（${version}）`] };
+    }
+    const hasNames = reader.readBits(1) === 1;
+    const courts = reader.readVarUint();
+    const players = reader.readVarUint();
+    const roundsCount = reader.readVarUint();
+    const courtChanges: CourtChange[] = [];
+    if (version !== SHARE_FORMAT_VERSION_WITHOUT_COURT_CHANGES) {
+      const count = reader.readVarUint();
+      for (let i = 0; i < count; i++) {
+        courtChanges.push({ fromRound: reader.readVarUint(), courts: reader.readVarUint() });
+      }
+    }
+    const width = playerBitWidth(players);
+    const hasMatchType = version === SHARE_FORMAT_VERSION;
+
+    const activePlayers: number[] = [];
+    for (let p = 1; p <= players; p++) {
+      if (reader.readBits(1) === 1) activePlayers.push(p);
+    }
+
+    const rounds = Array.from({ length: roundsCount }, () => {
+      const roundNumber = reader.readVarUint();
+      const matches = Array.from({ length: getCourtsForRound(courts, courtChanges, roundNumber) }, (): Match => {
+        if (hasMatchType && reader.readBits(1) === 1) {
+          const [a, b] = Array.from({ length: 2 }, () => reader.readBits(width));
+          return { type: 'singles', playerA: a, playerB: b };
+        }
+        const [a1, a2, b1, b2] = Array.from({ length: 4 }, () => reader.readBits(width));
+        return { pairA: { player1: a1, player2: a2 }, pairB: { player1: b1, player2: b2 } };
+      });
+      const restingCount = reader.readVarUint();
+      const restingPlayers = Array.from({ length: restingCount }, () => reader.readBits(width));
+      return { roundNumber, matches, restingPlayers };
+    });
+
+    const roster: Participant[] = [];
+    if (hasNames) {
+      const decoder = new TextDecoder();
+      const count = reader.readVarUint();
+      for (let i = 0; i < count; i++) {
+        const id = reader.readBits(width);
+        const length = reader.readVarUint();
+        const bytes = Uint8Array.from({ length }, () => reader.readBits(8));
+        roster.push({ id, name: decoder.decode(bytes) });
+      }
+    }
+
+    raw = { courts, players, rounds, activePlayers, roster, courtChanges };
+  } catch (error) {
+    const detail = error instanceof ShareDecodeError ? error.message : 'データを読み取れません';
+    return { isValid: false, errorMessages: [`共有リンクが壊れています: ${detail}`] };
+  }
+
+  return parseScheduleData(raw, VIEW_WEIGHTS);
+}
+
+/**
+ * 共有 URL を生成する
+ *
+ * @param schedule - スケジュール
+ * @param includeNames - 名簿の名前を含めるか
+ * @param baseUrl - フラグメントを付ける URL（省略時は現在のページ）
+ */
+export function buildShareUrl(
+  schedule: Schedule,
+  includeNames: boolean,
+  baseUrl: string = window.location.origin + window.location.pathname + window.location.search
+): string {
+  return `${baseUrl}${SHARE_HASH_PREFIX}${encodeScheduleForShare(schedule, includeNames)}`;
+}
+
+/**
+ * URL フラグメントから共有スケジュールを読み込む
+ *
+ * @param hash - location.hash
+ * @returns 共有リンクでない場合は null、それ以外は検証結果
+ */
+export function readSharedSchedule(hash: string): ScheduleDataResult | null {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  return decodeSharedSchedule(hash.slice(SHARE_HASH_PREFIX.length));
+}
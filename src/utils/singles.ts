@@ -0,0 +1,229 @@
+/**
+ * シングルス（1対1）の試合とシングルスコートのユーティリティ関数
+ *
+ * 人数がコート数×4に足りないラウンドでは、指定したコート（シングルスコート）をシングルスにして
+ * 休憩者を減らす。シングルスにするコートはラウンドの人数から決まり、足りない分だけ指定順に使う。
+ * 例: 10人3面でコート3をシングルスにできる場合 → ダブルス2面 + シングルス1面で全員出場
+ *
+ * 試合の出場者は isSinglesMatch / getMatchSides / getMatchPlayers で種類に依存せず扱う。
+ */
+
+import type { CountMatrix, FixedPair, Match, PairConstraints, Round, SinglesCourtsValidation, SinglesMatch } from '../types/schedule';
+import { canOppose } from './pairConstraints';
+import { shuffle, type Random } from './random';
+
+/**
+ * シングルスの試合か判定する
+ */
+export function isSinglesMatch(match: Match): match is SinglesMatch {
+  return match.type === 'singles';
+}
+
+/**
+ * 試合の両サイドの出場者を返す（ダブルスは各2人、シングルスは各1人）
+ *
+ * @example
+ * getMatchSides({ pairA: { player1: 1, player2: 2 }, pairB: { player1: 3, player2: 4 } }) // [[1, 2], [3, 4]]
+ * getMatchSides({ type: 'singles', playerA: 5, playerB: 6 }) // [[5], [6]]
+ */
+export function getMatchSides(match: Match): [number[], number[]] {
+  if (isSinglesMatch(match)) return [[match.playerA], [match.playerB]];
+  return [[match.pairA.player1, match.pairA.player2], [match.pairB.player1, match.pairB.player2]];
+}
+
+/**
+ * 試合に出場する全プレイヤーを返す（サイドA → サイドBの順）
+ */
+export function getMatchPlayers(match: Match): number[] {
+  const [sideA, sideB] = getMatchSides(match);
+  return [...sideA, ...sideB];
+}
+
+/**
+ * 正規化済みのシングルスの試合を作成する（playerA < playerB）
+ */
+export function createSinglesMatch(p1: number, p2: number): SinglesMatch {
+  return p1 < p2
+    ? { type: 'singles', playerA: p1, playerB: p2 }
+    : { type: 'singles', playerA: p2, playerB: p1 };
+}
+
+/**
+ * シングルスの試合が含まれるか判定する
+ */
+export function hasSinglesMatches(rounds: Round[]): boolean {
+  return rounds.some(round => round.matches.some(isSinglesMatch));
+}
+
+/**
+ * ラウンドでシングルスにするコートのインデックスを返す
+ *
+ * 全コートをダブルスにするには人数が足りない場合のみ、足りない分（2人につき1面）を
+ * シングルスにできるコートから指定順に選ぶ。そのラウンドに存在しないコートは使わない。
+ *
+ * @param singlesCourts - シングルスにできるコートのインデックス（昇順、省略時はなし）
+ * @param courtsCount - そのラウンドのコート数
+ * @param playersCount - そのラウンドの参加人数
+ * @returns シングルスにするコートのインデックス（昇順）
+ *
+ * @example
+ * getSinglesCourtsForRound([2], 3, 10) // [2]（ダブルス2面 + シングルス1面）
+ * getSinglesCourtsForRound([2], 3, 12) // []（全コートダブルス）
+ */
+export function getSinglesCourtsForRound(
+  singlesCourts: number[] | undefined,
+  courtsCount: number,
+  playersCount: number
+): number[] {
+  const shortage = courtsCount * 4 - playersCount;
+  if (shortage <= 0) return [];
+  const available = (singlesCourts ?? []).filter(c => c < courtsCount);
+  return available.slice(0, Math.ceil(shortage / 2));
+}
+
+/**
+ * ラウンドの出場人数を返す（ダブルス1面4人、シングルス1面2人）
+ */
+export function countPlayingPlayers(courtsCount: number, singlesCount: number): number {
+  return (courtsCount - singlesCount) * 4 + singlesCount * 2;
+}
+
+/**
+ * コート数に必要な最少人数を返す（シングルスにできるコートをすべてシングルスにした場合）
+ *
+ * @example
+ * getRequiredPlayers(3, [2]) // 10
+ */
+export function getRequiredPlayers(courtsCount: number, singlesCourts: number[] | undefined): number {
+  const singles = (singlesCourts ?? []).filter(c => c < courtsCount).length;
+  return countPlayingPlayers(courtsCount, singles);
+}
+
+/**
+ * シングルスに出場するプレイヤーを選ぶ
+ *
+ * シングルス出場回数が少ないプレイヤーを優先し、同じ回数ならランダムに選ぶ。
+ * 固定ペアのメンバーはペアを分断しないよう、他のプレイヤーで足りない場合のみ選ぶ。
+ *
+ * @param playingPlayers - そのラウンドの出場者
+ * @param count - シングルスに出場させる人数（シングルスのコート数×2）
+ * @param singlesCounts - 各プレイヤーのシングルス出場回数（0-based index）
+ * @param random - 乱数生成関数
+ * @param fixedPairs - 固定ペアの配列（省略可）
+ * @returns シングルスに出場するプレイヤー番号
+ */
+export function selectSinglesPlayers(
+  playingPlayers: number[],
+  count: number,
+  singlesCounts: number[],
+  random: Random,
+  fixedPairs: FixedPair[] = []
+): number[] {
+  if (count === 0) return [];
+  const fixedMembers = new Set(fixedPairs.flatMap(fp => [fp.player1, fp.player2]));
+  const sorted = shuffle([...playingPlayers], random).sort((a, b) => {
+    const fixedDiff = (fixedMembers.has(a) ? 1 : 0) - (fixedMembers.has(b) ? 1 : 0);
+    if (fixedDiff !== 0) return fixedDiff;
+    return singlesCounts[a - 1] - singlesCounts[b - 1];
+  });
+  return sorted.slice(0, count);
+}
+
+/**
+ * シングルスの出場者を組み合わせて試合を作る
+ *
+ * 未対戦・前ラウンドで対戦していない相手を優先し、対戦禁止の組み合わせは他に相手がいない場合のみ選ぶ。
+ *
+ * @param players - シングルスの出場者（偶数人）
+ * @param opponentHistory - 累積対戦回数行列
+ * @param random - 乱数生成関数
+ * @param previousOpponents - 前ラウンドの対戦相手マップ（省略可）
+ * @param constraints - ペア禁止・対戦禁止（省略可）
+ * @returns シングルスの試合（正規化済み）
+ *
+ * 計算量: O(players²)
+ */
+export function buildSinglesMatches(
+  players: number[],
+  opponentHistory: CountMatrix,
+  random: Random,
+  previousOpponents?: Map<number, Set<number>>,
+  constraints?: PairConstraints | null
+): SinglesMatch[] {
+  const remaining = shuffle([...players], random);
+  const matches: SinglesMatch[] = [];
+  while (remaining.length >= 2) {
+    const player = remaining.shift()!;
+    let bestIndex = 0;
+    let bestScore = Infinity;
+    remaining.forEach((opponent, i) => {
+      let score = opponentHistory[player - 1][opponent - 1];
+      if (previousOpponents?.get(player)?.has(opponent)) score += 100;
+      if (!canOppose(constraints, player, opponent)) score += 10000;
+      if (score < bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    const [opponent] = remaining.splice(bestIndex, 1);
+    matches.push(createSinglesMatch(player, opponent));
+  }
+  return matches;
+}
+
+/**
+ * ダブルスとシングルスの試合をコート順に並べる
+ *
+ * @param doublesMatches - ダブルスの試合（シングルス以外のコートに順に割り当てる）
+ * @param singlesMatches - シングルスの試合（singlesCourtIndices のコートに順に割り当てる）
+ * @param singlesCourtIndices - シングルスにするコートのインデックス（昇順）
+ * @returns コート順の試合（インデックス = コート番号-1）
+ */
+export function mergeCourtMatches(
+  doublesMatches: Match[],
+  singlesMatches: Match[],
+  singlesCourtIndices: number[]
+): Match[] {
+  const courts = doublesMatches.length + singlesMatches.length;
+  const singlesSet = new Set(singlesCourtIndices);
+  const matches: Match[] = [];
+  let d = 0;
+  let s = 0;
+  for (let c = 0; c < courts; c++) {
+    matches.push(singlesSet.has(c) ? singlesMatches[s++] : doublesMatches[d++]);
+  }
+  return matches;
+}
+
+/**
+ * シングルスコートの設定をバリデーションする
+ *
+ * チェック項目:
+ * - コートのインデックスが 0〜(最大コート数-1) の範囲内か
+ * - ミックスダブルスと同時に指定されていないか
+ *
+ * 人数の確認はコート数と合わせて行う（getRequiredPlayers、validateCourtChanges）。
+ *
+ * @param singlesCourts - シングルスにできるコートのインデックス
+ * @param maxCourts - 全ラウンドの最大コート数
+ * @param mixedDoubles - ミックスダブルスか
+ * @returns バリデーション結果
+ */
+export function validateSinglesCourts(
+  singlesCourts: number[],
+  maxCourts: number,
+  mixedDoubles: boolean
+): SinglesCourtsValidation {
+  if (singlesCourts.length === 0) return { isValid: true };
+
+  if (mixedDoubles) {
+    return { isValid: false, errorMessage: 'ミックスダブルスではシングルスコートを使用できません' };
+  }
+
+  for (const court of singlesCourts) {
+    if (!Number.isInteger(court) || court < 0 || court >= maxCourts) {
+      return { isValid: false, errorMessage: `シングルスコート（コート ${court + 1}）は 1〜${maxCourts} の範囲で指定してください` };
+    }
+  }
+  return { isValid: true };
+}
@@ -0,0 +1,223 @@
+/**
+ * 個人順位表の集計ユーティリティ
+ *
+ * ダブルスはラウンドごとにペアが入れ替わるため、順位は個人単位で集計する。
+ * 試合結果はペアの両プレイヤーに同じ勝敗・ゲーム数として加算する（シングルスは出場者本人のみ）。
+ *
+ * 休憩が多いプレイヤーや途中参加のプレイヤーは出場試合数が少なくなるため、
+ * normalization: 'perMatch' では勝利数・ゲーム数を出場試合数で割った平均値で比較する。
+ */
+
+import type { Round, MatchResults } from '../types/schedule';
+import { getMatchResultKey, getMatchWinner } from './scoring';
+import { getMatchPlayers, getMatchSides } from './singles';
+
+/**
+ * 順位付けに使用する指標
+ * - wins: 勝利数
+ * - gameDiff: 得失ゲーム差
+ * - gamesWon: 獲得ゲーム数
+ * - winRate: 勝率（勝利数 / 出場試合数）
+ */
+export type StandingsMetric = 'wins' | 'gameDiff' | 'gamesWon' | 'winRate';
+
+/**
+ * 集計値の正規化方法
+ * - total: 合計値で比較
+ * - perMatch: 出場試合数あたりの平均値で比較（勝率は常に試合数あたり）
+ */
+export type StandingsNormalization = 'total' | 'perMatch';
+
+export interface StandingsOptions {
+  tiebreakOrder: StandingsMetric[]; // 比較する指標の優先順（先頭ほど優先）
+  normalization: StandingsNormalization;
+}
+
+/**
+ * 1プレイヤーの成績
+ */
+export interface PlayerStanding {
+  player: number;
+  rank: number | null;   // 順位（1始まり、同成績は同順位）。結果のある試合に未出場の場合は null
+  matchesPlayed: number; // 結果入力済みの出場試合数（不戦勝・不戦敗を含む）
+  scoredMatches: number; // ゲーム数が記録された出場試合数（不戦勝・不戦敗を除く）
+  wins: number;
+  losses: number;
+  gamesWon: number;
+  gamesLost: number;
+  gameDiff: number;
+  winRate: number;       // 勝率（0〜1）、出場試合なしは 0
+  restCount: number;     // 結果入力済みラウンドでの休憩回数
+  absentCount: number;   // 結果入力済みラウンドでの不在回数（途中参加・離脱）
+}
+
+export const STANDINGS_METRIC_LABELS: Record<StandingsMetric, string> = {
+  wins: '勝利数',
+  gameDiff: 'ゲーム差',
+  gamesWon: '獲得ゲーム',
+  winRate: '勝率',
+};
+
+export const DEFAULT_STANDINGS_OPTIONS: StandingsOptions = {
+  tiebreakOrder: ['wins', 'gameDiff', 'gamesWon', 'winRate'],
+  normalization: 'perMatch',
+};
+
+/** 浮動小数点の比較誤差 */
+const EPSILON = 1e-9;
+
+/**
+ * 順位比較に使用する指標の値を取得する
+ *
+ * perMatch の場合、勝利数は出場試合数、ゲーム数はゲーム数が記録された試合数で割る。
+ *
+ * @example
+ * getMetricValue(standing, 'wins', 'perMatch') // 1試合あたりの勝利数
+ */
+export function getMetricValue(
+  standing: PlayerStanding,
+  metric: StandingsMetric,
+  normalization: StandingsNormalization
+): number {
+  const perMatch = (value: number, matches: number) =>
+    normalization === 'perMatch' ? (matches > 0 ? value / matches : 0) : value;
+
+  switch (metric) {
+    case 'wins':
+      return perMatch(standing.wins, standing.matchesPlayed);
+    case 'gameDiff':
+      return perMatch(standing.gameDiff, standing.scoredMatches);
+    case 'gamesWon':
+      return perMatch(standing.gamesWon, standing.scoredMatches);
+    case 'winRate':
+      return standing.winRate;
+  }
+}
+
+function compareStandings(a: PlayerStanding, b: PlayerStanding, options: StandingsOptions): number {
+  for (const metric of options.tiebreakOrder) {
+    const diff = getMetricValue(b, metric, options.normalization) - getMetricValue(a, metric, options.normalization);
+    if (Math.abs(diff) > EPSILON) return diff;
+  }
+  return 0;
+}
+
+function createEmptyStanding(player: number): PlayerStanding {
+  return {
+    player,
+    rank: null,
+    matchesPlayed: 0,
+    scoredMatches: 0,
+    wins: 0,
+    losses: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gameDiff: 0,
+    winRate: 0,
+    restCount: 0,
+    absentCount: 0,
+  };
+}
+
+/**
+ * 試合結果から個人順位表を作成する
+ *
+ * 集計対象:
+ * - プレイヤー: activePlayers と、いずれかのラウンドに出場・休憩したプレイヤー（離脱者を含む）
+ * - ラウンド: 1試合以上の結果が入力されたラウンド（休憩・不在回数もこのラウンドで数える）
+ *
+ * 並び順: options.tiebreakOrder の指標を順に比較（降順）、全指標が同じ場合は同順位でプレイヤー番号順。
+ * 結果のある試合に出場していないプレイヤーは末尾に並べ、順位は null とする。
+ *
+ * @param rounds - ラウンドの配列
+ * @param activePlayers - 現在の参加プレイヤー
+ * @param results - 試合結果（キー: `${roundNumber}-${courtIndex}`）
+ * @param options - 順位付けの設定
+ * @returns 順位順に並べた成績の配列
+ */
+export function calculateStandings(
+  rounds: Round[],
+  activePlayers: number[],
+  results: MatchResults,
+  options: StandingsOptions = DEFAULT_STANDINGS_OPTIONS
+): PlayerStanding[] {
+  const standings = new Map<number, PlayerStanding>();
+  const getStanding = (player: number) => {
+    let standing = standings.get(player);
+    if (!standing) {
+      standing = createEmptyStanding(player);
+      standings.set(player, standing);
+    }
+    return standing;
+  };
+
+  for (const player of activePlayers) getStanding(player);
+  for (const round of rounds) {
+    for (const match of round.matches) {
+      for (const player of getMatchPlayers(match)) {
+        getStanding(player);
+      }
+    }
+    for (const player of round.restingPlayers) getStanding(player);
+  }
+
+  for (const round of rounds) {
+    const present = new Set<number>(round.restingPlayers);
+    let hasResult = false;
+
+    round.matches.forEach((match, courtIndex) => {
+      const [sideA, sideB] = getMatchSides(match);
+      for (const player of [...sideA, ...sideB]) present.add(player);
+
+      const result = results[getMatchResultKey(round.roundNumber, courtIndex)];
+      if (!result) return;
+      hasResult = true;
+
+      const winner = getMatchWinner(result);
+      const sides: [number[], number, number, boolean][] = [
+        [sideA, result.gamesA, result.gamesB, winner === 'A'],
+        [sideB, result.gamesB, result.gamesA, winner === 'B'],
+      ];
+      for (const [players, won, lost, isWinner] of sides) {
+        for (const player of players) {
+          const standing = getStanding(player);
+          standing.matchesPlayed++;
+          if (isWinner) standing.wins++;
+          else standing.losses++;
+          if (!result.walkover) {
+            standing.scoredMatches++;
+            standing.gamesWon += won;
+            standing.gamesLost += lost;
+          }
+        }
+      }
+    });
+
+    if (!hasResult) continue;
+    for (const standing of standings.values()) {
+      if (round.restingPlayers.includes(standing.player)) standing.restCount++;
+      else if (!present.has(standing.player)) standing.absentCount++;
+    }
+  }
+
+  const all = [...standings.values()];
+  for (const standing of all) {
+    standing.gameDiff = standing.gamesWon - standing.gamesLost;
+    standing.winRate = standing.matchesPlayed > 0 ? standing.wins / standing.matchesPlayed : 0;
+  }
+
+  const ranked = all
+    .filter(s => s.matchesPlayed > 0)
+    .sort((a, b) => compareStandings(a, b, options) || a.player - b.player);
+  const unranked = all
+    .filter(s => s.matchesPlayed === 0)
+    .sort((a, b) => a.player - b.player);
+
+  // 同成績は同順位（1, 1, 3, ...）
+  ranked.forEach((standing, i) => {
+    const prev = ranked[i - 1];
+    standing.rank = prev && compareStandings(prev, standing, options) === 0 ? prev.rank : i + 1;
+  });
+
+  return [...ranked, ...unranked];
+}
@@ -0,0 +1,145 @@
+/**
+ * 時間から決めるラウンド数（「9時から12時までコートが使える」）のユーティリティ関数
+ *
+ * 開始・終了時刻と1試合の時間・入れ替え時間から、時間内に終わるラウンド数と各ラウンドの開始予定を求める。
+ * 時刻は "HH:MM" 形式で受け取り、内部では 0時からの経過分で扱う。
+ */
+
+import type { CourtChange, TimePlan, TimePlanValidation } from '../types/schedule';
+import { getCourtsForRound } from './courtChanges';
+import { countPlayingPlayers, getSinglesCourtsForRound } from './singles';
+
+/** 時間から決めるラウンド数の初期設定 */
+export const DEFAULT_TIME_PLAN: TimePlan = {
+  startTime: '09:00',
+  endTime: '12:00',
+  matchMinutes: 15,
+  changeoverMinutes: 2,
+};
+
+/**
+ * "HH:MM" 形式の時刻を 0時からの経過分に変換する
+ *
+ * @returns 経過分。形式が不正な場合は null
+ *
+ * @example
+ * parseClockTime('09:30') // 570
+ */
+export function parseClockTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * 0時からの経過分を "HH:MM" 形式に変換する（24時以降は翌日の時刻として表示）
+ *
+ * @example
+ * formatClockTime(570) // '09:30'
+ */
+export function formatClockTime(totalMinutes: number): string {
+  const minutes = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 時間内に終わるラウンド数を返す（最後のラウンドの後の入れ替え時間は不要）
+ *
+ * @example
+ * // 9:00〜12:00、1試合15分、入れ替え2分 → (180 + 2) / 17 = 10.7 → 10 ラウンド
+ * calculatePlannedRounds({ startTime: '09:00', endTime: '12:00', matchMinutes: 15, changeoverMinutes: 2 }) // 10
+ */
+export function calculatePlannedRounds(plan: TimePlan): number {
+  const start = parseClockTime(plan.startTime);
+  const end = parseClockTime(plan.endTime);
+  if (start === null || end === null || plan.matchMinutes <= 0 || end <= start) return 0;
+  return Math.max(0, Math.floor((end - start + plan.changeoverMinutes) / (plan.matchMinutes + plan.changeoverMinutes)));
+}
+
+/**
+ * ラウンドの開始予定時刻（0時からの経過分）を返す
+ *
+ * 計画したラウンド数を超えるラウンド（ラウンド追加で増えたラウンド）も同じ間隔で求める。
+ *
+ * @returns 開始予定時刻。開始時刻の形式が不正な場合は null
+ */
+export function getRoundStartMinutes(plan: TimePlan, roundNumber: number): number | null {
+  const start = parseClockTime(plan.startTime);
+  if (start === null) return null;
+  return start + (roundNumber - 1) * (plan.matchMinutes + plan.changeoverMinutes);
+}
+
+/**
+ * ラウンドが終了時刻までに終わる予定か判定する
+ */
+export function isRoundWithinPlan(plan: TimePlan, roundNumber: number): boolean {
+  const start = getRoundStartMinutes(plan, roundNumber);
+  const end = parseClockTime(plan.endTime);
+  return start !== null && end !== null && start + plan.matchMinutes <= end;
+}
+
+/**
+ * 時間から決めるラウンド数の設定をバリデーションする
+ *
+ * チェック項目:
+ * - 開始・終了時刻が "HH:MM" 形式か、終了時刻が開始時刻より後か
+ * - 1試合の時間が1分以上、入れ替え時間が0分以上の整数か
+ * - 時間内に1ラウンド以上入るか
+ */
+export function validateTimePlan(plan: TimePlan): TimePlanValidation {
+  const start = parseClockTime(plan.startTime);
+  const end = parseClockTime(plan.endTime);
+  if (start === null || end === null) {
+    return { isValid: false, errorMessage: '開始時刻と終了時刻を入力してください' };
+  }
+  if (end <= start) {
+    return { isValid: false, errorMessage: '終了時刻は開始時刻より後にしてください' };
+  }
+  if (!Number.isInteger(plan.matchMinutes) || plan.matchMinutes < 1) {
+    return { isValid: false, errorMessage: '1試合の時間は1分以上にしてください' };
+  }
+  if (!Number.isInteger(plan.changeoverMinutes) || plan.changeoverMinutes < 0) {
+    return { isValid: false, errorMessage: '入れ替え時間は0分以上にしてください' };
+  }
+  if (calculatePlannedRounds(plan) < 1) {
+    return { isValid: false, errorMessage: '時間内に1ラウンドも入りません' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * 各プレイヤーの出場ラウンド数の見込み（最少・最多）を返す
+ *
+ * 出場枠（各ラウンドの出場人数の合計）を全員で均等に分けた場合の値。
+ * 休憩回数は均等化されるため、実際の出場ラウンド数もこの範囲に収まる。
+ *
+ * @param playersCount - 参加人数
+ * @param roundsCount - ラウンド数
+ * @param courtsCount - ラウンド1のコート数
+ * @param courtChanges - コート数の変更（省略時は変更なし）
+ * @param singlesCourts - シングルスにできるコート（省略時はなし）
+ * @returns 出場ラウンド数の最少・最多
+ *
+ * @example
+ * // 10人2面で10ラウンド → 出場枠 80 を10人で分けて全員 8 ラウンド
+ * estimateRoundsPlayed(10, 10, 2) // { min: 8, max: 8 }
+ */
+export function estimateRoundsPlayed(
+  playersCount: number,
+  roundsCount: number,
+  courtsCount: number,
+  courtChanges?: CourtChange[],
+  singlesCourts?: number[]
+): { min: number; max: number } {
+  if (playersCount === 0) return { min: 0, max: 0 };
+  let slots = 0;
+  for (let r = 1; r <= roundsCount; r++) {
+    const courts = getCourtsForRound(courtsCount, courtChanges, r);
+    const singles = getSinglesCourtsForRound(singlesCourts, courts, playersCount).length;
+    slots += Math.min(playersCount, countPlayingPlayers(courts, singles));
+  }
+  return { min: Math.floor(slots / playersCount), max: Math.ceil(slots / playersCount) };
+}
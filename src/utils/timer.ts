@@ -0,0 +1,109 @@
+/**
+ * 試合タイマーのユーティリティ関数
+ *
+ * ラウンドごとの計測記録（RoundTiming）は不変オブジェクトとして扱い、操作ごとに新しい記録を返す。
+ * 時刻はすべてエポックミリ秒（Date.now()）。
+ */
+
+import type { Round, RoundTiming, TimerSettings } from '../types/schedule';
+
+/** 試合タイマーの初期設定 */
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  matchMinutes: 15,
+  warningMinutes: 1,
+  autoStart: true,
+  sound: true,
+  vibration: true,
+  speech: true,
+};
+
+/**
+ * 計測を開始する
+ */
+export function startTiming(now: number): RoundTiming {
+  return { startedAt: now, pausedMs: 0 };
+}
+
+/**
+ * 計測を一時停止する（終了済み・一時停止中の場合はそのまま返す）
+ */
+export function pauseTiming(timing: RoundTiming, now: number): RoundTiming {
+  if (timing.endedAt !== undefined || timing.pausedAt !== undefined) return timing;
+  return { ...timing, pausedAt: now };
+}
+
+/**
+ * 一時停止した計測を再開する（一時停止していた時間は経過時間に含めない）
+ */
+export function resumeTiming(timing: RoundTiming, now: number): RoundTiming {
+  if (timing.pausedAt === undefined) return timing;
+  const { pausedAt, ...rest } = timing;
+  return { ...rest, pausedMs: timing.pausedMs + Math.max(0, now - pausedAt) };
+}
+
+/**
+ * 計測を終了する（一時停止中に終了した場合は一時停止した時刻を終了時刻とする）
+ */
+export function endTiming(timing: RoundTiming, now: number): RoundTiming {
+  if (timing.endedAt !== undefined) return timing;
+  const { pausedAt, ...rest } = timing;
+  return { ...rest, endedAt: pausedAt ?? now };
+}
+
+/**
+ * 計測中（開始済みで未終了）か判定する
+ */
+export function isTimingActive(timing: RoundTiming | undefined): timing is RoundTiming {
+  return timing !== undefined && timing.endedAt === undefined;
+}
+
+/**
+ * 経過時間（一時停止していた時間を除く）を返す
+ *
+ * @returns 経過時間（ミリ秒）
+ */
+export function getElapsedMs(timing: RoundTiming, now: number): number {
+  const end = timing.endedAt ?? timing.pausedAt ?? now;
+  return Math.max(0, end - timing.startedAt - timing.pausedMs);
+}
+
+/**
+ * 残り時間を返す（時間切れ後は負の値）
+ *
+ * @param timing - 計測記録
+ * @param matchMinutes - 1試合の時間（分）
+ * @param now - 現在時刻
+ * @returns 残り時間（ミリ秒）
+ */
+export function getRemainingMs(timing: RoundTiming, matchMinutes: number, now: number): number {
+  return matchMinutes * 60_000 - getElapsedMs(timing, now);
+}
+
+/**
+ * 計測を終了したラウンドの平均試合時間を返す
+ *
+ * @param rounds - 全ラウンド
+ * @returns 平均試合時間（ミリ秒）と対象ラウンド数。計測を終了したラウンドがない場合は null
+ */
+export function calculateAverageMatchMs(rounds: Round[]): { averageMs: number; count: number } | null {
+  const durations = rounds.flatMap((round) =>
+    round.timing?.endedAt !== undefined ? [getElapsedMs(round.timing, round.timing.endedAt)] : []
+  );
+  if (durations.length === 0) return null;
+  const total = durations.reduce((sum, d) => sum + d, 0);
+  return { averageMs: total / durations.length, count: durations.length };
+}
+
+/**
+ * 時間を「分:秒」形式に整形する（負の値は超過時間として先頭に + を付ける）
+ *
+ * @example
+ * formatDuration(125_000) // '2:05'
+ * formatDuration(-30_000) // '+0:30'
+ */
+export function formatDuration(ms: number): string {
+  // 残り時間は切り上げ、超過時間は切り捨てて、0 を境に表示が1秒ずつ連続するようにする
+  const seconds = ms >= 0 ? Math.ceil(ms / 1000) : Math.floor(-ms / 1000);
+  const text = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return ms < 0 ? `+${text}` : text;
+}
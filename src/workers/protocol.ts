@@ -0,0 +1,27 @@
+/**
+ * スケジュール生成 Worker のメッセージプロトコル
+ *
+ * 1回の生成につき Worker を1つ起動し、request を1通送る。
+ * Worker は progress / roundComplete を任意回数送り、最後に done または error を1通送る。
+ * キャンセルはメインスレッド側で Worker を terminate する（ラウンド内の長い探索も即座に止められる）。
+ * Worker のストラテジーはレジストリの既定設定で作成されるため、局所探索法の探索予算は params.localSearch で渡す。
+ */
+
+import type { Schedule, ScheduleParams, RegenerationParams, GenerationProgress, Round } from '../types/schedule';
+import type { StrategyId } from '../strategies/types';
+
+/**
+ * メインスレッド → Worker
+ */
+export type ScheduleWorkerRequest =
+  | { type: 'generate'; strategyId: StrategyId; params: ScheduleParams }
+  | { type: 'regenerate'; strategyId: StrategyId; params: RegenerationParams };
+
+/**
+ * Worker → メインスレッド
+ */
+export type ScheduleWorkerResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'roundComplete'; rounds: Round[]; roundNumber: number }
+  | { type: 'done'; schedule: Schedule }
+  | { type: 'error'; message: string };
@@ -0,0 +1,31 @@
+/**
+ * スケジュール生成 Worker
+ *
+ * ScheduleStrategy の非同期生成をメインスレッドから切り離して実行する。
+ * 生成中も UI が固まらないよう、進捗と確定ラウンドはメッセージで逐次通知する。
+ */
+
+import { getStrategy } from '../strategies/registry';
+import type { ProgressCallbacks } from '../strategies/types';
+import type { ScheduleWorkerRequest, ScheduleWorkerResponse } from './protocol';
+
+function post(response: ScheduleWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<ScheduleWorkerRequest>) => {
+  const request = event.data;
+  const strategy = getStrategy(request.strategyId);
+  const callbacks: ProgressCallbacks = {
+    onProgress: (progress) => post({ type: 'progress', progress }),
+    onRoundComplete: (rounds, roundNumber) => post({ type: 'roundComplete', rounds, roundNumber }),
+  };
+
+  const run = request.type === 'generate'
+    ? strategy.generateScheduleAsync(request.params, callbacks)
+    : strategy.generateRemainingScheduleAsync(request.params, callbacks);
+
+  run
+    .then((schedule) => post({ type: 'done', schedule }))
+    .catch((err) => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }));
+};
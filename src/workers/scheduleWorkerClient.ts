@@ -0,0 +1,107 @@
+/**
+ * スケジュール生成 Worker のクライアント
+ *
+ * Worker が使えない環境（vitest、古いブラウザ、Worker の読み込み失敗）では
+ * メインスレッドで同じストラテジーを実行する。
+ */
+
+import type { Schedule } from '../types/schedule';
+import type { ProgressCallbacks } from '../strategies/types';
+import { getStrategy } from '../strategies/registry';
+import type { ScheduleWorkerRequest, ScheduleWorkerResponse } from './protocol';
+
+function createAbortError(): DOMException {
+  return new DOMException('Generation cancelled', 'AbortError');
+}
+
+/**
+ * メインスレッドでストラテジーを実行する（フォールバック）
+ */
+function runOnMainThread(request: ScheduleWorkerRequest, callbacks: ProgressCallbacks, signal?: AbortSignal): Promise<Schedule> {
+  const strategy = getStrategy(request.strategyId);
+  return request.type === 'generate'
+    ? strategy.generateScheduleAsync(request.params, callbacks, signal)
+    : strategy.generateRemainingScheduleAsync(request.params, callbacks, signal);
+}
+
+/**
+ * スケジュール生成を Worker で実行する
+ *
+ * ストラテジーの generateScheduleAsync / generateRemainingScheduleAsync と同じ契約:
+ * 進捗・確定ラウンドは callbacks に通知し、signal で中断した場合は AbortError で reject する。
+ *
+ * @param request - 生成内容（新規生成 / 再生成）
+ * @param callbacks - 進捗コールバック
+ * @param signal - 中断シグナル（中断時は Worker を terminate する）
+ * @returns 生成されたスケジュール
+ */
+export function runScheduleStrategy(
+  request: ScheduleWorkerRequest,
+  callbacks: ProgressCallbacks,
+  signal?: AbortSignal,
+): Promise<Schedule> {
+  if (typeof Worker === 'undefined') {
+    return runOnMainThread(request, callbacks, signal);
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./scheduleWorker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      runOnMainThread(request, callbacks, signal).then(resolve, reject);
+      return;
+    }
+
+    // Worker から1通でも受信したか（未受信のエラーは読み込み失敗とみなしてフォールバック）
+    let started = false;
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ScheduleWorkerResponse>) => {
+      started = true;
+      const response = event.data;
+      switch (response.type) {
+        case 'progress':
+          callbacks.onProgress(response.progress);
+          break;
+        case 'roundComplete':
+          callbacks.onRoundComplete?.(response.rounds, response.roundNumber);
+          break;
+        case 'done':
+          finish();
+          resolve(response.schedule);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      if (!started) {
+        runOnMainThread(request, callbacks, signal).then(resolve, reject);
+      } else {
+        reject(new Error(event.message || '生成に失敗しました'));
+      }
+    };
+
+    worker.postMessage(request);
+  });
+}
@@ -1,8 +1,35 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
   base: '/doubles-random-number-table/',
-  plugins: [react()],
+  // スケジュール生成 Worker（src/workers/scheduleWorker.ts）は ES モジュールとして出力する
+  worker: { format: 'es' },
+  plugins: [
+    react(),
+    // ビルド成果物をすべてプリキャッシュし、電波の悪いコートでもオフラインで動作させる
+    VitePWA({
+      registerType: 'prompt', // 更新は UpdatePrompt でユーザーに確認してから適用する
+      includeAssets: ['favicon.svg', 'apple-touch-icon-180x180.png'],
+      manifest: {
+        name: 'ダブルスガチャシミュレータ',
+        short_name: 'ダブルスガチャ',
+        description: 'ダブルスの組み合わせ表（乱数表）をペア・対戦・休憩が均等になるように自動生成します',
+        lang: 'ja',
+        theme_color: '#1565c0',
+        background_color: '#fafafa',
+        display: 'standalone',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png,webmanifest}'],
+      },
+    }),
+  ],
 })